@@ -0,0 +1,140 @@
+/**
+ * In-memory stand-in for the Prisma client, shared by the service tests.
+ *
+ * A table is a plain array of rows. `where` supports equality, in/notIn,
+ * not, lt/lte/gt/gte, contains, OR/AND and the relation filters the table is
+ * given; `select` picks scalar fields. `include` is ignored, so tests that
+ * need related rows override that one method.
+ */
+
+export type Row = Record<string, any>;
+
+/** Relation filters by name: finds the related row of a row */
+export type Relations = Record<string, (row: Row) => Row | undefined>;
+
+export interface TableOptions {
+    relations?: Relations;
+    /** Fields a created row starts with (ids, defaults); gets the current rows */
+    defaults?: (rows: Row[]) => Row;
+    /** Order of findFirst/findMany results */
+    order?: (a: Row, b: Row) => number;
+}
+
+function isFilter(condition: unknown): condition is Row {
+    return !!condition && typeof condition === 'object' && !(condition instanceof Date) && !Array.isArray(condition);
+}
+
+function same(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    return (a ?? null) === (b ?? null);
+}
+
+function satisfies(value: any, op: string, operand: any): boolean {
+    switch (op) {
+        case 'in': return operand.some((item: unknown) => same(value, item));
+        case 'notIn': return !operand.some((item: unknown) => same(value, item));
+        case 'not': return !same(value, operand);
+        case 'lt': return value !== null && value !== undefined && value < operand;
+        case 'lte': return value !== null && value !== undefined && value <= operand;
+        case 'gt': return value !== null && value !== undefined && value > operand;
+        case 'gte': return value !== null && value !== undefined && value >= operand;
+        case 'contains': return typeof value === 'string' && value.includes(operand);
+        default: throw new Error(`prismaMock: unsupported filter "${op}"`);
+    }
+}
+
+export function matches(row: Row, where: Row = {}, relations: Relations = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+        // Prisma ignores filters that are undefined
+        if (condition === undefined) return true;
+        if (key === 'OR') return condition.some((branch: Row) => matches(row, branch, relations));
+        if (key === 'AND') return [condition].flat().every((branch: Row) => matches(row, branch, relations));
+        if (relations[key]) {
+            const related = relations[key](row);
+            return !!related && matches(related, condition);
+        }
+        if (isFilter(condition)) {
+            return Object.entries(condition).every(([op, operand]) => satisfies(row[key], op, operand));
+        }
+        return same(row[key], condition);
+    });
+}
+
+/**
+ * Applies update data like Prisma: { increment } and { decrement } change the
+ * value, undefined leaves the field alone
+ */
+export function apply(row: Row, data: Row): Row {
+    for (const [key, value] of Object.entries(data)) {
+        if (value === undefined) continue;
+        if (isFilter(value) && 'increment' in value) row[key] += value.increment;
+        else if (isFilter(value) && 'decrement' in value) row[key] -= value.decrement;
+        else row[key] = value;
+    }
+    return row;
+}
+
+// A compound unique key ({ userId_email: { userId, email } }) is a plain filter on its fields
+function uniqueWhere(where: Row): Row {
+    return Object.fromEntries(Object.entries(where).flatMap(([key, value]) =>
+        isFilter(value) && Object.keys(value).join('_') === key ? Object.entries(value) : [[key, value]]));
+}
+
+// Reads return the stored row itself, so tests can look at what a service changed
+function pick(row: Row | null, select?: Row): Row | null {
+    if (!row || !select) return row;
+    return Object.fromEntries(Object.keys(select).filter(key => select[key] === true).map(key => [key, row[key]]));
+}
+
+function notFound(): never {
+    throw Object.assign(new Error('Record to update not found.'), { code: 'P2025' });
+}
+
+/**
+ * A model delegate over the rows `rows()` returns. Takes a getter so tests
+ * can swap the array in beforeEach.
+ */
+export function table(rows: () => Row[], { relations = {}, defaults = () => ({}), order }: TableOptions = {}) {
+    const filter = (where?: Row): Row[] => {
+        const found = rows().filter(row => matches(row, where, relations));
+        return order ? found.sort(order) : found;
+    };
+    const unique = (where: Row): Row | null => filter(uniqueWhere(where))[0] || null;
+    const create = (data: Row): Row => {
+        const row = { ...defaults(rows()), ...data };
+        rows().push(row);
+        return row;
+    };
+    const remove = (row: Row): Row => {
+        rows().splice(rows().indexOf(row), 1);
+        return row;
+    };
+
+    return {
+        findUnique: jest.fn(async ({ where, select }: Row) => pick(unique(where), select)),
+        findUniqueOrThrow: jest.fn(async ({ where, select }: Row) => pick(unique(where) ?? notFound(), select)),
+        findFirst: jest.fn(async ({ where, select, skip = 0 }: Row = {}) => pick(filter(where)[skip] || null, select)),
+        findMany: jest.fn(async ({ where, select, skip = 0, take }: Row = {}) =>
+            filter(where).slice(skip, take === undefined ? undefined : skip + take).map(row => pick(row, select)!)),
+        count: jest.fn(async ({ where }: Row = {}) => filter(where).length),
+        create: jest.fn(async ({ data }: Row) => create(data)),
+        createMany: jest.fn(async ({ data }: Row) => ({ count: data.map(create).length })),
+        update: jest.fn(async ({ where, data }: Row) => apply(unique(where) ?? notFound(), data)),
+        updateMany: jest.fn(async ({ where, data }: Row) => {
+            const found = filter(where);
+            found.forEach(row => apply(row, data));
+            return { count: found.length };
+        }),
+        upsert: jest.fn(async ({ where, create: data, update }: Row) => {
+            const row = unique(where);
+            return row ? apply(row, update) : create(data);
+        }),
+        delete: jest.fn(async ({ where }: Row) => remove(unique(where) ?? notFound())),
+        deleteMany: jest.fn(async ({ where }: Row = {}) => ({ count: filter(where).map(remove).length })),
+    };
+}
+
+/** $transaction over an array of queries, the only form the services use */
+export function transaction() {
+    return jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations));
+}
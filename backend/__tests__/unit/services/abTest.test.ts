@@ -0,0 +1,179 @@
+/**
+ * Unit tests for A/B subject-line variants
+ */
+
+import { Row, matches, table } from '../../helpers/prismaMock';
+
+const db: { campaigns: any[]; tracking: Row[]; recipients: Row[] } = { campaigns: [], tracking: [], recipients: [] };
+
+jest.mock('../../../src/config/database', () => {
+    const relations = { recipient: (row: Row) => db.recipients.find(r => r.id === row.recipientId) };
+
+    return {
+        __esModule: true,
+        default: {
+            campaign: table(() => db.campaigns),
+            emailTracking: {
+                ...table(() => db.tracking, { relations, order: (a, b) => a.createdAt - b.createdAt }),
+                groupBy: jest.fn(async ({ where }) => {
+                    const counts = new Map<string, number>();
+                    db.tracking.filter(t => matches(t, where, relations)).forEach(t => counts.set(t.variant, (counts.get(t.variant) || 0) + 1));
+                    return [...counts].map(([variant, count]) => ({ variant, _count: { _all: count } }));
+                }),
+            },
+        },
+    };
+});
+
+jest.mock('../../../src/config/env', () => ({
+    env: { AB_TEST_EVALUATION_MS: 4 * 60 * 60 * 1000, AB_TEST_MIN_OPENS: 20 },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { AbTestService, abTestFields, pickWinner } from '../../../src/services/abTest.service';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Picking a winner', () => {
+    const rules = { evaluationMs: 4 * HOUR, minOpens: 20 };
+    const now = new Date('2025-03-10T12:00:00Z');
+    const sample = (label: string, sent: number, opened: number, hoursAgo = 5) =>
+        ({ label, sent, opened, completedAt: new Date(now.getTime() - hoursAgo * HOUR) });
+
+    it('should compare open rates, not open counts, and leave a tie undecided', () => {
+        expect(pickWinner([sample('A', 20, 6), sample('B', 10, 4)], rules, now)).toBe('B');
+        expect(pickWinner([sample('A', 20, 4), sample('B', 10, 2)], rules, now)).toBeNull();
+    });
+
+    it('should wait for the opens of the last sample email unless there are plenty already', () => {
+        expect(pickWinner([sample('A', 10, 1), sample('B', 10, 0, 1)], rules, now)).toBeNull();
+        expect(pickWinner([sample('A', 50, 15), sample('B', 50, 5, 1)], rules, now)).toBe('A');
+    });
+});
+
+describe('A/B Test Service', () => {
+    const service = new AbTestService();
+    // Sent in order, five hours ago unless said otherwise
+    const track = (variant: string, opened: boolean, sentAt = Date.now() - 5 * HOUR, status = 'sent') => {
+        const recipientId = `r-${db.tracking.length}`;
+        db.recipients.push({ id: recipientId, status });
+        db.tracking.push({
+            campaignId: 'camp-1',
+            recipientId,
+            variant,
+            openCount: opened ? 1 : 0,
+            createdAt: new Date(sentAt + db.tracking.length),
+        });
+    };
+
+    beforeEach(() => {
+        db.campaigns = [{
+            id: 'camp-1',
+            userId: 'user-1',
+            subject: 'Quick question, {firstName}',
+            body: '<p>Hi</p>',
+            winningVariant: null,
+            ...abTestFields({ variants: [{ subject: 'Idea for {companyName}' }], sampleSize: 2 }),
+        }];
+        db.tracking = [];
+        db.recipients = [];
+    });
+
+    it('should give each recipient the same variant every time and split the list between them', async () => {
+        const campaign = db.campaigns[0];
+        const emails = Array.from({ length: 20 }, (_, i) => `person${i}@client.com`);
+
+        const first = await Promise.all(emails.map(email => service.variantFor(campaign, email)));
+        const again = await Promise.all(emails.map(email => service.variantFor(campaign, email.toUpperCase())));
+
+        expect(again.map(v => v!.label)).toEqual(first.map(v => v!.label));
+        expect(new Set(first.map(v => v!.label))).toEqual(new Set(['A', 'B']));
+        expect(first.find(v => v!.label === 'B')).toEqual({ label: 'B', subject: 'Idea for {companyName}', body: '<p>Hi</p>' });
+    });
+
+    it('should promote the variant with the better open rate once the sample is in and opened', async () => {
+        track('A', false);
+        track('A', true);
+        track('B', true);
+        expect(await service.variantFor(db.campaigns[0], 'x@client.com')).not.toBeNull();
+        expect(db.campaigns[0].winningVariant).toBeNull();
+
+        track('B', true);
+        const emails = ['a@client.com', 'b@client.com', 'c@client.com', 'd@client.com'];
+        const variants = await Promise.all(emails.map(email => service.variantFor(db.campaigns[0], email)));
+
+        expect(db.campaigns[0].winningVariant).toBe('B');
+        expect(variants.map(v => v!.label)).toEqual(['B', 'B', 'B', 'B']);
+    });
+
+    it('should keep splitting while the opens of a complete sample are still arriving, and judge the sample only', async () => {
+        track('A', false, Date.now());
+        track('A', false, Date.now());
+        track('B', true, Date.now());
+        track('B', false, Date.now());
+        const emails = Array.from({ length: 10 }, (_, i) => `person${i}@client.com`);
+
+        const early = await Promise.all(emails.map(email => service.variantFor(db.campaigns[0], email)));
+
+        expect(db.campaigns[0].winningVariant).toBeNull();
+        expect(new Set(early.map(v => v!.label))).toEqual(new Set(['A', 'B']));
+
+        // A's opens come in late; B's later sends are opened but aren't part of its sample
+        db.tracking.filter(t => t.variant === 'A').forEach(t => { t.openCount = 1; });
+        track('B', true, Date.now());
+        track('B', true, Date.now());
+        db.tracking.forEach(t => { t.createdAt = new Date(t.createdAt.getTime() - 5 * HOUR); });
+
+        expect((await service.variantFor(db.campaigns[0], 'x@client.com'))!.label).toBe('A');
+        expect(db.campaigns[0].winningVariant).toBe('A');
+    });
+
+    it('should only count emails that went out towards a sample', async () => {
+        track('A', false);
+        track('A', true, undefined, 'failed');
+        track('A', false, undefined, 'sending');
+        track('B', true);
+        track('B', true);
+
+        expect((await service.variantFor(db.campaigns[0], 'x@client.com'))).not.toBeNull();
+        expect(db.campaigns[0].winningVariant).toBeNull();
+
+        // Replies and soft bounces arrived, so they count
+        track('A', false, undefined, 'replied');
+        await service.variantFor(db.campaigns[0], 'x@client.com');
+
+        expect(db.campaigns[0].winningVariant).toBe('B');
+        const results = await service.getResults('user-1', 'camp-1');
+        expect(results.variants.map(v => [v.label, v.sent, v.opened])).toEqual([['A', 2, 0], ['B', 2, 2]]);
+    });
+
+    it('should not assign variants to a campaign that is not testing', async () => {
+        Object.assign(db.campaigns[0], abTestFields(null));
+
+        expect(await service.variantFor(db.campaigns[0], 'a@client.com')).toBeNull();
+        expect((await service.getResults('user-1', 'camp-1')).variants).toEqual([]);
+    });
+
+    it('should report sends, opens and the winner per variant', async () => {
+        track('A', true);
+        track('A', false);
+        track('B', true);
+        db.campaigns[0].winningVariant = 'B';
+
+        const results = await service.getResults('user-1', 'camp-1');
+
+        expect(results).toEqual({
+            sampleSize: 2,
+            winner: 'B',
+            variants: [
+                { label: 'A', subject: 'Quick question, {firstName}', sent: 2, opened: 1, openRate: 50, isWinner: false },
+                { label: 'B', subject: 'Idea for {companyName}', sent: 1, opened: 1, openRate: 100, isWinner: true },
+            ],
+        });
+        await expect(service.getResults('user-2', 'camp-1')).rejects.toThrow('Campaign not found');
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for refresh token rotation and reuse detection
+ */
+
+import { Row, table } from '../../helpers/prismaMock';
+
+const db: { users: Row[]; tokens: Row[] } = { users: [], tokens: [] };
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        user: table(() => db.users),
+        refreshToken: table(() => db.tokens, { defaults: () => ({ replacedById: null, revokedAt: null }) }),
+    },
+}));
+
+jest.mock('../../../src/config/env', () => ({
+    env: {
+        JWT_SECRET: 'access-secret-for-tests-only-0123456789',
+        JWT_EXPIRES_IN: '15m',
+        REFRESH_TOKEN_SECRET: 'refresh-secret-for-tests-only-0123456789',
+        REFRESH_TOKEN_EXPIRES_IN: '7d',
+    },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import prisma from '../../../src/config/database';
+import { AuthService } from '../../../src/services/auth.service';
+import { generateRefreshToken, verifyAccessToken, verifyRefreshToken } from '../../../src/utils/jwt';
+
+describe('Auth Service - refresh tokens', () => {
+    const service = new AuthService();
+    const user = { id: 'user-1', email: 'ada@example.com', fullName: 'Ada', isActive: true };
+
+    // A live token in a fresh family, as a login would leave it
+    function loggedIn(): string {
+        db.tokens.push({ id: 'token-1', userId: user.id, familyId: 'family-1', expiresAt: new Date(Date.now() + 60_000), replacedById: null, revokedAt: null });
+        return generateRefreshToken({ id: user.id, email: user.email, fullName: user.fullName }, 'token-1');
+    }
+
+    const live = () => db.tokens.filter(t => !t.revokedAt);
+
+    beforeEach(() => {
+        db.users = [{ ...user }];
+        db.tokens = [];
+    });
+
+    it('should swap a refresh token for a new one in the same family', async () => {
+        const presented = loggedIn();
+
+        const result = await service.refresh(presented);
+
+        const next = verifyRefreshToken(result.refreshToken!);
+        expect(verifyAccessToken(result.accessToken)).toMatchObject({ id: user.id, email: user.email });
+        expect(result.refreshTokenExpiresAt).toEqual(new Date(next.exp * 1000));
+        expect(db.tokens[0]).toMatchObject({ replacedById: next.jti, revokedAt: expect.any(Date) });
+        expect(live()).toEqual([expect.objectContaining({ id: next.jti, familyId: 'family-1' })]);
+    });
+
+    it('should let a parallel request that presents the just-rotated token through without a new token', async () => {
+        const presented = loggedIn();
+        const first = await service.refresh(presented);
+
+        const second = await service.refresh(presented);
+
+        expect(verifyAccessToken(second.accessToken).id).toBe(user.id);
+        expect(second.refreshToken).toBeUndefined();
+        // The first request's token is still the live one
+        expect(live().map(t => t.id)).toEqual([verifyRefreshToken(first.refreshToken!).jti]);
+    });
+
+    it('should not mint a second token when two requests rotate the same token at once', async () => {
+        const presented = loggedIn();
+        // Both requests read the token before either retires it
+        const findUnique = prisma.refreshToken.findUnique as jest.Mock;
+        findUnique.mockImplementationOnce(async () => ({ ...db.tokens[0] }));
+        findUnique.mockImplementationOnce(async () => ({ ...db.tokens[0] }));
+
+        const [a, b] = await Promise.all([service.refresh(presented), service.refresh(presented)]);
+
+        const issued = [a, b].filter(result => result.refreshToken);
+        expect(issued).toHaveLength(1);
+        expect(live().map(t => t.id)).toEqual([verifyRefreshToken(issued[0].refreshToken!).jti]);
+    });
+
+    it('should revoke the whole family when a rotated token comes back later', async () => {
+        const presented = loggedIn();
+        await service.refresh(presented);
+        db.tokens[0].revokedAt = new Date(Date.now() - 60_000);
+
+        await expect(service.refresh(presented))
+            .rejects.toMatchObject({ statusCode: 401, message: 'Refresh token has already been used. Please log in again.' });
+        expect(live()).toHaveLength(0);
+    });
+
+    it('should not accept a rotated token once its family was revoked', async () => {
+        const presented = loggedIn();
+        const { refreshToken } = await service.refresh(presented);
+        await service.logout(refreshToken);
+
+        await expect(service.refresh(presented)).rejects.toMatchObject({ statusCode: 401 });
+        await expect(service.refresh(refreshToken!)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject tokens it never issued or that belong to someone else', async () => {
+        loggedIn();
+
+        await expect(service.refresh('not-a-jwt')).rejects.toMatchObject({ statusCode: 401 });
+        const forged = generateRefreshToken({ id: 'user-2', email: 'eve@example.com', fullName: 'Eve' }, 'token-1');
+        await expect(service.refresh(forged)).rejects.toMatchObject({ statusCode: 401 });
+        expect(live()).toHaveLength(1);
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for DSN parsing and bounce handling
+ */
+
+import { Row, table } from '../../helpers/prismaMock';
+
+const db: Record<'emailTracking' | 'recipient' | 'sendJob' | 'suppression', Row[]> = {
+    emailTracking: [],
+    recipient: [],
+    sendJob: [],
+    suppression: [],
+};
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        // Newest first, as the service asks for
+        emailTracking: table(() => db.emailTracking, { order: (a, b) => b.createdAt - a.createdAt }),
+        recipient: table(() => db.recipient),
+        sendJob: table(() => db.sendJob),
+        suppression: table(() => db.suppression),
+    },
+}));
+
+jest.mock('../../../src/config/env', () => ({
+    env: { GLOBAL_SUPPRESSIONS: [] },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/services/campaign.service', () => ({
+    __esModule: true,
+    default: { updateCampaignCounts: jest.fn() },
+}));
+
+const emit = jest.fn();
+jest.mock('../../../src/server', () => ({
+    io: { to: () => ({ emit }) },
+}));
+
+import { BounceService } from '../../../src/services/bounce.service';
+import { classifyBounce, isDeliveryReport, parseDeliveryReport } from '../../../src/utils/bounce';
+
+function dsn(statusBlock: string, options: { base64?: boolean; original?: string } = {}): string {
+    const body = options.base64 ? Buffer.from(statusBlock).toString('base64') : statusBlock;
+    return [
+        'From: Mail Delivery System <mailer-daemon@example.com>',
+        'Subject: Undelivered Mail Returned to Sender',
+        'Content-Type: multipart/report; report-type=delivery-status;',
+        '\tboundary="b1"',
+        '',
+        '--b1',
+        'Content-Type: text/plain; charset=us-ascii',
+        '',
+        'This is the mail system. Your message could not be delivered.',
+        '',
+        '--b1',
+        'Content-Type: message/delivery-status',
+        ...(options.base64 ? ['Content-Transfer-Encoding: base64'] : []),
+        '',
+        body,
+        '',
+        '--b1',
+        'Content-Type: text/rfc822-headers',
+        '',
+        options.original ?? 'Message-ID: <sent-1@example.com>\r\nSubject: Hello',
+        '',
+        '--b1--',
+        '',
+    ].join('\r\n');
+}
+
+const HARD_BLOCK = [
+    'Reporting-MTA: dns; mx.example.com',
+    '',
+    'Final-Recipient: rfc822; Alice@Client.com',
+    'Original-Recipient: rfc822; alice@client.com',
+    'Action: failed',
+    'Status: 5.1.1',
+    'Diagnostic-Code: smtp; 550 5.1.1 <alice@client.com>: Recipient address rejected',
+].join('\r\n');
+
+describe('DSN parsing', () => {
+    it('should recognise delivery reports by content type', () => {
+        expect(isDeliveryReport('multipart/report; report-type="delivery-status"; boundary=x')).toBe(true);
+        expect(isDeliveryReport('multipart/report; report-type=disposition-notification')).toBe(false);
+        expect(isDeliveryReport('text/plain')).toBe(false);
+        expect(isDeliveryReport(undefined)).toBe(false);
+    });
+
+    it('should classify hard and soft bounces', () => {
+        expect(classifyBounce('failed', '5.1.1')).toBe('hard');
+        expect(classifyBounce('failed', '5.2.2')).toBe('soft'); // Mailbox full
+        expect(classifyBounce('failed', '4.4.7')).toBe('soft');
+        expect(classifyBounce('delayed', '4.7.1')).toBe('soft');
+        expect(classifyBounce('delivered', '2.0.0')).toBeNull();
+    });
+
+    it('should parse a hard bounce with the original Message-ID', () => {
+        const report = parseDeliveryReport(dsn(HARD_BLOCK));
+
+        expect(report).toEqual({
+            originalMessageId: '<sent-1@example.com>',
+            recipients: [{
+                email: 'alice@client.com',
+                action: 'failed',
+                status: '5.1.1',
+                diagnostic: '550 5.1.1 <alice@client.com>: Recipient address rejected',
+                type: 'hard',
+            }],
+        });
+    });
+
+    it('should parse base64 status parts and several recipients', () => {
+        const block = [
+            'Reporting-MTA: dns; mx.example.com',
+            '',
+            'Final-Recipient: rfc822; bob@client.com',
+            'Action: delayed',
+            'Status: 4.4.1',
+            '',
+            'Final-Recipient: rfc822; carol@client.com',
+            'Action: failed',
+            'Status: 5.2.2 (mailbox full)',
+            '',
+            'Final-Recipient: rfc822; dave@client.com',
+            'Action: delivered',
+            'Status: 2.0.0',
+        ].join('\r\n');
+
+        const report = parseDeliveryReport(dsn(block, { base64: true }));
+
+        expect(report!.recipients.map(r => [r.email, r.status, r.type])).toEqual([
+            ['bob@client.com', '4.4.1', 'soft'],
+            ['carol@client.com', '5.2.2', 'soft'],
+        ]);
+    });
+
+    it('should return null for ordinary messages', () => {
+        expect(parseDeliveryReport('Content-Type: text/plain\r\n\r\nThanks, sounds good!')).toBeNull();
+    });
+});
+
+describe('Bounce Service', () => {
+    const service = new BounceService();
+
+    beforeEach(() => {
+        emit.mockClear();
+        db.emailTracking = [
+            { id: 't1', userId: 'user-1', campaignId: 'c1', recipientId: 'r1', recipientEmail: 'alice@client.com', messageId: '<sent-1@example.com>', createdAt: new Date('2025-03-01') },
+            { id: 't2', userId: 'user-1', campaignId: 'c1', recipientId: 'r2', recipientEmail: 'bob@client.com', messageId: '<sent-2@example.com>', createdAt: new Date('2025-03-01') },
+        ];
+        db.recipient = [
+            { id: 'r1', campaignId: 'c1', email: 'alice@client.com', status: 'sent' },
+            { id: 'r2', campaignId: 'c1', email: 'bob@client.com', status: 'sent' },
+        ];
+        db.sendJob = [
+            { id: 'j1', recipientId: 'r1', status: 'pending' },
+            { id: 'j2', recipientId: 'r2', status: 'pending' },
+        ];
+        db.suppression = [];
+    });
+
+    it('should mark a hard bounce, suppress the address and cancel pending jobs', async () => {
+        const updated = await service.handleReport('user-1', parseDeliveryReport(dsn(HARD_BLOCK))!);
+
+        expect(updated).toBe(1);
+        expect(db.recipient[0]).toMatchObject({ status: 'bounced', errorMessage: expect.stringContaining('5.1.1') });
+        expect(db.suppression).toEqual([
+            expect.objectContaining({ userId: 'user-1', email: 'alice@client.com', reason: 'hard_bounce', campaignId: 'c1' }),
+        ]);
+        expect(db.sendJob.find(j => j.id === 'j1')!.status).toBe('cancelled');
+        expect(db.sendJob.find(j => j.id === 'j2')!.status).toBe('pending');
+        expect(emit).toHaveBeenCalledWith('email:bounced', expect.objectContaining({ email: 'alice@client.com', type: 'hard' }));
+    });
+
+    it('should record a soft bounce without suppressing the address', async () => {
+        const updated = await service.handleReport('user-1', {
+            recipients: [{ email: 'bob@client.com', action: 'delayed', status: '4.4.1', type: 'soft' }],
+        });
+
+        expect(updated).toBe(1);
+        expect(db.recipient[1].status).toBe('soft_bounced');
+        expect(db.suppression).toHaveLength(0);
+        expect(db.sendJob.find(j => j.id === 'j2')!.status).toBe('pending');
+    });
+
+    it('should suppress unmatched hard bounces and ignore other users\' emails', async () => {
+        const updated = await service.handleReport('user-2', parseDeliveryReport(dsn(HARD_BLOCK))!);
+
+        expect(updated).toBe(0);
+        expect(db.recipient[0].status).toBe('sent');
+        expect(db.suppression).toEqual([expect.objectContaining({ userId: 'user-2', email: 'alice@client.com' })]);
+    });
+});
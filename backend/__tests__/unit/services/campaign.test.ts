@@ -0,0 +1,380 @@
+/**
+ * Unit tests for persisted campaign sends, updates and test sends
+ */
+
+import { Row, apply, matches, table } from '../../helpers/prismaMock';
+
+const campaigns: Row[] = [];
+
+jest.mock('../../../src/config/database', () => {
+    const campaignTable = table(() => campaigns);
+    return {
+        __esModule: true,
+        default: {
+            campaign: {
+                ...campaignTable,
+                // A copy, like Prisma's, so the service sees the campaign as it was when read
+                findFirst: jest.fn(async (args) => {
+                    const found = await campaignTable.findFirst(args);
+                    return found && { ...found };
+                }),
+                update: jest.fn(async ({ where, data }) => {
+                    const campaign = campaigns.find(c => c.id === where.id)!;
+                    const { recipients, attachments, sequenceSteps, senders, ...fields } = data;
+                    recipients?.create.forEach((recipient: Row) => campaign.recipients.push({ status: 'queued', ...recipient }));
+                    return Object.assign(campaign, fields);
+                }),
+            },
+            recipient: {
+                updateMany: jest.fn(async ({ where: { campaignId, ...where }, data }) => {
+                    const rows = campaigns.find(c => c.id === campaignId)!.recipients.filter((r: Row) => matches(r, where));
+                    rows.forEach((r: Row) => apply(r, data));
+                    return { count: rows.length };
+                }),
+                groupBy: jest.fn(async ({ where }) => {
+                    const counts = new Map<string, number>();
+                    campaigns.find(c => c.id === where.campaignId)!.recipients
+                        .forEach((r: Row) => counts.set(r.status, (counts.get(r.status) || 0) + 1));
+                    return [...counts].map(([status, _count]) => ({ status, _count }));
+                }),
+            },
+            user: {
+                findUnique: jest.fn(async () => ({ email: 'owner@example.com' })),
+            },
+            emailCredential: {
+                findMany: jest.fn(async () => [
+                    { id: 'cred-1', email: 'sender@example.com', isDefault: true },
+                    { id: 'cred-2', email: 'other@example.com', isDefault: false },
+                ]),
+            },
+        },
+    };
+});
+
+jest.mock('../../../src/config/env', () => ({
+    env: { AB_TEST_EVALUATION_MS: 4 * 60 * 60 * 1000, AB_TEST_MIN_OPENS: 50 },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/services/suppression.service', () => ({
+    __esModule: true,
+    default: { findSuppressions: jest.fn() },
+    suppressedMessage: jest.fn(),
+}));
+
+jest.mock('../../../src/services/credential.service', () => ({
+    __esModule: true,
+    default: {
+        getCredentialById: jest.fn(async (_userId: string, id: string) => ({
+            id,
+            email: id === 'cred-1' ? 'sender@example.com' : 'other@example.com',
+            appPassword: 'secret',
+            isDefault: id === 'cred-1',
+        })),
+    },
+}));
+
+jest.mock('../../../src/services/email.service', () => {
+    const actual = jest.requireActual('../../../src/services/email.service');
+    return {
+        __esModule: true,
+        default: {
+            personalizeContent: actual.EmailService.prototype.personalizeContent,
+            sendEmail: jest.fn(async () => ({ messageId: '<test-1@example.com>' })),
+            prepareTrackedEmail: jest.fn(),
+        },
+    };
+});
+
+jest.mock('../../../src/services/sendingQuota.service', () => ({
+    __esModule: true,
+    default: { availableAt: jest.fn(async () => null), recordSend: jest.fn() },
+}));
+
+import prisma from '../../../src/config/database';
+import { CampaignService } from '../../../src/services/campaign.service';
+import emailService from '../../../src/services/email.service';
+import suppressionService from '../../../src/services/suppression.service';
+import sendingQuota from '../../../src/services/sendingQuota.service';
+import { AppError } from '../../../src/middleware/errorHandler';
+
+describe('Campaign Service test sends', () => {
+    const service = new CampaignService();
+    const sendEmail = emailService.sendEmail as jest.Mock;
+
+    const data = {
+        subject: 'Hi {fullName}',
+        body: '<p>Hello {fullName} at {companyName}. {unsubscribe_link}</p>',
+        recipient: { email: 'alice@client.com', fullName: 'Alice', companyName: 'Acme', employees: 40 },
+        attachments: [{ filename: 'cv.pdf', content: Buffer.from('pdf').toString('base64'), contentType: 'application/pdf' }],
+    };
+
+    beforeEach(() => {
+        sendEmail.mockClear();
+        (sendingQuota.recordSend as jest.Mock).mockClear();
+    });
+
+    it('should send the personalized copy to the account address without tracking', async () => {
+        const result = await service.sendTestEmail('user-1', data);
+
+        expect(result).toEqual({
+            messageId: '<test-1@example.com>',
+            sentTo: ['owner@example.com'],
+            previewedRecipient: 'alice@client.com',
+        });
+        expect(sendEmail).toHaveBeenCalledWith(
+            expect.objectContaining({ email: 'sender@example.com' }),
+            expect.objectContaining({
+                from: 'sender@example.com',
+                to: 'owner@example.com',
+                subject: '[Test] Hi Alice',
+                html: '<p>Hello Alice at Acme. #unsubscribe</p>',
+                attachments: [{ filename: 'cv.pdf', content: Buffer.from('pdf'), contentType: 'application/pdf' }],
+            })
+        );
+        expect(emailService.prepareTrackedEmail).not.toHaveBeenCalled();
+    });
+
+    it('should only send to the user\'s own addresses', async () => {
+        await service.sendTestEmail('user-1', { ...data, credentialEmail: 'other@example.com', to: ['Sender@example.com', 'owner@example.com'] });
+        expect(sendEmail.mock.calls[0][1].to).toBe('Sender@example.com, owner@example.com');
+
+        await expect(service.sendTestEmail('user-1', { ...data, to: ['alice@client.com'] }))
+            .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('alice@client.com') });
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report SMTP login failures as a 400', async () => {
+        sendEmail.mockRejectedValueOnce(new AppError('SMTP authentication failed. Please check your password.', 401));
+
+        await expect(service.sendTestEmail('user-1', data)).rejects.toMatchObject({ statusCode: 400 });
+        expect(sendingQuota.recordSend).not.toHaveBeenCalled();
+    });
+
+    it('should count test emails toward the sender\'s daily limit', async () => {
+        await service.sendTestEmail('user-1', data);
+        expect(sendingQuota.recordSend).toHaveBeenCalledWith('cred-1');
+
+        (sendingQuota.availableAt as jest.Mock).mockResolvedValueOnce(new Date('2025-03-15T00:00:00Z'));
+        await expect(service.sendTestEmail('user-1', data)).rejects.toMatchObject({
+            statusCode: 429,
+            message: 'Daily sending limit reached for sender@example.com. It can send again from 2025-03-15T00:00:00.000Z.',
+        });
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('Campaign Service updates', () => {
+    const service = new CampaignService();
+    const nextYear = `${new Date().getFullYear() + 1}-03-14T09:30`;
+
+    beforeEach(() => {
+        campaigns.length = 0;
+    });
+
+    it('should reschedule a campaign that has not started', async () => {
+        campaigns.push({ id: 'camp-1', userId: 'user-1', status: 'draft', scheduledTime: null, timezone: 'UTC' });
+
+        const updated = await service.updateCampaign('user-1', 'camp-1', { scheduledTime: nextYear, timezone: 'UTC' });
+
+        expect(updated).toMatchObject({ status: 'scheduled', scheduledTime: new Date(`${nextYear}:00Z`) });
+    });
+
+    it('should not reschedule a cancelled campaign', async () => {
+        campaigns.push({ id: 'camp-1', userId: 'user-1', status: 'cancelled', scheduledTime: new Date('2025-03-14T09:30:00Z'), timezone: 'UTC' });
+
+        await expect(service.updateCampaign('user-1', 'camp-1', { scheduledTime: nextYear }))
+            .rejects.toMatchObject({ statusCode: 400, message: 'A cancelled campaign cannot be rescheduled' });
+        await expect(service.updateCampaign('user-1', 'camp-1', { status: 'scheduled' }))
+            .rejects.toMatchObject({ statusCode: 400 });
+        expect(campaigns[0].status).toBe('cancelled');
+    });
+
+    it('should only let a paused campaign be resumed or cancelled', async () => {
+        campaigns.push({ id: 'camp-1', userId: 'user-1', status: 'paused', scheduledTime: null, timezone: 'UTC' });
+
+        for (const data of [{ status: 'draft' }, { status: 'scheduled' }, { scheduledTime: nextYear }]) {
+            await expect(service.updateCampaign('user-1', 'camp-1', data))
+                .rejects.toMatchObject({ statusCode: 400, message: 'A paused campaign can only be resumed or cancelled' });
+        }
+        expect(campaigns[0].status).toBe('paused');
+
+        // Renaming doesn't touch the queue
+        await service.updateCampaign('user-1', 'camp-1', { name: 'Spring outreach' });
+        expect(campaigns[0]).toMatchObject({ status: 'paused', name: 'Spring outreach' });
+    });
+
+    it('should only allow status changes a campaign can make without the queue', async () => {
+        campaigns.push({ id: 'camp-1', userId: 'user-1', status: 'completed', scheduledTime: null, timezone: 'UTC' });
+        campaigns.push({ id: 'camp-2', userId: 'user-1', status: 'scheduled', scheduledTime: new Date(`${nextYear}:00Z`), timezone: 'UTC' });
+
+        await expect(service.updateCampaign('user-1', 'camp-1', { status: 'draft' }))
+            .rejects.toMatchObject({ statusCode: 400, message: 'Cannot change a completed campaign to draft' });
+        expect(campaigns[0].status).toBe('completed');
+
+        expect(await service.updateCampaign('user-1', 'camp-2', { status: 'draft' })).toMatchObject({ status: 'draft' });
+    });
+
+    it('should drop the queued recipients of a scheduled campaign it cancels', async () => {
+        campaigns.push({
+            id: 'camp-1', userId: 'user-1', status: 'scheduled', scheduledTime: new Date(`${nextYear}:00Z`), timezone: 'UTC',
+            recipients: [{ email: 'ada@client.com', status: 'queued' }, { email: 'bo@client.com', status: 'failed' }],
+        });
+
+        const updated = await service.updateCampaign('user-1', 'camp-1', { status: 'cancelled' });
+
+        expect(updated.status).toBe('cancelled');
+        expect(campaigns[0].recipients).toEqual([
+            { email: 'ada@client.com', status: 'cancelled', errorMessage: 'Cancelled before sending' },
+            { email: 'bo@client.com', status: 'failed' },
+        ]);
+        expect(campaigns[0]).toMatchObject({ sentCount: 0, failedCount: 1 });
+    });
+
+    it('should not overwrite a campaign the scheduler started in the meantime', async () => {
+        campaigns.push({ id: 'camp-1', userId: 'user-1', status: 'scheduled', scheduledTime: new Date('2025-03-14T09:30:00Z'), timezone: 'UTC' });
+        // The scheduler claims it between the read and the write
+        (prisma.campaign.findFirst as jest.Mock).mockImplementationOnce(async () => {
+            const read = { ...campaigns[0] };
+            campaigns[0].status = 'sending';
+            return read;
+        });
+
+        await expect(service.updateCampaign('user-1', 'camp-1', { scheduledTime: nextYear }))
+            .rejects.toMatchObject({ statusCode: 409 });
+        expect(campaigns[0]).toMatchObject({ status: 'sending', scheduledTime: new Date('2025-03-14T09:30:00Z') });
+    });
+});
+
+describe('Campaign Service sends', () => {
+    const service = new CampaignService();
+
+    beforeEach(() => {
+        campaigns.length = 0;
+        (suppressionService.findSuppressions as jest.Mock).mockResolvedValue(new Map());
+    });
+
+    function campaign(fields: Row = {}): Row {
+        const row = {
+            id: 'camp-1',
+            userId: 'user-1',
+            status: 'draft',
+            timezone: 'UTC',
+            totalRecipients: 1,
+            sentCount: 0,
+            failedCount: 0,
+            createdAt: new Date('2025-03-14T09:00:00Z'),
+            updatedAt: new Date('2025-03-14T10:00:00Z'),
+            recipients: [{ email: 'ada@client.com', status: 'queued', errorMessage: null, sentAt: null }],
+            ...fields,
+        };
+        campaigns.push(row);
+        return row;
+    }
+
+    it('should add only the recipients a draft doesn\'t have yet', async () => {
+        campaign();
+        const recipient = (email: string) => ({ email, fullName: 'Someone', companyName: 'Client' });
+
+        const updated = await service.attachSendRequest('user-1', 'camp-1', { subject: 'Hi {fullName}' }, [
+            recipient('Ada@client.com'),
+            recipient('bo@client.com'),
+            recipient('BO@client.com'),
+        ]);
+
+        expect(updated.recipients.map((r: Row) => r.email)).toEqual(['ada@client.com', 'bo@client.com']);
+        expect(updated).toMatchObject({ status: 'draft', subject: 'Hi {fullName}', totalRecipients: 2, scheduledTime: null });
+    });
+
+    it('should not send a campaign that has already gone out', async () => {
+        campaign({ status: 'completed' });
+
+        await expect(service.attachSendRequest('user-1', 'camp-1', {}))
+            .rejects.toMatchObject({ statusCode: 400, message: 'Cannot send a completed campaign' });
+        await expect(service.attachSendRequest('user-2', 'camp-1', {}))
+            .rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should rebuild a run\'s progress from the stored recipients', async () => {
+        campaign({
+            status: 'sending',
+            totalRecipients: 3,
+            sentCount: 1,
+            failedCount: 1,
+            recipients: [
+                { email: 'ada@client.com', status: 'sent', errorMessage: null, sentAt: new Date('2025-03-14T09:01:00Z') },
+                { email: 'bo@client.com', status: 'failed', errorMessage: 'Mailbox full', sentAt: null },
+                { email: 'cy@client.com', status: 'cancelled', errorMessage: 'Unsubscribed', sentAt: null },
+            ],
+        });
+
+        const run = await service.getRunStatus('user-1', 'camp-1');
+
+        expect(run).toMatchObject({ id: 'camp-1', status: 'running', totalCount: 3, sentCount: 1, failedCount: 1, cancelledCount: 1, completedAt: undefined });
+        expect(run!.recipients['bo@client.com']).toEqual({ email: 'bo@client.com', status: 'failed', error: 'Mailbox full', sentAt: undefined });
+
+        campaigns[0].status = 'failed';
+        expect(await service.getRunStatus('user-1', 'camp-1')).toMatchObject({ status: 'completed', completedAt: campaigns[0].updatedAt });
+
+        campaigns[0].status = 'draft';
+        expect(await service.getRunStatus('user-1', 'camp-1')).toBeNull();
+    });
+
+    it('should count replies and soft bounces as sent and hard bounces as failed', async () => {
+        campaign({
+            recipients: ['sent', 'replied', 'soft_bounced', 'bounced', 'failed', 'cancelled', 'queued'].map(status => ({ status })),
+        });
+
+        await service.updateCampaignCounts('camp-1');
+
+        expect(campaigns[0]).toMatchObject({ sentCount: 3, failedCount: 2 });
+    });
+});
+
+describe('Campaign Service personalization check', () => {
+    const service = new CampaignService();
+
+    beforeEach(() => {
+        campaigns.length = 0;
+        campaigns.push({
+            id: 'camp-1', userId: 'user-1', status: 'scheduled',
+            subject: 'Hi {fullName}', body: '<p>{fullName} at {companyName}</p>', variants: null,
+            // The queued recipients and steps the query includes
+            recipients: [
+                { email: 'ada@client.com', fullName: 'Ada', companyName: 'Acme', jobTitle: null, mergeFields: JSON.stringify({ email: 'ada@client.com', fullName: 'Ada', companyName: 'Acme', city: '' }) },
+                { email: 'bo@client.com', fullName: 'Bo', companyName: '', jobTitle: null, mergeFields: null },
+            ],
+            sequenceSteps: [{ stepOrder: 1, subject: null, body: 'Following up from {city}' }],
+        });
+    });
+
+    it('should check the stored campaign against its queued recipients', async () => {
+        const report = await service.personalizationReport('user-1', 'camp-1');
+
+        expect(report.unknownPlaceholders).toEqual([]);
+        expect(report.blankRecipients).toEqual([
+            { email: 'ada@client.com', fields: ['city'] },
+            { email: 'bo@client.com', fields: ['companyName', 'city'] },
+        ]);
+    });
+
+    it('should apply a send request\'s changes first', async () => {
+        const report = await service.personalizationReport('user-1', 'camp-1', {
+            body: '<p>Hello {fullName}</p>',
+            sequence: [],
+            variants: [{ subject: 'Quick question for {fullName}' }],
+            recipients: [{ email: 'ADA@client.com', fullName: '' }, { email: 'cy@client.com', fullName: '' }],
+        });
+
+        expect(report.placeholders).toEqual(['fullName']);
+        expect(report.blankRecipients).toEqual([{ email: 'cy@client.com', fields: ['fullName'] }]);
+    });
+
+    it('should not check another user\'s campaign', async () => {
+        await expect(service.personalizationReport('user-2', 'camp-1')).rejects.toMatchObject({ statusCode: 404 });
+    });
+});
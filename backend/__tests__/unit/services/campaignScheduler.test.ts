@@ -0,0 +1,153 @@
+/**
+ * Unit tests for starting scheduled campaigns
+ */
+
+import { Row, table, transaction } from '../../helpers/prismaMock';
+
+const db: { campaigns: Row[]; recipients: Row[]; credentials: Row[] } = { campaigns: [], recipients: [], credentials: [] };
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        campaign: table(() => db.campaigns, { order: (a, b) => a.scheduledTime - b.scheduledTime }),
+        emailCredential: table(() => db.credentials),
+        recipient: table(() => db.recipients),
+        $transaction: transaction(),
+    },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/services/sendQueue.service', () => ({
+    __esModule: true,
+    default: { enqueueCampaign: jest.fn(async (_campaignId: string, recipientIds: string[]) => recipientIds.length) },
+}));
+
+jest.mock('../../../src/services/campaign.service', () => ({
+    __esModule: true,
+    default: { personalizationReport: jest.fn(async () => ({ placeholders: [], unknownPlaceholders: [], blankRecipients: [] })) },
+}));
+
+jest.mock('../../../src/server', () => ({
+    io: { to: () => ({ emit: jest.fn() }) },
+}));
+
+import prisma from '../../../src/config/database';
+import { CampaignSchedulerService } from '../../../src/services/campaignScheduler.service';
+import sendQueue from '../../../src/services/sendQueue.service';
+import campaignService from '../../../src/services/campaign.service';
+
+describe('Campaign Scheduler', () => {
+    const scheduler = new CampaignSchedulerService();
+    const enqueueCampaign = sendQueue.enqueueCampaign as jest.Mock;
+    const now = new Date('2025-03-14T09:00:00Z');
+
+    function campaign(id: string, fields: Row = {}): Row {
+        return { id, userId: 'user-1', status: 'scheduled', scheduledTime: new Date('2025-03-14T08:59:00Z'), credentialId: 'cred-1', ...fields };
+    }
+
+    beforeEach(() => {
+        enqueueCampaign.mockClear();
+        (campaignService.personalizationReport as jest.Mock).mockClear();
+        db.campaigns = [];
+        db.recipients = [];
+        db.credentials = [{ id: 'cred-default', userId: 'user-1', isDefault: true }];
+    });
+
+    it('should start only scheduled campaigns that are due', async () => {
+        db.campaigns = [
+            campaign('due'),
+            campaign('later', { scheduledTime: new Date('2025-03-14T09:30:00Z') }),
+            campaign('cancelled', { status: 'cancelled' }),
+        ];
+        db.recipients = [
+            { id: 'r1', campaignId: 'due', status: 'queued' },
+            { id: 'r2', campaignId: 'due', status: 'queued' },
+            { id: 'r3', campaignId: 'due', status: 'cancelled' },
+        ];
+
+        const started = await scheduler.dispatchDueCampaigns(now);
+
+        expect(started).toBe(1);
+        expect(enqueueCampaign).toHaveBeenCalledTimes(1);
+        expect(enqueueCampaign).toHaveBeenCalledWith('due', ['r1', 'r2']);
+        expect(db.campaigns.map(c => c.status)).toEqual(['sending', 'scheduled', 'cancelled']);
+    });
+
+    it('should send from the default credential when the campaign has none', async () => {
+        db.campaigns = [campaign('due', { credentialId: null })];
+
+        await scheduler.dispatchDueCampaigns(now);
+
+        expect(db.campaigns[0].credentialId).toBe('cred-default');
+        expect(enqueueCampaign).toHaveBeenCalledWith('due', []);
+    });
+
+    it('should fail the campaign when there is no sender to send from', async () => {
+        db.credentials = [];
+        db.campaigns = [campaign('due', { credentialId: null })];
+        db.recipients = [{ id: 'r1', campaignId: 'due', status: 'queued' }];
+
+        const started = await scheduler.dispatchDueCampaigns(now);
+
+        expect(started).toBe(0);
+        expect(enqueueCampaign).not.toHaveBeenCalled();
+        expect(db.campaigns[0].status).toBe('failed');
+        expect(db.recipients[0]).toMatchObject({ status: 'failed', errorMessage: expect.stringContaining('No default email credential') });
+    });
+
+    it('should not start a campaign that was cancelled or claimed after the poll', async () => {
+        // Still scheduled when the poll read it, cancelled before the claim
+        db.campaigns = [campaign('due', { status: 'cancelled' })];
+        (prisma.campaign.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'due' }]);
+
+        const started = await scheduler.dispatchDueCampaigns(now);
+
+        expect(started).toBe(0);
+        expect(enqueueCampaign).not.toHaveBeenCalled();
+        expect(db.campaigns[0].status).toBe('cancelled');
+    });
+
+    it('should not start a campaign that was rescheduled after the poll', async () => {
+        db.campaigns = [campaign('due', { scheduledTime: new Date('2025-03-15T09:00:00Z') })];
+        (prisma.campaign.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'due' }]);
+
+        const started = await scheduler.dispatchDueCampaigns(now);
+
+        expect(started).toBe(0);
+        expect(enqueueCampaign).not.toHaveBeenCalled();
+        expect(db.campaigns[0].status).toBe('scheduled');
+    });
+
+    it('should hold back a campaign with blank personalization nobody accepted', async () => {
+        db.campaigns = [campaign('blank'), campaign('accepted', { personalizationAcknowledged: true })];
+        (campaignService.personalizationReport as jest.Mock).mockResolvedValueOnce({
+            placeholders: ['companyName'],
+            unknownPlaceholders: [],
+            blankRecipients: [{ email: 'ada@client.com', fields: ['companyName'] }],
+        });
+
+        const started = await scheduler.dispatchDueCampaigns(now);
+
+        expect(started).toBe(1);
+        expect(db.campaigns[0]).toMatchObject({ status: 'draft', scheduledTime: null });
+        expect(db.campaigns[1].status).toBe('sending');
+        expect(enqueueCampaign).toHaveBeenCalledTimes(1);
+        expect(enqueueCampaign).toHaveBeenCalledWith('accepted', expect.any(Array));
+        // Accepted content isn't checked again
+        expect(campaignService.personalizationReport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark a campaign failed when it cannot be queued and carry on with the rest', async () => {
+        db.campaigns = [campaign('broken'), campaign('fine', { scheduledTime: new Date('2025-03-14T09:00:00Z') })];
+        enqueueCampaign.mockRejectedValueOnce(new Error('database is locked'));
+
+        const started = await scheduler.dispatchDueCampaigns(now);
+
+        expect(started).toBe(1);
+        expect(db.campaigns.map(c => c.status)).toEqual(['failed', 'sending']);
+    });
+});
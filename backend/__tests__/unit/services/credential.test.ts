@@ -0,0 +1,171 @@
+/**
+ * Unit tests for SMTP provider settings on sender credentials
+ */
+
+type Row = Record<string, any>;
+
+const credentials: Row[] = [];
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        emailCredential: {
+            findUnique: jest.fn(async ({ where }) => {
+                const { userId, email } = where.userId_email;
+                return credentials.find(r => r.userId === userId && r.email === email) || null;
+            }),
+            findFirst: jest.fn(async ({ where }) => credentials.find(r => r.id === where.id && r.userId === where.userId) || null),
+            updateMany: jest.fn(async () => ({ count: 0 })),
+            create: jest.fn(async ({ data, select }) => {
+                const row: Row = { id: `cred-${credentials.length + 1}`, createdAt: new Date(), ...data };
+                credentials.push(row);
+                return Object.fromEntries(Object.keys(select).map(key => [key, row[key]]));
+            }),
+        },
+    },
+}));
+
+jest.mock('../../../src/utils/encryption', () => ({
+    encrypt: (value: string) => `enc:${value}`,
+    decrypt: (value: string) => value.replace(/^enc:/, ''),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const verify = jest.fn();
+const createTransport = jest.fn((_options: Row) => ({ verify, close: jest.fn() }));
+jest.mock('nodemailer', () => ({
+    __esModule: true,
+    default: { createTransport: (options: Row) => createTransport(options) },
+}));
+
+// Every host is public unless listed
+const dnsRecords: Record<string, string> = { localhost: '127.0.0.1', 'mail.internal': '10.0.0.25', 'metadata.example.com': '169.254.169.254' };
+jest.mock('dns/promises', () => ({
+    lookup: jest.fn(async (host: string) => [{ address: dnsRecords[host] || '203.0.113.10', family: 4 }]),
+}));
+
+import { CredentialService } from '../../../src/services/credential.service';
+import { resolveSmtpSettings } from '../../../src/config/smtpProviders';
+import { SMTP_CONNECTION_FAILED } from '../../../src/services/email.service';
+import { emailCredentialSchema } from '../../../src/utils/validation';
+
+describe('SMTP provider presets', () => {
+    it('should default to Gmail', () => {
+        expect(resolveSmtpSettings()).toEqual({
+            provider: 'gmail',
+            host: 'smtp.gmail.com',
+            port: 587,
+            security: 'starttls',
+            authType: 'login',
+            username: null,
+            imapHost: 'imap.gmail.com',
+            imapPort: 993,
+        });
+    });
+
+    it('should let explicit settings override the preset', () => {
+        const settings = resolveSmtpSettings('zoho', { port: 587, security: 'starttls', username: ' ' });
+
+        expect(settings).toMatchObject({ host: 'smtp.zoho.com', port: 587, security: 'starttls', username: null });
+    });
+});
+
+describe('Credential Service', () => {
+    const service = new CredentialService();
+
+    beforeEach(() => {
+        credentials.length = 0;
+        verify.mockReset();
+        createTransport.mockClear();
+    });
+
+    it('should store the resolved settings without returning the password', async () => {
+        const credential = await service.createCredential('user-1', {
+            email: 'me@example.com',
+            appPassword: 'secret',
+            provider: 'custom',
+            host: 'mail.example.com',
+            port: 2525,
+            security: 'starttls',
+            username: 'me',
+        });
+
+        expect(credentials[0]).toMatchObject({
+            provider: 'custom',
+            smtpHost: 'mail.example.com',
+            smtpPort: 2525,
+            smtpSecurity: 'starttls',
+            smtpAuthType: 'login',
+            smtpUsername: 'me',
+            imapHost: null,
+        });
+        expect(credential).not.toHaveProperty('appPasswordEncrypted');
+
+        const stored = await service.getCredentialById('user-1', credential.id);
+        expect(stored.appPassword).toBe('secret');
+        expect(stored.smtp).toMatchObject({ host: 'mail.example.com', port: 2525, security: 'starttls', username: 'me' });
+    });
+
+    it('should test a connection with the preset\'s transport options', async () => {
+        verify.mockResolvedValue(true);
+
+        const result = await service.testConnection({ email: 'me@yahoo.com', appPassword: 'secret', provider: 'yahoo' });
+
+        expect(result).toEqual({ success: true, message: 'Connected to smtp.mail.yahoo.com:465 as me@yahoo.com' });
+        expect(createTransport).toHaveBeenCalledWith(expect.objectContaining({
+            host: '203.0.113.10',
+            tls: { servername: 'smtp.mail.yahoo.com' },
+            port: 465,
+            secure: true,
+            authMethod: 'LOGIN',
+            auth: { user: 'me@yahoo.com', pass: 'secret' },
+        }));
+        expect(credentials).toHaveLength(0);
+    });
+
+    it('should report failed logins as a 400', async () => {
+        verify.mockRejectedValue(Object.assign(new Error('Invalid login: 535 Authentication failed'), { code: 'EAUTH' }));
+
+        await expect(service.testConnection({ email: 'me@outlook.com', appPassword: 'wrong', provider: 'outlook' }))
+            .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('authentication failed') });
+    });
+
+    it('should not connect to internal hosts', async () => {
+        for (const host of ['localhost', 'mail.internal', 'metadata.example.com']) {
+            await expect(service.testConnection({ email: 'me@example.com', appPassword: 'secret', provider: 'custom', host }))
+                .rejects.toMatchObject({ statusCode: 400, message: SMTP_CONNECTION_FAILED });
+        }
+        expect(createTransport).not.toHaveBeenCalled();
+
+        await expect(service.createCredential('user-1', { email: 'me@example.com', appPassword: 'secret', provider: 'custom', host: 'mail.internal' }))
+            .rejects.toMatchObject({ statusCode: 400, message: 'SMTP host must be a public address' });
+        expect(credentials).toHaveLength(0);
+    });
+
+    it('should give the same error for every failed connection', async () => {
+        for (const code of ['ETIMEDOUT', 'ECONNECTION', 'ETLS', 'EDNS']) {
+            verify.mockRejectedValueOnce(Object.assign(new Error(`connect failed: ${code}`), { code }));
+
+            await expect(service.testConnection({ email: 'me@example.com', appPassword: 'secret', provider: 'custom', host: 'mail.example.com', port: 25 }))
+                .rejects.toMatchObject({ statusCode: 400, message: SMTP_CONNECTION_FAILED });
+        }
+    });
+});
+
+describe('Credential validation', () => {
+    const base = { email: 'me@example.com', appPassword: 'secret', provider: 'custom', host: 'mail.example.com' };
+
+    it('should only accept SMTP submission ports', () => {
+        expect(emailCredentialSchema.safeParse({ ...base, port: 2525 }).success).toBe(true);
+        expect(emailCredentialSchema.safeParse({ ...base, port: 6379 }).success).toBe(false);
+        expect(emailCredentialSchema.safeParse({ ...base, imapPort: 22 }).success).toBe(false);
+    });
+
+    it('should refuse unencrypted connections', () => {
+        expect(emailCredentialSchema.safeParse({ ...base, security: 'none' }).success).toBe(false);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for campaign drafts (autosave and resume)
+ */
+
+type Row = Record<string, any>;
+
+const db: { drafts: Row[] } = { drafts: [] };
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        emailDraft: {
+            findFirst: jest.fn(async ({ where }) => db.drafts.find(d => d.id === where.id && d.userId === where.userId) || null),
+            findMany: jest.fn(async ({ where }) => db.drafts
+                .filter(d => d.userId === where.userId)
+                .sort((a, b) => b.updatedAt - a.updatedAt)),
+            create: jest.fn(async ({ data }) => {
+                const draft = { id: `draft-${db.drafts.length + 1}`, updatedAt: new Date(), ...data };
+                db.drafts.push(draft);
+                return draft;
+            }),
+            update: jest.fn(async ({ where, data }) => {
+                const draft = db.drafts.find(d => d.id === where.id)!;
+                // Prisma leaves undefined fields untouched
+                Object.entries(data).forEach(([key, value]) => { if (value !== undefined) draft[key] = value; });
+                draft.updatedAt = new Date(draft.updatedAt.getTime() + 1000);
+                return draft;
+            }),
+            delete: jest.fn(async ({ where }) => {
+                db.drafts = db.drafts.filter(d => d.id !== where.id);
+            }),
+        },
+    },
+}));
+
+import { DraftService } from '../../../src/services/draft.service';
+import { saveDraftSchema } from '../../../src/utils/validation';
+
+describe('Draft Service', () => {
+    const service = new DraftService();
+
+    beforeEach(() => {
+        db.drafts = [];
+    });
+
+    it('should give back every review setting it was saved with', async () => {
+        const settings = {
+            selectedEmails: ['ada@client.com'],
+            batchSize: 10,
+            batchDelay: 60,
+            scheduleDateTime: '2025-03-14T09:30',
+            senders: [{ email: 'me@example.com', weight: 2 }, { email: 'alt@example.com', weight: 1, dailyCap: 200 }],
+            rotation: 'weighted',
+            sendWindow: { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00', recipientTimezones: true },
+            // A variant still being written
+            abTest: { variants: [{ subject: 'Idea for {companyName}' }, { subject: '' }], sampleSize: 50 },
+        };
+
+        const { id } = await service.createDraft('user-1', saveDraftSchema.parse({ step: 4, settings }));
+
+        expect((await service.getDraftById('user-1', id)).settings).toEqual(settings);
+    });
+
+    it('should only overwrite the fields an autosave sends', async () => {
+        const { id } = await service.createDraft('user-1', {
+            step: 2,
+            subject: 'Hi {fullName}',
+            recipients: [{ fullName: 'Ada', email: 'ada@client.com', companyName: 'Acme' }],
+        });
+
+        await service.updateDraft('user-1', id, { step: 3, body: '<p>Hello</p>' });
+
+        const resumed = await service.getDraftById('user-1', id);
+        expect(resumed).toMatchObject({ step: 3, subject: 'Hi {fullName}', body: '<p>Hello</p>' });
+        expect(resumed.recipients).toEqual([{ fullName: 'Ada', email: 'ada@client.com', companyName: 'Acme' }]);
+        expect(resumed).toMatchObject({ attachments: [], sequence: [], settings: null });
+    });
+
+    it('should list the user\'s drafts newest first without their recipients', async () => {
+        const older = await service.createDraft('user-1', { name: 'Older', recipients: [{ fullName: 'Ada', email: 'ada@client.com', companyName: 'Acme' }] });
+        const newer = await service.createDraft('user-1', { name: 'Newer' });
+        await service.createDraft('user-2', { name: 'Someone else\'s' });
+        await service.updateDraft('user-1', newer.id, { step: 2 });
+
+        const drafts = await service.getDrafts('user-1');
+
+        expect(drafts.map(d => d.name)).toEqual(['Newer', 'Older']);
+        expect(drafts.find(d => d.id === older.id)).toMatchObject({ recipientCount: 1 });
+        expect(drafts[0]).not.toHaveProperty('recipients');
+        expect(drafts[0]).not.toHaveProperty('body');
+    });
+
+    it('should not let another user resume, save or delete a draft', async () => {
+        const { id } = await service.createDraft('user-1', { name: 'Mine' });
+
+        await expect(service.getDraftById('user-2', id)).rejects.toMatchObject({ statusCode: 404 });
+        await expect(service.updateDraft('user-2', id, { name: 'Theirs' })).rejects.toMatchObject({ statusCode: 404 });
+        await expect(service.deleteDraft('user-2', id)).rejects.toMatchObject({ statusCode: 404 });
+        expect(db.drafts[0].name).toBe('Mine');
+
+        await service.deleteDraft('user-1', id);
+        expect(db.drafts).toHaveLength(0);
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for pre-send personalization checks
+ */
+
+import { PersonalizationLintService } from '../../../src/services/personalizationLint.service';
+
+describe('Personalization Lint Service', () => {
+    const service = new PersonalizationLintService();
+    const recipients = [
+        { email: 'alice@client.com', fullName: 'Alice', companyName: 'Acme', jobTitle: 'CTO' },
+        { email: 'bob@client.com', fullName: 'Bob', companyName: ' ', jobTitle: '' },
+    ];
+
+    it('should report nothing when every recipient fills every field', () => {
+        const report = service.lint({
+            subject: 'Hi {fullName}',
+            body: '<p>{#if jobTitle}As {jobTitle}, {/if}<a href="{unsubscribe_link}">unsubscribe</a></p>',
+            recipients,
+        });
+
+        expect(report).toEqual({ placeholders: ['fullName', 'jobTitle'], unknownPlaceholders: [], blankRecipients: [] });
+        expect(service.hasIssues(report)).toBe(false);
+    });
+
+    it('should list fields no column provides, case-insensitively', () => {
+        const report = service.lint({
+            subject: '{Hi|Hello|Hey} {FULLNAME}',
+            body: '{firstName|there}, {favoriteColor}',
+            recipients,
+        });
+
+        expect(report.unknownPlaceholders).toEqual(['firstName', 'favoriteColor']);
+        expect(report.blankRecipients).toEqual([]);
+    });
+
+    it('should flag recipients with blank values for printed fields, including follow-ups', () => {
+        const report = service.lint({
+            subject: 'Quick question',
+            body: "I'd love to join {companyName}",
+            sequence: [{ body: 'Following up, {jobTitle|there}' }, { subject: 'Re: {jobTitle}', body: 'Last one' }],
+            recipients,
+        });
+
+        expect(report.blankRecipients).toEqual([{ email: 'bob@client.com', fields: ['companyName', 'jobTitle'] }]);
+        expect(service.hasIssues(report)).toBe(true);
+    });
+});
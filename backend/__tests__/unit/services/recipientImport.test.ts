@@ -0,0 +1,164 @@
+/**
+ * Unit tests for recipient list imports
+ */
+
+import XLSX from 'xlsx';
+import { decodeText, detectDelimiter, parseDelimitedFile, parseVCardFile, suggestMapping } from '../../../src/utils/recipientImport';
+import { parseExcelFile } from '../../../src/utils/excel';
+
+describe('Delimited imports', () => {
+    it('should read a semicolon-separated Windows-1252 export', () => {
+        const csv = 'Name;Email;Company;First Name\r\nJürgen Müller;jm@client.de;Müller & Söhne;Jürgen\r\n';
+        const result = parseDelimitedFile(Buffer.from(csv, 'latin1'));
+
+        expect(result).toMatchObject({ encoding: 'windows-1252', delimiter: ';', errors: [] });
+        expect(result.recipients).toEqual([{
+            name: 'Jürgen Müller',
+            email: 'jm@client.de',
+            company: 'Müller & Söhne',
+            firstName: 'Jürgen',
+            fullName: 'Jürgen Müller',
+            companyName: 'Müller & Söhne',
+            jobTitle: undefined,
+        }]);
+    });
+
+    it('should read UTF-16 tab-separated text with a BOM', () => {
+        const tsv = 'Full name\tEmail address\tCompany\tJob Title\nAda Lovelace\tada@engine.io\tAnalytical, Ltd\tCTO\n';
+        const result = parseDelimitedFile(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(tsv, 'utf16le')]));
+
+        expect(result).toMatchObject({ encoding: 'utf-16le', delimiter: '\t' });
+        expect(result.recipients[0]).toMatchObject({ fullName: 'Ada Lovelace', companyName: 'Analytical, Ltd', jobTitle: 'CTO' });
+    });
+
+    it('should pick the delimiter that splits every line evenly', () => {
+        expect(detectDelimiter('Name,Email,Company\n"Li, Bo",bo@x.io,X\n')).toBe(',');
+        expect(detectDelimiter('Name|Email\nBo; Li|bo@x.io\n')).toBe('|');
+        expect(decodeText(Buffer.from('\uFEFFName', 'utf8'))).toEqual({ text: 'Name', encoding: 'utf-8' });
+    });
+
+    it('should report the rows it skips, numbered as in the file', () => {
+        const csv = [
+            'Name,Email,Company',
+            'Ada,ada@engine.io,Analytical',
+            '',
+            'Bo,not-an-email,X',
+            ',cy@x.io,',
+        ].join('\n');
+
+        const result = parseDelimitedFile(Buffer.from(csv));
+
+        expect(result.recipients.map(r => r.email)).toEqual(['ada@engine.io']);
+        expect(result.errors).toEqual([
+            { row: 4, value: 'not-an-email', error: 'Invalid email address' },
+            { row: 5, value: 'cy@x.io', error: 'Missing full name; Missing company name' },
+        ]);
+    });
+
+    it('should reject a file without an email column', () => {
+        expect(parseDelimitedFile(Buffer.from('Name,Company\nAda,Analytical\n')).errors)
+            .toEqual([{ row: 1, value: '', error: 'No email column (expected a header such as "Email")' }]);
+    });
+});
+
+describe('Column mapping', () => {
+    const csv = [
+        'Contact,Mail,Organisation,Role,Notes',
+        'Ada Lovelace,ada@engine.io,Analytical,CTO,Met at PyCon',
+        'Bo Li,bo@x.io,X,,',
+    ].join('\n');
+
+    it('should suggest core fields from known headers and keep the rest under their own names', () => {
+        expect(suggestMapping(['Full name', 'E-mail', 'Company', 'Notes', '#'])).toEqual({
+            'Full name': 'fullName',
+            'E-mail': 'email',
+            Company: 'companyName',
+            Notes: 'notes',
+            '#': null,
+        });
+    });
+
+    it('should return the headers, preview rows and applied mapping when no header is recognised', () => {
+        const result = parseDelimitedFile(Buffer.from(csv));
+
+        expect(result.recipients).toEqual([]);
+        expect(result.errors).toEqual([{ row: 1, value: '', error: 'No email column (expected a header such as "Email")' }]);
+        expect(result.headers).toEqual(['Contact', 'Mail', 'Organisation', 'Role', 'Notes']);
+        expect(result.preview).toEqual([
+            ['Ada Lovelace', 'ada@engine.io', 'Analytical', 'CTO', 'Met at PyCon'],
+            ['Bo Li', 'bo@x.io', 'X', '', ''],
+        ]);
+        expect(result.mapping).toMatchObject({ Mail: 'mail', Notes: 'notes' });
+    });
+
+    it('should map columns as the caller says, including custom fields and dropped columns', () => {
+        const result = parseDelimitedFile(Buffer.from(csv), {
+            Contact: 'fullName',
+            Mail: 'email',
+            Organisation: 'companyName',
+            Role: 'position',
+            Notes: null,
+        });
+
+        expect(result.errors).toEqual([]);
+        expect(result.recipients[0]).toEqual({
+            contact: 'Ada Lovelace',
+            mail: 'ada@engine.io',
+            organisation: 'Analytical',
+            position: 'CTO',
+            fullName: 'Ada Lovelace',
+            email: 'ada@engine.io',
+            companyName: 'Analytical',
+            jobTitle: undefined,
+        });
+        expect(result.mapping).toEqual({ Contact: 'fullName', Mail: 'email', Organisation: 'companyName', Role: 'position', Notes: null });
+    });
+});
+
+describe('Excel imports', () => {
+    it('should map sheet rows the same way as delimited files', () => {
+        const sheet = XLSX.utils.aoa_to_sheet([
+            ['Full name', 'Email', 'Company/organization name', 'Time Zone'],
+            ['Ada Lovelace', 'ada@engine.io', 'Analytical', 'Europe/London'],
+            ['Bo Li', '', 'X', ''],
+        ]);
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, sheet, 'Contacts');
+
+        const result = parseExcelFile(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+
+        expect(result.recipients).toEqual([expect.objectContaining({ fullName: 'Ada Lovelace', companyName: 'Analytical', timeZone: 'Europe/London' })]);
+        expect(result.errors).toEqual([{ row: 3, value: '', error: 'Missing email' }]);
+    });
+});
+
+describe('vCard imports', () => {
+    it('should read names, the preferred email, organization and title', () => {
+        const vcf = [
+            'BEGIN:VCARD',
+            'VERSION:3.0',
+            'N:Lovelace;Ada;;;',
+            'EMAIL;TYPE=INTERNET:ada@home.io',
+            'item1.EMAIL;TYPE=INTERNET,pref:ada@engine.io',
+            'ORG:Analytical Engines\\, Ltd;Research',
+            'TITLE:Chief Techn',
+            ' ology Officer',
+            'END:VCARD',
+            'BEGIN:VCARD',
+            'VERSION:3.0',
+            'FN:Bo Li',
+            'EMAIL:bo@x.io',
+            'END:VCARD',
+        ].join('\r\n');
+
+        const result = parseVCardFile(Buffer.from(vcf));
+
+        expect(result.recipients).toEqual([{
+            fullName: 'Ada Lovelace',
+            email: 'ada@engine.io',
+            companyName: 'Analytical Engines, Ltd',
+            jobTitle: 'Chief Technology Officer',
+        }]);
+        expect(result.errors).toEqual([{ row: 2, value: 'bo@x.io', error: 'Missing company name' }]);
+    });
+});
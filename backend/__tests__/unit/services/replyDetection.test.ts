@@ -0,0 +1,423 @@
+/**
+ * Unit tests for IMAP reply detection
+ * Runs the real IMAP client against a local stand-in server and an
+ * in-memory database, so threading, tenancy and follow-up cancellation
+ * are exercised end to end. Bounce handling itself is covered in bounce.test.ts.
+ */
+import net from 'net';
+import { Row, table, transaction } from '../../helpers/prismaMock';
+
+const db: Record<'emailCredential' | 'emailTracking' | 'recipient' | 'sendJob', Row[]> = {
+    emailCredential: [],
+    emailTracking: [],
+    recipient: [],
+    sendJob: [],
+};
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        emailCredential: table(() => db.emailCredential),
+        emailTracking: table(() => db.emailTracking),
+        recipient: table(() => db.recipient),
+        sendJob: table(() => db.sendJob),
+        $transaction: transaction(),
+    },
+}));
+
+jest.mock('../../../src/config/env', () => ({
+    env: { IMAP_HOST: '127.0.0.1', IMAP_PORT: 0, IMAP_SECURE: false, REPLY_SCAN_INTERVAL_MS: 60000 },
+}));
+
+jest.mock('../../../src/utils/encryption', () => ({
+    decrypt: (value: string) => value,
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/services/campaign.service', () => ({
+    __esModule: true,
+    default: { updateCampaignCounts: jest.fn() },
+}));
+
+jest.mock('../../../src/services/bounce.service', () => ({
+    __esModule: true,
+    default: { handleReport: jest.fn(async () => 1) },
+}));
+
+// Every host is public unless listed
+const dnsRecords: Record<string, string> = { 'imap.internal': '10.0.0.25' };
+jest.mock('dns/promises', () => ({
+    lookup: jest.fn(async (host: string) => [{ address: dnsRecords[host] || '203.0.113.10', family: 4 }]),
+}));
+
+const emit = jest.fn();
+jest.mock('../../../src/server', () => ({
+    io: { to: () => ({ emit }) },
+}));
+
+import { ReplyDetectionService } from '../../../src/services/replyDetection.service';
+import { createImapMailboxFactory, parseHeaders, parseMessageIds } from '../../../src/utils/imap';
+import bounceService from '../../../src/services/bounce.service';
+
+// ----------------------------------------------------------------------------
+// Local IMAP stand-in: just enough of RFC 3501 for LOGIN, EXAMINE, UID SEARCH
+// SINCE, UID FETCH (ENVELOPE + header fields, or the full source) and LOGOUT.
+// ----------------------------------------------------------------------------
+
+interface StandInMessage {
+    from: string;
+    date: Date;
+    messageId: string;
+    inReplyTo?: string;
+    references?: string;
+    contentType?: string;
+    body?: string;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function quote(value?: string): string {
+    return value === undefined ? 'NIL' : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function envelope(message: StandInMessage): string {
+    const [mailbox, host] = message.from.split('@');
+    const address = `((NIL NIL ${quote(mailbox)} ${quote(host)}))`;
+    return `(${quote(message.date.toUTCString())} "Re: Hello" ${address} ${address} ${address} NIL NIL NIL ${quote(message.inReplyTo)} ${quote(message.messageId)})`;
+}
+
+function headerBlock(message: StandInMessage): string {
+    let block = '';
+    if (message.inReplyTo) block += `In-Reply-To: ${message.inReplyTo}\r\n`;
+    if (message.references) block += `References: ${message.references}\r\n`;
+    if (message.contentType) block += `Content-Type: ${message.contentType}\r\n`;
+    return `${block}\r\n`;
+}
+
+function source(message: StandInMessage): string {
+    return `From: ${message.from}\r\nMessage-ID: ${message.messageId}\r\n${headerBlock(message)}${message.body || ''}`;
+}
+
+function uidsInSet(set: string, max: number): number[] {
+    return set.split(',').flatMap(part => {
+        const [start, end] = part.split(':').map(n => (n === '*' ? max : Number(n)));
+        const uids: number[] = [];
+        for (let uid = start; uid <= (end ?? start); uid++) uids.push(uid);
+        return uids;
+    });
+}
+
+function startStandIn(mailboxes: Record<string, { password: string; messages: StandInMessage[] }>) {
+    const commands: string[] = [];
+    const server = net.createServer(socket => {
+        let user: string | null = null;
+        let buffer = '';
+        const send = (line: string) => socket.write(`${line}\r\n`);
+
+        send('* OK [CAPABILITY IMAP4rev1] IMAP stand-in ready');
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf8');
+            let newline: number;
+            while ((newline = buffer.indexOf('\r\n')) >= 0) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 2);
+                commands.push(line.replace(/^(\S+ LOGIN \S+ ).*$/i, '$1***'));
+
+                const [tag, rawCommand = '', ...rest] = line.split(' ');
+                let command = rawCommand.toUpperCase();
+                let args = rest;
+                if (command === 'UID') {
+                    command = `UID ${(rest[0] || '').toUpperCase()}`;
+                    args = rest.slice(1);
+                }
+                const messages = user ? mailboxes[user].messages : [];
+
+                switch (command) {
+                    case 'CAPABILITY':
+                        send('* CAPABILITY IMAP4rev1');
+                        send(`${tag} OK CAPABILITY completed`);
+                        break;
+                    case 'LOGIN': {
+                        const [login, password] = args.map(a => a.replace(/^"|"$/g, ''));
+                        if (mailboxes[login]?.password === password) {
+                            user = login;
+                            send(`${tag} OK [CAPABILITY IMAP4rev1] Logged in`);
+                        } else {
+                            send(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+                        }
+                        break;
+                    }
+                    case 'LIST':
+                        if (args[1] === '""') {
+                            send('* LIST (\\Noselect) "/" ""');
+                        } else {
+                            send('* LIST () "/" INBOX');
+                        }
+                        send(`${tag} OK LIST completed`);
+                        break;
+                    case 'SELECT':
+                    case 'EXAMINE':
+                        send('* FLAGS (\\Seen)');
+                        send(`* ${messages.length} EXISTS`);
+                        send('* OK [UIDVALIDITY 1] UIDs valid');
+                        send(`* OK [UIDNEXT ${messages.length + 1}] Predicted next UID`);
+                        send(`${tag} OK [READ-ONLY] ${command} completed`);
+                        break;
+                    case 'UID SEARCH': {
+                        const sinceIndex = args.findIndex(a => a.toUpperCase() === 'SINCE');
+                        const [day, month, year] = args[sinceIndex + 1].replace(/"/g, '').split('-');
+                        const since = Date.UTC(Number(year), MONTHS.indexOf(month), Number(day));
+                        const uids = messages
+                            .map((m, i) => ({ uid: i + 1, time: m.date.getTime() }))
+                            .filter(m => m.time >= since)
+                            .map(m => m.uid);
+                        send(`* SEARCH${uids.map(uid => ` ${uid}`).join('')}`);
+                        send(`${tag} OK SEARCH completed`);
+                        break;
+                    }
+                    case 'UID FETCH': {
+                        const fields = line.match(/HEADER\.FIELDS \(([^)]*)\)/i)?.[1];
+                        for (const uid of uidsInSet(args[0], messages.length)) {
+                            const message = messages[uid - 1];
+                            if (!message) continue;
+                            if (fields) {
+                                const headers = headerBlock(message);
+                                socket.write(
+                                    `* ${uid} FETCH (UID ${uid} ENVELOPE ${envelope(message)} ` +
+                                    `BODY[HEADER.FIELDS (${fields})] {${Buffer.byteLength(headers)}}\r\n${headers})\r\n`
+                                );
+                            } else {
+                                const raw = source(message);
+                                socket.write(`* ${uid} FETCH (UID ${uid} BODY[] {${Buffer.byteLength(raw)}}\r\n${raw})\r\n`);
+                            }
+                        }
+                        send(`${tag} OK FETCH completed`);
+                        break;
+                    }
+                    case 'NOOP':
+                        send(`${tag} OK NOOP completed`);
+                        break;
+                    case 'LOGOUT':
+                        send('* BYE Logging out');
+                        send(`${tag} OK LOGOUT completed`);
+                        socket.end();
+                        break;
+                    default:
+                        send(`${tag} BAD Unsupported command`);
+                }
+            }
+        });
+        socket.on('error', () => undefined);
+    });
+
+    return new Promise<{ port: number; commands: string[]; close: () => Promise<void> }>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({
+                port: (server.address() as net.AddressInfo).port,
+                commands,
+                close: () => new Promise<void>(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+// ----------------------------------------------------------------------------
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+const SENDER = 'sender@example.com';
+
+let standIn: Awaited<ReturnType<typeof startStandIn>>;
+let inbox: StandInMessage[];
+let service: ReplyDetectionService;
+
+beforeAll(async () => {
+    standIn = await startStandIn({
+        [SENDER]: {
+            password: 'app-password',
+            get messages() {
+                return inbox;
+            },
+        },
+    });
+    service = new ReplyDetectionService(
+        createImapMailboxFactory({ host: '127.0.0.1', port: standIn.port, secure: false })
+    );
+});
+
+afterAll(async () => {
+    await standIn.close();
+});
+
+beforeEach(() => {
+    emit.mockClear();
+    (bounceService.handleReport as jest.Mock).mockClear();
+    db.emailCredential = [
+        { id: 'cred-1', userId: 'user-1', email: SENDER, appPasswordEncrypted: 'app-password', replyScanAt: null },
+    ];
+    db.emailTracking = [
+        { id: 't1', userId: 'user-1', campaignId: 'c1', recipientId: 'r1', recipientEmail: 'alice@client.com', messageId: '<m1@example.com>', repliedAt: null },
+        { id: 't2', userId: 'user-1', campaignId: 'c1', recipientId: 'r2', recipientEmail: 'bob@client.com', messageId: '<m2@example.com>', repliedAt: null },
+        { id: 't3', userId: 'user-1', campaignId: 'c1', recipientId: 'r2', recipientEmail: 'bob@client.com', messageId: '<m2-followup@example.com>', repliedAt: null },
+        { id: 't4', userId: 'user-2', campaignId: 'c2', recipientId: 'r3', recipientEmail: 'carol@client.com', messageId: '<m3@other.com>', repliedAt: null },
+    ];
+    db.recipient = [
+        { id: 'r1', campaignId: 'c1', email: 'alice@client.com', status: 'sent', repliedAt: null },
+        { id: 'r2', campaignId: 'c1', email: 'bob@client.com', status: 'sent', repliedAt: null },
+        { id: 'r3', campaignId: 'c2', email: 'carol@client.com', status: 'sent', repliedAt: null },
+    ];
+    db.sendJob = [
+        { id: 'j1', recipientId: 'r1', sequenceStepId: 's1', status: 'pending' },
+        { id: 'j2', recipientId: 'r1', sequenceStepId: null, status: 'completed' },
+        { id: 'j3', recipientId: 'r2', sequenceStepId: 's1', status: 'pending' },
+    ];
+    inbox = [];
+});
+
+describe('IMAP helpers', () => {
+    it('should parse message IDs from threading headers', () => {
+        expect(parseMessageIds('<a@x.com> <b@y.com>\t<c@z.com>')).toEqual(['<a@x.com>', '<b@y.com>', '<c@z.com>']);
+        expect(parseMessageIds(undefined)).toEqual([]);
+    });
+
+    it('should unfold continuation lines when parsing headers', () => {
+        const headers = parseHeaders('References: <a@x.com>\r\n <b@y.com>\r\nIn-Reply-To: <b@y.com>\r\n\r\n');
+
+        expect(headers.references).toBe('<a@x.com> <b@y.com>');
+        expect(headers['in-reply-to']).toBe('<b@y.com>');
+    });
+});
+
+describe('Reply Detection Service', () => {
+    it('should mark a recipient replied via In-Reply-To and stop their follow-ups', async () => {
+        inbox = [
+            { from: 'alice@client.com', date: new Date('2025-03-09T08:00:00Z'), messageId: '<reply1@client.com>', inReplyTo: '<m1@example.com>', references: '<m1@example.com>' },
+        ];
+
+        const found = await service.scanCredential('cred-1', NOW);
+
+        expect(found).toEqual({ replies: 1, bounces: 0 });
+        expect(db.recipient.find(r => r.id === 'r1')).toMatchObject({ status: 'replied', repliedAt: new Date('2025-03-09T08:00:00Z') });
+        expect(db.emailTracking.find(t => t.id === 't1')!.repliedAt).toEqual(new Date('2025-03-09T08:00:00Z'));
+        expect(db.sendJob.find(j => j.id === 'j1')).toMatchObject({ status: 'cancelled', lastError: 'Recipient replied' });
+        expect(db.sendJob.find(j => j.id === 'j3')!.status).toBe('pending');
+        expect(emit).toHaveBeenCalledWith('email:replied', expect.objectContaining({ email: 'alice@client.com' }));
+    });
+
+    it('should match through References when the direct parent is unknown', async () => {
+        inbox = [
+            { from: 'bob@client.com', date: new Date('2025-03-09T09:00:00Z'), messageId: '<reply2@client.com>', inReplyTo: '<forwarded@client.com>', references: '<m2@example.com> <m2-followup@example.com> <forwarded@client.com>' },
+        ];
+
+        await service.scanCredential('cred-1', NOW);
+
+        // The newest referenced email we sent is the one replied to
+        expect(db.emailTracking.find(t => t.id === 't3')!.repliedAt).not.toBeNull();
+        expect(db.emailTracking.find(t => t.id === 't2')!.repliedAt).toBeNull();
+        expect(db.recipient.find(r => r.id === 'r2')!.status).toBe('replied');
+        expect(db.sendJob.find(j => j.id === 'j3')!.status).toBe('cancelled');
+    });
+
+    it('should ignore unrelated mail, our own messages and other users\' message IDs', async () => {
+        inbox = [
+            { from: 'news@letters.com', date: new Date('2025-03-09T10:00:00Z'), messageId: '<news@letters.com>' },
+            { from: SENDER, date: new Date('2025-03-09T10:05:00Z'), messageId: '<own@example.com>', inReplyTo: '<m1@example.com>' },
+            { from: 'carol@client.com', date: new Date('2025-03-09T10:10:00Z'), messageId: '<reply3@client.com>', inReplyTo: '<m3@other.com>' },
+        ];
+
+        const found = await service.scanCredential('cred-1', NOW);
+
+        expect(found).toEqual({ replies: 0, bounces: 0 });
+        expect(db.recipient.every(r => r.status === 'sent')).toBe(true);
+        expect(db.sendJob.filter(j => j.status === 'cancelled')).toHaveLength(0);
+    });
+
+    it('should count each reply once across overlapping scans', async () => {
+        inbox = [
+            { from: 'alice@client.com', date: new Date('2025-03-09T08:00:00Z'), messageId: '<reply1@client.com>', inReplyTo: '<m1@example.com>' },
+        ];
+
+        expect((await service.scanCredential('cred-1', NOW)).replies).toBe(1);
+        expect((await service.scanCredential('cred-1', new Date('2025-03-10T12:05:00Z'))).replies).toBe(0);
+        expect(db.emailCredential[0].replyScanAt).toEqual(new Date('2025-03-10T12:05:00Z'));
+    });
+
+    it('should only search the inbox from a day before the previous scan', async () => {
+        db.emailCredential[0].replyScanAt = new Date('2025-03-08T12:00:00Z');
+        inbox = [
+            { from: 'alice@client.com', date: new Date('2025-03-01T08:00:00Z'), messageId: '<old@client.com>', inReplyTo: '<m1@example.com>' },
+        ];
+
+        const found = await service.scanCredential('cred-1', NOW);
+
+        expect(found.replies).toBe(0);
+        expect(standIn.commands.some(c => /UID SEARCH .*SINCE 0?7-Mar-2025/i.test(c))).toBe(true);
+    });
+    it('should hand delivery reports to the bounce service instead of treating them as replies', async () => {
+        const boundary = 'dsn-boundary';
+        inbox = [
+            {
+                from: 'mailer-daemon@example.com',
+                date: new Date('2025-03-09T11:00:00Z'),
+                messageId: '<dsn1@example.com>',
+                inReplyTo: '<m1@example.com>',
+                contentType: `multipart/report; report-type=delivery-status; boundary="${boundary}"`,
+                body: [
+                    `--${boundary}`,
+                    'Content-Type: text/plain',
+                    '',
+                    'Delivery failed.',
+                    `--${boundary}`,
+                    'Content-Type: message/delivery-status',
+                    '',
+                    'Reporting-MTA: dns; mx.example.com',
+                    '',
+                    'Final-Recipient: rfc822; alice@client.com',
+                    'Action: failed',
+                    'Status: 5.1.1',
+                    'Diagnostic-Code: smtp; 550 5.1.1 User unknown',
+                    '',
+                    `--${boundary}`,
+                    'Content-Type: text/rfc822-headers',
+                    '',
+                    'Message-ID: <m1@example.com>',
+                    '',
+                    `--${boundary}--`,
+                    '',
+                ].join('\r\n'),
+            },
+        ];
+
+        const found = await service.scanCredential('cred-1', NOW);
+
+        expect(found).toEqual({ replies: 0, bounces: 1 });
+        expect(bounceService.handleReport).toHaveBeenCalledWith('user-1', {
+            originalMessageId: '<m1@example.com>',
+            recipients: [expect.objectContaining({ email: 'alice@client.com', status: '5.1.1', type: 'hard' })],
+        });
+        expect(db.recipient.find(r => r.id === 'r1')!.status).toBe('sent');
+        expect(db.emailTracking.find(t => t.id === 't1')!.repliedAt).toBeNull();
+    });
+
+    it('should connect to the public address of a sender\'s own IMAP server', async () => {
+        const openMailbox = jest.fn(async () => ({ fetchSince: async () => [], fetchSource: async () => '', close: async () => undefined }));
+        const scanner = new ReplyDetectionService(openMailbox);
+        db.emailCredential = [
+            { id: 'cred-1', userId: 'user-1', email: SENDER, appPasswordEncrypted: 'pw', provider: 'custom', imapHost: 'imap.example.com', imapPort: 143 },
+            { id: 'cred-2', userId: 'user-1', email: SENDER, appPasswordEncrypted: 'pw', provider: 'custom', imapHost: 'imap.internal', imapPort: 993 },
+        ];
+
+        await scanner.scanCredential('cred-1', NOW);
+
+        // Port 143 has to upgrade with STARTTLS; the certificate is checked against the host name
+        expect(openMailbox).toHaveBeenCalledWith(expect.objectContaining({
+            server: { host: '203.0.113.10', port: 143, secure: false, requireTLS: true, servername: 'imap.example.com' },
+        }));
+
+        await expect(scanner.scanCredential('cred-2', NOW)).rejects.toThrow('did not resolve to a public address');
+        expect(openMailbox).toHaveBeenCalledTimes(1);
+    });
+});
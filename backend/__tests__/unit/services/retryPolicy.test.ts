@@ -0,0 +1,307 @@
+/**
+ * Unit tests for retrying transient SMTP failures
+ */
+
+import { Row, table, transaction } from '../../helpers/prismaMock';
+
+const db: { campaigns: Row[]; recipients: Row[]; jobs: Row[] } = { campaigns: [], recipients: [], jobs: [] };
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        campaign: table(() => db.campaigns),
+        recipient: table(() => db.recipients),
+        sequenceStep: table(() => []),
+        sendJob: {
+            ...table(() => db.jobs, { relations: { recipient: job => db.recipients.find(r => r.id === job.recipientId) } }),
+            findUnique: jest.fn(async ({ where }) => {
+                const job = db.jobs.find(j => j.id === where.id);
+                if (!job) return null;
+                const campaign = db.campaigns.find(c => c.id === job.campaignId);
+                return {
+                    ...job,
+                    recipient: db.recipients.find(r => r.id === job.recipientId),
+                    campaign: { ...campaign, attachments: [], senders: [] },
+                    sequenceStep: null,
+                };
+            }),
+        },
+        $transaction: transaction(),
+    },
+}));
+
+jest.mock('../../../src/config/env', () => ({
+    env: { SEND_MAX_RETRIES: 2, SEND_RETRY_BASE_MS: 60_000, SEND_RETRY_MAX_MS: 10 * 60_000 },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const sendMail = jest.fn();
+const verify = jest.fn();
+const createTransport = jest.fn((_options: Row) => ({ sendMail, verify, close: jest.fn() }));
+jest.mock('nodemailer', () => ({
+    __esModule: true,
+    default: { createTransport: (options: Row) => createTransport(options) },
+}));
+
+// Every host is public unless listed
+const dnsRecords: Record<string, string> = { 'smtp.internal': '10.0.0.25' };
+jest.mock('dns/promises', () => ({
+    lookup: jest.fn(async (host: string) => [{ address: dnsRecords[host] || '203.0.113.10', family: 4 }]),
+}));
+
+jest.mock('../../../src/services/campaign.service', () => ({
+    __esModule: true,
+    default: {
+        updateRecipientStatus: jest.fn(async (id: string, status: string, errorMessage?: string) =>
+            Object.assign(db.recipients.find(r => r.id === id)!, { status, errorMessage: errorMessage ?? null })),
+        updateCampaignCounts: jest.fn(),
+    },
+}));
+
+jest.mock('../../../src/services/credential.service', () => ({
+    __esModule: true,
+    default: {
+        getCredentialById: jest.fn(async () => ({ id: 'cred-1', email: 'me@example.com', appPassword: 'secret' })),
+    },
+}));
+
+jest.mock('../../../src/services/tracking.service', () => ({
+    __esModule: true,
+    default: {
+        createTrackingRecord: jest.fn(async () => ({ trackingToken: 'token' })),
+        deleteTrackingRecord: jest.fn(),
+        rewriteLinksForTracking: jest.fn(async (body: string) => ({ body })),
+        generateTrackingPixelHtml: jest.fn(() => ''),
+    },
+}));
+
+jest.mock('../../../src/services/suppression.service', () => ({
+    __esModule: true,
+    suppressedMessage: jest.fn(),
+    default: { findSuppression: jest.fn(async () => null) },
+}));
+
+jest.mock('../../../src/services/unsubscribe.service', () => ({
+    __esModule: true,
+    default: { unsubscribeUrl: jest.fn(() => 'https://app.example.com/unsubscribe/token') },
+}));
+
+jest.mock('../../../src/services/sendingQuota.service', () => ({
+    __esModule: true,
+    default: { availableAt: jest.fn(async () => null), recordSend: jest.fn() },
+}));
+
+jest.mock('../../../src/services/campaignRun.manager', () => ({
+    __esModule: true,
+    default: { getRun: jest.fn(), createRun: jest.fn(), updateRecipient: jest.fn(), setRunStatus: jest.fn(), deleteRun: jest.fn() },
+}));
+
+jest.mock('../../../src/server', () => ({
+    io: { to: () => ({ emit: jest.fn() }) },
+}));
+
+import { resolveSmtpSettings } from '../../../src/config/smtpProviders';
+import { retryDelayMs } from '../../../src/utils/retryPolicy';
+import { EmailService, TransientSmtpError, isTransientSmtpError } from '../../../src/services/email.service';
+import { SendQueueService } from '../../../src/services/sendQueue.service';
+import trackingService from '../../../src/services/tracking.service';
+
+describe('Retry backoff', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 60_000, maxDelayMs: 10 * 60_000 };
+
+    it('should double the delay with each retry up to the maximum', () => {
+        const noJitter = () => 1;
+
+        expect([1, 2, 3, 4, 5].map(retry => retryDelayMs(policy, retry, noJitter)))
+            .toEqual([60_000, 120_000, 240_000, 480_000, 600_000]);
+    });
+
+    it('should jitter each delay within its upper half', () => {
+        expect(retryDelayMs(policy, 2, () => 0)).toBe(60_000);
+        expect(retryDelayMs(policy, 2, () => 0.5)).toBe(90_000);
+    });
+});
+
+describe('Transient SMTP failures', () => {
+    const service = new EmailService();
+    const config = { email: 'me@example.com', appPassword: 'secret' };
+    const message = { from: 'me@example.com', to: 'alice@client.com', subject: 'Hi', html: '<p>Hi</p>' };
+
+    beforeEach(() => {
+        sendMail.mockReset();
+        verify.mockResolvedValue(true);
+    });
+
+    it('should tell temporary failures from permanent ones', () => {
+        expect(isTransientSmtpError(Object.assign(new Error('Timeout'), { code: 'ETIMEDOUT' }))).toBe(true);
+        expect(isTransientSmtpError(Object.assign(new Error('421 4.7.0 Try again later'), { code: 'EENVELOPE', responseCode: 421 }))).toBe(true);
+        expect(isTransientSmtpError(Object.assign(new Error('550 5.1.1 User unknown'), { code: 'EENVELOPE', responseCode: 550 }))).toBe(false);
+        expect(isTransientSmtpError(Object.assign(new Error('Invalid login'), { code: 'EAUTH', responseCode: 535 }))).toBe(false);
+    });
+
+    it('should keep the SMTP reply when rethrowing a temporary failure', async () => {
+        sendMail.mockRejectedValue(Object.assign(new Error('451 4.3.0 Mail server temporarily rejected message'), { code: 'EMESSAGE', responseCode: 451 }));
+
+        const error = await service.sendEmail(config, message).catch(e => e);
+
+        expect(error).toBeInstanceOf(TransientSmtpError);
+        expect(error.message).toContain('451 4.3.0');
+        expect(isTransientSmtpError(error)).toBe(true);
+    });
+
+    it('should not mark a rejected recipient as transient', async () => {
+        sendMail.mockRejectedValue(Object.assign(new Error('550 5.1.1 Recipient address rejected'), { code: 'EENVELOPE', responseCode: 550 }));
+
+        const error = await service.sendEmail(config, message).catch(e => e);
+
+        expect(isTransientSmtpError(error)).toBe(false);
+    });
+
+    it('should connect to the address the SMTP host resolves to now', async () => {
+        createTransport.mockClear();
+        const moved = { ...config, smtp: resolveSmtpSettings('custom', { host: 'smtp.internal', port: 587, security: 'starttls' }) };
+
+        const error = await service.sendEmail(moved, message).catch(e => e);
+
+        expect(error).toBeInstanceOf(TransientSmtpError);
+        expect(createTransport).not.toHaveBeenCalled();
+
+        sendMail.mockResolvedValue({ messageId: '<sent@example.com>' });
+        await service.sendEmail({ ...config, smtp: resolveSmtpSettings('custom', { host: 'smtp.example.com', port: 587, security: 'starttls' }) }, message);
+
+        expect(createTransport).toHaveBeenCalledWith(expect.objectContaining({ host: '203.0.113.10', tls: { servername: 'smtp.example.com' } }));
+    });
+});
+
+describe('Retrying queued emails', () => {
+    const queue = new SendQueueService();
+    const processJob = (id: string) => queue['processJob'](id);
+    const timeout = () => Object.assign(new Error('connect ETIMEDOUT 142.250.102.108:465'), { code: 'ETIMEDOUT' });
+
+    beforeEach(() => {
+        sendMail.mockReset();
+        verify.mockReset();
+        db.campaigns = [{
+            id: 'camp-1',
+            userId: 'user-1',
+            status: 'sending',
+            subject: 'Hello {fullName}',
+            body: '<p>Hi</p>',
+            credentialId: 'cred-1',
+            batchSize: 10,
+            batchDelay: 60,
+            variants: null,
+        }];
+        db.recipients = [
+            { id: 'r1', campaignId: 'camp-1', email: 'ada@client.com', fullName: 'Ada', companyName: 'X', status: 'queued', mergeFields: null },
+            { id: 'r2', campaignId: 'camp-1', email: 'bo@client.com', fullName: 'Bo', companyName: 'Y', status: 'queued', mergeFields: null },
+        ];
+        db.jobs = [
+            { id: 'j1', campaignId: 'camp-1', recipientId: 'r1', sequenceStepId: null, status: 'processing', attempts: 1, runAt: new Date(0) },
+            { id: 'j2', campaignId: 'camp-1', recipientId: 'r2', sequenceStepId: null, status: 'pending', attempts: 0, runAt: new Date(0) },
+        ];
+    });
+
+    it('should retry a send whose SMTP login timed out instead of failing it as a bad password', async () => {
+        verify.mockRejectedValue(timeout());
+        const before = Date.now();
+
+        await processJob('j1');
+
+        expect(sendMail).not.toHaveBeenCalled();
+        expect(db.jobs[0]).toMatchObject({ status: 'pending', lockedAt: null });
+        expect(db.jobs[0].lastError).toMatch(/^Connection timed out\..* Retry 1 of 2 at /);
+        expect(db.recipients[0].status).toBe('retrying');
+
+        // First retry: half to all of the base delay
+        const delay = db.jobs[0].runAt.getTime() - before;
+        expect(delay).toBeGreaterThanOrEqual(30_000);
+        expect(delay).toBeLessThanOrEqual(60_000 + 1_000);
+    });
+
+    it('should back off further on later retries', async () => {
+        verify.mockRejectedValue(timeout());
+        db.jobs[0].attempts = 2;
+        const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+        const before = Date.now();
+
+        await processJob('j1');
+
+        random.mockRestore();
+        expect(db.jobs[0].lastError).toContain('Retry 2 of 2');
+        expect(db.jobs[0].runAt.getTime() - before).toBeGreaterThanOrEqual(120_000);
+    });
+
+    it('should fail the email once the retries are used up', async () => {
+        verify.mockRejectedValue(timeout());
+        db.jobs[0].attempts = 3;
+
+        await processJob('j1');
+
+        expect(db.jobs[0]).toMatchObject({ status: 'failed', lastError: expect.stringMatching(/^Connection timed out/) });
+        expect(db.recipients[0]).toMatchObject({ status: 'failed' });
+    });
+
+    it('should not retry a permanent failure', async () => {
+        verify.mockResolvedValue(true);
+        sendMail.mockRejectedValue(Object.assign(new Error('550 5.1.1 User unknown'), { code: 'EENVELOPE', responseCode: 550 }));
+
+        await processJob('j1');
+
+        expect(db.jobs[0].status).toBe('failed');
+        expect(db.recipients[0].status).toBe('failed');
+    });
+
+    it('should drop the tracking record of an attempt that did not go out', async () => {
+        (trackingService.deleteTrackingRecord as jest.Mock).mockClear();
+        verify.mockResolvedValue(true);
+        sendMail.mockRejectedValueOnce(Object.assign(new Error('451 4.3.0 Try again later'), { code: 'EMESSAGE', responseCode: 451 }));
+
+        await processJob('j1');
+
+        expect(db.jobs[0].status).toBe('pending');
+        expect(trackingService.deleteTrackingRecord).toHaveBeenCalledWith('token');
+
+        // The retry that goes out keeps its record
+        (trackingService.deleteTrackingRecord as jest.Mock).mockClear();
+        sendMail.mockResolvedValueOnce({ messageId: '<sent@example.com>' });
+        db.jobs[0].status = 'processing';
+
+        await processJob('j1');
+
+        expect(db.jobs[0].status).toBe('completed');
+        expect(trackingService.deleteTrackingRecord).not.toHaveBeenCalled();
+    });
+
+    it('should queue only the failed recipients of a completed campaign again', async () => {
+        db.campaigns[0].status = 'completed';
+        db.recipients[0].status = 'failed';
+        db.recipients[1].status = 'sent';
+        db.recipients.push({ id: 'r3', campaignId: 'camp-1', email: 'cy@client.com', status: 'bounced' });
+        db.jobs = [
+            { id: 'j1', campaignId: 'camp-1', recipientId: 'r1', sequenceStepId: null, status: 'failed', attempts: 3, lastError: 'Connection timed out.' },
+            { id: 'j2', campaignId: 'camp-1', recipientId: 'r2', sequenceStepId: null, status: 'completed', attempts: 1 },
+            { id: 'j3', campaignId: 'camp-1', recipientId: 'r3', sequenceStepId: null, status: 'failed', attempts: 1 },
+        ];
+
+        const { retryCount } = await queue.retryFailed('user-1', 'camp-1');
+
+        expect(retryCount).toBe(1);
+        expect(db.campaigns[0].status).toBe('sending');
+        expect(db.jobs.map(j => j.status)).toEqual(['pending', 'completed', 'failed']);
+        expect(db.jobs[0]).toMatchObject({ attempts: 0, lastError: null });
+        expect(db.recipients.map(r => r.status)).toEqual(['queued', 'sent', 'bounced']);
+    });
+
+    it('should not retry a campaign that is still sending', async () => {
+        db.jobs[0].status = 'failed';
+        db.recipients[0].status = 'failed';
+
+        await expect(queue.retryFailed('user-1', 'camp-1')).rejects.toThrow('once the campaign has completed');
+        expect(db.jobs[0].status).toBe('failed');
+    });
+});
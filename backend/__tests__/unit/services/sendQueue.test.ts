@@ -0,0 +1,428 @@
+/**
+ * Unit tests for the database-backed send queue
+ */
+
+import { Row, apply, table, transaction } from '../../helpers/prismaMock';
+
+const db: { campaigns: Row[]; recipients: Row[]; jobs: Row[]; steps: Row[]; tracking: Row[]; clicks: Row[] } = {
+    campaigns: [], recipients: [], jobs: [], steps: [], tracking: [], clicks: [],
+};
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        campaign: table(() => db.campaigns),
+        recipient: table(() => db.recipients),
+        sendJob: {
+            ...table(() => db.jobs, {
+                relations: {
+                    campaign: job => db.campaigns.find(c => c.id === job.campaignId),
+                    recipient: job => db.recipients.find(r => r.id === job.recipientId),
+                },
+                defaults: rows => ({ id: `j${rows.length + 1}`, status: 'pending', attempts: 0, sequenceStepId: null, createdAt: new Date() }),
+                // runAt, then createdAt: the queue's only ordering
+                order: (a, b) => a.runAt - b.runAt || a.createdAt - b.createdAt,
+            }),
+            findUnique: jest.fn(async ({ where }) => {
+                const row = db.jobs.find(j => j.id === where.id);
+                if (!row) return null;
+                const campaign = db.campaigns.find(c => c.id === row.campaignId);
+                return {
+                    ...row,
+                    recipient: db.recipients.find(r => r.id === row.recipientId) || { id: row.recipientId },
+                    campaign: { ...campaign, attachments: [], senders: [] },
+                    sequenceStep: db.steps.find(step => step.id === row.sequenceStepId) || null,
+                };
+            }),
+        },
+        sequenceStep: table(() => db.steps, { order: (a, b) => a.stepOrder - b.stepOrder }),
+        emailTracking: table(() => db.tracking),
+        linkClick: table(() => db.clicks, {
+            relations: { emailTracking: click => db.tracking.find(t => t.id === click.emailTrackingId) },
+        }),
+        $transaction: transaction(),
+    },
+}));
+
+jest.mock('../../../src/config/env', () => ({
+    env: { SEND_MAX_RETRIES: 2, SEND_RETRY_BASE_MS: 60_000, SEND_RETRY_MAX_MS: 10 * 60_000 },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/services/campaign.service', () => ({
+    __esModule: true,
+    default: { updateRecipientStatus: jest.fn(), updateCampaignCounts: jest.fn() },
+}));
+
+jest.mock('../../../src/services/email.service', () => ({
+    __esModule: true,
+    isTransientSmtpError: jest.fn(() => false),
+    default: { sendEmail: jest.fn() },
+}));
+
+jest.mock('../../../src/services/credential.service', () => ({
+    __esModule: true,
+    default: {
+        getCredentialById: jest.fn(async () => ({ id: 'cred-1', email: 'me@example.com', appPassword: 'secret' })),
+        getCredentialByEmail: jest.fn(async (_userId: string, email: string) => ({ id: 'cred-2', email, appPassword: 'secret' })),
+    },
+}));
+jest.mock('../../../src/services/suppression.service', () => ({
+    __esModule: true,
+    suppressedMessage: jest.fn(),
+    default: { findSuppression: jest.fn(async () => null) },
+}));
+jest.mock('../../../src/services/unsubscribe.service', () => ({ __esModule: true, default: {} }));
+jest.mock('../../../src/services/senderRotation.service', () => ({ __esModule: true, classifySenderError: jest.fn(), default: {} }));
+jest.mock('../../../src/services/sendingQuota.service', () => ({ __esModule: true, default: { availableAt: jest.fn(async () => null) } }));
+jest.mock('../../../src/services/abTest.service', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../../src/services/campaignRun.manager', () => ({
+    __esModule: true,
+    default: { getRun: jest.fn(), createRun: jest.fn(), updateRecipient: jest.fn(), setRunStatus: jest.fn(), deleteRun: jest.fn() },
+}));
+
+const emit = jest.fn();
+jest.mock('../../../src/server', () => ({
+    io: { to: () => ({ emit }) },
+}));
+
+import prisma from '../../../src/config/database';
+import credentialService from '../../../src/services/credential.service';
+import { SendQueueService } from '../../../src/services/sendQueue.service';
+
+const MINUTE = 60 * 1000;
+
+function job(id: string, fields: Row = {}): Row {
+    return {
+        id,
+        campaignId: 'camp-1',
+        recipientId: `r-${id}`,
+        sequenceStepId: null,
+        status: 'pending',
+        attempts: 0,
+        lockedAt: null,
+        runAt: new Date(Date.now() - MINUTE),
+        createdAt: new Date(Date.now() - 10 * MINUTE),
+        ...fields,
+    };
+}
+
+describe('Send Queue', () => {
+    const queue = new SendQueueService();
+
+    beforeEach(() => {
+        emit.mockClear();
+        db.campaigns = [{ id: 'camp-1', userId: 'user-1', status: 'sending', batchSize: 2, batchDelay: 60 }];
+        db.recipients = [];
+        db.jobs = [];
+        db.steps = [];
+        db.tracking = [];
+        db.clicks = [];
+    });
+
+    describe('Queueing', () => {
+        it('should pace jobs in batches with a short gap between emails', async () => {
+            db.campaigns[0].status = 'draft';
+            const startAt = new Date('2025-03-14T09:00:00Z');
+
+            const count = await queue.enqueueCampaign('camp-1', ['r1', 'r2', 'r3'], startAt);
+
+            expect(count).toBe(3);
+            expect(db.campaigns[0].status).toBe('sending');
+            expect(db.jobs.map(j => j.recipientId)).toEqual(['r1', 'r2', 'r3']);
+            // The third email starts the second batch, a batchDelay later
+            expect(db.jobs.map(j => j.runAt.getTime() - startAt.getTime())).toEqual([0, 300, 60_000 + 600]);
+        });
+    });
+
+    describe('Claiming jobs', () => {
+        const claim = () => queue['claimNextJob']();
+
+        it('should claim the job that is due first and lock it', async () => {
+            db.jobs = [
+                job('later', { runAt: new Date(Date.now() - MINUTE) }),
+                job('first', { runAt: new Date(Date.now() - 2 * MINUTE) }),
+                job('future', { runAt: new Date(Date.now() + MINUTE) }),
+            ];
+
+            const claimed = await claim();
+
+            expect(claimed).toEqual({ id: 'first' });
+            expect(db.jobs[1]).toMatchObject({ status: 'processing', attempts: 1, lockedAt: expect.any(Date) });
+            expect(db.jobs[0].status).toBe('pending');
+        });
+
+        it('should leave jobs of paused campaigns alone but still send follow-ups after completion', async () => {
+            db.campaigns.push(
+                { id: 'camp-paused', status: 'paused' },
+                { id: 'camp-done', status: 'completed' },
+            );
+            db.jobs = [
+                job('paused', { campaignId: 'camp-paused', runAt: new Date(Date.now() - 3 * MINUTE) }),
+                job('main', { campaignId: 'camp-done', runAt: new Date(Date.now() - 2 * MINUTE) }),
+                job('follow-up', { campaignId: 'camp-done', sequenceStepId: 'step-1' }),
+            ];
+
+            expect(await claim()).toEqual({ id: 'follow-up' });
+            expect(await claim()).toBeNull();
+        });
+
+        it('should move on when another worker claims the job first', async () => {
+            db.jobs = [
+                job('taken', { runAt: new Date(Date.now() - 2 * MINUTE) }),
+                job('next'),
+            ];
+            // The other instance locks "taken" between the lookup and the claim
+            const findFirst = prisma.sendJob.findFirst as jest.Mock;
+            const lookup = findFirst.getMockImplementation()!;
+            findFirst.mockImplementationOnce(async (args) => {
+                const candidate = await lookup(args);
+                apply(db.jobs[0], { status: 'processing', attempts: 1 });
+                return candidate;
+            });
+
+            const claimed = await claim();
+
+            expect(claimed).toEqual({ id: 'next' });
+            expect(db.jobs[0].attempts).toBe(1);
+            expect(db.jobs[1]).toMatchObject({ status: 'processing', attempts: 1 });
+        });
+    });
+
+    describe('Recovering after a restart', () => {
+        it('should release only jobs locked longer than a send can take', async () => {
+            db.jobs = [
+                job('abandoned', { status: 'processing', attempts: 1, lockedAt: new Date(Date.now() - 6 * MINUTE) }),
+                job('in-flight', { status: 'processing', attempts: 1, lockedAt: new Date(Date.now() - 30 * 1000) }),
+            ];
+
+            const released = await queue['releaseStaleJobs']();
+
+            expect(released).toBe(1);
+            expect(db.jobs[0]).toMatchObject({ status: 'pending', lockedAt: null });
+            expect(db.jobs[1].status).toBe('processing');
+        });
+
+        it('should pace the remaining emails from now instead of sending the backlog at once', async () => {
+            const overdue = new Date(Date.now() - 60 * MINUTE);
+            const followUpAt = new Date(Date.now() + 24 * 60 * MINUTE);
+            db.jobs = [
+                job('a', { runAt: overdue }),
+                job('b', { runAt: new Date(overdue.getTime() + 300) }),
+                job('c', { runAt: new Date(overdue.getTime() + 600) }),
+                job('follow-up', { sequenceStepId: 'step-1', runAt: followUpAt }),
+                job('sent', { status: 'completed', runAt: overdue }),
+            ];
+            const before = Date.now();
+
+            await queue['recover']();
+
+            const offsets = db.jobs.slice(0, 3).map(j => j.runAt.getTime() - before);
+            expect(offsets[0]).toBeGreaterThanOrEqual(0);
+            expect(offsets[0]).toBeLessThan(1000);
+            expect(offsets[1] - offsets[0]).toBe(300);
+            expect(offsets[2] - offsets[0]).toBe(60_000 + 600);
+            expect(db.jobs[3].runAt).toBe(followUpAt);
+            expect(db.jobs[4].runAt).toBe(overdue);
+            expect(db.campaigns[0].status).toBe('sending');
+        });
+
+        it('should complete a sending campaign that has nothing left to send', async () => {
+            db.jobs = [job('sent', { status: 'completed' })];
+
+            await queue['recover']();
+
+            expect(db.campaigns[0].status).toBe('completed');
+            expect(emit).toHaveBeenCalledWith('campaign:completed', expect.objectContaining({ runId: 'camp-1' }));
+        });
+    });
+
+    describe('Pausing, resuming and cancelling', () => {
+        beforeEach(() => {
+            db.recipients = [
+                { id: 'r-a', campaignId: 'camp-1', email: 'ada@client.com', status: 'sent' },
+                { id: 'r-b', campaignId: 'camp-1', email: 'bo@client.com', status: 'queued' },
+                { id: 'r-c', campaignId: 'camp-1', email: 'cy@client.com', status: 'retrying' },
+            ];
+            db.jobs = [
+                job('a', { status: 'completed' }),
+                job('b', { runAt: new Date(Date.now() - 60 * MINUTE) }),
+                job('c', { runAt: new Date(Date.now() - 30 * MINUTE), attempts: 1 }),
+            ];
+        });
+
+        it('should pause a sending campaign and stop claiming its jobs', async () => {
+            await queue.pauseCampaign('user-1', 'camp-1');
+
+            expect(db.campaigns[0].status).toBe('paused');
+            expect(emit).toHaveBeenCalledWith('campaign:paused', { runId: 'camp-1' });
+            expect(await queue['claimNextJob']()).toBeNull();
+            expect(db.jobs.map(j => j.status)).toEqual(['completed', 'pending', 'pending']);
+        });
+
+        it('should hand back a job claimed just before the pause', async () => {
+            apply(db.jobs[1], { status: 'processing', attempts: 1, lockedAt: new Date() });
+            db.campaigns[0].status = 'paused';
+
+            await queue['processJob']('b');
+
+            expect(db.jobs[1]).toMatchObject({ status: 'pending', attempts: 0, lockedAt: null });
+        });
+
+        it('should only pause a sending campaign and only resume a paused one', async () => {
+            await expect(queue.resumeCampaign('user-1', 'camp-1')).rejects.toMatchObject({ statusCode: 409 });
+
+            db.campaigns[0].status = 'completed';
+            await expect(queue.pauseCampaign('user-1', 'camp-1')).rejects.toMatchObject({ statusCode: 409 });
+            await expect(queue.pauseCampaign('user-2', 'camp-1')).rejects.toMatchObject({ statusCode: 404 });
+        });
+
+        it('should resume a paused campaign with the rest paced from now', async () => {
+            db.campaigns[0].status = 'paused';
+            const before = Date.now();
+
+            await queue.resumeCampaign('user-1', 'camp-1');
+
+            expect(db.campaigns[0].status).toBe('sending');
+            expect(emit).toHaveBeenCalledWith('campaign:resumed', { runId: 'camp-1', pendingCount: 2 });
+            expect(db.jobs[1].runAt.getTime()).toBeGreaterThanOrEqual(before);
+            expect(db.jobs[2].runAt.getTime() - db.jobs[1].runAt.getTime()).toBe(300);
+        });
+
+        it('should complete a resumed campaign that had nothing left to send', async () => {
+            db.campaigns[0].status = 'paused';
+            db.jobs.forEach(j => { j.status = 'completed'; });
+
+            await queue.resumeCampaign('user-1', 'camp-1');
+
+            expect(db.campaigns[0].status).toBe('completed');
+        });
+
+        it('should drop every unsent email when a campaign is cancelled', async () => {
+            db.campaigns[0].status = 'paused';
+
+            await queue.cancelCampaign('user-1', 'camp-1');
+
+            expect(db.campaigns[0].status).toBe('cancelled');
+            expect(db.jobs.map(j => j.status)).toEqual(['completed', 'cancelled', 'cancelled']);
+            expect(db.recipients.map(r => r.status)).toEqual(['sent', 'cancelled', 'cancelled']);
+            expect(emit).toHaveBeenCalledWith('campaign:cancelled', { runId: 'camp-1', cancelledCount: 2 });
+
+            await expect(queue.resumeCampaign('user-1', 'camp-1')).rejects.toMatchObject({ statusCode: 409 });
+            await expect(queue.cancelCampaign('user-1', 'camp-1')).rejects.toMatchObject({ statusCode: 409 });
+        });
+
+        it('should only stop the waiting follow-ups of a completed campaign', async () => {
+            db.campaigns[0].status = 'completed';
+            db.jobs = [
+                job('a', { status: 'completed' }),
+                job('follow-up', { recipientId: 'r-a', sequenceStepId: 'step-1' }),
+            ];
+
+            await queue.cancelCampaign('user-1', 'camp-1');
+
+            expect(db.campaigns[0].status).toBe('completed');
+            expect(db.jobs.map(j => j.status)).toEqual(['completed', 'cancelled']);
+            expect(db.recipients[0].status).toBe('sent');
+
+            await expect(queue.cancelCampaign('user-1', 'camp-1')).rejects.toThrow('no pending follow-ups');
+        });
+    });
+
+    describe('Follow-up sequences', () => {
+        const HOUR = 60 * MINUTE;
+        let deliver: jest.SpyInstance;
+
+        beforeEach(() => {
+            db.campaigns[0].status = 'completed';
+            db.campaigns[0].credentialId = 'cred-1';
+            db.recipients = [{ id: 'r-1', campaignId: 'camp-1', email: 'ada@client.com', status: 'sent', repliedAt: null, senderEmail: null }];
+            db.steps = [
+                { id: 'step-1', campaignId: 'camp-1', stepOrder: 1, delayHours: 72, condition: 'not_opened', body: 'Bumping this up' },
+                { id: 'step-2', campaignId: 'camp-1', stepOrder: 2, delayHours: 96, condition: 'not_replied', body: 'Last try' },
+            ];
+            db.tracking = [{ id: 't-1', campaignId: 'camp-1', recipientId: 'r-1', openCount: 0 }];
+            db.jobs = [job('follow-up', { recipientId: 'r-1', sequenceStepId: 'step-1', status: 'processing', attempts: 1 })];
+            deliver = jest.spyOn(queue as any, 'deliver').mockResolvedValue('me@example.com');
+        });
+
+        afterEach(() => {
+            deliver.mockRestore();
+        });
+
+        it('should send a follow-up whose condition holds and queue the next step', async () => {
+            const before = Date.now();
+
+            await queue['processJob']('follow-up');
+
+            expect(deliver).toHaveBeenCalledWith(expect.objectContaining({ id: 'camp-1' }), expect.objectContaining({ id: 'r-1' }),
+                expect.objectContaining({ id: 'step-1' }), expect.objectContaining({ id: 'cred-1' }));
+            expect(db.jobs[0]).toMatchObject({ status: 'completed', senderEmail: 'me@example.com' });
+            expect(emit).toHaveBeenCalledWith('email:followup', { email: 'ada@client.com', step: 1, status: 'sent' });
+
+            // The next step waits its delay from this send
+            expect(db.jobs[1]).toMatchObject({ recipientId: 'r-1', sequenceStepId: 'step-2', status: 'pending' });
+            expect(db.jobs[1].runAt.getTime() - before).toBeGreaterThanOrEqual(96 * HOUR);
+            expect(db.jobs[1].runAt.getTime() - before).toBeLessThan(96 * HOUR + 1000);
+        });
+
+        it('should skip a not-opened follow-up once an earlier email was opened and still queue the next step', async () => {
+            db.tracking[0].openCount = 1;
+            const scheduledFor = db.jobs[0].runAt;
+
+            await queue['processJob']('follow-up');
+
+            expect(deliver).not.toHaveBeenCalled();
+            expect(db.jobs[0]).toMatchObject({ status: 'skipped', lastError: 'Recipient opened an earlier email' });
+            // Delayed from when the skipped step was due, not from now
+            expect(db.jobs[1].runAt.getTime()).toBe(scheduledFor.getTime() + 96 * HOUR);
+        });
+
+        it('should skip a not-clicked follow-up once a link in any email of the campaign was clicked', async () => {
+            db.steps[0].condition = 'not_clicked';
+            db.tracking.push({ id: 't-other', campaignId: 'camp-1', recipientId: 'r-other', openCount: 1 });
+            db.clicks = [{ id: 'c-1', emailTrackingId: 't-other', clickCount: 1 }];
+
+            await queue['processJob']('follow-up');
+            expect(db.jobs[0].status).toBe('completed');
+
+            db.clicks.push({ id: 'c-2', emailTrackingId: 't-1', clickCount: 2 });
+            db.jobs = [job('again', { recipientId: 'r-1', sequenceStepId: 'step-1', status: 'processing', attempts: 1 })];
+            await queue['processJob']('again');
+            expect(db.jobs[0]).toMatchObject({ status: 'skipped', lastError: 'Recipient clicked a link' });
+        });
+
+        it('should end the sequence for a recipient who replied', async () => {
+            db.recipients[0].repliedAt = new Date();
+            db.jobs = [job('last', { recipientId: 'r-1', sequenceStepId: 'step-2', status: 'processing', attempts: 1 })];
+
+            await queue['processJob']('last');
+
+            expect(deliver).not.toHaveBeenCalled();
+            expect(db.jobs).toEqual([expect.objectContaining({ status: 'skipped', lastError: 'Recipient replied' })]);
+        });
+
+        it('should send follow-ups from the address the first email went out from', async () => {
+            db.recipients[0].senderEmail = 'alt@example.com';
+
+            await queue['processJob']('follow-up');
+
+            expect(credentialService.getCredentialByEmail).toHaveBeenCalledWith('user-1', 'alt@example.com');
+            expect(deliver.mock.calls[0][3]).toMatchObject({ email: 'alt@example.com' });
+        });
+
+        it('should drop follow-ups of a cancelled campaign', async () => {
+            db.campaigns[0].status = 'cancelled';
+
+            await queue['processJob']('follow-up');
+
+            expect(deliver).not.toHaveBeenCalled();
+            expect(db.jobs).toEqual([expect.objectContaining({ status: 'cancelled' })]);
+        });
+    });
+});
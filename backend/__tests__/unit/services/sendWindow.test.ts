@@ -0,0 +1,45 @@
+/**
+ * Unit tests for sending windows
+ */
+
+import { windowOpensAt, SendWindow } from '../../../src/utils/timezone';
+
+describe('Sending windows', () => {
+    const businessHours: SendWindow = { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' };
+
+    it('should send right away inside the window', () => {
+        // Tuesday 10:30 in New York
+        expect(windowOpensAt(businessHours, 'America/New_York', new Date('2025-03-11T14:30:00Z'))).toBeNull();
+    });
+
+    it('should hold until the window opens later the same day', () => {
+        // Tuesday 02:00 in Kolkata; opens at 09:00 IST
+        expect(windowOpensAt(businessHours, 'Asia/Kolkata', new Date('2025-03-10T20:30:00Z')))
+            .toEqual(new Date('2025-03-11T03:30:00Z'));
+    });
+
+    it('should skip to the next allowed day once the window has closed', () => {
+        // Friday 18:00 in London opens on Monday 09:00
+        expect(windowOpensAt(businessHours, 'Europe/London', new Date('2025-03-14T18:00:00Z')))
+            .toEqual(new Date('2025-03-17T09:00:00Z'));
+    });
+
+    it('should use the local day, not the UTC one', () => {
+        // Saturday 08:00 UTC is already Saturday evening in Auckland; Monday 09:00 NZDT is Sunday 20:00 UTC
+        expect(windowOpensAt(businessHours, 'Pacific/Auckland', new Date('2025-03-15T08:00:00Z')))
+            .toEqual(new Date('2025-03-16T20:00:00Z'));
+    });
+
+    it('should follow daylight saving changes', () => {
+        // New York moved to EDT on Sunday 2025-03-09; Monday opens at 13:00 UTC, not 14:00
+        expect(windowOpensAt(businessHours, 'America/New_York', new Date('2025-03-08T15:00:00Z')))
+            .toEqual(new Date('2025-03-10T13:00:00Z'));
+    });
+
+    it('should treat 24:00 as the end of the day', () => {
+        const evenings: SendWindow = { days: [0, 1, 2, 3, 4, 5, 6], start: '18:00', end: '24:00' };
+
+        expect(windowOpensAt(evenings, 'UTC', new Date('2025-03-11T23:59:00Z'))).toBeNull();
+        expect(windowOpensAt(evenings, 'UTC', new Date('2025-03-11T12:00:00Z'))).toEqual(new Date('2025-03-11T18:00:00Z'));
+    });
+});
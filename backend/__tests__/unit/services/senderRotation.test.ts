@@ -0,0 +1,169 @@
+/**
+ * Unit tests for multi-sender rotation
+ */
+
+type Row = Record<string, any>;
+
+const db: { campaign: Row; senders: Row[]; sendJobs: Row[] } = { campaign: {}, senders: [], sendJobs: [] };
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        campaign: {
+            findUnique: jest.fn(async () => ({
+                ...db.campaign,
+                senders: [...db.senders].sort((a, b) => a.position - b.position),
+            })),
+        },
+        campaignSender: {
+            update: jest.fn(async ({ where, data }) => {
+                const sender = db.senders.find(s => s.id === where.id)!;
+                for (const [key, value] of Object.entries(data)) {
+                    sender[key] = value && typeof value === 'object' && 'increment' in value
+                        ? sender[key] + (value as { increment: number }).increment
+                        : value;
+                }
+                return sender;
+            }),
+        },
+        // Completed sends from one address since `gte`, newest first
+        sendJob: {
+            findMany: jest.fn(async ({ where, take }) => db.sendJobs
+                .filter(j => j.senderEmail === where.senderEmail && j.completedAt >= where.completedAt.gte)
+                .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime())
+                .slice(0, take)),
+        },
+    },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Account-wide daily limits; credentials listed here are over theirs until tomorrow
+const overLimit = new Set<string>();
+jest.mock('../../../src/services/sendingQuota.service', () => ({
+    __esModule: true,
+    default: {
+        availableAt: jest.fn(async (credentialId: string) =>
+            overLimit.has(credentialId) ? new Date('2025-03-11T00:00:00Z') : null),
+    },
+}));
+
+import { SenderRotationService, classifySenderError } from '../../../src/services/senderRotation.service';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function sender(position: number, email: string, extra: Row = {}): Row {
+    return {
+        id: `s${position}`,
+        credentialId: `cred-${position}`,
+        position,
+        weight: 1,
+        dailyCap: null,
+        sentCount: 0,
+        pausedUntil: null,
+        disabledReason: null,
+        credential: { email },
+        ...extra,
+    };
+}
+
+describe('Sender error classification', () => {
+    it('should separate login failures, rate limits and recipient errors', () => {
+        expect(classifySenderError(Object.assign(new Error('Invalid login: 535-5.7.8'), { code: 'EAUTH' }))).toBe('auth');
+        expect(classifySenderError(Object.assign(new Error('SMTP authentication failed. Please check your password.'), { smtpCode: 'EAUTH' }))).toBe('auth');
+        expect(classifySenderError(Object.assign(new Error('Auth rejected'), { responseCode: 534 }))).toBe('auth');
+        expect(classifySenderError(new Error('550 5.4.5 Daily user sending quota exceeded.'))).toBe('rate_limit');
+        expect(classifySenderError(new Error('421 4.7.0 Try again later, closing connection.'))).toBe('rate_limit');
+        expect(classifySenderError(new Error('550 5.1.1 Recipient address rejected'))).toBeNull();
+    });
+
+    it('should not blame the login for a failed connection while logging in', () => {
+        const timeout = Object.assign(new Error('SMTP authentication failed: connect ETIMEDOUT'), { smtpCode: 'ETIMEDOUT' });
+        const tryLater = Object.assign(new Error('SMTP authentication failed: 421 4.7.0 Try again later'), { smtpCode: 'EAUTH', responseCode: 421 });
+
+        expect(classifySenderError(timeout)).toBeNull();
+        expect(classifySenderError(new Error('SMTP authentication failed: connect ECONNRESET'))).toBeNull();
+        expect(classifySenderError(tryLater)).toBe('rate_limit');
+    });
+});
+
+describe('Sender Rotation Service', () => {
+    const service = new SenderRotationService();
+
+    async function sendMany(count: number): Promise<string[]> {
+        const used: string[] = [];
+        for (let i = 0; i < count; i++) {
+            const pick = await service.pickSender('c1', NOW);
+            used.push(pick.sender!.email);
+            await service.recordSend(pick.sender!.id);
+        }
+        return used;
+    }
+
+    beforeEach(() => {
+        db.campaign = { userId: 'user-1', senderRotation: 'round_robin' };
+        db.senders = [sender(0, 'a@example.com'), sender(1, 'b@example.com'), sender(2, 'c@example.com')];
+        db.sendJobs = [];
+        overLimit.clear();
+    });
+
+    it('should rotate round-robin in sender order', async () => {
+        expect(await sendMany(5)).toEqual([
+            'a@example.com', 'b@example.com', 'c@example.com', 'a@example.com', 'b@example.com',
+        ]);
+    });
+
+    it('should split by weight under weighted rotation', async () => {
+        db.campaign.senderRotation = 'weighted';
+        db.senders = [sender(0, 'a@example.com', { weight: 3 }), sender(1, 'b@example.com')];
+
+        const used = await sendMany(8);
+
+        expect(used.filter(e => e === 'a@example.com')).toHaveLength(6);
+        expect(used.filter(e => e === 'b@example.com')).toHaveLength(2);
+    });
+
+    it('should skip capped, paused and disabled senders', async () => {
+        db.senders[0].dailyCap = 2;
+        db.sendJobs = [
+            { senderEmail: 'a@example.com', completedAt: new Date(NOW.getTime() - 30 * HOUR) }, // Outside the window
+            { senderEmail: 'a@example.com', completedAt: new Date(NOW.getTime() - 5 * HOUR) },
+            { senderEmail: 'a@example.com', completedAt: new Date(NOW.getTime() - 1 * HOUR) },
+        ];
+        db.senders[1].pausedUntil = new Date(NOW.getTime() + HOUR);
+
+        expect((await service.pickSender('c1', NOW)).sender!.email).toBe('c@example.com');
+
+        await service.recordFailure({ id: 's2', credentialId: 'cred-2', email: 'c@example.com' }, 'auth', 'Login failed', NOW);
+        const pick = await service.pickSender('c1', NOW);
+
+        // The paused sender returns first; the capped one when its older send ages out
+        expect(pick).toEqual({ sender: null, retryAt: new Date(NOW.getTime() + HOUR) });
+        expect(db.senders[2].disabledReason).toBe('Login failed');
+    });
+
+    it('should skip senders over their account daily limit until tomorrow', async () => {
+        overLimit.add('cred-0');
+        expect((await service.pickSender('c1', NOW)).sender!.email).toBe('b@example.com');
+
+        overLimit.add('cred-1').add('cred-2');
+        expect(await service.pickSender('c1', NOW)).toEqual({ sender: null, retryAt: new Date('2025-03-11T00:00:00Z') });
+    });
+
+    it('should give up once every sender is disabled', async () => {
+        db.senders.forEach(s => { s.disabledReason = 'Login failed'; });
+
+        expect(await service.pickSender('c1', NOW)).toEqual({ sender: null, retryAt: null });
+    });
+
+    it('should pause a rate-limited sender for a day', async () => {
+        await service.recordFailure({ id: 's0', credentialId: 'cred-0', email: 'a@example.com' }, 'rate_limit', 'Rate limit', NOW);
+
+        expect(db.senders[0].pausedUntil).toEqual(new Date(NOW.getTime() + 24 * HOUR));
+        expect((await service.pickSender('c1', NOW)).sender!.email).toBe('b@example.com');
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for per-credential daily limits and warm-up
+ */
+
+type Row = Record<string, any>;
+
+const db: { credentials: Row[]; usage: Row[] } = { credentials: [], usage: [] };
+
+function pick(row: Row, select: Row): Row {
+    return Object.fromEntries(Object.keys(select).filter(key => key in row).map(key => [key, row[key]]));
+}
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        emailCredential: {
+            findUnique: jest.fn(async ({ where, select }) => {
+                const row = db.credentials.find(c => c.id === where.id);
+                return row ? pick(row, select) : null;
+            }),
+            findFirst: jest.fn(async ({ where }) => db.credentials.find(c => c.id === where.id && c.userId === where.userId) || null),
+            update: jest.fn(async ({ where, data, select }) => {
+                const row = db.credentials.find(c => c.id === where.id)!;
+                Object.assign(row, data);
+                return pick(row, select);
+            }),
+        },
+        credentialDailyUsage: {
+            findUnique: jest.fn(async ({ where }) => {
+                const { credentialId, day } = where.credentialId_day;
+                return db.usage.find(u => u.credentialId === credentialId && u.day === day) || null;
+            }),
+            upsert: jest.fn(async ({ where, create, update }) => {
+                const { credentialId, day } = where.credentialId_day;
+                const row = db.usage.find(u => u.credentialId === credentialId && u.day === day);
+                if (!row) {
+                    db.usage.push({ ...create });
+                    return create;
+                }
+                row.sentCount += update.sentCount.increment;
+                return row;
+            }),
+        },
+    },
+}));
+
+import { SendingQuotaService, limitFor } from '../../../src/services/sendingQuota.service';
+
+const NOW = new Date('2025-03-10T15:30:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Daily limit with warm-up', () => {
+    const settings = { dailyLimit: 500, warmupStartedAt: null, warmupStartLimit: 20, warmupDays: 28 };
+
+    it('should apply the plain limit without warm-up', () => {
+        expect(limitFor({ ...settings, dailyLimit: null }, NOW)).toBeNull();
+        expect(limitFor(settings, NOW)).toBe(500);
+    });
+
+    it('should ramp from the start limit to the full limit over the warm-up days', () => {
+        const startedAt = new Date('2025-03-01T22:00:00Z');
+        const on = (day: number) => limitFor({ ...settings, warmupStartedAt: startedAt }, new Date(startedAt.getTime() + day * DAY));
+
+        expect(on(0)).toBe(20);
+        expect(on(7)).toBe(140);
+        expect(on(14)).toBe(260);
+        expect(on(28)).toBe(500);
+        expect(on(90)).toBe(500);
+    });
+});
+
+describe('Sending Quota Service', () => {
+    const service = new SendingQuotaService();
+
+    beforeEach(() => {
+        db.credentials = [{
+            id: 'cred-1',
+            userId: 'user-1',
+            email: 'me@example.com',
+            dailyLimit: 3,
+            warmupStartedAt: null,
+            warmupStartLimit: 20,
+            warmupDays: 28,
+        }];
+        db.usage = [];
+    });
+
+    it('should hold sends over the limit until the next UTC day', async () => {
+        for (let i = 0; i < 3; i++) {
+            expect(await service.availableAt('cred-1', NOW)).toBeNull();
+            await service.recordSend('cred-1', NOW);
+        }
+
+        expect(await service.availableAt('cred-1', NOW)).toEqual(new Date('2025-03-11T00:00:00Z'));
+        expect(await service.availableAt('cred-1', new Date('2025-03-11T00:00:01Z'))).toBeNull();
+        expect(db.usage).toEqual([{ credentialId: 'cred-1', day: '2025-03-10', sentCount: 3 }]);
+    });
+
+    it('should keep warm-up progress when the settings are saved again', async () => {
+        const started = await service.updateQuota('user-1', 'cred-1', { dailyLimit: 200, warmup: true, warmupStartLimit: 10 }, NOW);
+
+        expect(started).toMatchObject({
+            limit: 10,
+            dailyLimit: 200,
+            warmup: { day: 1, days: 28, startLimit: 10, complete: false },
+        });
+
+        const later = new Date(NOW.getTime() + 14 * DAY);
+        const saved = await service.updateQuota('user-1', 'cred-1', { dailyLimit: 200, warmup: true }, later);
+
+        expect(saved).toMatchObject({ limit: 105, warmup: { day: 15 } });
+        expect(db.credentials[0].warmupStartedAt).toEqual(NOW);
+
+        const off = await service.updateQuota('user-1', 'cred-1', { dailyLimit: null, warmup: false }, later);
+        expect(off).toMatchObject({ limit: null, warmup: null });
+    });
+
+    it('should reject another user\'s credential', async () => {
+        await expect(service.updateQuota('user-2', 'cred-1', { dailyLimit: 50, warmup: false }))
+            .rejects.toMatchObject({ statusCode: 404 });
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the suppression list
+ */
+
+import { Row, table } from '../../helpers/prismaMock';
+
+let rows: Row[] = [];
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        suppression: table(() => rows, {
+            defaults: current => ({ id: `s${current.length + 1}`, createdAt: new Date('2025-03-01T00:00:00Z') }),
+        }),
+    },
+}));
+
+jest.mock('../../../src/config/env', () => ({
+    env: { GLOBAL_SUPPRESSIONS: ['legal@bigcorp.com', '@competitor.com'] },
+}));
+
+import { SuppressionService, normalizeEntry, suppressedMessage } from '../../../src/services/suppression.service';
+import { parseCsv } from '../../../src/utils/csv';
+
+describe('Suppression Service', () => {
+    const service = new SuppressionService();
+
+    beforeEach(() => {
+        rows = [
+            { id: 's1', userId: 'user-1', email: 'alice@client.com', reason: 'hard_bounce', detail: '5.1.1', createdAt: new Date('2025-02-01T00:00:00Z') },
+            { id: 's2', userId: 'user-1', email: '@spamtrap.net', reason: 'manual', detail: null, createdAt: new Date('2025-02-02T00:00:00Z') },
+            { id: 's3', userId: 'user-2', email: 'bob@client.com', reason: 'manual', detail: null, createdAt: new Date('2025-02-03T00:00:00Z') },
+        ];
+    });
+
+    it('should accept addresses and @domains only', () => {
+        expect(normalizeEntry('  Alice@Client.COM ')).toBe('alice@client.com');
+        expect(normalizeEntry('@Competitor.com')).toBe('@competitor.com');
+        expect(normalizeEntry('competitor')).toBeNull();
+        expect(normalizeEntry('@localhost')).toBeNull();
+    });
+
+    it('should match addresses, domains and global entries per user', async () => {
+        const found = await service.findSuppressions('user-1', [
+            'Alice@client.com',
+            'anyone@spamtrap.net',
+            'sales@competitor.com',
+            'bob@client.com',
+            'carol@client.com',
+        ]);
+
+        expect(Object.fromEntries(found)).toEqual({
+            'alice@client.com': { entry: 'alice@client.com', reason: 'hard_bounce', global: false },
+            'anyone@spamtrap.net': { entry: '@spamtrap.net', reason: 'manual', global: false },
+            'sales@competitor.com': { entry: '@competitor.com', reason: 'global', global: true },
+        });
+    });
+
+    it('should explain why a recipient was skipped', () => {
+        expect(suppressedMessage({ entry: 'alice@client.com', reason: 'hard_bounce', global: false }))
+            .toBe('Skipped: address is on your suppression list (hard bounce)');
+        expect(suppressedMessage({ entry: '@competitor.com', reason: 'global', global: true }))
+            .toBe('Skipped: domain @competitor.com is on the global suppression list');
+    });
+
+    it('should reject duplicate and malformed manual entries', async () => {
+        await expect(service.createSuppression('user-1', { email: 'ALICE@client.com' }))
+            .rejects.toMatchObject({ statusCode: 409 });
+        await expect(service.createSuppression('user-1', { email: 'not an address' }))
+            .rejects.toMatchObject({ statusCode: 400 });
+
+        const created = await service.createSuppression('user-1', { email: 'Dan@Client.com', detail: ' Asked to stop ' });
+        expect(created).toMatchObject({ email: 'dan@client.com', reason: 'manual', detail: 'Asked to stop' });
+    });
+
+    it('should import CSV rows with per-row errors and skip known entries', async () => {
+        const csv = [
+            'Email,Reason,Detail',
+            'alice@client.com,manual,already there',
+            'new@client.com,,"Unsubscribed, by phone"',
+            '',
+            'oops',
+            '@newdomain.io,hard_bounce,',
+            'NEW@client.com,,duplicate in file',
+        ].join('\n');
+
+        const result = await service.importCsv('user-1', csv);
+
+        expect(result).toEqual({
+            added: 2,
+            skipped: 2,
+            errors: [{ row: 5, value: 'oops', error: 'Not an email address or @domain' }],
+        });
+        expect(rows.filter(r => r.userId === 'user-1').map(r => [r.email, r.reason, r.detail])).toEqual([
+            ['alice@client.com', 'hard_bounce', '5.1.1'],
+            ['@spamtrap.net', 'manual', null],
+            ['new@client.com', 'import', 'Unsubscribed, by phone'],
+            ['@newdomain.io', 'hard_bounce', null],
+        ]);
+    });
+
+    it('should read headerless CSV from the first column', async () => {
+        const result = await service.importCsv('user-2', 'x@y.com\r\nz@y.com\r\n');
+
+        expect(result).toEqual({ added: 2, skipped: 0, errors: [] });
+    });
+
+    it('should export only the user\'s own entries as CSV', async () => {
+        const csv = await service.exportCsv('user-1');
+
+        expect(parseCsv(csv)).toEqual([
+            ['email', 'reason', 'detail', 'created_at'],
+            ['alice@client.com', 'hard_bounce', '5.1.1', '2025-02-01T00:00:00.000Z'],
+            ["'@spamtrap.net", 'manual', '', '2025-02-02T00:00:00.000Z'],
+        ]);
+    });
+
+    it('should keep spreadsheets from running exported cells as formulas and read them back', async () => {
+        rows[0].detail = '=HYPERLINK("http://evil.example","5.1.1")';
+        rows[1].detail = '-1 bounce';
+
+        const csv = await service.exportCsv('user-1');
+
+        expect(parseCsv(csv).slice(1).map(cells => [cells[0], cells[2]])).toEqual([
+            ['alice@client.com', '\'=HYPERLINK("http://evil.example","5.1.1")'],
+            ["'@spamtrap.net", "'-1 bounce"],
+        ]);
+
+        rows = [];
+        expect(await service.importCsv('user-1', csv)).toEqual({ added: 2, skipped: 0, errors: [] });
+        expect(rows.map(r => [r.email, r.detail])).toEqual([
+            ['alice@client.com', '=HYPERLINK("http://evil.example","5.1.1")'],
+            ['@spamtrap.net', '-1 bounce'],
+        ]);
+    });
+});
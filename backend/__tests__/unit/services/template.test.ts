@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the template library and its version history
+ */
+
+type Row = Record<string, any>;
+
+const db: { templates: Row[]; versions: Row[] } = { templates: [], versions: [] };
+
+jest.mock('../../../src/config/database', () => ({
+    __esModule: true,
+    default: {
+        template: {
+            findMany: jest.fn(async ({ where }) => db.templates.filter(t =>
+                t.userId === where.userId && (!where.name || t.name.includes(where.name.contains)))),
+            findFirst: jest.fn(async ({ where, include }) => {
+                const template = db.templates.find(t => t.id === where.id && t.userId === where.userId);
+                if (!template || !include) return template || null;
+                const versions = db.versions.filter(v => v.templateId === template.id).sort((a, b) => b.version - a.version);
+                return { ...template, versions };
+            }),
+            create: jest.fn(async ({ data: { versions, ...data } }) => {
+                const template = { id: `tpl-${db.templates.length + 1}`, currentVersion: 1, ...data };
+                db.templates.push(template);
+                db.versions.push({ templateId: template.id, ...versions.create });
+                return template;
+            }),
+            update: jest.fn(async ({ where, data }) => Object.assign(db.templates.find(t => t.id === where.id)!, data)),
+            delete: jest.fn(async ({ where }) => {
+                db.templates = db.templates.filter(t => t.id !== where.id);
+                db.versions = db.versions.filter(v => v.templateId !== where.id);
+            }),
+        },
+        templateVersion: {
+            findUnique: jest.fn(async ({ where }) => {
+                const { templateId, version } = where.templateId_version;
+                return db.versions.find(v => v.templateId === templateId && v.version === version) || null;
+            }),
+            create: jest.fn(async ({ data }) => {
+                db.versions.push(data);
+                return data;
+            }),
+        },
+        $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+import { TemplateService } from '../../../src/services/template.service';
+
+describe('Template Service', () => {
+    const service = new TemplateService();
+    const intro = { name: 'Intro', subject: 'Hi {fullName}', body: '<p>Saw {companyName} is hiring.</p>' };
+
+    beforeEach(() => {
+        db.templates = [];
+        db.versions = [];
+    });
+
+    it('should create a template as version 1 with its merge fields as tags', async () => {
+        const template = await service.createTemplate('user-1', intro);
+
+        expect(template).toMatchObject({ ...intro, currentVersion: 1, tags: ['fullName', 'companyName'] });
+        expect(db.versions).toEqual([expect.objectContaining({ templateId: template.id, version: 1, ...intro })]);
+    });
+
+    it('should only list and open the user\'s own templates', async () => {
+        const own = await service.createTemplate('user-1', intro);
+        await service.createTemplate('user-1', { ...intro, name: 'Follow-up' });
+        const other = await service.createTemplate('user-2', intro);
+
+        expect(await service.getTemplates('user-1')).toHaveLength(2);
+        expect((await service.getTemplates('user-1', 'Follow')).map(t => t.name)).toEqual(['Follow-up']);
+        expect((await service.getTemplateById('user-1', own.id)).versions).toHaveLength(1);
+        await expect(service.getTemplateById('user-1', other.id)).rejects.toMatchObject({ statusCode: 404 });
+        await expect(service.deleteTemplate('user-1', other.id)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should save each content change as a new version', async () => {
+        const { id } = await service.createTemplate('user-1', intro);
+
+        const updated = await service.updateTemplate('user-1', id, { subject: 'Quick question, {firstName | there}' });
+
+        expect(updated).toMatchObject({ currentVersion: 2, subject: 'Quick question, {firstName | there}', body: intro.body });
+        expect(updated.tags).toEqual(['firstName', 'companyName']);
+        expect(db.versions.map(v => [v.version, v.subject])).toEqual([
+            [1, 'Hi {fullName}'],
+            [2, 'Quick question, {firstName | there}'],
+        ]);
+    });
+
+    it('should not add a version when nothing changed', async () => {
+        const { id } = await service.createTemplate('user-1', intro);
+
+        const updated = await service.updateTemplate('user-1', id, { name: 'Intro', subject: 'Hi {fullName}' });
+
+        expect(updated.currentVersion).toBe(1);
+        expect(db.versions).toHaveLength(1);
+    });
+
+    it('should restore an old version as the newest one and keep the history', async () => {
+        const { id } = await service.createTemplate('user-1', intro);
+        await service.updateTemplate('user-1', id, { body: '<p>Second draft</p>' });
+
+        const restored = await service.restoreVersion('user-1', id, 1);
+
+        expect(restored).toMatchObject({ currentVersion: 3, body: intro.body });
+        expect(db.versions.map(v => v.version)).toEqual([1, 2, 3]);
+        expect((await service.getVersion('user-1', id, 2)).body).toBe('<p>Second draft</p>');
+        await expect(service.getVersion('user-1', id, 7)).rejects.toMatchObject({ statusCode: 404, message: 'Version 7 not found' });
+    });
+
+    it('should duplicate the current content with a fresh history', async () => {
+        const { id } = await service.createTemplate('user-1', intro);
+        await service.updateTemplate('user-1', id, { body: '<p>Second draft</p>' });
+
+        const copy = await service.duplicateTemplate('user-1', id);
+
+        expect(copy).toMatchObject({ name: 'Intro (copy)', body: '<p>Second draft</p>', currentVersion: 1 });
+        expect(db.versions.filter(v => v.templateId === copy.id)).toHaveLength(1);
+    });
+
+    it('should delete a template together with its versions', async () => {
+        const { id } = await service.createTemplate('user-1', intro);
+
+        await service.deleteTemplate('user-1', id);
+
+        expect(db.templates).toHaveLength(0);
+        expect(db.versions).toHaveLength(0);
+    });
+});
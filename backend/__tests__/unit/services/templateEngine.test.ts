@@ -0,0 +1,77 @@
+/**
+ * Unit tests for merge-field templates
+ */
+
+import { renderTemplate, templateErrors, templateFields, unguardedFields, stableIndex } from '../../../src/utils/templateEngine';
+
+describe('Template engine', () => {
+    const alice = { fullName: 'alice van der berg', companyName: 'Acme & Sons', jobTitle: '' };
+
+    it('should fill fields case-insensitively and fall back when they are missing or blank', () => {
+        expect(renderTemplate('Hi {FullName}, {firstName|there} from {jobTitle|your team}', alice))
+            .toBe('Hi alice van der berg, there from your team');
+    });
+
+    it('should apply filters left to right', () => {
+        expect(renderTemplate('{fullName:first:capitalize} {fullName:last:upper}', alice)).toBe('Alice BERG');
+    });
+
+    it('should render conditionals, including nested ones and else branches', () => {
+        const template = '{#if jobTitle}As {jobTitle}{else}At {#if companyName}{companyName}{/if}{/if}, you';
+
+        expect(renderTemplate(template, alice, { html: false })).toBe('At Acme & Sons, you');
+        expect(renderTemplate(template, { ...alice, jobTitle: 'CTO' })).toBe('As CTO, you');
+    });
+
+    it('should escape recipient values in HTML but not the template itself', () => {
+        const template = '<p>{companyName}</p><a href="{unsubscribe_link}">{x|<b>bye</b>}</a>';
+        const html = renderTemplate(template, { companyName: '<script>"x"</script>', unsubscribe_link: 'https://u.example/?a=1&b=2' });
+
+        expect(html).toBe('<p>&lt;script&gt;&quot;x&quot;&lt;/script&gt;</p><a href="https://u.example/?a=1&amp;b=2"><b>bye</b></a>');
+        expect(renderTemplate('{companyName}', alice, { html: false })).toBe('Acme & Sons');
+    });
+
+    it('should leave braces that are not tags alone', () => {
+        const template = '<style>p{color:red} a{margin:0}</style>{ "json": true } {name:bogus}';
+
+        expect(renderTemplate(template, { name: 'x' })).toBe(template);
+        expect(templateFields([template])).toEqual([]);
+    });
+
+    it('should report unbalanced blocks', () => {
+        expect(templateErrors('{#if jobTitle}Hi')).toEqual(['{#if jobTitle} is never closed with {/if}']);
+        expect(templateErrors('Hi{/if}')).toEqual(['{/if} has no matching {#if}']);
+        expect(templateErrors('{#each items}')).toEqual(['Unknown tag {#each items}']);
+        expect(templateErrors('{#if a}{else}{else}{/if}')).toEqual(['{#if a} has more than one {else}']);
+    });
+
+    it('should list the fields a template uses', () => {
+        expect(templateFields(['Hi {firstName|there}', '{#if jobTitle}{fullName:first}{/if} {FIRSTNAME}']))
+            .toEqual(['firstName', 'jobTitle', 'fullName']);
+    });
+
+    it('should tell printed fields from ones guarded by a fallback or {#if}', () => {
+        const template = '{firstName|there}, {#if jobTitle}as {jobTitle} at {companyName}{else}{fullName}{/if}';
+
+        expect(unguardedFields([template])).toEqual(['companyName', 'fullName']);
+    });
+
+    it('should pick one spintax option per seed, the same one every time', () => {
+        const template = '{Hi|Hello|Hey} {fullName:first:capitalize}, {#if companyName}{quick|short} note{/if}';
+        const render = (seed: string) => renderTemplate(template, alice, { seed });
+
+        expect(render('alice@client.com')).toBe(render('alice@client.com'));
+        expect(render('alice@client.com')).toMatch(/^(Hi|Hello|Hey) Alice, (quick|short) note$/);
+        expect(new Set(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(render)).size).toBeGreaterThan(1);
+    });
+
+    it('should read a one-pipe tag on a single word as a fallback, never as spintax', () => {
+        const seed = 'x';
+        const option = ['Hi there', 'Hello'][stableIndex(`${seed}:0`, 2)];
+
+        expect(renderTemplate('{companyName|your team} {Hi|Hello}', {}, { seed })).toBe('your team Hello');
+        expect(renderTemplate('{Hi there|Hello}', alice, { seed })).toBe(option);
+        expect(renderTemplate('{Hi there {fullName:first}|Hello there {fullName:first}}', { fullName: 'Bo Li' }, { seed }))
+            .toBe(`${option === 'Hello' ? 'Hello there' : 'Hi there'} Bo`);
+    });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit tests for tracking stats/details and open/click recording
+ * Verifies that users only ever see tracking records they sent
+ */
+
+import { Row, matches, table } from '../../helpers/prismaMock';
+
+const db: { emailTracking: Row[]; linkClick: Row[]; campaigns: Row[]; recipients: Row[] } = { emailTracking: [], linkClick: [], campaigns: [], recipients: [] };
+
+jest.mock('../../../src/config/database', () => {
+    const tracking = table(() => db.emailTracking, { order: (a, b) => b.createdAt - a.createdAt });
+    const relations = { emailTracking: (row: Row) => db.emailTracking.find(t => t.id === row.emailTrackingId) };
+
+    return {
+        __esModule: true,
+        default: {
+            emailTracking: {
+                ...tracking,
+                create: jest.fn(async ({ data: { linkClicks, ...data } }) => {
+                    const row = await tracking.create({ data: { id: `t${db.emailTracking.length + 1}`, openCount: 0, firstOpenedAt: null, createdAt: new Date(), ...data } });
+                    (linkClicks?.create || []).forEach((link: Row) => db.linkClick.push({ id: `l${db.linkClick.length + 1}`, emailTrackingId: row.id, ...link }));
+                    return row;
+                }),
+                // Includes each record's links
+                findMany: jest.fn(async (args) => (await tracking.findMany(args))
+                    .map(r => ({ ...r, linkClicks: db.linkClick.filter(l => l.emailTrackingId === r.id) }))),
+            },
+            linkClick: {
+                ...table(() => db.linkClick, {
+                    relations,
+                    defaults: rows => ({ id: `l${rows.length + 1}`, clickCount: 0, firstClickedAt: null }),
+                }),
+                aggregate: jest.fn(async ({ where }) => ({
+                    _sum: {
+                        clickCount: db.linkClick
+                            .filter(r => matches(r, where, relations))
+                            .reduce((sum, r) => sum + r.clickCount, 0),
+                    },
+                })),
+            },
+            campaign: {
+                ...table(() => db.campaigns),
+                // The campaigns that went to an address ({ recipients: { some: { email } } })
+                findMany: jest.fn(async ({ where }) => db.campaigns
+                    .filter(c => db.recipients.some(r => r.campaignId === c.id && r.email === where.recipients.some.email))
+                    .map(c => ({ userId: c.userId }))),
+            },
+        },
+    };
+});
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    getTrackingStats,
+    getTrackingDetailsPaginated,
+    recordEmailOpen,
+    recordLinkClick,
+    rewriteLinksForTracking,
+    importTrackingJsonl,
+} from '../../../src/services/tracking.service';
+
+const ALICE = 'user-alice';
+const BOB = 'user-bob';
+
+beforeEach(() => {
+    db.campaigns = [];
+    db.recipients = [];
+    db.emailTracking = [
+        { id: 't1', userId: ALICE, campaignId: 'c-alice', recipientEmail: 'a1@example.com', openCount: 2, repliedAt: new Date('2025-01-03'), createdAt: new Date('2025-01-01') },
+        { id: 't2', userId: ALICE, campaignId: 'c-alice', recipientEmail: 'a2@example.com', openCount: 0, createdAt: new Date('2025-01-02') },
+        { id: 't3', userId: BOB, campaignId: 'c-bob', recipientEmail: 'b1@example.com', openCount: 1, createdAt: new Date('2025-01-03') },
+        { id: 't4', userId: null, campaignId: null, recipientEmail: 'legacy@example.com', openCount: 5, createdAt: new Date('2025-01-04') },
+    ];
+    db.linkClick = [
+        { id: 'l1', emailTrackingId: 't1', originalUrl: 'https://a.example.com', clickCount: 3 },
+        { id: 'l2', emailTrackingId: 't3', originalUrl: 'https://b.example.com', clickCount: 7 },
+        { id: 'l3', emailTrackingId: 't4', originalUrl: 'https://legacy.example.com', clickCount: 9 },
+    ];
+});
+
+describe('Tracking Service - tenant isolation', () => {
+    describe('getTrackingStats', () => {
+        it('should only count the requesting user\'s records', async () => {
+            const stats = await getTrackingStats(ALICE);
+
+            expect(stats).toEqual({
+                totalSent: 2,
+                totalOpened: 1,
+                openRate: 50,
+                totalClicks: 3,
+                uniqueClicks: 1,
+                totalReplied: 1,
+                replyRate: 50,
+            });
+        });
+
+        it('should return nothing for another user\'s campaign ID', async () => {
+            const stats = await getTrackingStats(ALICE, 'c-bob');
+
+            expect(stats.totalSent).toBe(0);
+            expect(stats.totalClicks).toBe(0);
+            expect(stats.totalReplied).toBe(0);
+        });
+
+        it('should not expose unowned legacy records', async () => {
+            const alice = await getTrackingStats(ALICE);
+            const bob = await getTrackingStats(BOB);
+
+            expect(alice.totalSent + bob.totalSent).toBe(3);
+            expect(bob.totalClicks).toBe(7);
+        });
+    });
+
+    describe('getTrackingDetailsPaginated', () => {
+        it('should only list the requesting user\'s recipients', async () => {
+            const details = await getTrackingDetailsPaginated(BOB);
+
+            expect(details.records.map(r => r.recipientEmail)).toEqual(['b1@example.com']);
+            expect(details.pagination.total).toBe(1);
+        });
+
+        it('should not leak records through a foreign campaign filter', async () => {
+            const details = await getTrackingDetailsPaginated(BOB, 1, 50, 'c-alice');
+
+            expect(details.records).toHaveLength(0);
+            expect(details.totalSent).toBe(0);
+        });
+
+        it('should paginate within the user\'s records, newest first', async () => {
+            const page1 = await getTrackingDetailsPaginated(ALICE, 1, 1);
+            const page2 = await getTrackingDetailsPaginated(ALICE, 2, 1);
+
+            expect(page1.records.map(r => r.id)).toEqual(['t2']);
+            expect(page2.records.map(r => r.id)).toEqual(['t1']);
+            expect(page1.pagination.totalPages).toBe(2);
+        });
+    });
+});
+
+describe('Tracking Service - recording', () => {
+    beforeEach(() => {
+        db.emailTracking = [{ id: 't1', trackingToken: 'open-token', userId: ALICE, openCount: 0, firstOpenedAt: null, createdAt: new Date() }];
+        db.linkClick = [];
+    });
+
+    it('should count every open but keep the first open time', async () => {
+        expect(await recordEmailOpen('open-token', 'Mail/1.0', '203.0.113.5')).toBe(true);
+        const firstOpenedAt = db.emailTracking[0].firstOpenedAt;
+        expect(firstOpenedAt).toBeInstanceOf(Date);
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        expect(await recordEmailOpen('open-token')).toBe(true);
+
+        expect(db.emailTracking[0]).toMatchObject({ openCount: 2, firstOpenedAt });
+        expect(db.emailTracking[0].lastOpenedAt.getTime()).toBeGreaterThan(firstOpenedAt.getTime());
+        expect(await recordEmailOpen('unknown-token')).toBe(false);
+    });
+
+    it('should store a row per tracked link and leave mailto and unsubscribe links alone', async () => {
+        const body = [
+            '<a href="https://example.com/pricing">Pricing</a>',
+            '<a href="mailto:me@example.com">Mail me</a>',
+            '<a href="https://app.example.com/api/unsubscribe/abc">Unsubscribe</a>',
+        ].join(' ');
+
+        const result = await rewriteLinksForTracking(body, 'open-token', 'https://app.example.com');
+
+        expect(result.links).toHaveLength(1);
+        expect(result.body).toContain(`href="https://app.example.com/api/track/click/${result.links[0].clickToken}"`);
+        expect(result.body).toContain('href="mailto:me@example.com"');
+        expect(result.body).toContain('href="https://app.example.com/api/unsubscribe/abc"');
+        expect(db.linkClick).toEqual([expect.objectContaining({ emailTrackingId: 't1', originalUrl: 'https://example.com/pricing', clickCount: 0 })]);
+    });
+
+    it('should count clicks and send the recipient on to the original URL', async () => {
+        db.linkClick = [{ id: 'l1', emailTrackingId: 't1', clickToken: 'click-token', originalUrl: 'https://example.com/pricing', clickCount: 0, firstClickedAt: null }];
+
+        expect(await recordLinkClick('click-token')).toBe('https://example.com/pricing');
+        expect(await recordLinkClick('click-token')).toBe('https://example.com/pricing');
+
+        expect(db.linkClick[0]).toMatchObject({ clickCount: 2, firstClickedAt: expect.any(Date) });
+        expect(await recordLinkClick('unknown-token')).toBeNull();
+    });
+});
+
+describe('Tracking Service - legacy JSONL import', () => {
+    const file = path.join(os.tmpdir(), `email_tracking-${process.pid}.jsonl`);
+    const record = (trackingToken: string, fields: Row = {}) => JSON.stringify({
+        id: trackingToken,
+        trackingToken,
+        recipientEmail: `${trackingToken}@client.com`,
+        openCount: 1,
+        links: [],
+        createdAt: '2024-11-02T10:00:00.000Z',
+        ...fields,
+    });
+
+    beforeEach(() => {
+        db.campaigns = [{ id: 'c-alice', userId: ALICE }, { id: 'c-alice-2', userId: ALICE }, { id: 'c-bob', userId: BOB }];
+        db.recipients = [
+            { campaignId: 'c-alice', email: 'old-run@client.com' },
+            { campaignId: 'c-alice-2', email: 'old-run@client.com' },
+            { campaignId: 'c-alice', email: 'shared@client.com' },
+            { campaignId: 'c-bob', email: 'shared@client.com' },
+        ];
+        db.emailTracking = [{ id: 't1', trackingToken: 'already-imported', userId: ALICE, createdAt: new Date() }];
+        db.linkClick = [];
+    });
+
+    afterAll(() => {
+        fs.rmSync(file, { force: true });
+    });
+
+    it('should import new records with their clicks and skip ones already there', async () => {
+        fs.writeFileSync(file, [
+            record('with-campaign', {
+                campaignId: 'c-alice',
+                firstOpenedAt: '2024-11-02T11:00:00.000Z',
+                links: [{ clickToken: 'legacy-click', originalUrl: 'https://example.com', clickCount: 2 }],
+            }),
+            record('old-run', { campaignId: 'run-1730541600000' }),
+            '',
+            record('already-imported'),
+            '{ not json',
+        ].join('\n'));
+
+        const result = await importTrackingJsonl(file);
+
+        expect(result).toEqual({ imported: 2, skipped: 1, unmatched: 0, failed: 1 });
+        expect(db.emailTracking.find(t => t.trackingToken === 'with-campaign')).toMatchObject({
+            userId: ALICE,
+            campaignId: 'c-alice',
+            openCount: 1,
+            firstOpenedAt: new Date('2024-11-02T11:00:00.000Z'),
+            createdAt: new Date('2024-11-02T10:00:00.000Z'),
+        });
+        // Legacy run IDs aren't campaigns; only Alice emailed this recipient
+        expect(db.emailTracking.find(t => t.trackingToken === 'old-run')).toMatchObject({ userId: ALICE, campaignId: undefined });
+        expect(db.linkClick).toEqual([expect.objectContaining({ clickToken: 'legacy-click', clickCount: 2 })]);
+    });
+
+    it('should leave out records that no single user sent', async () => {
+        fs.writeFileSync(file, [
+            record('shared', { campaignId: 'run-1730541600000' }),
+            record('stranger'),
+        ].join('\n'));
+
+        const result = await importTrackingJsonl(file);
+
+        expect(result).toEqual({ imported: 0, skipped: 0, unmatched: 2, failed: 0 });
+        expect(db.emailTracking.map(t => t.trackingToken)).toEqual(['already-imported']);
+    });
+
+    it('should report a missing file', async () => {
+        await expect(importTrackingJsonl(path.join(os.tmpdir(), 'no-such-tracking.jsonl'))).rejects.toThrow('Tracking file not found');
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for signed unsubscribe links
+ */
+
+jest.mock('../../../src/config/env', () => ({
+    env: { UNSUBSCRIBE_SECRET: 'test-unsubscribe-secret-0123456789abcdef' },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/services/suppression.service', () => ({
+    __esModule: true,
+    default: { suppress: jest.fn() },
+}));
+
+const emit = jest.fn();
+jest.mock('../../../src/server', () => ({
+    io: { to: () => ({ emit }) },
+}));
+
+import { UnsubscribeService } from '../../../src/services/unsubscribe.service';
+import suppressionService from '../../../src/services/suppression.service';
+
+describe('Unsubscribe Service', () => {
+    const service = new UnsubscribeService();
+    const payload = { userId: 'user-1', email: 'Alice@Client.com', campaignId: 'c1' };
+
+    beforeEach(() => {
+        emit.mockClear();
+        (suppressionService.suppress as jest.Mock).mockClear();
+    });
+
+    it('should round-trip a signed token', () => {
+        const token = service.createToken(payload);
+
+        expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+        expect(service.verifyToken(token)).toEqual({ userId: 'user-1', email: 'alice@client.com', campaignId: 'c1' });
+    });
+
+    it('should reject tampered and malformed tokens', () => {
+        const [, signature] = service.createToken(payload).split('.');
+        const forged = Buffer.from(JSON.stringify({ u: 'user-2', e: 'alice@client.com' })).toString('base64url');
+
+        expect(service.verifyToken(`${forged}.${signature}`)).toBeNull();
+        expect(service.verifyToken(`${forged}.`)).toBeNull();
+        expect(service.verifyToken('not-a-token')).toBeNull();
+    });
+
+    it('should build public links under /api/unsubscribe', () => {
+        expect(service.unsubscribeUrl(payload)).toMatch(/^http:\/\/localhost:5000\/api\/unsubscribe\/[\w-]+\.[\w-]+$/);
+    });
+
+    it('should suppress the address for the token\'s sender', async () => {
+        await service.unsubscribe(service.createToken(payload));
+
+        expect(suppressionService.suppress).toHaveBeenCalledWith(
+            'user-1', 'alice@client.com', 'unsubscribed', 'Unsubscribed via email link', 'c1'
+        );
+        expect(emit).toHaveBeenCalledWith('email:unsubscribed', { email: 'alice@client.com' });
+    });
+
+    it('should refuse an invalid link without touching the list', async () => {
+        await expect(service.unsubscribe('forged.token')).rejects.toMatchObject({ statusCode: 400 });
+        expect(suppressionService.suppress).not.toHaveBeenCalled();
+    });
+});
@@ -20,8 +20,8 @@ echo Checking if database exists...
 if exist dev.db (
     echo Database exists!
 ) else (
-    echo Database not found. Running migrations...
-    call npm run prisma:migrate
+    echo Database not found. Creating it...
+    call npm run prisma:push
 )
 
 echo.
@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "target_email" TEXT,
+    "details" TEXT,
+    "ip_address" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_drafts" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT,
+    "subject" TEXT,
+    "body" TEXT,
+    "recipients" TEXT,
+    "attachments" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_tracking" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT,
+    "recipient_id" TEXT,
+    "recipient_email" TEXT NOT NULL,
+    "subject" TEXT,
+    "tracking_token" TEXT NOT NULL,
+    "open_count" INTEGER NOT NULL DEFAULT 0,
+    "first_opened_at" TIMESTAMP(3),
+    "last_opened_at" TIMESTAMP(3),
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_tracking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "link_clicks" (
+    "id" TEXT NOT NULL,
+    "email_tracking_id" TEXT NOT NULL,
+    "original_url" TEXT NOT NULL,
+    "click_token" TEXT NOT NULL,
+    "click_count" INTEGER NOT NULL DEFAULT 0,
+    "first_clicked_at" TIMESTAMP(3),
+    "last_clicked_at" TIMESTAMP(3),
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+
+    CONSTRAINT "link_clicks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_user_id_idx" ON "audit_logs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "email_drafts_user_id_idx" ON "email_drafts"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_tracking_tracking_token_key" ON "email_tracking"("tracking_token");
+
+-- CreateIndex
+CREATE INDEX "email_tracking_campaign_id_idx" ON "email_tracking"("campaign_id");
+
+-- CreateIndex
+CREATE INDEX "email_tracking_tracking_token_idx" ON "email_tracking"("tracking_token");
+
+-- CreateIndex
+CREATE INDEX "email_tracking_recipient_email_idx" ON "email_tracking"("recipient_email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "link_clicks_click_token_key" ON "link_clicks"("click_token");
+
+-- CreateIndex
+CREATE INDEX "link_clicks_email_tracking_id_idx" ON "link_clicks"("email_tracking_id");
+
+-- CreateIndex
+CREATE INDEX "link_clicks_click_token_idx" ON "link_clicks"("click_token");
+
+-- AddForeignKey
+ALTER TABLE "link_clicks" ADD CONSTRAINT "link_clicks_email_tracking_id_fkey" FOREIGN KEY ("email_tracking_id") REFERENCES "email_tracking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
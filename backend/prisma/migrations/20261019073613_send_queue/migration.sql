@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "credential_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "recipients" ADD COLUMN     "merge_fields" TEXT;
+
+-- AlterTable
+ALTER TABLE "attachments" ADD COLUMN     "content" TEXT,
+ALTER COLUMN "file_path" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "send_jobs" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "recipient_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "locked_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "send_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "send_jobs_status_run_at_idx" ON "send_jobs"("status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "send_jobs_campaign_id_idx" ON "send_jobs"("campaign_id");
+
+-- AddForeignKey
+ALTER TABLE "send_jobs" ADD CONSTRAINT "send_jobs_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "send_jobs" ADD CONSTRAINT "send_jobs_recipient_id_fkey" FOREIGN KEY ("recipient_id") REFERENCES "recipients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "email_tracking" ADD COLUMN     "user_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "email_tracking_user_id_idx" ON "email_tracking"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "email_tracking" ADD CONSTRAINT "email_tracking_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_tracking" ADD CONSTRAINT "email_tracking_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "email_drafts" ADD COLUMN     "step" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "credential_email" TEXT,
+ADD COLUMN     "settings" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "email_drafts" ADD CONSTRAINT "email_drafts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
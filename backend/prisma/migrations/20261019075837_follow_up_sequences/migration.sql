@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "recipients" ADD COLUMN     "replied_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "send_jobs" ADD COLUMN     "sequence_step_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_drafts" ADD COLUMN     "sequence" TEXT;
+
+-- CreateTable
+CREATE TABLE "sequence_steps" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "step_order" INTEGER NOT NULL,
+    "delay_hours" INTEGER NOT NULL,
+    "condition" TEXT NOT NULL DEFAULT 'not_replied',
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sequence_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sequence_steps_campaign_id_step_order_key" ON "sequence_steps"("campaign_id", "step_order");
+
+-- AddForeignKey
+ALTER TABLE "send_jobs" ADD CONSTRAINT "send_jobs_sequence_step_id_fkey" FOREIGN KEY ("sequence_step_id") REFERENCES "sequence_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_steps" ADD CONSTRAINT "sequence_steps_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "email_credentials" ADD COLUMN     "reply_scan_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "email_tracking" ADD COLUMN     "message_id" TEXT,
+ADD COLUMN     "replied_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "email_tracking_message_id_idx" ON "email_tracking"("message_id");
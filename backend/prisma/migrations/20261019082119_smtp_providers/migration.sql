@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "email_credentials" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'gmail',
+ADD COLUMN     "smtp_host" TEXT NOT NULL DEFAULT 'smtp.gmail.com',
+ADD COLUMN     "smtp_port" INTEGER NOT NULL DEFAULT 587,
+ADD COLUMN     "smtp_security" TEXT NOT NULL DEFAULT 'starttls',
+ADD COLUMN     "smtp_auth_type" TEXT NOT NULL DEFAULT 'login',
+ADD COLUMN     "smtp_username" TEXT,
+ADD COLUMN     "imap_host" TEXT,
+ADD COLUMN     "imap_port" INTEGER;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "sender_rotation" TEXT NOT NULL DEFAULT 'round_robin';
+
+-- AlterTable
+ALTER TABLE "recipients" ADD COLUMN     "sender_email" TEXT;
+
+-- AlterTable
+ALTER TABLE "send_jobs" ADD COLUMN     "sender_email" TEXT;
+
+-- CreateTable
+CREATE TABLE "campaign_senders" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "credential_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "daily_cap" INTEGER,
+    "sent_count" INTEGER NOT NULL DEFAULT 0,
+    "paused_until" TIMESTAMP(3),
+    "disabled_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "campaign_senders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_senders_campaign_id_credential_id_key" ON "campaign_senders"("campaign_id", "credential_id");
+
+-- CreateIndex
+CREATE INDEX "send_jobs_sender_email_completed_at_idx" ON "send_jobs"("sender_email", "completed_at");
+
+-- AddForeignKey
+ALTER TABLE "campaign_senders" ADD CONSTRAINT "campaign_senders_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_senders" ADD CONSTRAINT "campaign_senders_credential_id_fkey" FOREIGN KEY ("credential_id") REFERENCES "email_credentials"("id") ON DELETE CASCADE ON UPDATE CASCADE;
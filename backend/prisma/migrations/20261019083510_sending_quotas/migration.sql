@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "email_credentials" ADD COLUMN     "daily_limit" INTEGER,
+ADD COLUMN     "warmup_started_at" TIMESTAMP(3),
+ADD COLUMN     "warmup_start_limit" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN     "warmup_days" INTEGER NOT NULL DEFAULT 28;
+
+-- CreateTable
+CREATE TABLE "credential_daily_usage" (
+    "id" TEXT NOT NULL,
+    "credential_id" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "sent_count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "credential_daily_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credential_daily_usage_credential_id_day_key" ON "credential_daily_usage"("credential_id", "day");
+
+-- AddForeignKey
+ALTER TABLE "credential_daily_usage" ADD CONSTRAINT "credential_daily_usage_credential_id_fkey" FOREIGN KEY ("credential_id") REFERENCES "email_credentials"("id") ON DELETE CASCADE ON UPDATE CASCADE;
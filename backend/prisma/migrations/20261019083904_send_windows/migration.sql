@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "send_days" TEXT,
+ADD COLUMN     "send_window_start" TEXT,
+ADD COLUMN     "send_window_end" TEXT,
+ADD COLUMN     "recipient_timezones" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "recipients" ADD COLUMN     "timezone" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "variants" TEXT,
+ADD COLUMN     "ab_sample_size" INTEGER,
+ADD COLUMN     "winning_variant" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_tracking" ADD COLUMN     "variant" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "personalization_acknowledged" BOOLEAN NOT NULL DEFAULT false;
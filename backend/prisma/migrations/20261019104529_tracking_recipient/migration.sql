@@ -0,0 +1,8 @@
+-- Recipients removed with their campaign left their tracking rows pointing nowhere
+UPDATE "email_tracking" SET "recipient_id" = NULL WHERE "recipient_id" IS NOT NULL AND "recipient_id" NOT IN (SELECT "id" FROM "recipients");
+
+-- CreateIndex
+CREATE INDEX "email_tracking_recipient_id_idx" ON "email_tracking"("recipient_id");
+
+-- AddForeignKey
+ALTER TABLE "email_tracking" ADD CONSTRAINT "email_tracking_recipient_id_fkey" FOREIGN KEY ("recipient_id") REFERENCES "recipients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
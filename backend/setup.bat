@@ -41,9 +41,9 @@ echo RATE_LIMIT_MAX_REQUESTS=100
 
 echo .env file created successfully!
 echo.
-echo Now running database migrations...
+echo Now creating the database...
 call npm run prisma:generate
-call npm run prisma:migrate
+call npm run prisma:push
 
 echo.
 echo Setup complete! You can now start the backend with: npm run dev
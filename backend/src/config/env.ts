@@ -21,6 +21,17 @@ interface EnvConfig {
     UPLOAD_DIR: string;
     RATE_LIMIT_WINDOW_MS: number;
     RATE_LIMIT_MAX_REQUESTS: number;
+    IMAP_HOST: string;
+    IMAP_PORT: number;
+    IMAP_SECURE: boolean;
+    REPLY_SCAN_INTERVAL_MS: number;
+    GLOBAL_SUPPRESSIONS: string[];
+    UNSUBSCRIBE_SECRET: string;
+    SEND_MAX_RETRIES: number;
+    SEND_RETRY_BASE_MS: number;
+    SEND_RETRY_MAX_MS: number;
+    AB_TEST_EVALUATION_MS: number;
+    AB_TEST_MIN_OPENS: number;
 }
 
 const getEnvVar = (key: string, defaultValue?: string): string => {
@@ -78,5 +89,24 @@ export const env: EnvConfig = {
     UPLOAD_DIR: getEnvVar('UPLOAD_DIR', './uploads'),
     RATE_LIMIT_WINDOW_MS: parseInt(getEnvVar('RATE_LIMIT_WINDOW_MS', '900000'), 10),
     RATE_LIMIT_MAX_REQUESTS: parseInt(getEnvVar('RATE_LIMIT_MAX_REQUESTS', '100'), 10),
+    // Inbox scanned for replies with each sender's app password (point at a local server for testing)
+    IMAP_HOST: getEnvVar('IMAP_HOST', 'imap.gmail.com'),
+    IMAP_PORT: parseInt(getEnvVar('IMAP_PORT', '993'), 10),
+    IMAP_SECURE: getEnvVar('IMAP_SECURE', 'true') !== 'false',
+    REPLY_SCAN_INTERVAL_MS: parseInt(getEnvVar('REPLY_SCAN_INTERVAL_MS', '300000'), 10),
+    // Addresses and @domains no user may email, comma-separated
+    GLOBAL_SUPPRESSIONS: (process.env.GLOBAL_SUPPRESSIONS || '')
+        .split(',')
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean),
+    // Signs unsubscribe links; rotating it breaks links in emails already sent
+    UNSUBSCRIBE_SECRET: getEnvVar('UNSUBSCRIBE_SECRET', JWT_SECRET),
+    // Retries of an email after a transient SMTP failure (timeouts, dropped connections, 4xx replies)
+    SEND_MAX_RETRIES: parseInt(getEnvVar('SEND_MAX_RETRIES', '3'), 10),
+    SEND_RETRY_BASE_MS: parseInt(getEnvVar('SEND_RETRY_BASE_MS', '60000'), 10),
+    SEND_RETRY_MAX_MS: parseInt(getEnvVar('SEND_RETRY_MAX_MS', '3600000'), 10),
+    // An A/B test picks its winner this long after its sample went out, or sooner once the sample has this many opens
+    AB_TEST_EVALUATION_MS: parseInt(getEnvVar('AB_TEST_EVALUATION_MS', '14400000'), 10),
+    AB_TEST_MIN_OPENS: parseInt(getEnvVar('AB_TEST_MIN_OPENS', '50'), 10),
 };
 
@@ -0,0 +1,106 @@
+/**
+ * SMTP provider presets. A credential stores its resolved settings, so a
+ * preset only supplies the defaults for the fields the user leaves empty.
+ */
+
+export const SMTP_PROVIDERS = ['gmail', 'outlook', 'zoho', 'yahoo', 'custom'] as const;
+// No plaintext mode: the login would send the password in the clear
+export const SMTP_SECURITY_MODES = ['starttls', 'ssl'] as const;
+export const SMTP_AUTH_TYPES = ['login', 'plain', 'cram-md5'] as const;
+
+// Submission ports only, so a credential can't point the server at arbitrary services
+export const SMTP_PORTS = [25, 465, 587, 2525] as const;
+export const IMAP_PORTS = [143, 993] as const;
+
+export type SmtpProvider = typeof SMTP_PROVIDERS[number];
+export type SmtpSecurity = typeof SMTP_SECURITY_MODES[number];
+export type SmtpAuthType = typeof SMTP_AUTH_TYPES[number];
+
+export interface SmtpSettings {
+    provider: SmtpProvider;
+    host: string;
+    port: number;
+    security: SmtpSecurity; // starttls upgrades a plain connection, ssl is TLS from the start
+    authType: SmtpAuthType;
+    username: string | null; // null = the sender address
+    imapHost: string | null; // Inbox scanned for replies and bounces; null = IMAP_HOST
+    imapPort: number | null;
+}
+
+export interface ProviderPreset extends Omit<SmtpSettings, 'provider' | 'username'> {
+    label: string;
+    passwordHint: string;
+}
+
+export const PROVIDER_PRESETS: Record<SmtpProvider, ProviderPreset> = {
+    gmail: {
+        label: 'Gmail / Google Workspace',
+        host: 'smtp.gmail.com',
+        port: 587,
+        security: 'starttls',
+        authType: 'login',
+        imapHost: 'imap.gmail.com',
+        imapPort: 993,
+        passwordHint: 'Google App Password (16 characters)',
+    },
+    outlook: {
+        label: 'Outlook / Microsoft 365',
+        host: 'smtp.office365.com',
+        port: 587,
+        security: 'starttls',
+        authType: 'login',
+        imapHost: 'outlook.office365.com',
+        imapPort: 993,
+        passwordHint: 'Account password, or an app password if MFA is on (SMTP AUTH must be enabled for the mailbox)',
+    },
+    zoho: {
+        label: 'Zoho Mail',
+        host: 'smtp.zoho.com',
+        port: 465,
+        security: 'ssl',
+        authType: 'login',
+        imapHost: 'imap.zoho.com',
+        imapPort: 993,
+        passwordHint: 'Zoho application-specific password',
+    },
+    yahoo: {
+        label: 'Yahoo Mail',
+        host: 'smtp.mail.yahoo.com',
+        port: 465,
+        security: 'ssl',
+        authType: 'login',
+        imapHost: 'imap.mail.yahoo.com',
+        imapPort: 993,
+        passwordHint: 'Yahoo app password',
+    },
+    custom: {
+        label: 'Custom SMTP',
+        host: '',
+        port: 587,
+        security: 'starttls',
+        authType: 'login',
+        imapHost: null,
+        imapPort: null,
+        passwordHint: 'SMTP password',
+    },
+};
+
+/**
+ * Fills in the preset's defaults for any setting not given explicitly
+ */
+export function resolveSmtpSettings(
+    provider: SmtpProvider = 'gmail',
+    overrides: Partial<Omit<SmtpSettings, 'provider'>> = {}
+): SmtpSettings {
+    const preset = PROVIDER_PRESETS[provider];
+    return {
+        provider,
+        host: overrides.host?.trim() || preset.host,
+        port: overrides.port ?? preset.port,
+        security: overrides.security ?? preset.security,
+        authType: overrides.authType ?? preset.authType,
+        username: overrides.username?.trim() || null,
+        imapHost: overrides.imapHost?.trim() || preset.imapHost,
+        imapPort: overrides.imapPort ?? preset.imapPort,
+    };
+}
@@ -1,11 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthRequest } from '../types';
 import authService from '../services/auth.service';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+
+const REFRESH_COOKIE = 'refreshToken';
+
+// The refresh token only ever travels in this httpOnly cookie, scoped to the auth routes
+const refreshCookieOptions = () => ({
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    // Frontend and API are on different sites in production
+    sameSite: env.NODE_ENV === 'production' ? 'none' as const : 'lax' as const,
+    path: '/api/auth',
+});
+
+const setRefreshCookie = (res: Response, token: string, expiresAt: Date) => {
+    res.cookie(REFRESH_COOKIE, token, { ...refreshCookieOptions(), expires: expiresAt });
+};
 
 export class AuthController {
     async register(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const result = await authService.register(req.body);
+            const { refreshToken, refreshTokenExpiresAt, ...result } = await authService.register(req.body);
+            setRefreshCookie(res, refreshToken, refreshTokenExpiresAt);
             res.status(201).json(result);
         } catch (error) {
             next(error);
@@ -14,13 +32,44 @@ export class AuthController {
 
     async login(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const result = await authService.login(req.body);
+            const { refreshToken, refreshTokenExpiresAt, ...result } = await authService.login(req.body);
+            setRefreshCookie(res, refreshToken, refreshTokenExpiresAt);
             res.json(result);
         } catch (error) {
             next(error);
         }
     }
 
+    async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Cookie for browsers; body field for API clients without a cookie jar
+            const presented = req.cookies?.[REFRESH_COOKIE] || req.body?.refreshToken;
+            if (!presented) {
+                throw new AppError('No refresh token provided', 401);
+            }
+
+            const { accessToken, refreshToken, refreshTokenExpiresAt } = await authService.refresh(presented);
+            // No new token when a parallel request already rotated this one
+            if (refreshToken && refreshTokenExpiresAt) {
+                setRefreshCookie(res, refreshToken, refreshTokenExpiresAt);
+            }
+            res.json({ accessToken });
+        } catch (error) {
+            res.clearCookie(REFRESH_COOKIE, refreshCookieOptions());
+            next(error);
+        }
+    }
+
+    async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            await authService.logout(req.cookies?.[REFRESH_COOKIE] || req.body?.refreshToken);
+            res.clearCookie(REFRESH_COOKIE, refreshCookieOptions());
+            res.json({ message: 'Logged out successfully' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     async getMe(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
             const user = await authService.getMe(req.user!.id);
@@ -1,14 +1,19 @@
 import { Response, NextFunction } from 'express';
-import { AuthRequest, RecipientDTO } from '../types';
+import { AbTestDTO, AuthRequest, RecipientDTO, SenderRotation, SendWindowDTO, SequenceStepDTO } from '../types';
 import campaignService from '../services/campaign.service';
 import credentialService from '../services/credential.service';
-import emailService from '../services/email.service';
 import { parseExcelFile } from '../utils/excel';
+import { ColumnMapping, RecipientImport, parseDelimitedFile, parseVCardFile } from '../utils/recipientImport';
+import { uploadRecipientsSchema } from '../utils/validation';
 import { AppError, ApiError, ErrorCode } from '../middleware/errorHandler';
 import multer from 'multer';
 import path from 'path';
 import { env } from '../config/env';
 import campaignRunManager from '../services/campaignRun.manager';
+import sendQueue from '../services/sendQueue.service';
+import senderRotationService from '../services/senderRotation.service';
+import personalizationLint from '../services/personalizationLint.service';
+import abTestService from '../services/abTest.service';
 import { io } from '../server';
 
 // Configure multer for file uploads
@@ -22,26 +27,37 @@ const storage = multer.diskStorage({
     },
 });
 
+// Recipient list parsers by file extension (vCards have fixed fields and ignore the mapping)
+const RECIPIENT_PARSERS: Record<string, (buffer: Buffer, mapping?: ColumnMapping) => RecipientImport> = {
+    '.xlsx': parseExcelFile,
+    '.xls': parseExcelFile,
+    '.csv': parseDelimitedFile,
+    '.tsv': parseDelimitedFile,
+    '.txt': parseDelimitedFile,
+    '.vcf': parseVCardFile,
+};
+
 export const upload = multer({
     storage,
     limits: { fileSize: env.MAX_FILE_SIZE },
     fileFilter: (req, file, cb) => {
-        const allowedTypes = ['.xlsx', '.xls'];
         const ext = path.extname(file.originalname).toLowerCase();
-        if (allowedTypes.includes(ext)) {
+        if (Object.hasOwn(RECIPIENT_PARSERS, ext)) {
             cb(null, true);
         } else {
-            cb(new Error('Only Excel files are allowed'));
+            cb(new Error('Only Excel, CSV, TSV and vCard (.vcf) files are allowed'));
         }
     },
 });
 
 interface SendCampaignRequest {
+    campaignId?: string;
+    name?: string;
     credentialId?: string;
     credentialEmail?: string;
-    subject: string;
-    body: string;
-    recipients: Array<{
+    subject?: string;
+    body?: string;
+    recipients?: Array<{
         email: string;
         [key: string]: any;
     }>;
@@ -52,6 +68,14 @@ interface SendCampaignRequest {
     }>;
     batchSize?: number;
     batchDelay?: number;
+    scheduledTime?: string;
+    timezone?: string;
+    sequence?: SequenceStepDTO[];
+    senders?: Array<{ email: string; weight: number; dailyCap?: number }>;
+    rotation?: SenderRotation;
+    sendWindow?: SendWindowDTO | null;
+    abTest?: AbTestDTO | null;
+    acknowledgePersonalization?: boolean;
 }
 
 export class CampaignController {
@@ -92,6 +116,44 @@ export class CampaignController {
         }
     }
 
+    /**
+     * GET /api/campaigns/:id/sequence
+     */
+    async getSequence(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const steps = await campaignService.getSequence(req.user!.id, req.params.id);
+            res.json({ steps });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * PUT /api/campaigns/:id/sequence
+     * Replaces the follow-up steps of a draft or scheduled campaign
+     */
+    async updateSequence(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const steps = await campaignService.replaceSequence(req.user!.id, req.params.id, req.body.steps);
+            res.json({ steps });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/campaigns/:id/variants
+     * Sends, opens and the winner of each A/B subject variant
+     */
+    async getVariantResults(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const results = await abTestService.getResults(req.user!.id, req.params.id);
+            res.json(results);
+        } catch (error) {
+            next(error);
+        }
+    }
+
     async deleteCampaign(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
             const result = await campaignService.deleteCampaign(req.user!.id, req.params.id);
@@ -101,6 +163,13 @@ export class CampaignController {
         }
     }
 
+    /**
+     * POST /api/campaigns/upload-recipients
+     * Parses an Excel, CSV/TSV or vCard file into recipients, listing the
+     * rows that were skipped and why. An optional `mapping` field (JSON,
+     * header -> merge field) overrides how columns are mapped; the response
+     * includes the headers, a few preview rows and the mapping applied.
+     */
     async uploadRecipients(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
             if (!req.file) {
@@ -108,13 +177,15 @@ export class CampaignController {
                 return;
             }
 
+            const { mapping } = uploadRecipientsSchema.parse(req.body);
             const fileBuffer = require('fs').readFileSync(req.file.path);
-            const recipients = parseExcelFile(fileBuffer);
+            const parse = RECIPIENT_PARSERS[path.extname(req.file.originalname).toLowerCase()];
+            const result = parse(fileBuffer, mapping);
 
             // Clean up uploaded file
             require('fs').unlinkSync(req.file.path);
 
-            res.json({ recipients, count: recipients.length });
+            res.json({ ...result, count: result.recipients.length });
         } catch (error) {
             // Clean up file on error
             if (req.file) {
@@ -126,26 +197,39 @@ export class CampaignController {
 
     /**
      * Send campaign emails using backend Nodemailer
-     * Fire-and-forget: returns immediately with a runId,
-     * then sends emails in background emitting WebSocket events.
+     * Persists the campaign (or attaches to an existing draft via campaignId),
+     * queues one send job per recipient and returns immediately with a runId
+     * (the campaign ID). The send queue worker delivers the emails and emits
+     * WebSocket events. With scheduledTime the campaign is left for the
+     * scheduler to start later.
      */
     async sendCampaign(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
             const {
+                campaignId,
+                name,
                 credentialEmail,
                 subject,
                 body,
-                recipients,
+                recipients = [],
                 attachments,
                 batchSize = 10,
-                batchDelay = 60
+                batchDelay = 60,
+                scheduledTime,
+                timezone,
+                sequence,
+                senders,
+                rotation,
+                sendWindow,
+                abTest,
+                acknowledgePersonalization
             } = req.body as SendCampaignRequest;
 
-            if (!recipients || recipients.length === 0) {
+            if (!campaignId && recipients.length === 0) {
                 throw ApiError.badRequest('No recipients provided. Please upload at least one recipient.', ErrorCode.MISSING_REQUIRED_FIELD);
             }
 
-            if (!subject || !body) {
+            if (!campaignId && (!subject || !body)) {
                 throw ApiError.badRequest('Subject and body are required. Please compose your email before sending.', ErrorCode.MISSING_REQUIRED_FIELD);
             }
 
@@ -155,7 +239,7 @@ export class CampaignController {
             const validRecipients = recipients.filter(r => emailRegex.test(r.email));
 
             // If ALL emails are invalid, return early
-            if (validRecipients.length === 0) {
+            if (!campaignId && validRecipients.length === 0) {
                 res.json({
                     message: `Campaign complete: 0 sent, ${invalidEmails.length} failed (all emails were invalid)`,
                     campaignRunId: null,
@@ -164,6 +248,27 @@ export class CampaignController {
                 return;
             }
 
+            // Blank merge fields would go out as gaps unless the user has seen and accepted them.
+            // A saved campaign is checked as it will be once this request's changes are applied.
+            if (!acknowledgePersonalization) {
+                const changes = {
+                    subject,
+                    body,
+                    sequence,
+                    variants: abTest === undefined ? undefined : abTest?.variants ?? [],
+                    recipients: validRecipients,
+                };
+                const report = campaignId
+                    ? await campaignService.personalizationReport(req.user!.id, campaignId, changes)
+                    : personalizationLint.lint({ ...changes, subject: subject!, body: body! });
+                if (personalizationLint.hasIssues(report)) {
+                    throw ApiError.badRequest(
+                        'Some emails would go out with blank personalization. Review the warnings and confirm to send anyway.',
+                        ErrorCode.VALIDATION_FAILED
+                    );
+                }
+            }
+
             // Log received attachments
             console.log(`[CampaignController] Received ${attachments?.length || 0} attachments`);
 
@@ -172,7 +277,7 @@ export class CampaignController {
 
             if (!credentials || credentials.length === 0) {
                 throw ApiError.badRequest(
-                    'No email credentials found. Please go back to Step 1 and add your Gmail credentials.',
+                    'No email credentials found. Please go back to Step 1 and connect your email account.',
                     ErrorCode.MISSING_REQUIRED_FIELD
                 );
             }
@@ -199,127 +304,148 @@ export class CampaignController {
                 credential = await credentialService.getCredentialById(req.user!.id, defaultCred.id);
             }
 
+            // Rotation senders must all be connected accounts of this user
+            const rotationSenders = senders?.map((sender, index) => {
+                const cred = credentials.find(c => c.email.toLowerCase() === sender.email.toLowerCase());
+                if (!cred) {
+                    throw ApiError.badRequest(`Sender "${sender.email}" is not one of your connected email accounts.`);
+                }
+                return { credentialId: cred.id, position: index, weight: sender.weight, dailyCap: sender.dailyCap ?? null };
+            });
+
+            // Persist the campaign so the send queue can survive restarts
+            const sendData = {
+                name: name || subject || '',
+                subject: subject || '',
+                body: body || '',
+                recipients: recipients as RecipientDTO[],
+                batchSize,
+                batchDelay,
+                credentialId: rotationSenders?.[0].credentialId ?? credential.id,
+                senders: rotationSenders,
+                senderRotation: rotation,
+                sendWindow,
+                abTest,
+                attachments,
+                scheduledTime,
+                timezone,
+                sequence,
+                acknowledgePersonalization,
+            };
+            const campaign = campaignId
+                ? await campaignService.attachSendRequest(req.user!.id, campaignId, sendData, sendData.recipients)
+                : await campaignService.createCampaign(req.user!.id, sendData, sendData.recipients);
+            const runId = campaign.id;
+
             // Create a campaign run for tracking progress
-            const allEmails = recipients.map(r => r.email);
-            const run = campaignRunManager.createRun(req.user!.id, allEmails);
-            const runId = run.id;
+            campaignRunManager.createRun(req.user!.id, campaign.recipients.map(r => r.email), runId);
 
-            // Mark invalid emails as failed immediately
-            invalidEmails.forEach(r => {
-                campaignRunManager.updateRecipient(runId, r.email, 'failed', `Invalid email format: "${r.email}". Skipped.`);
+            // Suppressed recipients were stored as cancelled; report them with their reason
+            const suppressed = campaign.recipients.filter(r => r.status === 'cancelled');
+            for (const row of suppressed) {
+                const error = row.errorMessage || undefined;
+                campaignRunManager.updateRecipient(runId, row.email, 'cancelled', error);
+                io.to(`campaign:${runId}`).emit('email:status', {
+                    email: row.email,
+                    status: 'cancelled',
+                    error,
+                });
+            }
+
+            // Mark invalid emails as failed immediately, queue the rest in upload order
+            const queuedRecipientIds: string[] = [];
+            const recipientsByEmail = new Map(
+                campaign.recipients
+                    .filter(r => r.status === 'queued')
+                    .map(r => [r.email.toLowerCase(), r])
+            );
+            for (const r of [...recipients, ...campaign.recipients]) {
+                const row = recipientsByEmail.get(r.email.toLowerCase());
+                if (!row) continue; // duplicate or already handled
+                recipientsByEmail.delete(r.email.toLowerCase());
+
+                if (emailRegex.test(row.email)) {
+                    queuedRecipientIds.push(row.id);
+                    continue;
+                }
+
+                const error = `Invalid email format: "${row.email}". Skipped.`;
+                await campaignService.updateRecipientStatus(row.id, 'failed', error);
+                campaignRunManager.updateRecipient(runId, row.email, 'failed', error);
                 // Emit to WebSocket room
                 io.to(`campaign:${runId}`).emit('email:status', {
-                    email: r.email,
+                    email: row.email,
                     status: 'failed',
-                    error: `Invalid email format: "${r.email}". Skipped.`,
+                    error,
                 });
-            });
+            }
+            await campaignService.updateCampaignCounts(runId);
+
+            const summary = {
+                total: campaign.recipients.length,
+                validCount: queuedRecipientIds.length,
+                invalidCount: campaign.recipients.length - queuedRecipientIds.length - suppressed.length,
+                suppressedCount: suppressed.length,
+            };
+
+            // Scheduled campaigns wait for the scheduler; everything else is queued now
+            if (campaign.status === 'scheduled') {
+                res.json({
+                    message: 'Campaign scheduled',
+                    campaignRunId: runId,
+                    scheduledTime: campaign.scheduledTime,
+                    timezone: campaign.timezone,
+                    summary,
+                });
+                return;
+            }
+
+            // Hand the valid recipients to the persistent send queue
+            await sendQueue.enqueueCampaign(runId, queuedRecipientIds);
 
-            // Respond immediately with the run ID
             res.json({
                 message: 'Campaign started',
                 campaignRunId: runId,
-                summary: { total: recipients.length, validCount: validRecipients.length, invalidCount: invalidEmails.length },
+                summary,
             });
 
-            // ====== BACKGROUND: Send emails asynchronously ======
-            // This runs AFTER the response has been sent to the client
-            setImmediate(async () => {
-                const credentialData = { email: credential.email, appPassword: credential.appPassword };
-
-                for (let i = 0; i < validRecipients.length; i++) {
-                    const recipient = validRecipients[i];
-
-                    // Mark as sending
-                    campaignRunManager.updateRecipient(runId, recipient.email, 'sending');
-                    io.to(`campaign:${runId}`).emit('email:status', {
-                        email: recipient.email,
-                        status: 'sending',
-                    });
-
-                    try {
-                        // Personalize subject and body
-                        const personalizedSubject = emailService.personalizeContent(subject, recipient);
-                        const personalizedBody = emailService.personalizeContent(body, recipient);
-
-                        // Prepare email with tracking (pixel + link rewriting)
-                        const { html: trackedBody } = await emailService.prepareTrackedEmail({
-                            recipientEmail: recipient.email,
-                            subject: personalizedSubject,
-                            html: personalizedBody,
-                            campaignId: runId,
-                        });
-
-                        // Send email with attachments
-                        const emailAttachments = attachments?.map(att => ({
-                            filename: att.filename,
-                            content: Buffer.from(att.content, 'base64'),
-                        }));
-
-                        await emailService.sendEmail(
-                            credentialData,
-                            {
-                                from: credential.email,
-                                to: recipient.email,
-                                subject: personalizedSubject,
-                                html: trackedBody,
-                                attachments: emailAttachments,
-                            }
-                        );
-
-                        // Mark as sent
-                        campaignRunManager.updateRecipient(runId, recipient.email, 'sent');
-                        io.to(`campaign:${runId}`).emit('email:status', {
-                            email: recipient.email,
-                            status: 'sent',
-                        });
-                    } catch (error: any) {
-                        console.error(`Failed to send to ${recipient.email}:`, error.message);
-
-                        // User-friendly error messages
-                        let friendlyError = error.message || 'Unknown error';
-                        if (error.message?.includes('Invalid login') || error.message?.includes('authentication failed')) {
-                            friendlyError = 'Gmail authentication failed. Please check your App Password in Step 1.';
-                        } else if (error.message?.includes('Recipient address rejected') || error.message?.includes('550')) {
-                            friendlyError = `Recipient email "${recipient.email}" does not exist or was rejected by the mail server.`;
-                        } else if (error.message?.includes('timeout') || error.message?.includes('ETIMEDOUT')) {
-                            friendlyError = 'Connection timed out. Gmail may be temporarily unavailable.';
-                        } else if (error.message?.includes('ECONNREFUSED') || error.message?.includes('ESOCKET')) {
-                            friendlyError = 'Could not connect to Gmail servers. Please check your internet connection.';
-                        } else if (error.message?.includes('Rate limit') || error.message?.includes('too many')) {
-                            friendlyError = 'Gmail rate limit reached. Please wait a few minutes and try again with fewer recipients.';
-                        }
-
-                        // Mark as failed
-                        campaignRunManager.updateRecipient(runId, recipient.email, 'failed', friendlyError);
-                        io.to(`campaign:${runId}`).emit('email:status', {
-                            email: recipient.email,
-                            status: 'failed',
-                            error: friendlyError,
-                        });
-                    }
-
-                    // Batch delay - wait between batches
-                    if ((i + 1) % batchSize === 0 && i < validRecipients.length - 1) {
-                        await new Promise(resolve => setTimeout(resolve, batchDelay * 1000));
-                    } else if (i < validRecipients.length - 1) {
-                        // Small delay between individual emails (300ms)
-                        await new Promise(resolve => setTimeout(resolve, 300));
-                    }
-                }
+        } catch (error) {
+            next(error);
+        }
+    }
 
-                // Emit completion
-                const finalRun = campaignRunManager.getRun(runId);
-                io.to(`campaign:${runId}`).emit('campaign:completed', {
-                    runId,
-                    sentCount: finalRun?.sentCount || 0,
-                    failedCount: finalRun?.failedCount || 0,
-                    totalCount: finalRun?.totalCount || 0,
-                });
+    /**
+     * POST /api/campaigns/test-send
+     * Sends one personalized copy to the user's own inbox, without tracking
+     */
+    async testSend(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await campaignService.sendTestEmail(req.user!.id, req.body);
+            res.json({ message: `Test email sent to ${result.sentTo.join(', ')}`, ...result });
+        } catch (error) {
+            next(error);
+        }
+    }
 
-                console.log(`[CampaignController] Campaign run ${runId} completed: ${finalRun?.sentCount} sent, ${finalRun?.failedCount} failed`);
-            });
+    /**
+     * POST /api/campaigns/preview
+     * Renders the subject and body for one recipient, as the preview shows it
+     */
+    async previewEmail(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            res.json(campaignService.previewEmail(req.body));
+        } catch (error) {
+            next(error);
+        }
+    }
 
+    /**
+     * POST /api/campaigns/lint
+     * Lists merge fields the recipient list can't fill, before sending
+     */
+    async lintPersonalization(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            res.json(personalizationLint.lint(req.body));
         } catch (error) {
             next(error);
         }
@@ -332,19 +458,86 @@ export class CampaignController {
     async getCampaignRunStatus(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
             const { runId } = req.params;
-            const status = campaignRunManager.getRunStatus(runId);
-
-            if (!status) {
-                throw ApiError.notFound('Campaign run not found or expired.');
-            }
 
             // Verify the run belongs to this user
             const run = campaignRunManager.getRun(runId);
             if (run && run.userId !== req.user!.id) {
-                throw ApiError.notFound('Campaign run not found.');
+                throw ApiError.notFound('Campaign run');
             }
 
-            res.json({ ...status });
+            // Live runs expire after an hour (or on restart); fall back to the stored campaign
+            const status = run
+                ? campaignRunManager.getRunStatus(runId)
+                : await campaignService.getRunStatus(req.user!.id, runId);
+
+            if (!status) {
+                throw ApiError.notFound('Campaign run');
+            }
+
+            const senders = await senderRotationService.getSenders(runId);
+            res.json({ ...status, senders });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/campaigns/run/:runId/pause
+     * Stops the send queue from picking up further emails of this run
+     */
+    async pauseCampaignRun(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const campaign = await sendQueue.pauseCampaign(req.user!.id, req.params.runId);
+            res.json({ message: 'Campaign paused', runId: campaign.id, status: campaign.status });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/campaigns/run/:runId/resume
+     */
+    async resumeCampaignRun(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const campaign = await sendQueue.resumeCampaign(req.user!.id, req.params.runId);
+            res.json({ message: 'Campaign resumed', runId: campaign.id, status: campaign.status });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/campaigns/run/:runId/cancel
+     * Drops every recipient that hasn't been sent yet
+     */
+    async cancelCampaignRun(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const campaign = await sendQueue.cancelCampaign(req.user!.id, req.params.runId);
+            res.json({
+                // A completed campaign only had follow-ups left to drop
+                message: campaign.status === 'completed' ? 'Pending follow-ups cancelled' : 'Campaign cancelled',
+                runId: campaign.id,
+                status: campaign.status,
+                summary: { sent: campaign.sentCount, failed: campaign.failedCount, total: campaign.totalRecipients },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/campaigns/run/:runId/retry-failed
+     * Re-sends a completed campaign's main email to the recipients it failed for
+     */
+    async retryFailedRecipients(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { campaign, retryCount } = await sendQueue.retryFailed(req.user!.id, req.params.runId);
+            res.json({
+                message: `Retrying ${retryCount} failed email${retryCount === 1 ? '' : 's'}`,
+                runId: campaign.id,
+                status: campaign.status,
+                retryCount,
+            });
         } catch (error) {
             next(error);
         }
@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../types';
 import credentialService from '../services/credential.service';
+import sendingQuotaService from '../services/sendingQuota.service';
+import { PROVIDER_PRESETS } from '../config/smtpProviders';
 
 export class CredentialController {
     async createCredential(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
@@ -21,6 +23,41 @@ export class CredentialController {
         }
     }
 
+    async getProviders(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            res.json({ providers: PROVIDER_PRESETS });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async testCredential(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await credentialService.testConnection(req.body);
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getQuotas(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const quotas = await sendingQuotaService.getQuotas(req.user!.id);
+            res.json({ quotas });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateQuota(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const quota = await sendingQuotaService.updateQuota(req.user!.id, req.params.id, req.body);
+            res.json({ quota });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     async deleteCredential(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
             const result = await credentialService.deleteCredential(req.user!.id, req.params.id);
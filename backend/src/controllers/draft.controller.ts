@@ -0,0 +1,52 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import draftService from '../services/draft.service';
+
+export class DraftController {
+    async getDrafts(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const drafts = await draftService.getDrafts(req.user!.id);
+            res.json({ drafts });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getDraftById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const draft = await draftService.getDraftById(req.user!.id, req.params.id);
+            res.json({ draft });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async createDraft(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const draft = await draftService.createDraft(req.user!.id, req.body);
+            res.status(201).json({ draft });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateDraft(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const draft = await draftService.updateDraft(req.user!.id, req.params.id, req.body);
+            res.json({ draft });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deleteDraft(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await draftService.deleteDraft(req.user!.id, req.params.id);
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export default new DraftController();
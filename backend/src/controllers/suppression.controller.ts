@@ -0,0 +1,67 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import suppressionService from '../services/suppression.service';
+
+export class SuppressionController {
+    async getSuppressions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await suppressionService.getSuppressions(req.user!.id, req.query);
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async createSuppression(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const suppression = await suppressionService.createSuppression(req.user!.id, req.body);
+            res.status(201).json({ suppression });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateSuppression(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const suppression = await suppressionService.updateSuppression(req.user!.id, req.params.id, req.body);
+            res.json({ suppression });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deleteSuppression(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await suppressionService.deleteSuppression(req.user!.id, req.params.id);
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/suppressions/import
+     * Body: { csv } - the file's text
+     */
+    async importSuppressions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await suppressionService.importCsv(req.user!.id, req.body.csv);
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async exportSuppressions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const csv = await suppressionService.exportCsv(req.user!.id);
+            res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+            res.setHeader('Content-Disposition', 'attachment; filename="suppressions.csv"');
+            res.send(csv);
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export default new SuppressionController();
@@ -0,0 +1,89 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import templateService from '../services/template.service';
+import { ApiError } from '../middleware/errorHandler';
+
+const parseVersion = (value: string): number => {
+    const version = parseInt(value, 10);
+    if (!Number.isInteger(version) || version < 1) {
+        throw ApiError.badRequest('Version must be a positive integer');
+    }
+    return version;
+};
+
+export class TemplateController {
+    async getTemplates(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+            const templates = await templateService.getTemplates(req.user!.id, search);
+            res.json({ templates });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getTemplateById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const template = await templateService.getTemplateById(req.user!.id, req.params.id);
+            res.json({ template });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async createTemplate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const template = await templateService.createTemplate(req.user!.id, req.body);
+            res.status(201).json({ template });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateTemplate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const template = await templateService.updateTemplate(req.user!.id, req.params.id, req.body);
+            res.json({ template });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deleteTemplate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const result = await templateService.deleteTemplate(req.user!.id, req.params.id);
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async duplicateTemplate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const template = await templateService.duplicateTemplate(req.user!.id, req.params.id, req.body.name);
+            res.status(201).json({ template });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getVersion(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const version = await templateService.getVersion(req.user!.id, req.params.id, parseVersion(req.params.version));
+            res.json({ version });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async restoreVersion(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const template = await templateService.restoreVersion(req.user!.id, req.params.id, parseVersion(req.params.version));
+            res.json({ template });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export default new TemplateController();
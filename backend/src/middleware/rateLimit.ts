@@ -59,6 +59,31 @@ export const authLimiter: RateLimitRequestHandler = rateLimit({
     },
 });
 
+/**
+ * Session refresh rate limiter
+ * 30 failed refreshes per 15 minutes; successful ones are not counted, so
+ * signed-in users refreshing their access token never use up login attempts
+ */
+export const refreshLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 30, // 30 failed refreshes
+    message: 'Too many session refresh attempts, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+    skipSuccessfulRequests: true,
+    handler: (req, res) => {
+        res.status(429).json({
+            success: false,
+            error: {
+                message: 'Too many session refresh attempts, please try again later',
+                code: ErrorCode.RATE_LIMITED,
+                type: 'authentication',
+                timestamp: new Date().toISOString(),
+            },
+        });
+    },
+});
+
 /**
  * Email sending rate limiter
  * 10 email campaigns per hour
@@ -131,3 +156,29 @@ export const credentialLimiter: RateLimitRequestHandler = rateLimit({
         });
     },
 });
+
+/**
+ * SMTP connection test rate limiter
+ * 10 tests per 15 minutes
+ */
+export const smtpTestLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10, // 10 tests
+    message: 'Too many connection tests, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req) => {
+        return (req as any).user?.id || req.ip || 'unknown';
+    },
+    handler: (req, res) => {
+        res.status(429).json({
+            success: false,
+            error: {
+                message: 'Too many connection tests, please try again in a few minutes',
+                code: ErrorCode.RATE_LIMITED,
+                type: 'server',
+                timestamp: new Date().toISOString(),
+            },
+        });
+    },
+});
@@ -2,8 +2,8 @@ import { Router } from 'express';
 import authController from '../controllers/auth.controller';
 import { validate } from '../middleware/validation';
 import { authenticate } from '../middleware/auth';
-import { authLimiter } from '../middleware/rateLimit';
-import { registerSchema, loginSchema } from '../utils/validation';
+import { authLimiter, refreshLimiter } from '../middleware/rateLimit';
+import { registerSchema, loginSchema, refreshTokenSchema } from '../utils/validation';
 
 const router = Router();
 
@@ -11,6 +11,10 @@ const router = Router();
 router.post('/register', authLimiter, validate(registerSchema), authController.register);
 router.post('/login', authLimiter, validate(loginSchema), authController.login);
 
+// Session routes - authenticated by the httpOnly refresh token cookie
+router.post('/refresh', refreshLimiter, validate(refreshTokenSchema), authController.refresh);
+router.post('/logout', validate(refreshTokenSchema), authController.logout);
+
 // Protected routes
 router.get('/me', authenticate, authController.getMe);
 
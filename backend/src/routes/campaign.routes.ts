@@ -2,7 +2,7 @@ import { Router } from 'express';
 import campaignController, { upload } from '../controllers/campaign.controller';
 import { authenticate } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validation';
-import { createCampaignSchema, updateCampaignSchema, paginationSchema, sendCampaignSchema } from '../utils/validation';
+import { createCampaignSchema, updateCampaignSchema, paginationSchema, sendCampaignSchema, testSendSchema, previewEmailSchema, lintPersonalizationSchema, updateSequenceSchema } from '../utils/validation';
 import { emailLimiter, uploadLimiter } from '../middleware/rateLimit';
 
 const router = Router();
@@ -15,16 +15,30 @@ router.get('/', validateQuery(paginationSchema), campaignController.getCampaigns
 
 // Campaign run progress polling (must be before /:id)
 router.get('/run/:runId/status', campaignController.getCampaignRunStatus);
+router.post('/run/:runId/pause', campaignController.pauseCampaignRun);
+router.post('/run/:runId/resume', campaignController.resumeCampaignRun);
+router.post('/run/:runId/cancel', campaignController.cancelCampaignRun);
+router.post('/run/:runId/retry-failed', emailLimiter, campaignController.retryFailedRecipients);
 
 router.get('/:id', campaignController.getCampaignById);
 router.patch('/:id', validate(updateCampaignSchema), campaignController.updateCampaign);
 router.delete('/:id', campaignController.deleteCampaign);
 
+// Follow-up sequence
+router.get('/:id/sequence', campaignController.getSequence);
+router.put('/:id/sequence', validate(updateSequenceSchema), campaignController.updateSequence);
+
+// A/B subject test results
+router.get('/:id/variants', campaignController.getVariantResults);
+
 // File upload route for recipients (with upload rate limit)
 router.post('/upload-recipients', uploadLimiter, upload.single('file'), campaignController.uploadRecipients);
 
 // Send campaign emails via backend (with email rate limit)
 router.post('/send', emailLimiter, validate(sendCampaignSchema), campaignController.sendCampaign);
+router.post('/test-send', emailLimiter, validate(testSendSchema), campaignController.testSend);
+router.post('/preview', validate(previewEmailSchema), campaignController.previewEmail);
+router.post('/lint', validate(lintPersonalizationSchema), campaignController.lintPersonalization);
 
 export default router;
 
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import credentialController from '../controllers/credential.controller';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validation';
-import { emailCredentialSchema } from '../utils/validation';
+import { smtpTestLimiter } from '../middleware/rateLimit';
+import { emailCredentialSchema, credentialQuotaSchema } from '../utils/validation';
 
 const router = Router();
 
@@ -11,6 +12,10 @@ router.use(authenticate);
 
 router.post('/', validate(emailCredentialSchema), credentialController.createCredential);
 router.get('/', credentialController.getCredentials);
+router.get('/providers', credentialController.getProviders);
+router.post('/test', smtpTestLimiter, validate(emailCredentialSchema), credentialController.testCredential);
+router.get('/quotas', credentialController.getQuotas);
+router.put('/:id/quota', validate(credentialQuotaSchema), credentialController.updateQuota);
 router.delete('/:id', credentialController.deleteCredential);
 
 export default router;
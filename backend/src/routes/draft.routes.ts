@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import draftController from '../controllers/draft.controller';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { saveDraftSchema } from '../utils/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', draftController.getDrafts);
+router.post('/', validate(saveDraftSchema), draftController.createDraft);
+router.get('/:id', draftController.getDraftById);
+router.patch('/:id', validate(saveDraftSchema), draftController.updateDraft);
+router.delete('/:id', draftController.deleteDraft);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import suppressionController from '../controllers/suppression.controller';
+import { authenticate } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validation';
+import {
+    createSuppressionSchema,
+    updateSuppressionSchema,
+    importSuppressionsSchema,
+    suppressionQuerySchema,
+} from '../utils/validation';
+import { uploadLimiter } from '../middleware/rateLimit';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', validateQuery(suppressionQuerySchema), suppressionController.getSuppressions);
+router.post('/', validate(createSuppressionSchema), suppressionController.createSuppression);
+
+// CSV import / export (must be before /:id)
+router.get('/export', suppressionController.exportSuppressions);
+router.post('/import', uploadLimiter, validate(importSuppressionsSchema), suppressionController.importSuppressions);
+
+router.patch('/:id', validate(updateSuppressionSchema), suppressionController.updateSuppression);
+router.delete('/:id', suppressionController.deleteSuppression);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import templateController from '../controllers/template.controller';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { createTemplateSchema, updateTemplateSchema, duplicateTemplateSchema } from '../utils/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', templateController.getTemplates);
+router.post('/', validate(createTemplateSchema), templateController.createTemplate);
+router.get('/:id', templateController.getTemplateById);
+router.patch('/:id', validate(updateTemplateSchema), templateController.updateTemplate);
+router.delete('/:id', templateController.deleteTemplate);
+
+router.post('/:id/duplicate', validate(duplicateTemplateSchema), templateController.duplicateTemplate);
+router.get('/:id/versions/:version', templateController.getVersion);
+router.post('/:id/versions/:version/restore', templateController.restoreVersion);
+
+export default router;
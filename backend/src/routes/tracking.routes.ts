@@ -5,6 +5,7 @@
 import { Router, Request, Response } from 'express';
 import { recordEmailOpen, recordLinkClick, getTrackingStats, getTrackingDetailsPaginated } from '../services/tracking.service';
 import { authenticate } from '../middleware/auth';
+import { AuthRequest } from '../types';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -74,12 +75,12 @@ router.get('/click/:token', async (req: Request, res: Response) => {
 
 /**
  * GET /api/track/stats
- * Get tracking statistics (authenticated)
+ * Get tracking statistics for the current user's emails (authenticated)
  */
-router.get('/stats', authenticate, async (req: Request, res: Response) => {
+router.get('/stats', authenticate, async (req: AuthRequest, res: Response) => {
     try {
         const { campaignId } = req.query;
-        const stats = getTrackingStats(campaignId as string | undefined);
+        const stats = await getTrackingStats(req.user!.id, campaignId as string | undefined);
 
         res.json({
             success: true,
@@ -99,15 +100,15 @@ router.get('/stats', authenticate, async (req: Request, res: Response) => {
 
 /**
  * GET /api/track/details
- * Get detailed tracking records (authenticated)
+ * Get detailed tracking records for the current user's emails (authenticated)
  */
-router.get('/details', authenticate, async (req: Request, res: Response) => {
+router.get('/details', authenticate, async (req: AuthRequest, res: Response) => {
     try {
         const { campaignId, page = '1', limit = '50' } = req.query;
         const pageNum = parseInt(page as string, 10) || 1;
         const limitNum = parseInt(limit as string, 10) || 50;
 
-        const stats = getTrackingDetailsPaginated(pageNum, limitNum, campaignId as string | undefined);
+        const stats = await getTrackingDetailsPaginated(req.user!.id, pageNum, limitNum, campaignId as string | undefined);
 
         // Transform records for frontend
         const details = stats.records.map(record => ({
@@ -118,8 +119,10 @@ router.get('/details', authenticate, async (req: Request, res: Response) => {
             openCount: record.openCount,
             firstOpenedAt: record.firstOpenedAt,
             lastOpenedAt: record.lastOpenedAt,
-            clicks: record.links.filter(l => l.clickCount > 0).length,
-            links: record.links.map(link => ({
+            replied: !!record.repliedAt,
+            repliedAt: record.repliedAt,
+            clicks: record.linkClicks.filter(l => l.clickCount > 0).length,
+            links: record.linkClicks.map(link => ({
                 url: link.originalUrl,
                 clicks: link.clickCount,
                 firstClickedAt: link.firstClickedAt,
@@ -135,6 +138,8 @@ router.get('/details', authenticate, async (req: Request, res: Response) => {
                     openRate: stats.openRate,
                     totalClicks: stats.totalClicks,
                     uniqueClicks: stats.uniqueClicks,
+                    totalReplied: stats.totalReplied,
+                    replyRate: stats.replyRate,
                 },
                 details,
                 pagination: stats.pagination
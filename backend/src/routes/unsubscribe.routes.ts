@@ -0,0 +1,79 @@
+/**
+ * Unsubscribe Routes
+ * Public pages behind the link in every campaign email. GET only asks for
+ * confirmation, since mail scanners prefetch links; POST unsubscribes, both
+ * from the page's button and from RFC 8058 one-click requests sent by the
+ * mailbox provider.
+ */
+import { Router, Request, Response } from 'express';
+import unsubscribeService from '../services/unsubscribe.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderPage(title: string, message: string, form = ''): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${title}</title>
+</head>
+<body style="font-family: system-ui, sans-serif; background: #f8fafc; color: #0f172a; display: flex; justify-content: center; padding: 64px 16px;">
+<main style="max-width: 420px; background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 32px; text-align: center;">
+<h1 style="font-size: 20px; margin: 0 0 12px;">${title}</h1>
+<p style="color: #475569; margin: 0 0 24px;">${message}</p>
+${form}
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * GET /api/unsubscribe/:token
+ * Confirmation page
+ */
+router.get('/:token', (req: Request, res: Response) => {
+    const payload = unsubscribeService.verifyToken(req.params.token);
+    if (!payload) {
+        res.status(400).send(renderPage('Link not valid', 'This unsubscribe link is invalid or incomplete.'));
+        return;
+    }
+
+    const form = `<form method="post">
+<button type="submit" style="background: #e11d48; color: #fff; border: 0; border-radius: 8px; padding: 10px 20px; font-size: 15px; cursor: pointer;">Unsubscribe</button>
+</form>`;
+    res.send(renderPage(
+        'Unsubscribe',
+        `Stop receiving emails from this sender at <strong>${escapeHtml(payload.email)}</strong>?`,
+        form
+    ));
+});
+
+/**
+ * POST /api/unsubscribe/:token
+ * Confirms the unsubscribe (form button or List-Unsubscribe-Post one-click)
+ */
+router.post('/:token', async (req: Request, res: Response) => {
+    try {
+        const payload = await unsubscribeService.unsubscribe(req.params.token);
+        res.send(renderPage(
+            'You have been unsubscribed',
+            `<strong>${escapeHtml(payload.email)}</strong> will not receive further emails from this sender.`
+        ));
+    } catch (error: any) {
+        if (error.statusCode === 400) {
+            res.status(400).send(renderPage('Link not valid', 'This unsubscribe link is invalid or incomplete.'));
+            return;
+        }
+        logger.error('Failed to process unsubscribe', { error: error.message });
+        res.status(500).send(renderPage('Something went wrong', 'Please try again in a few minutes.'));
+    }
+});
+
+export default router;
@@ -0,0 +1,24 @@
+/**
+ * Imports legacy open/click tracking from logs/email_tracking.jsonl into the database.
+ *
+ * Usage: npm run tracking:import [-- path/to/email_tracking.jsonl]
+ *
+ * Records are owned by the user of their campaign, or by the only user who
+ * emailed their recipient; records matching no single user are not imported.
+ */
+import path from 'path';
+import prisma from '../config/database';
+import { importTrackingJsonl } from '../services/tracking.service';
+
+const filePath = process.argv[2] || path.join(process.cwd(), 'logs', 'email_tracking.jsonl');
+
+importTrackingJsonl(filePath)
+    .then(({ imported, skipped, unmatched, failed }) => {
+        console.log(`Tracking import from ${filePath}: ${imported} imported, ${skipped} already present, ${unmatched} without an owner, ${failed} failed`);
+        process.exitCode = failed > 0 ? 1 : 0;
+    })
+    .catch((error) => {
+        console.error(`Tracking import failed: ${error.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -8,12 +8,19 @@ import { apiLimiter } from './middleware/rateLimit';
 import { securityHeaders, corsConfig, apiSecurityHeaders } from './middleware/security';
 import { requestIdMiddleware, requestLoggerMiddleware } from './middleware/requestLogger';
 import logger from './utils/logger';
+import sendQueue from './services/sendQueue.service';
+import replyDetection from './services/replyDetection.service';
+import campaignScheduler from './services/campaignScheduler.service';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
 import credentialRoutes from './routes/credential.routes';
 import campaignRoutes from './routes/campaign.routes';
 import trackingRoutes from './routes/tracking.routes';
+import templateRoutes from './routes/template.routes';
+import draftRoutes from './routes/draft.routes';
+import suppressionRoutes from './routes/suppression.routes';
+import unsubscribeRoutes from './routes/unsubscribe.routes';
 
 const app: Application = express();
 const server = http.createServer(app);
@@ -74,6 +81,10 @@ app.use('/api/auth', authRoutes);
 app.use('/api/credentials', credentialRoutes);
 app.use('/api/campaigns', campaignRoutes);
 app.use('/api/track', trackingRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/drafts', draftRoutes);
+app.use('/api/suppressions', suppressionRoutes);
+app.use('/api/unsubscribe', unsubscribeRoutes);
 
 // Error handling
 app.use(notFound);
@@ -87,6 +98,20 @@ server.listen(PORT, () => {
     logger.info(`Environment: ${env.NODE_ENV}`);
     logger.info(`Frontend URL: ${env.FRONTEND_URL}`);
     logger.info(`VERSION: 3.0 - WebSocket + Live Progress`);
+
+    // Resume any campaign that was mid-send when the previous process stopped
+    sendQueue.start();
+    campaignScheduler.start();
+    replyDetection.start();
+});
+
+// Stop claiming new jobs on shutdown; unfinished ones are picked up on the next boot
+process.on('SIGTERM', () => {
+    logger.info('SIGTERM received, stopping send queue');
+    campaignScheduler.stop();
+    replyDetection.stop();
+    sendQueue.stop();
+    server.close(() => process.exit(0));
 });
 
 export default app;
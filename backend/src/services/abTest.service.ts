@@ -0,0 +1,222 @@
+/**
+ * A/B Test Service
+ * Splits a campaign's recipients between subject-line variants. Variant "A"
+ * is the campaign's own subject and body; the others are stored as JSON on
+ * the campaign. Each recipient gets the same variant every time (hashed from
+ * the campaign and address), and the variant is recorded on the email's
+ * tracking record. Each variant's first `sampleSize` delivered emails are
+ * its sample; once every sample is out and its opens have had time to
+ * arrive, the variant with the strictly best sample open rate wins and all
+ * later recipients get it. Until then recipients keep being split.
+ */
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { AbTestDTO } from '../types';
+import { stableIndex } from '../utils/templateEngine';
+import logger from '../utils/logger';
+import { env } from '../config/env';
+
+// "A" is the campaign itself
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+// Recipient statuses of an email that reached the inbox, as the campaign counts
+// them. Tracking records of sends still in flight or that failed aren't samples.
+const DELIVERED = { recipient: { status: { in: ['sent', 'replied', 'soft_bounced'] } } };
+
+export interface CampaignVariant {
+    label: string;
+    subject: string;
+    body: string;
+}
+
+export interface VariantStats {
+    label: string;
+    sent: number;
+    opened: number;
+}
+
+// A variant's sample: its first sampleSize emails, and when the last of them went out
+export interface SampleStats extends VariantStats {
+    completedAt: Date;
+}
+
+export interface WinnerRules {
+    evaluationMs: number; // How long after the last sample email opens are waited for...
+    minOpens: number; // ...unless the samples have this many opens between them
+}
+
+const WINNER_RULES: WinnerRules = {
+    evaluationMs: env.AB_TEST_EVALUATION_MS,
+    minOpens: env.AB_TEST_MIN_OPENS,
+};
+
+interface AbTestCampaign {
+    id: string;
+    subject: string;
+    body: string;
+    variants: string | null;
+    abSampleSize: number | null;
+    winningVariant: string | null;
+}
+
+/**
+ * Campaign columns for an A/B test: null turns it off, undefined leaves it as is
+ */
+export function abTestFields(abTest: AbTestDTO | null | undefined) {
+    if (abTest === undefined) return {};
+    return {
+        variants: abTest
+            ? JSON.stringify(abTest.variants.map((variant, index) => ({
+                label: VARIANT_LABELS[index + 1],
+                subject: variant.subject,
+                body: variant.body?.trim() || null,
+            })))
+            : null,
+        abSampleSize: abTest?.sampleSize ?? null,
+        winningVariant: null,
+    };
+}
+
+/**
+ * The label whose sample open rate beats every other variant's, once every
+ * sample is complete and either the evaluation time has passed since the
+ * last one went out or the samples have minOpens opens; null while
+ * undecided or tied
+ */
+export function pickWinner(samples: SampleStats[], rules: WinnerRules, now: Date = new Date()): string | null {
+    if (samples.length < 2) return null;
+
+    const completedAt = Math.max(...samples.map((s) => s.completedAt.getTime()));
+    const opens = samples.reduce((sum, s) => sum + s.opened, 0);
+    if (now.getTime() - completedAt < rules.evaluationMs && opens < rules.minOpens) return null;
+
+    const rates = samples.map((s) => ({ label: s.label, rate: s.opened / s.sent }));
+    const best = rates.reduce((a, b) => (b.rate > a.rate ? b : a));
+    return rates.every((r) => r === best || r.rate < best.rate) ? best.label : null;
+}
+
+export class AbTestService {
+    /**
+     * Variants of a campaign, "A" first; just "A" when it isn't testing
+     */
+    variantsOf(campaign: AbTestCampaign): CampaignVariant[] {
+        const extra: Array<{ label: string; subject: string; body: string | null }> = campaign.variants
+            ? JSON.parse(campaign.variants)
+            : [];
+        return [
+            { label: 'A', subject: campaign.subject, body: campaign.body },
+            ...extra.map((v) => ({ label: v.label, subject: v.subject, body: v.body || campaign.body })),
+        ];
+    }
+
+    /**
+     * The variant a recipient's first email uses, promoting a winner first if
+     * the sample is complete. Null when the campaign isn't testing.
+     */
+    async variantFor(campaign: AbTestCampaign, email: string): Promise<CampaignVariant | null> {
+        const variants = this.variantsOf(campaign);
+        if (variants.length < 2) return null;
+
+        const winner = campaign.winningVariant || await this.promoteWinner(campaign, variants);
+        const chosen = winner && variants.find((v) => v.label === winner);
+        return chosen || variants[stableIndex(`${campaign.id}:${email.toLowerCase()}`, variants.length)];
+    }
+
+    /**
+     * Label of the variant a recipient's earlier email used, for a follow-up's
+     * "Re:" subject; null if none was recorded
+     */
+    async recordedVariant(campaignId: string, recipientId: string): Promise<string | null> {
+        const first = await prisma.emailTracking.findFirst({
+            where: { campaignId, recipientId, variant: { not: null } },
+            orderBy: { createdAt: 'asc' },
+            select: { variant: true },
+        });
+        return first?.variant ?? null;
+    }
+
+    /**
+     * Per-variant sends and opens of one of the user's campaigns
+     */
+    async getResults(userId: string, campaignId: string) {
+        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, userId } });
+        if (!campaign) {
+            throw new AppError('Campaign not found', 404);
+        }
+
+        const variants = this.variantsOf(campaign);
+        const stats = variants.length > 1 ? await this.statsOf(campaign.id, variants) : [];
+
+        return {
+            sampleSize: campaign.abSampleSize,
+            winner: campaign.winningVariant,
+            variants: stats.map((s, index) => ({
+                ...s,
+                subject: variants[index].subject,
+                openRate: s.sent > 0 ? Math.round((s.opened / s.sent) * 100) : 0,
+                isWinner: s.label === campaign.winningVariant,
+            })),
+        };
+    }
+
+    private async promoteWinner(campaign: AbTestCampaign, variants: CampaignVariant[]): Promise<string | null> {
+        if (!campaign.abSampleSize) return null;
+
+        const samples = await this.samplesOf(campaign.id, variants, campaign.abSampleSize);
+        const winner = samples && pickWinner(samples, WINNER_RULES);
+        if (!winner) return null;
+
+        // Another worker may have promoted one first; theirs stands
+        const { count } = await prisma.campaign.updateMany({
+            where: { id: campaign.id, winningVariant: null },
+            data: { winningVariant: winner },
+        });
+        if (count === 0) {
+            const current = await prisma.campaign.findUnique({ where: { id: campaign.id }, select: { winningVariant: true } });
+            return current?.winningVariant ?? winner;
+        }
+
+        logger.info(`Variant ${winner} won the subject test; sending it to the remaining recipients`, { campaignId: campaign.id });
+        return winner;
+    }
+
+    /**
+     * Each variant's sample stats, or null while some sample isn't complete.
+     * Emails after the sample don't count, so a variant isn't judged on
+     * sends whose opens haven't had time to arrive.
+     */
+    private async samplesOf(campaignId: string, variants: CampaignVariant[], sampleSize: number): Promise<SampleStats[] | null> {
+        const samples: SampleStats[] = [];
+        for (const { label } of variants) {
+            const where = { campaignId, variant: label, ...DELIVERED };
+            const last = await prisma.emailTracking.findFirst({
+                where,
+                orderBy: { createdAt: 'asc' },
+                skip: sampleSize - 1,
+                select: { createdAt: true },
+            });
+            if (!last) return null;
+
+            const inSample = { ...where, createdAt: { lte: last.createdAt } };
+            const [sent, opened] = await Promise.all([
+                prisma.emailTracking.count({ where: inSample }),
+                prisma.emailTracking.count({ where: { ...inSample, openCount: { gt: 0 } } }),
+            ]);
+            samples.push({ label, sent, opened, completedAt: last.createdAt });
+        }
+        return samples;
+    }
+
+    private async statsOf(campaignId: string, variants: CampaignVariant[]): Promise<VariantStats[]> {
+        const where = { campaignId, variant: { in: variants.map((v) => v.label) }, ...DELIVERED };
+        const [sent, opened] = await Promise.all([
+            prisma.emailTracking.groupBy({ by: ['variant'], where, _count: { _all: true } }),
+            prisma.emailTracking.groupBy({ by: ['variant'], where: { ...where, openCount: { gt: 0 } }, _count: { _all: true } }),
+        ]);
+        const countOf = (rows: typeof sent, label: string) => rows.find((r) => r.variant === label)?._count._all ?? 0;
+
+        return variants.map((v) => ({ label: v.label, sent: countOf(sent, v.label), opened: countOf(opened, v.label) }));
+    }
+}
+
+export default new AbTestService();
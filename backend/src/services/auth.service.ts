@@ -1,10 +1,15 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import prisma from '../config/database';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt';
+import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from '../utils/jwt';
+import logger from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 import { RegisterDTO, LoginDTO } from '../types';
 
 export class AuthService {
+    // How long a just-rotated refresh token is still accepted from a parallel request
+    private readonly REFRESH_GRACE_MS = 30 * 1000;
+
     async register(data: RegisterDTO) {
         // Check if user already exists
         const existingUser = await prisma.user.findUnique({
@@ -33,23 +38,14 @@ export class AuthService {
             },
         });
 
-        // Generate tokens
-        const accessToken = generateAccessToken({
-            id: user.id,
-            email: user.email,
-            fullName: user.fullName,
-        });
-
-        const refreshToken = generateRefreshToken({
-            id: user.id,
-            email: user.email,
-            fullName: user.fullName,
-        });
+        // Generate tokens (starts a new refresh token family)
+        const { accessToken, refreshToken, refreshTokenExpiresAt } = await this.issueTokens(user);
 
         return {
             user,
             accessToken,
             refreshToken,
+            refreshTokenExpiresAt,
         };
     }
 
@@ -107,18 +103,8 @@ export class AuthService {
             },
         });
 
-        // Generate tokens
-        const accessToken = generateAccessToken({
-            id: user.id,
-            email: user.email,
-            fullName: user.fullName,
-        });
-
-        const refreshToken = generateRefreshToken({
-            id: user.id,
-            email: user.email,
-            fullName: user.fullName,
-        });
+        // Generate tokens (starts a new refresh token family)
+        const { accessToken, refreshToken, refreshTokenExpiresAt } = await this.issueTokens(user);
 
         return {
             user: {
@@ -129,6 +115,7 @@ export class AuthService {
             },
             accessToken,
             refreshToken,
+            refreshTokenExpiresAt,
         };
     }
 
@@ -150,6 +137,160 @@ export class AuthService {
 
         return user;
     }
+
+    /**
+     * Exchanges a refresh token for a new access/refresh token pair.
+     * The presented token is single-use: reusing it (or any revoked token)
+     * is treated as theft and revokes every token in its family. A second
+     * request racing the rotation (e.g. another tab) within REFRESH_GRACE_MS
+     * only gets an access token, leaving the cookie the first one set.
+     */
+    async refresh(refreshToken: string): Promise<{
+        accessToken: string;
+        refreshToken?: string;
+        refreshTokenExpiresAt?: Date;
+    }> {
+        let payload;
+        try {
+            payload = verifyRefreshToken(refreshToken);
+        } catch {
+            throw new AppError('Invalid or expired refresh token', 401);
+        }
+
+        const stored = await prisma.refreshToken.findUnique({
+            where: { id: payload.jti || '' },
+        });
+
+        if (!stored || stored.userId !== payload.id) {
+            throw new AppError('Invalid or expired refresh token', 401);
+        }
+
+        const rotatedJustNow = await this.rotatedJustNow(stored);
+        if ((stored.revokedAt || stored.replacedById) && !rotatedJustNow) {
+            await this.reportReuse(stored);
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: stored.userId } });
+        if (!user || !user.isActive) {
+            await this.revokeFamily(stored.familyId);
+            throw new AppError('Invalid or expired refresh token', 401);
+        }
+
+        if (rotatedJustNow) {
+            return { accessToken: generateAccessToken({ id: user.id, email: user.email, fullName: user.fullName }) };
+        }
+
+        const tokens = await this.issueTokens(user, stored.familyId);
+
+        // Retire the presented token; losing this race means another request rotated it first
+        const rotated = await prisma.refreshToken.updateMany({
+            where: { id: stored.id, revokedAt: null, replacedById: null },
+            data: { replacedById: tokens.refreshTokenId, revokedAt: new Date() },
+        });
+
+        if (rotated.count !== 1) {
+            await prisma.refreshToken.updateMany({
+                where: { id: tokens.refreshTokenId },
+                data: { revokedAt: new Date() },
+            });
+
+            const winner = await prisma.refreshToken.findUniqueOrThrow({ where: { id: stored.id } });
+            if (!await this.rotatedJustNow(winner)) {
+                await this.reportReuse(winner);
+            }
+            return { accessToken: tokens.accessToken };
+        }
+
+        return {
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+        };
+    }
+
+    /**
+     * Revokes the refresh token family of the given token (logs out this session)
+     */
+    async logout(refreshToken?: string) {
+        if (!refreshToken) return;
+
+        let payload;
+        try {
+            payload = verifyRefreshToken(refreshToken);
+        } catch {
+            return; // Already invalid - nothing to revoke
+        }
+
+        const stored = await prisma.refreshToken.findUnique({
+            where: { id: payload.jti || '' },
+            select: { familyId: true },
+        });
+
+        if (stored) {
+            await this.revokeFamily(stored.familyId);
+        }
+    }
+
+    private async issueTokens(
+        user: { id: string; email: string; fullName: string },
+        familyId?: string
+    ) {
+        const payload = { id: user.id, email: user.email, fullName: user.fullName };
+        const refreshTokenId = crypto.randomUUID();
+
+        const accessToken = generateAccessToken(payload);
+        const refreshToken = generateRefreshToken(payload, refreshTokenId);
+        const refreshTokenExpiresAt = new Date(verifyRefreshToken(refreshToken).exp * 1000);
+
+        // A new login is a good moment to drop this user's expired tokens
+        if (!familyId) {
+            await prisma.refreshToken.deleteMany({
+                where: { userId: user.id, expiresAt: { lt: new Date() } },
+            });
+        }
+
+        await prisma.refreshToken.create({
+            data: {
+                id: refreshTokenId,
+                userId: user.id,
+                familyId: familyId || crypto.randomUUID(),
+                expiresAt: refreshTokenExpiresAt,
+            },
+        });
+
+        return { accessToken, refreshToken, refreshTokenId, refreshTokenExpiresAt };
+    }
+
+    /**
+     * Whether the token was rotated moments ago and its successor is still live
+     */
+    private async rotatedJustNow(token: { replacedById: string | null; revokedAt: Date | null }): Promise<boolean> {
+        if (!token.replacedById || !token.revokedAt || Date.now() - token.revokedAt.getTime() > this.REFRESH_GRACE_MS) {
+            return false;
+        }
+
+        const successor = await prisma.refreshToken.findUnique({
+            where: { id: token.replacedById },
+            select: { revokedAt: true },
+        });
+        return !!successor && !successor.revokedAt;
+    }
+
+    private async reportReuse(token: { userId: string; familyId: string }): Promise<never> {
+        await this.revokeFamily(token.familyId);
+        logger.warn('Refresh token reuse detected, token family revoked', {
+            userId: token.userId,
+            familyId: token.familyId,
+        });
+        throw new AppError('Refresh token has already been used. Please log in again.', 401);
+    }
+
+    private async revokeFamily(familyId: string) {
+        await prisma.refreshToken.updateMany({
+            where: { familyId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
 }
 
 export default new AuthService();
@@ -0,0 +1,87 @@
+/**
+ * Bounce Service
+ * Applies parsed delivery status notifications: the bounced recipient's
+ * status is updated and hard-bounced addresses are suppressed for good.
+ */
+import prisma from '../config/database';
+import logger from '../utils/logger';
+import { BouncedRecipient, DeliveryReport } from '../utils/bounce';
+import campaignService from './campaign.service';
+import suppressionService from './suppression.service';
+import { io } from '../server';
+
+// A bounce can only follow an email that went out
+const BOUNCEABLE_STATUSES: Record<BouncedRecipient['type'], string[]> = {
+    hard: ['sent', 'soft_bounced'],
+    soft: ['sent'],
+};
+
+export class BounceService {
+    /**
+     * Records every bounced recipient of a report sent from this user's
+     * mailbox. Returns how many recipients changed status.
+     */
+    async handleReport(userId: string, report: DeliveryReport): Promise<number> {
+        let updated = 0;
+
+        for (const bounce of report.recipients) {
+            try {
+                if (await this.handleBounce(userId, bounce, report.originalMessageId)) updated++;
+            } catch (error: any) {
+                logger.error(`Failed to record bounce for ${bounce.email}`, { error: error.message });
+            }
+        }
+        return updated;
+    }
+
+    private async handleBounce(userId: string, bounce: BouncedRecipient, originalMessageId?: string): Promise<boolean> {
+        // The original Message-ID is exact; the address is the fallback when the DSN omits it
+        const tracking = (originalMessageId
+            ? await prisma.emailTracking.findFirst({ where: { userId, messageId: originalMessageId } })
+            : null)
+            ?? await prisma.emailTracking.findFirst({
+                where: { userId, recipientEmail: bounce.email },
+                orderBy: { createdAt: 'desc' },
+            });
+
+        const address = tracking?.recipientEmail || bounce.email;
+        const reason = [bounce.status, bounce.diagnostic].filter(Boolean).join(' ');
+
+        if (bounce.type === 'hard') {
+            await suppressionService.suppress(userId, address, 'hard_bounce', reason, tracking?.campaignId);
+        }
+
+        if (!tracking?.recipientId) {
+            logger.info(`${bounce.type} bounce for ${address} did not match a campaign recipient`);
+            return false;
+        }
+
+        const status = bounce.type === 'hard' ? 'bounced' : 'soft_bounced';
+        const changed = await prisma.recipient.updateMany({
+            where: { id: tracking.recipientId, status: { in: BOUNCEABLE_STATUSES[bounce.type] } },
+            data: { status, errorMessage: `Bounced (${bounce.type}): ${reason || bounce.action}` },
+        });
+        if (changed.count === 0) return false;
+
+        if (bounce.type === 'hard') {
+            await prisma.sendJob.updateMany({
+                where: { recipientId: tracking.recipientId, status: 'pending' },
+                data: { status: 'cancelled', lastError: 'Address hard-bounced' },
+            });
+        }
+
+        if (tracking.campaignId) {
+            await campaignService.updateCampaignCounts(tracking.campaignId);
+            io.to(`campaign:${tracking.campaignId}`).emit('email:bounced', {
+                email: address,
+                type: bounce.type,
+                status: bounce.status,
+            });
+        }
+
+        logger.info(`Recorded ${bounce.type} bounce for ${address} (${bounce.status})`);
+        return true;
+    }
+}
+
+export default new BounceService();
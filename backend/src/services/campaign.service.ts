@@ -1,13 +1,124 @@
+import { Prisma, Recipient } from '@prisma/client';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
-import { CreateCampaignDTO, UpdateCampaignDTO, CampaignQuery, RecipientDTO } from '../types';
+import { CreateCampaignDTO, UpdateCampaignDTO, CampaignQuery, RecipientDTO, SequenceStepDTO, SendWindowDTO, TestSendDTO, PreviewEmailDTO, PersonalizationLintDTO } from '../types';
 import { removeDuplicateRecipients } from '../utils/excel';
+import { isValidTimeZone, resolveScheduledTime } from '../utils/timezone';
+import suppressionService, { suppressedMessage } from './suppression.service';
+import credentialService from './credential.service';
+import emailService from './email.service';
+import sendingQuota from './sendingQuota.service';
+import personalizationLint, { PersonalizationReport } from './personalizationLint.service';
+import { abTestFields } from './abTest.service';
+
+// Statuses only the send queue / scheduler may set
+const QUEUE_MANAGED_STATUSES = ['sending', 'completed', 'failed'];
+
+// Status changes a PATCH may make. Runs are paused, resumed and cancelled
+// through their own endpoints, which also stop the queued emails.
+const EDITABLE_STATUS_CHANGES: Record<string, string[]> = {
+    draft: ['scheduled'],
+    scheduled: ['draft', 'cancelled'],
+};
+
+// How a persisted campaign status is reported through the run status endpoint
+const RUN_STATUS_BY_CAMPAIGN_STATUS: Record<string, string> = {
+    scheduled: 'scheduled',
+    sending: 'running',
+    paused: 'paused',
+    completed: 'completed',
+    failed: 'completed',
+    cancelled: 'cancelled',
+};
+
+function toSequenceSteps(steps: SequenceStepDTO[]) {
+    return steps.map((step, index) => ({
+        stepOrder: index + 1,
+        delayHours: step.delayHours,
+        condition: step.condition,
+        subject: step.subject?.trim() || null,
+        body: step.body,
+    }));
+}
+
+/**
+ * Campaign columns for a sending window: null clears it, undefined leaves it as is
+ */
+function sendWindowFields(window: SendWindowDTO | null | undefined) {
+    if (window === undefined) return {};
+    return {
+        sendDays: window ? [...new Set(window.days)].sort((a, b) => a - b).join(',') : null,
+        sendWindowStart: window?.start ?? null,
+        sendWindowEnd: window?.end ?? null,
+        recipientTimezones: window?.recipientTimezones ?? false,
+    };
+}
+
+// The sheet's time zone column, if it names a zone the runtime knows
+function recipientTimeZone(recipient: RecipientDTO): string | null {
+    const value = (recipient.timezone ?? recipient.timeZone)?.trim();
+    return value && isValidTimeZone(value) ? value : null;
+}
+
+/**
+ * Recipient rows to create. Suppressed addresses are stored already
+ * cancelled, with the reason, so they never reach the send queue.
+ */
+async function toRecipientRows(userId: string, recipients: RecipientDTO[]) {
+    const suppressed = await suppressionService.findSuppressions(userId, recipients.map((r) => r.email));
+
+    return recipients.map((recipient) => {
+        const match = suppressed.get(recipient.email.trim().toLowerCase());
+        return {
+            fullName: recipient.fullName,
+            email: recipient.email,
+            companyName: recipient.companyName,
+            jobTitle: recipient.jobTitle,
+            mergeFields: JSON.stringify(recipient),
+            timezone: recipientTimeZone(recipient),
+            ...(match ? { status: 'cancelled', errorMessage: suppressedMessage(match) } : {}),
+        };
+    });
+}
+
+/**
+ * A stored recipient's columns, as the send queue fills them in
+ */
+function storedMergeFields(recipient: Pick<Recipient, 'email' | 'fullName' | 'companyName' | 'jobTitle' | 'mergeFields'>) {
+    if (recipient.mergeFields) {
+        return { ...JSON.parse(recipient.mergeFields), email: recipient.email };
+    }
+    return { email: recipient.email, fullName: recipient.fullName, companyName: recipient.companyName, jobTitle: recipient.jobTitle };
+}
+
+/**
+ * Merge fields for a test send or preview; real unsubscribe links are
+ * signed per recipient at send time
+ */
+function previewMergeFields(recipient: Record<string, unknown>): Record<string, string> {
+    const mergeFields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(recipient)) {
+        mergeFields[key] = value === null || value === undefined ? '' : String(value);
+    }
+    mergeFields.unsubscribe_link = '#unsubscribe';
+    return mergeFields;
+}
 
 export class CampaignService {
     async createCampaign(userId: string, data: CreateCampaignDTO, recipients: RecipientDTO[]) {
         // Remove duplicate recipients
         const uniqueRecipients = removeDuplicateRecipients(recipients);
 
+        const scheduledTime = data.scheduledTime
+            ? resolveScheduledTime(data.scheduledTime, data.timezone)
+            : undefined;
+
+        if (scheduledTime && scheduledTime.getTime() <= Date.now()) {
+            throw new AppError('Scheduled time must be in the future', 400);
+        }
+
+        const recipientRows = await toRecipientRows(userId, uniqueRecipients);
+
         // Create campaign with recipients
         const campaign = await prisma.campaign.create({
             data: {
@@ -15,18 +126,34 @@ export class CampaignService {
                 name: data.name,
                 subject: data.subject,
                 body: data.body,
-                scheduledTime: data.scheduledTime,
+                status: scheduledTime ? 'scheduled' : 'draft',
+                scheduledTime,
+                timezone: data.timezone,
                 batchSize: data.batchSize || 10,
                 batchDelay: data.batchDelay || 60,
+                credentialId: data.credentialId,
+                senderRotation: data.senderRotation,
+                ...sendWindowFields(data.sendWindow),
+                ...abTestFields(data.abTest),
+                personalizationAcknowledged: data.acknowledgePersonalization ?? false,
                 totalRecipients: uniqueRecipients.length,
                 recipients: {
-                    create: uniqueRecipients.map((recipient) => ({
-                        fullName: recipient.fullName,
-                        email: recipient.email,
-                        companyName: recipient.companyName,
-                        jobTitle: recipient.jobTitle,
-                    })),
+                    create: recipientRows,
                 },
+                attachments: data.attachments?.length ? {
+                    create: data.attachments.map((attachment) => ({
+                        filename: attachment.filename,
+                        content: attachment.content,
+                        fileSize: Buffer.byteLength(attachment.content, 'base64'),
+                        mimeType: attachment.contentType,
+                    })),
+                } : undefined,
+                sequenceSteps: data.sequence?.length ? {
+                    create: toSequenceSteps(data.sequence),
+                } : undefined,
+                senders: data.senders?.length ? {
+                    create: data.senders,
+                } : undefined,
             },
             include: {
                 recipients: true,
@@ -36,6 +163,99 @@ export class CampaignService {
         return campaign;
     }
 
+    /**
+     * Prepares an existing draft (or not yet started scheduled) campaign for a
+     * send request: applies the request's content and settings and appends any
+     * new recipients. Returns the campaign with all of its recipients.
+     */
+    async attachSendRequest(
+        userId: string,
+        campaignId: string,
+        data: Partial<CreateCampaignDTO>,
+        recipients: RecipientDTO[] = []
+    ) {
+        const existing = await prisma.campaign.findFirst({
+            where: { id: campaignId, userId },
+            include: { recipients: { select: { email: true } } },
+        });
+
+        if (!existing) {
+            throw new AppError('Campaign not found', 404);
+        }
+
+        if (!['draft', 'scheduled'].includes(existing.status)) {
+            throw new AppError(`Cannot send a ${existing.status} campaign`, 400);
+        }
+
+        const known = new Set(existing.recipients.map((r) => r.email.toLowerCase()));
+        const newRecipients = removeDuplicateRecipients(recipients)
+            .filter((r) => !known.has(r.email.toLowerCase()));
+
+        if (existing.recipients.length + newRecipients.length === 0) {
+            throw new AppError('Campaign has no recipients', 400);
+        }
+
+        const timezone = data.timezone || existing.timezone;
+        let scheduledTime: Date | null = null;
+        if (data.scheduledTime) {
+            scheduledTime = resolveScheduledTime(data.scheduledTime, timezone);
+            if (scheduledTime.getTime() <= Date.now()) {
+                throw new AppError('Scheduled time must be in the future', 400);
+            }
+        }
+
+        const recipientRows = await toRecipientRows(userId, newRecipients);
+
+        return prisma.campaign.update({
+            where: { id: campaignId },
+            data: {
+                name: data.name || undefined,
+                subject: data.subject || undefined,
+                body: data.body || undefined,
+                status: scheduledTime ? 'scheduled' : 'draft',
+                scheduledTime,
+                timezone,
+                batchSize: data.batchSize,
+                batchDelay: data.batchDelay,
+                credentialId: data.credentialId,
+                senderRotation: data.senderRotation,
+                ...sendWindowFields(data.sendWindow),
+                ...abTestFields(data.abTest),
+                personalizationAcknowledged: data.acknowledgePersonalization ?? false,
+                totalRecipients: existing.recipients.length + newRecipients.length,
+                recipients: newRecipients.length ? {
+                    create: recipientRows,
+                } : undefined,
+                // Attachments sent with the request replace the stored ones
+                attachments: data.attachments?.length ? {
+                    deleteMany: {},
+                    create: data.attachments.map((attachment) => ({
+                        filename: attachment.filename,
+                        content: attachment.content,
+                        fileSize: Buffer.byteLength(attachment.content, 'base64'),
+                        mimeType: attachment.contentType,
+                    })),
+                } : undefined,
+                // A sequence sent with the request replaces the stored one
+                sequenceSteps: data.sequence ? {
+                    deleteMany: {},
+                    create: toSequenceSteps(data.sequence),
+                } : undefined,
+                // Senders sent with the request replace the stored rotation
+                senders: data.senders ? {
+                    deleteMany: {},
+                    create: data.senders,
+                } : undefined,
+                updatedAt: new Date(),
+            },
+            include: {
+                recipients: {
+                    orderBy: { createdAt: 'asc' },
+                },
+            },
+        });
+    }
+
     async getCampaigns(userId: string, query: CampaignQuery) {
         const page = query.page || 1;
         const limit = query.limit || 10;
@@ -58,6 +278,7 @@ export class CampaignService {
                     subject: true,
                     status: true,
                     scheduledTime: true,
+                    timezone: true,
                     totalRecipients: true,
                     sentCount: true,
                     failedCount: true,
@@ -84,6 +305,9 @@ export class CampaignService {
                     orderBy: { createdAt: 'asc' },
                 },
                 attachments: true,
+                sequenceSteps: {
+                    orderBy: { stepOrder: 'asc' },
+                },
             },
         });
 
@@ -94,6 +318,130 @@ export class CampaignService {
         return campaign;
     }
 
+    /**
+     * Rebuilds a run status (same shape as the in-memory run) from the
+     * database, used once the live run has expired or the server restarted.
+     * Returns null for campaigns that were never sent.
+     */
+    async getRunStatus(userId: string, campaignId: string) {
+        const campaign = await prisma.campaign.findFirst({
+            where: { id: campaignId, userId },
+            include: {
+                recipients: {
+                    orderBy: { createdAt: 'asc' },
+                    select: { email: true, status: true, errorMessage: true, sentAt: true, senderEmail: true },
+                },
+            },
+        });
+
+        if (!campaign || campaign.status === 'draft') {
+            return null;
+        }
+
+        const status = RUN_STATUS_BY_CAMPAIGN_STATUS[campaign.status] || 'running';
+        const recipients: Record<string, { email: string; status: string; error?: string; sentAt?: Date; sender?: string }> = {};
+        for (const r of campaign.recipients) {
+            recipients[r.email] = {
+                email: r.email,
+                status: r.status,
+                error: r.errorMessage || undefined,
+                sentAt: r.sentAt || undefined,
+                sender: r.senderEmail || undefined,
+            };
+        }
+
+        return {
+            id: campaign.id,
+            status,
+            totalCount: campaign.totalRecipients,
+            sentCount: campaign.sentCount,
+            failedCount: campaign.failedCount,
+            cancelledCount: campaign.recipients.filter((r) => r.status === 'cancelled').length,
+            recipients,
+            startedAt: campaign.createdAt,
+            completedAt: status === 'completed' ? campaign.updatedAt : undefined,
+        };
+    }
+
+    async getSequence(userId: string, campaignId: string) {
+        const campaign = await prisma.campaign.findFirst({
+            where: { id: campaignId, userId },
+            include: { sequenceSteps: { orderBy: { stepOrder: 'asc' } } },
+        });
+
+        if (!campaign) {
+            throw new AppError('Campaign not found', 404);
+        }
+
+        return campaign.sequenceSteps;
+    }
+
+    /**
+     * Replaces a campaign's follow-up steps. Only possible before sending
+     * starts, since queued follow-up jobs point at the existing steps.
+     */
+    async replaceSequence(userId: string, campaignId: string, steps: SequenceStepDTO[]) {
+        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, userId } });
+
+        if (!campaign) {
+            throw new AppError('Campaign not found', 404);
+        }
+
+        if (!['draft', 'scheduled'].includes(campaign.status)) {
+            throw new AppError(`Cannot change the follow-ups of a ${campaign.status} campaign`, 400);
+        }
+
+        const updated = await prisma.campaign.update({
+            where: { id: campaignId },
+            data: {
+                sequenceSteps: {
+                    deleteMany: {},
+                    create: toSequenceSteps(steps),
+                },
+                // New follow-ups haven't been checked for blank personalization
+                personalizationAcknowledged: false,
+            },
+            include: { sequenceSteps: { orderBy: { stepOrder: 'asc' } } },
+        });
+
+        return updated.sequenceSteps;
+    }
+
+    /**
+     * Lints a stored campaign against the recipients still to be sent. A send
+     * request's changes are applied first: new content, sequence or variants
+     * replace the stored ones and new recipients are added.
+     */
+    async personalizationReport(
+        userId: string,
+        campaignId: string,
+        changes: Partial<PersonalizationLintDTO> = {}
+    ): Promise<PersonalizationReport> {
+        const campaign = await prisma.campaign.findFirst({
+            where: { id: campaignId, userId },
+            include: {
+                recipients: { where: { status: 'queued' } },
+                sequenceSteps: { orderBy: { stepOrder: 'asc' } },
+            },
+        });
+
+        if (!campaign) {
+            throw new AppError('Campaign not found', 404);
+        }
+
+        const recipients = campaign.recipients.map(storedMergeFields);
+        const known = new Set(recipients.map((r) => r.email.toLowerCase()));
+        const variants: Array<{ subject: string; body: string | null }> = campaign.variants ? JSON.parse(campaign.variants) : [];
+
+        return personalizationLint.lint({
+            subject: changes.subject || campaign.subject,
+            body: changes.body || campaign.body,
+            sequence: changes.sequence ?? campaign.sequenceSteps.map((step) => ({ subject: step.subject || undefined, body: step.body })),
+            variants: changes.variants ?? variants.map((variant) => ({ subject: variant.subject, body: variant.body || undefined })),
+            recipients: [...recipients, ...(changes.recipients || []).filter((r) => !known.has(r.email.toLowerCase()))],
+        });
+    }
+
     async updateCampaign(userId: string, campaignId: string, data: UpdateCampaignDTO) {
         // Check if campaign exists and belongs to user
         const existing = await prisma.campaign.findFirst({
@@ -109,15 +457,77 @@ export class CampaignService {
             throw new AppError('Cannot update campaign while sending', 400);
         }
 
-        const campaign = await prisma.campaign.update({
-            where: { id: campaignId },
+        const { scheduledTime: requestedTime, timezone, sendWindow, ...rest } = data;
+        const update: Prisma.CampaignUpdateManyMutationInput = { ...rest, ...sendWindowFields(sendWindow) };
+
+        if (data.status && data.status !== existing.status && QUEUE_MANAGED_STATUSES.includes(data.status)) {
+            throw new AppError(`Campaign status "${data.status}" is set automatically while sending`, 400);
+        }
+
+        // A paused campaign still has jobs queued; moving it anywhere but back to sending would send them twice
+        if (existing.status === 'paused' && (requestedTime || (data.status && data.status !== 'paused'))) {
+            throw new AppError('A paused campaign can only be resumed or cancelled', 400);
+        }
+        if (data.status === 'paused' && existing.status !== 'paused') {
+            throw new AppError('Only a sending campaign can be paused', 400);
+        }
+
+        // Cancelling dropped the unsent recipients, so there is nothing left to schedule
+        if (existing.status === 'cancelled' && (requestedTime || (data.status && data.status !== 'cancelled'))) {
+            throw new AppError('A cancelled campaign cannot be rescheduled', 400);
+        }
+
+        // Reschedule: only campaigns that haven't started can be moved
+        if (requestedTime) {
+            if (!['draft', 'scheduled'].includes(existing.status)) {
+                throw new AppError(`Cannot reschedule a ${existing.status} campaign`, 400);
+            }
+
+            const zone = timezone || existing.timezone;
+            const scheduledTime = resolveScheduledTime(requestedTime, zone);
+            if (scheduledTime.getTime() <= Date.now()) {
+                throw new AppError('Scheduled time must be in the future', 400);
+            }
+
+            update.scheduledTime = scheduledTime;
+            update.timezone = zone;
+            update.status = data.status || 'scheduled';
+        } else if (timezone) {
+            update.timezone = timezone;
+        }
+
+        const status = update.status as string | undefined;
+        if (status && status !== existing.status && !(EDITABLE_STATUS_CHANGES[existing.status] || []).includes(status)) {
+            throw new AppError(`Cannot change a ${existing.status} campaign to ${status}`, 400);
+        }
+
+        if (status === 'scheduled' && !requestedTime && !existing.scheduledTime) {
+            throw new AppError('A scheduled time is required to schedule a campaign', 400);
+        }
+
+        // Only if the status is still the one checked above: the scheduler may
+        // have started the campaign in the meantime
+        const { count } = await prisma.campaign.updateMany({
+            where: { id: campaignId, userId, status: existing.status },
             data: {
-                ...data,
+                ...update,
                 updatedAt: new Date(),
             },
         });
+        if (count === 0) {
+            throw new AppError('The campaign changed while it was being updated. Reload it and try again.', 409);
+        }
 
-        return campaign;
+        // A scheduled campaign has nothing queued yet, only its recipients
+        if (status === 'cancelled' && existing.status !== 'cancelled') {
+            await prisma.recipient.updateMany({
+                where: { campaignId, status: 'queued' },
+                data: { status: 'cancelled', errorMessage: 'Cancelled before sending' },
+            });
+            await this.updateCampaignCounts(campaignId);
+        }
+
+        return prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } });
     }
 
     async deleteCampaign(userId: string, campaignId: string) {
@@ -141,6 +551,88 @@ export class CampaignService {
         return { message: 'Campaign deleted successfully' };
     }
 
+    /**
+     * Renders a subject/body for one recipient as sending would. Spintax picks
+     * one option per recipient, though not necessarily the one a campaign will.
+     */
+    previewEmail(data: PreviewEmailDTO) {
+        const mergeFields = previewMergeFields(data.recipient);
+        const seed = mergeFields.email || '';
+        return {
+            subject: emailService.personalizeContent(data.subject, mergeFields, { html: false, seed }),
+            html: emailService.personalizeContent(data.body, mergeFields, { seed }),
+        };
+    }
+
+    /**
+     * Sends one personalized copy of an email to the user's own addresses.
+     * Nothing is tracked or recorded against a campaign.
+     */
+    async sendTestEmail(userId: string, data: TestSendDTO) {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+        if (!user) {
+            throw new AppError('User not found', 404);
+        }
+
+        const senders = await prisma.emailCredential.findMany({
+            where: { userId },
+            select: { id: true, email: true, isDefault: true },
+        });
+        const sender = data.credentialEmail
+            ? senders.find((c) => c.email === data.credentialEmail)
+            : senders.find((c) => c.isDefault);
+        if (!sender) {
+            throw new AppError(
+                data.credentialEmail
+                    ? `Sender email "${data.credentialEmail}" not found in your saved credentials`
+                    : 'No default email credential configured. Please connect your email account first.',
+                400
+            );
+        }
+
+        // Only the user's own addresses, so a test can't bypass campaign checks
+        const ownAddresses = new Set([user.email, ...senders.map((c) => c.email)].map((e) => e.toLowerCase()));
+        const to = data.to?.length ? data.to : [user.email];
+        const foreign = to.filter((email) => !ownAddresses.has(email.toLowerCase()));
+        if (foreign.length > 0) {
+            throw new AppError(`Test emails can only be sent to your own addresses (not ${foreign.join(', ')})`, 400);
+        }
+
+        // A test email is a real send from the account, so it counts toward the daily limit
+        const availableAt = await sendingQuota.availableAt(sender.id);
+        if (availableAt) {
+            throw new AppError(`Daily sending limit reached for ${sender.email}. It can send again from ${availableAt.toISOString()}.`, 429);
+        }
+
+        const mergeFields = previewMergeFields(data.recipient);
+        const credential = await credentialService.getCredentialById(userId, sender.id);
+        try {
+            const { messageId } = await emailService.sendEmail(
+                { email: credential.email, appPassword: credential.appPassword, smtp: credential.smtp },
+                {
+                    from: credential.email,
+                    to: to.join(', '),
+                    subject: `[Test] ${emailService.personalizeContent(data.subject, mergeFields, { html: false, seed: data.recipient.email })}`,
+                    html: emailService.personalizeContent(data.body, mergeFields, { seed: data.recipient.email }),
+                    attachments: data.attachments?.map((att) => ({
+                        filename: att.filename,
+                        content: Buffer.from(att.content, 'base64'),
+                        contentType: att.contentType,
+                    })),
+                }
+            );
+            await sendingQuota.recordSend(sender.id);
+
+            return { messageId, sentTo: to, previewedRecipient: data.recipient.email };
+        } catch (error: any) {
+            // A 401 would read as an expired session to the frontend
+            if (error instanceof AppError && error.statusCode === 401) {
+                throw new AppError(error.message, 400);
+            }
+            throw error;
+        }
+    }
+
     async updateRecipientStatus(
         recipientId: string,
         status: string,
@@ -150,7 +642,7 @@ export class CampaignService {
             where: { id: recipientId },
             data: {
                 status,
-                errorMessage,
+                errorMessage: status === 'sent' ? null : errorMessage,
                 sentAt: status === 'sent' ? new Date() : undefined,
             },
         });
@@ -163,8 +655,13 @@ export class CampaignService {
             _count: true,
         });
 
-        const sentCount = counts.find((c) => c.status === 'sent')?._count || 0;
-        const failedCount = counts.find((c) => c.status === 'failed')?._count || 0;
+        const total = (statuses: string[]) => counts
+            .filter((c) => statuses.includes(c.status))
+            .reduce((sum, c) => sum + c._count, 0);
+
+        // Replies and soft bounces follow a sent email; a hard bounce means it never arrived
+        const sentCount = total(['sent', 'replied', 'soft_bounced']);
+        const failedCount = total(['failed', 'bounced']);
 
         await prisma.campaign.update({
             where: { id: campaignId },
@@ -4,25 +4,28 @@
  * Each "run" holds per-recipient status that the WebSocket and polling
  * endpoint expose to the frontend.
  *
- * Runs auto-expire after 1 hour to prevent memory leaks.
+ * Runs auto-expire after 1 hour to prevent memory leaks. The durable state
+ * lives in the send queue; a run is only a cache keyed by campaign ID.
  */
 import { v4 as uuidv4 } from 'uuid';
 
 export interface RecipientProgress {
     email: string;
-    status: 'queued' | 'sending' | 'sent' | 'failed';
+    status: 'queued' | 'sending' | 'retrying' | 'sent' | 'failed' | 'cancelled';
     error?: string;
     sentAt?: Date;
+    sender?: string; // Address the email went out from
 }
 
 export interface CampaignRun {
     id: string;
     userId: string;
-    status: 'running' | 'completed';
+    status: 'running' | 'paused' | 'completed' | 'cancelled';
     recipients: Record<string, RecipientProgress>;
     totalCount: number;
     sentCount: number;
     failedCount: number;
+    cancelledCount: number;
     startedAt: Date;
     completedAt?: Date;
 }
@@ -41,9 +44,10 @@ function scheduleExpiry(runId: string) {
 
 /**
  * Create a new campaign run and return its ID.
+ * Pass runId to reuse an existing identifier (e.g. the persisted campaign ID).
  */
-export function createRun(userId: string, recipientEmails: string[]): CampaignRun {
-    const id = uuidv4();
+export function createRun(userId: string, recipientEmails: string[], runId?: string): CampaignRun {
+    const id = runId || uuidv4();
     const recipients: Record<string, RecipientProgress> = {};
 
     recipientEmails.forEach(email => {
@@ -58,6 +62,7 @@ export function createRun(userId: string, recipientEmails: string[]): CampaignRu
         totalCount: recipientEmails.length,
         sentCount: 0,
         failedCount: 0,
+        cancelledCount: 0,
         startedAt: new Date(),
     };
 
@@ -72,8 +77,9 @@ export function createRun(userId: string, recipientEmails: string[]): CampaignRu
 export function updateRecipient(
     runId: string,
     email: string,
-    status: 'sending' | 'sent' | 'failed',
-    error?: string
+    status: RecipientProgress['status'],
+    error?: string,
+    sender?: string
 ): RecipientProgress | null {
     const run = runs.get(runId);
     if (!run || !run.recipients[email]) return null;
@@ -84,14 +90,16 @@ export function updateRecipient(
         status,
         error,
         sentAt: status === 'sent' ? new Date() : prev.sentAt,
+        sender: sender ?? prev.sender,
     };
 
     // Update counts
     if (status === 'sent') run.sentCount++;
     if (status === 'failed') run.failedCount++;
+    if (status === 'cancelled') run.cancelledCount++;
 
     // Check if all done
-    if (run.sentCount + run.failedCount >= run.totalCount) {
+    if (run.status === 'running' && run.sentCount + run.failedCount + run.cancelledCount >= run.totalCount) {
         run.status = 'completed';
         run.completedAt = new Date();
     }
@@ -99,6 +107,26 @@ export function updateRecipient(
     return run.recipients[email];
 }
 
+/**
+ * Set the lifecycle status of a run (pause / resume / cancel).
+ */
+export function setRunStatus(runId: string, status: CampaignRun['status']): void {
+    const run = runs.get(runId);
+    if (!run) return;
+
+    run.status = status;
+    if (status === 'cancelled' || status === 'completed') {
+        run.completedAt = new Date();
+    }
+}
+
+/**
+ * Drop a run so it can be rebuilt from the database
+ */
+export function deleteRun(runId: string): void {
+    runs.delete(runId);
+}
+
 /**
  * Get a campaign run by ID.
  */
@@ -119,10 +147,11 @@ export function getRunStatus(runId: string) {
         totalCount: run.totalCount,
         sentCount: run.sentCount,
         failedCount: run.failedCount,
+        cancelledCount: run.cancelledCount,
         recipients: run.recipients,
         startedAt: run.startedAt,
         completedAt: run.completedAt,
     };
 }
 
-export default { createRun, updateRecipient, getRun, getRunStatus };
+export default { createRun, updateRecipient, setRunStatus, getRun, getRunStatus, deleteRun };
@@ -0,0 +1,132 @@
+/**
+ * Campaign Scheduler
+ * Polls for campaigns whose scheduledTime has passed and hands them to the
+ * send queue (scheduled → sending). The queue marks them completed.
+ */
+import prisma from '../config/database';
+import logger from '../utils/logger';
+import sendQueue from './sendQueue.service';
+import campaignService from './campaign.service';
+import personalizationLint from './personalizationLint.service';
+import { io } from '../server';
+
+export class CampaignSchedulerService {
+    private readonly POLL_INTERVAL = 30 * 1000; // 30 seconds
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.dispatchDueCampaigns(), this.POLL_INTERVAL);
+        void this.dispatchDueCampaigns();
+        logger.info('Campaign scheduler started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Starts every scheduled campaign that is due. Returns how many were started.
+     */
+    async dispatchDueCampaigns(now: Date = new Date()): Promise<number> {
+        if (this.running) return 0;
+        this.running = true;
+
+        let started = 0;
+        try {
+            const due = await prisma.campaign.findMany({
+                where: { status: 'scheduled', scheduledTime: { lte: now } },
+                orderBy: { scheduledTime: 'asc' },
+                select: { id: true },
+            });
+
+            for (const { id } of due) {
+                try {
+                    if (await this.dispatch(id, now)) started++;
+                } catch (error: any) {
+                    logger.error(`Failed to start scheduled campaign ${id}`, { error: error.message });
+                    await prisma.campaign.update({ where: { id }, data: { status: 'failed' } });
+                }
+            }
+        } catch (error: any) {
+            logger.error('Campaign scheduler poll failed', { error: error.message });
+        } finally {
+            this.running = false;
+        }
+
+        return started;
+    }
+
+    private async dispatch(campaignId: string, now: Date): Promise<boolean> {
+        // Claim the campaign so a second instance (or a cancel or reschedule) can't race us
+        const claimed = await prisma.campaign.updateMany({
+            where: { id: campaignId, status: 'scheduled', scheduledTime: { lte: now } },
+            data: { status: 'sending' },
+        });
+        if (claimed.count !== 1) return false;
+
+        const campaign = await prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } });
+
+        // Recipients and follow-ups can change after scheduling; blank personalization
+        // the sender hasn't accepted sends the campaign back to draft instead of out
+        if (!campaign.personalizationAcknowledged) {
+            const report = await campaignService.personalizationReport(campaign.userId, campaignId);
+            if (personalizationLint.hasIssues(report)) {
+                await prisma.campaign.update({ where: { id: campaignId }, data: { status: 'draft', scheduledTime: null } });
+                io.to(`campaign:${campaignId}`).emit('campaign:held', {
+                    runId: campaignId,
+                    reason: 'Some emails would go out with blank personalization. Review the warnings and confirm to send anyway.',
+                });
+                logger.warn(`Scheduled campaign ${campaignId} held as a draft: unacknowledged blank personalization`);
+                return false;
+            }
+        }
+
+        // Campaigns created through POST /api/campaigns don't carry a sender yet
+        let credentialId = campaign.credentialId;
+        if (!credentialId) {
+            const defaultCredential = await prisma.emailCredential.findFirst({
+                where: { userId: campaign.userId, isDefault: true },
+                select: { id: true },
+            });
+
+            if (!defaultCredential) {
+                const error = 'No default email credential configured when the scheduled campaign was due.';
+                await prisma.$transaction([
+                    prisma.recipient.updateMany({
+                        where: { campaignId, status: 'queued' },
+                        data: { status: 'failed', errorMessage: error },
+                    }),
+                    prisma.campaign.update({ where: { id: campaignId }, data: { status: 'failed' } }),
+                ]);
+                logger.warn(`Scheduled campaign ${campaignId} failed: no sender credential`);
+                return false;
+            }
+
+            credentialId = defaultCredential.id;
+            await prisma.campaign.update({ where: { id: campaignId }, data: { credentialId } });
+        }
+
+        const recipients = await prisma.recipient.findMany({
+            where: { campaignId, status: 'queued' },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true },
+        });
+
+        await sendQueue.enqueueCampaign(campaignId, recipients.map(r => r.id));
+
+        io.to(`campaign:${campaignId}`).emit('campaign:started', {
+            runId: campaignId,
+            totalCount: recipients.length,
+        });
+
+        logger.info(`Scheduled campaign ${campaignId} started (${recipients.length} recipients)`);
+        return true;
+    }
+}
+
+export default new CampaignSchedulerService();
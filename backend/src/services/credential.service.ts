@@ -2,6 +2,33 @@ import prisma from '../config/database';
 import { encrypt, decrypt } from '../utils/encryption';
 import { AppError } from '../middleware/errorHandler';
 import { EmailCredentialDTO } from '../types';
+import { resolveSmtpSettings, SmtpSettings, SmtpProvider, SmtpSecurity, SmtpAuthType } from '../config/smtpProviders';
+import { resolvePublicAddress } from '../utils/security';
+import emailService, { SMTP_CONNECTION_FAILED } from './email.service';
+
+// Never includes the password
+const credentialSelect = {
+    id: true,
+    email: true,
+    isDefault: true,
+    provider: true,
+    smtpHost: true,
+    smtpPort: true,
+    smtpSecurity: true,
+    createdAt: true,
+} as const;
+
+function settingsFromDTO(data: EmailCredentialDTO): SmtpSettings {
+    return resolveSmtpSettings(data.provider, {
+        host: data.host,
+        port: data.port,
+        security: data.security,
+        authType: data.authType,
+        username: data.username,
+        imapHost: data.imapHost,
+        imapPort: data.imapPort,
+    });
+}
 
 export class CredentialService {
     async createCredential(userId: string, data: EmailCredentialDTO) {
@@ -29,6 +56,15 @@ export class CredentialService {
 
         // Encrypt app password
         const appPasswordEncrypted = encrypt(data.appPassword);
+        const smtp = settingsFromDTO(data);
+
+        // Sending and reply scanning connect to these from the server
+        if (!await resolvePublicAddress(smtp.host)) {
+            throw new AppError('SMTP host must be a public address', 400);
+        }
+        if (smtp.imapHost && !await resolvePublicAddress(smtp.imapHost)) {
+            throw new AppError('IMAP host must be a public address', 400);
+        }
 
         // Create credential
         const credential = await prisma.emailCredential.create({
@@ -37,13 +73,16 @@ export class CredentialService {
                 email: data.email,
                 appPasswordEncrypted,
                 isDefault: data.isDefault || false,
+                provider: smtp.provider,
+                smtpHost: smtp.host,
+                smtpPort: smtp.port,
+                smtpSecurity: smtp.security,
+                smtpAuthType: smtp.authType,
+                smtpUsername: smtp.username,
+                imapHost: smtp.imapHost,
+                imapPort: smtp.imapPort,
             },
-            select: {
-                id: true,
-                email: true,
-                isDefault: true,
-                createdAt: true,
-            },
+            select: credentialSelect,
         });
 
         return credential;
@@ -52,12 +91,7 @@ export class CredentialService {
     async getCredentials(userId: string) {
         const credentials = await prisma.emailCredential.findMany({
             where: { userId },
-            select: {
-                id: true,
-                email: true,
-                isDefault: true,
-                createdAt: true,
-            },
+            select: credentialSelect,
             orderBy: { createdAt: 'desc' },
         });
 
@@ -78,9 +112,46 @@ export class CredentialService {
             email: credential.email,
             appPassword: decrypt(credential.appPasswordEncrypted),
             isDefault: credential.isDefault,
+            smtp: {
+                provider: credential.provider as SmtpProvider,
+                host: credential.smtpHost,
+                port: credential.smtpPort,
+                security: credential.smtpSecurity as SmtpSecurity,
+                authType: credential.smtpAuthType as SmtpAuthType,
+                username: credential.smtpUsername,
+                imapHost: credential.imapHost,
+                imapPort: credential.imapPort,
+            } as SmtpSettings,
         };
     }
 
+    /**
+     * Logs in with the given settings without saving them
+     */
+    async testConnection(data: EmailCredentialDTO) {
+        const smtp = settingsFromDTO(data);
+        const address = await resolvePublicAddress(smtp.host);
+        if (!address) {
+            throw new AppError(SMTP_CONNECTION_FAILED, 400);
+        }
+        await emailService.verifyConnection({ email: data.email, appPassword: data.appPassword, smtp }, address);
+
+        return { success: true, message: `Connected to ${smtp.host}:${smtp.port} as ${smtp.username || data.email}` };
+    }
+
+    async getCredentialByEmail(userId: string, email: string) {
+        const credential = await prisma.emailCredential.findUnique({
+            where: { userId_email: { userId, email } },
+            select: { id: true },
+        });
+
+        if (!credential) {
+            throw new AppError(`Sender ${email} is no longer connected`, 404);
+        }
+
+        return this.getCredentialById(userId, credential.id);
+    }
+
     async deleteCredential(userId: string, credentialId: string) {
         const credential = await prisma.emailCredential.findFirst({
             where: { id: credentialId, userId },
@@ -0,0 +1,99 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { SaveDraftDTO } from '../types';
+
+type DraftRow = {
+    recipients: string | null;
+    attachments: string | null;
+    settings: string | null;
+    sequence: string | null;
+};
+
+const parseJson = (value: string | null) => (value ? JSON.parse(value) : null);
+
+// JSON columns are stored as strings (SQLite has no JSON type)
+const toDraft = <T extends DraftRow>(row: T) => ({
+    ...row,
+    recipients: parseJson(row.recipients) || [],
+    attachments: parseJson(row.attachments) || [],
+    settings: parseJson(row.settings),
+    sequence: parseJson(row.sequence) || [],
+});
+
+const toColumns = (data: SaveDraftDTO) => ({
+    name: data.name,
+    step: data.step,
+    credentialEmail: data.credentialEmail,
+    subject: data.subject,
+    body: data.body,
+    recipients: data.recipients !== undefined ? JSON.stringify(data.recipients) : undefined,
+    attachments: data.attachments !== undefined ? JSON.stringify(data.attachments) : undefined,
+    settings: data.settings !== undefined ? JSON.stringify(data.settings) : undefined,
+    sequence: data.sequence !== undefined ? JSON.stringify(data.sequence) : undefined,
+});
+
+export class DraftService {
+    /**
+     * Lists the user's drafts (newest first) without their full recipient lists
+     */
+    async getDrafts(userId: string) {
+        const drafts = await prisma.emailDraft.findMany({
+            where: { userId },
+            orderBy: { updatedAt: 'desc' },
+        });
+
+        return drafts.map(({ recipients, attachments, settings, sequence, body, ...draft }) => ({
+            ...draft,
+            recipientCount: recipients ? (JSON.parse(recipients) as unknown[]).length : 0,
+        }));
+    }
+
+    async getDraftById(userId: string, draftId: string) {
+        const draft = await prisma.emailDraft.findFirst({
+            where: { id: draftId, userId },
+        });
+
+        if (!draft) {
+            throw new AppError('Draft not found', 404);
+        }
+
+        return toDraft(draft);
+    }
+
+    async createDraft(userId: string, data: SaveDraftDTO) {
+        const draft = await prisma.emailDraft.create({
+            data: {
+                userId,
+                ...toColumns(data),
+            },
+        });
+
+        return toDraft(draft);
+    }
+
+    /**
+     * Autosave: only the fields present in the request are overwritten
+     */
+    async updateDraft(userId: string, draftId: string, data: SaveDraftDTO) {
+        await this.getDraftById(userId, draftId);
+
+        const draft = await prisma.emailDraft.update({
+            where: { id: draftId },
+            data: toColumns(data),
+        });
+
+        return toDraft(draft);
+    }
+
+    async deleteDraft(userId: string, draftId: string) {
+        await this.getDraftById(userId, draftId);
+
+        await prisma.emailDraft.delete({
+            where: { id: draftId },
+        });
+
+        return { message: 'Draft deleted successfully' };
+    }
+}
+
+export default new DraftService();
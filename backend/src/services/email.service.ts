@@ -1,6 +1,10 @@
 import nodemailer, { Transporter } from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
 import { AppError } from '../middleware/errorHandler';
+import { resolveSmtpSettings, SmtpSettings } from '../config/smtpProviders';
 import logger from '../utils/logger';
+import { resolvePublicAddress } from '../utils/security';
+import { renderTemplate, RenderOptions } from '../utils/templateEngine';
 import trackingService from './tracking.service';
 
 interface EmailOptions {
@@ -14,11 +18,55 @@ interface EmailOptions {
         content?: Buffer;
         contentType?: string;
     }>;
+    // Threading headers; messageId lets the caller store the ID before sending
+    messageId?: string;
+    inReplyTo?: string;
+    references?: string[];
+    // RFC 8058 one-click unsubscribe target
+    unsubscribeUrl?: string;
 }
 
 interface SMTPConfig {
     email: string;
     appPassword: string;
+    smtp?: SmtpSettings; // Defaults to Gmail
+}
+
+// Connection-level failures that usually clear up on their own
+const TRANSIENT_ERROR_CODES = ['ETIMEDOUT', 'ESOCKET', 'ECONNECTION', 'ECONNRESET'];
+
+/**
+ * A send failure worth another try later: a dropped or timed-out connection,
+ * or a temporary (4xx) SMTP reply such as "421 Try again later"
+ */
+export class TransientSmtpError extends AppError {
+    constructor(message: string) {
+        super(message, 503);
+    }
+}
+
+// nodemailer's error code (ApiError.code is our own) and the server's reply code
+export interface SmtpErrorCodes {
+    smtpCode?: string;
+    responseCode?: number;
+}
+
+/**
+ * Copies the codes of a nodemailer error onto the error rethrown in its place
+ */
+function withSmtpCodes<T extends Error>(error: T, cause: any): T & SmtpErrorCodes {
+    return Object.assign(error, {
+        smtpCode: cause?.code,
+        responseCode: cause?.responseCode,
+    });
+}
+
+export function isTransientSmtpError(error: any): boolean {
+    if (error instanceof TransientSmtpError) return true;
+    if (TRANSIENT_ERROR_CODES.includes(error?.code) || TRANSIENT_ERROR_CODES.includes(error?.smtpCode)) return true;
+
+    const responseCode = Number(error?.responseCode);
+    return responseCode >= 400 && responseCode < 500;
 }
 
 interface CachedTransporter {
@@ -27,6 +75,26 @@ interface CachedTransporter {
     verified: boolean;
 }
 
+export const SMTP_CONNECTION_FAILED = 'Could not connect to the SMTP server. Check the host, port and security setting.';
+
+/**
+ * nodemailer options for a credential's SMTP settings
+ */
+function transportOptions(config: SMTPConfig): SMTPTransport.Options {
+    const smtp = config.smtp || resolveSmtpSettings('gmail');
+    return {
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.security === 'ssl',
+        requireTLS: smtp.security !== 'ssl', // Also credentials saved as 'none' before it was dropped
+        authMethod: smtp.authType.toUpperCase(),
+        auth: {
+            user: smtp.username || config.email,
+            pass: config.appPassword,
+        },
+    };
+}
+
 /**
  * EmailService with connection pooling for improved performance.
  * Transporters are cached per email account and reused across requests.
@@ -36,11 +104,20 @@ export class EmailService {
     private readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes
     private readonly MAX_CONNECTIONS = 5;
 
+    /**
+     * Keyed by server too, so a credential re-created with other settings gets a new pool
+     */
+    private cacheKey(config: SMTPConfig): string {
+        const smtp = config.smtp || resolveSmtpSettings('gmail');
+        return `${config.email}|${smtp.host}:${smtp.port}`;
+    }
+
     /**
      * Gets or creates a pooled transporter for the given email account
      */
     private async getTransporter(config: SMTPConfig): Promise<Transporter> {
-        const cacheKey = config.email;
+        const options = transportOptions(config);
+        const cacheKey = this.cacheKey(config);
         const cached = this.transporterCache.get(cacheKey);
         const now = Date.now();
 
@@ -63,18 +140,22 @@ export class EmailService {
 
         logger.info(`Creating new pooled transporter for ${config.email}`);
 
+        // The host was checked when the credential was saved, but DNS may point it elsewhere now.
+        // A lookup failure is usually temporary, so the send is retried rather than failed.
+        const address = await resolvePublicAddress(options.host!);
+        if (!address) {
+            throw new TransientSmtpError(`SMTP connection failed: ${options.host} did not resolve to a public address`);
+        }
+
         // Create pooled transporter
         const transporter = nodemailer.createTransport({
-            host: 'smtp.gmail.com',
-            port: 587,
-            secure: false,
+            ...options,
+            // Every pooled connection goes to the checked address; the certificate is still verified against the host name
+            host: address,
+            tls: { servername: options.host },
             pool: true, // Enable connection pooling
             maxConnections: this.MAX_CONNECTIONS,
             maxMessages: 100, // Messages per connection before reconnect
-            auth: {
-                user: config.email,
-                pass: config.appPassword,
-            },
             // Disable verbose logging in production
             debug: process.env.NODE_ENV === 'development',
             logger: process.env.NODE_ENV === 'development',
@@ -85,8 +166,14 @@ export class EmailService {
             await transporter.verify();
             logger.info(`SMTP connection verified for ${config.email}`);
         } catch (verifyError: any) {
-            logger.error(`SMTP verification failed for ${config.email}: ${verifyError.message}`);
-            throw new AppError(`SMTP authentication failed: ${verifyError.message}`, 401);
+            logger.error(`SMTP verification failed for ${config.email}: ${verifyError.message}`, { errorCode: verifyError.code });
+            transporter.close();
+
+            // A timeout or "421 try again later" while logging in says nothing about the password
+            if (isTransientSmtpError(verifyError)) {
+                throw withSmtpCodes(new TransientSmtpError(`SMTP connection failed: ${verifyError.message}`), verifyError);
+            }
+            throw withSmtpCodes(new AppError(`SMTP authentication failed: ${verifyError.message}`, 401), verifyError);
         }
 
         // Cache the transporter
@@ -102,7 +189,7 @@ export class EmailService {
     /**
      * Sends an email using a pooled connection
      */
-    async sendEmail(config: SMTPConfig, options: EmailOptions): Promise<void> {
+    async sendEmail(config: SMTPConfig, options: EmailOptions): Promise<{ messageId: string }> {
         logger.info(`Sending email to: ${options.to} from: ${config.email}`);
 
         try {
@@ -118,9 +205,17 @@ export class EmailService {
                 subject: options.subject,
                 html: options.html,
                 attachments: options.attachments,
+                messageId: options.messageId,
+                inReplyTo: options.inReplyTo,
+                references: options.references,
+                headers: options.unsubscribeUrl ? {
+                    'List-Unsubscribe': `<${options.unsubscribeUrl}>`,
+                    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+                } : undefined,
             });
 
             logger.info(`Email sent successfully! MessageId: ${info.messageId}`);
+            return { messageId: info.messageId };
         } catch (error: any) {
             logger.error(`Email sending failed: ${error.message}`, {
                 to: options.to,
@@ -129,22 +224,60 @@ export class EmailService {
 
             // Invalidate cached transporter on auth errors
             if (error.code === 'EAUTH') {
-                this.transporterCache.delete(config.email);
+                this.transporterCache.delete(this.cacheKey(config));
+            }
+
+            // Already explained (e.g. by getTransporter)
+            if (error instanceof AppError) {
+                throw error;
             }
 
             // Provide user-friendly error messages
             if (error.code === 'EAUTH' || error.message?.includes('Invalid login')) {
-                throw new AppError('Gmail authentication failed. Please check your App Password.', 401);
+                throw withSmtpCodes(new AppError('SMTP authentication failed. Please check your password.', 401), error);
             } else if (error.code === 'ESOCKET' || error.code === 'ECONNECTION') {
-                throw new AppError('Unable to connect to Gmail. Please check your internet connection.', 503);
-            } else if (error instanceof AppError) {
-                throw error;
+                throw withSmtpCodes(new TransientSmtpError('Unable to connect to the SMTP server. Please check your internet connection.'), error);
+            } else if (isTransientSmtpError(error)) {
+                throw withSmtpCodes(new TransientSmtpError(`Temporary SMTP failure: ${error.message}`), error);
             } else {
-                throw new AppError(`Email sending failed: ${error.message}`, 500);
+                throw withSmtpCodes(new AppError(`Email sending failed: ${error.message}`, 500), error);
             }
         }
     }
 
+    /**
+     * Logs in to the SMTP server once without sending anything, so settings
+     * can be checked before a credential is saved. Failures are 400s, since
+     * a 401 here would look like an expired session to the frontend.
+     */
+    async verifyConnection(config: SMTPConfig, address?: string): Promise<void> {
+        const options = transportOptions(config);
+        const transporter = nodemailer.createTransport({
+            ...options,
+            // Connect to the checked address; the certificate is still verified against the host name
+            host: address || options.host,
+            tls: { servername: options.host },
+            connectionTimeout: 10000,
+            greetingTimeout: 10000,
+            socketTimeout: 15000,
+        });
+
+        try {
+            await transporter.verify();
+            logger.info(`SMTP settings verified for ${config.email} (${options.host}:${options.port})`);
+        } catch (error: any) {
+            logger.warn(`SMTP test failed for ${config.email}: ${error.message}`, { errorCode: error.code });
+
+            if (error.code === 'EAUTH') {
+                throw new AppError('SMTP authentication failed. Check the username and password.', 400);
+            }
+            // One message for every other failure, so the test can't be used to probe the network
+            throw new AppError(SMTP_CONNECTION_FAILED, 400);
+        } finally {
+            transporter.close();
+        }
+    }
+
     /**
      * Sends multiple emails efficiently using the pooled connection
      */
@@ -173,15 +306,11 @@ export class EmailService {
     }
 
     /**
-     * Personalizes email content with recipient data
+     * Personalizes email content with recipient data (see utils/templateEngine).
+     * Pass { html: false } for plain text such as the subject line.
      */
-    personalizeContent(template: string, data: Record<string, string>): string {
-        let result = template;
-        for (const [key, value] of Object.entries(data)) {
-            const placeholder = new RegExp(`\\{${key}\\}`, 'gi');
-            result = result.replace(placeholder, value || '');
-        }
-        return result;
+    personalizeContent(template: string, data: Record<string, string>, options?: RenderOptions): string {
+        return renderTemplate(template, data, options);
     }
 
     /**
@@ -189,21 +318,29 @@ export class EmailService {
      * Call this before sending to enable open and click tracking
      */
     async prepareTrackedEmail(options: {
+        userId: string;
         recipientEmail: string;
         subject: string;
         html: string;
         campaignId?: string;
+        recipientId?: string;
+        messageId?: string;
+        variant?: string;
     }): Promise<{ html: string; trackingToken: string }> {
         try {
             // Create tracking record
             const { trackingToken } = await trackingService.createTrackingRecord({
+                userId: options.userId,
                 recipientEmail: options.recipientEmail,
                 subject: options.subject,
                 campaignId: options.campaignId,
+                recipientId: options.recipientId,
+                messageId: options.messageId,
+                variant: options.variant,
             });
 
             // Rewrite links for click tracking
-            const { body: bodyWithTrackedLinks } = trackingService.rewriteLinksForTracking(
+            const { body: bodyWithTrackedLinks } = await trackingService.rewriteLinksForTracking(
                 options.html,
                 trackingToken
             );
@@ -232,6 +369,19 @@ export class EmailService {
         }
     }
 
+    /**
+     * Drops the tracking record of an email that failed to send, so retries
+     * don't leave records behind for sends that never happened
+     */
+    async discardTrackedEmail(trackingToken: string): Promise<void> {
+        if (!trackingToken) return;
+        try {
+            await trackingService.deleteTrackingRecord(trackingToken);
+        } catch (error: any) {
+            logger.error('Failed to discard tracking record', { error: error.message, trackingToken });
+        }
+    }
+
     /**
      * Clears all cached transporters (useful for cleanup)
      */
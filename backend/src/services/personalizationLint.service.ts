@@ -0,0 +1,56 @@
+/**
+ * Personalization Lint Service
+ * Checks a campaign's subject, body, follow-ups and A/B variants against its recipient
+ * list before sending: merge fields that no column provides, and recipients
+ * whose blank values would leave a gap in their email.
+ */
+import { PersonalizationLintDTO } from '../types';
+import { templateFields, unguardedFields } from '../utils/templateEngine';
+
+// Filled in for every recipient at send time
+const SYSTEM_FIELDS = new Set(['unsubscribe_link']);
+
+export interface PersonalizationReport {
+    placeholders: string[]; // Every merge field the emails use
+    unknownPlaceholders: string[]; // Used, but no recipient has the column
+    blankRecipients: Array<{ email: string; fields: string[] }>; // Rows with blank values for printed fields
+}
+
+export class PersonalizationLintService {
+    lint(data: PersonalizationLintDTO): PersonalizationReport {
+        const templates = [
+            data.subject,
+            data.body,
+            ...(data.sequence || []).flatMap((step) => [step.subject || '', step.body]),
+            ...(data.variants || []).flatMap((variant) => [variant.subject, variant.body || '']),
+        ];
+        const isSystem = (field: string) => SYSTEM_FIELDS.has(field.toLowerCase());
+
+        const columns = new Set(data.recipients.flatMap((r) => Object.keys(r).map((key) => key.toLowerCase())));
+        const placeholders = templateFields(templates).filter((field) => !isSystem(field));
+        const unknownPlaceholders = placeholders.filter((field) => !columns.has(field.toLowerCase()));
+
+        // Unknown fields are blank for everyone; they are reported once above
+        const printed = unguardedFields(templates)
+            .filter((field) => !isSystem(field) && columns.has(field.toLowerCase()));
+
+        const blankRecipients = data.recipients
+            .map((recipient) => {
+                const values = new Map(Object.entries(recipient).map(([key, value]) => [key.toLowerCase(), value]));
+                const fields = printed.filter((field) => {
+                    const value = values.get(field.toLowerCase());
+                    return value === null || value === undefined || String(value).trim() === '';
+                });
+                return { email: recipient.email, fields };
+            })
+            .filter((recipient) => recipient.fields.length > 0);
+
+        return { placeholders, unknownPlaceholders, blankRecipients };
+    }
+
+    hasIssues(report: PersonalizationReport): boolean {
+        return report.unknownPlaceholders.length > 0 || report.blankRecipients.length > 0;
+    }
+}
+
+export default new PersonalizationLintService();
@@ -0,0 +1,228 @@
+/**
+ * Reply Detection Service
+ * Polls the inbox of every sender credential over IMAP and matches incoming
+ * messages to the emails we sent through their In-Reply-To / References
+ * headers. A match marks the recipient as replied and stops their pending
+ * follow-ups. Delivery status notifications found along the way are handed
+ * to the bounce service instead.
+ */
+import prisma from '../config/database';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { decrypt } from '../utils/encryption';
+import { createImapMailboxFactory, ImapServer, InboxMessage, MailboxFactory } from '../utils/imap';
+import { resolvePublicAddress } from '../utils/security';
+import { DeliveryReport, isDeliveryReport, parseDeliveryReport } from '../utils/bounce';
+import campaignService from './campaign.service';
+import bounceService from './bounce.service';
+import { io } from '../server';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only campaigns sent within this window are worth scanning for
+const REPLY_WINDOW_MS = 30 * DAY_MS;
+
+export interface ScanResult {
+    replies: number;
+    bounces: number;
+}
+
+/**
+ * A credential's own IMAP server, reached at the public address its host
+ * resolves to now. Port 993 is implicit TLS; 143 has to upgrade with STARTTLS.
+ */
+async function imapServerOf(host: string, port: number): Promise<ImapServer> {
+    const address = await resolvePublicAddress(host);
+    if (!address) {
+        throw new Error(`IMAP host ${host} did not resolve to a public address`);
+    }
+    const secure = port === 993;
+    return { host: address, port, secure, requireTLS: !secure, servername: host };
+}
+
+export class ReplyDetectionService {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(
+        private readonly openMailbox: MailboxFactory = createImapMailboxFactory({
+            host: env.IMAP_HOST,
+            port: env.IMAP_PORT,
+            secure: env.IMAP_SECURE,
+        })
+    ) {}
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.scanAll(), env.REPLY_SCAN_INTERVAL_MS);
+        void this.scanAll();
+        logger.info('Reply detection started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Scans every credential that sent a campaign recently. Returns the
+     * number of new replies and bounces found.
+     */
+    async scanAll(now: Date = new Date()): Promise<ScanResult> {
+        const found: ScanResult = { replies: 0, bounces: 0 };
+        if (this.running) return found;
+        this.running = true;
+
+        try {
+            const campaigns = await prisma.campaign.findMany({
+                where: {
+                    credentialId: { not: null },
+                    status: { in: ['sending', 'paused', 'completed'] },
+                    updatedAt: { gte: new Date(now.getTime() - REPLY_WINDOW_MS) },
+                },
+                select: { credentialId: true, senders: { select: { credentialId: true } } },
+            });
+            // Rotated campaigns send from, and get replies at, every sender's inbox
+            const credentialIds = new Set(
+                campaigns.flatMap(c => [c.credentialId!, ...c.senders.map(s => s.credentialId)])
+            );
+
+            for (const credentialId of credentialIds) {
+                try {
+                    const result = await this.scanCredential(credentialId, now);
+                    found.replies += result.replies;
+                    found.bounces += result.bounces;
+                } catch (error: any) {
+                    logger.warn(`Reply scan failed for credential ${credentialId}`, { error: error.message });
+                }
+            }
+        } catch (error: any) {
+            logger.error('Reply detection poll failed', { error: error.message });
+        } finally {
+            this.running = false;
+        }
+
+        return found;
+    }
+
+    /**
+     * Reads the credential's inbox since its last scan (with a day of overlap,
+     * as IMAP SINCE only has day precision) and records any replies and bounces.
+     */
+    async scanCredential(credentialId: string, now: Date = new Date()): Promise<ScanResult> {
+        const credential = await prisma.emailCredential.findUnique({ where: { id: credentialId } });
+        if (!credential) return { replies: 0, bounces: 0 };
+
+        const since = credential.replyScanAt
+            ? new Date(credential.replyScanAt.getTime() - DAY_MS)
+            : new Date(now.getTime() - REPLY_WINDOW_MS);
+
+        // Gmail senders keep using IMAP_HOST, which can point at a local stand-in
+        const mailbox = await this.openMailbox({
+            email: credential.email,
+            appPassword: decrypt(credential.appPasswordEncrypted),
+            username: credential.smtpUsername || undefined,
+            server: credential.provider !== 'gmail' && credential.imapHost
+                ? await imapServerOf(credential.imapHost, credential.imapPort ?? 993)
+                : undefined,
+        });
+
+        let messages: InboxMessage[];
+        const reports: DeliveryReport[] = [];
+        try {
+            messages = await mailbox.fetchSince(since);
+
+            // Bounce reports quote our headers, so they'd otherwise look like replies
+            for (const message of messages.filter(m => isDeliveryReport(m.contentType))) {
+                const report = parseDeliveryReport(await mailbox.fetchSource(message.uid));
+                if (report) reports.push(report);
+            }
+        } finally {
+            await mailbox.close().catch(() => undefined);
+        }
+
+        let bounces = 0;
+        for (const report of reports) {
+            bounces += await bounceService.handleReport(credential.userId, report);
+        }
+
+        // Our own messages in the thread aren't replies
+        const sender = credential.email.toLowerCase();
+        const incoming = messages.filter(m => m.from?.toLowerCase() !== sender && !isDeliveryReport(m.contentType));
+
+        const referencedIds = [...new Set(incoming.flatMap(m => [...m.inReplyTo, ...m.references]))];
+        const sent = referencedIds.length
+            ? await prisma.emailTracking.findMany({
+                where: { userId: credential.userId, messageId: { in: referencedIds } },
+            })
+            : [];
+        const sentById = new Map(sent.map(t => [t.messageId!, t]));
+
+        let replies = 0;
+        for (const message of incoming) {
+            // In-Reply-To names the direct parent; References covers replies further down the thread
+            const original = [...message.inReplyTo, ...message.references.slice().reverse()]
+                .map(id => sentById.get(id))
+                .find(Boolean);
+
+            if (original && await this.markReplied(original, message.date || now)) {
+                replies++;
+            }
+        }
+
+        await prisma.emailCredential.update({
+            where: { id: credential.id },
+            data: { replyScanAt: now },
+        });
+
+        if (replies > 0 || bounces > 0) {
+            logger.info(`Detected ${replies} new replies and ${bounces} bounces in ${credential.email}`);
+        }
+        return { replies, bounces };
+    }
+
+    /**
+     * Records a reply once per sent email. Returns false if it was already known.
+     */
+    private async markReplied(
+        tracking: { id: string; campaignId: string | null; recipientId: string | null; recipientEmail: string },
+        repliedAt: Date
+    ): Promise<boolean> {
+        const updated = await prisma.emailTracking.updateMany({
+            where: { id: tracking.id, repliedAt: null },
+            data: { repliedAt },
+        });
+        if (updated.count === 0) return false;
+
+        if (tracking.recipientId) {
+            await prisma.$transaction([
+                prisma.recipient.updateMany({
+                    where: { id: tracking.recipientId, repliedAt: null },
+                    data: { repliedAt },
+                }),
+                prisma.recipient.updateMany({
+                    where: { id: tracking.recipientId, status: 'sent' },
+                    data: { status: 'replied' },
+                }),
+                // A reply ends the sequence, whatever the remaining steps' conditions
+                prisma.sendJob.updateMany({
+                    where: { recipientId: tracking.recipientId, status: 'pending', sequenceStepId: { not: null } },
+                    data: { status: 'cancelled', lastError: 'Recipient replied' },
+                }),
+            ]);
+        }
+
+        if (tracking.campaignId) {
+            await campaignService.updateCampaignCounts(tracking.campaignId);
+            io.to(`campaign:${tracking.campaignId}`).emit('email:replied', {
+                email: tracking.recipientEmail,
+                repliedAt,
+            });
+        }
+        return true;
+    }
+}
+
+export default new ReplyDetectionService();
@@ -0,0 +1,1022 @@
+/**
+ * Send Queue Service
+ * Database-backed queue for campaign emails. Every recipient gets a SendJob
+ * row, and a single worker loop claims due jobs one at a time, so a crash or
+ * redeploy only pauses delivery until the next process picks up the table.
+ * Follow-up sequence steps ride on the same table: once an email to a
+ * recipient goes out, the next step is queued with its own delay.
+ */
+import crypto from 'crypto';
+import prisma from '../config/database';
+import logger from '../utils/logger';
+import campaignService from './campaign.service';
+import credentialService from './credential.service';
+import emailService, { isTransientSmtpError } from './email.service';
+import campaignRunManager, { RecipientProgress } from './campaignRun.manager';
+import suppressionService, { suppressedMessage, SuppressionMatch } from './suppression.service';
+import unsubscribeService from './unsubscribe.service';
+import senderRotation, { classifySenderError, RotationSender } from './senderRotation.service';
+import sendingQuota from './sendingQuota.service';
+import abTestService, { CampaignVariant } from './abTest.service';
+import { ApiError } from '../middleware/errorHandler';
+import { SendWindow, windowOpensAt } from '../utils/timezone';
+import { RetryPolicy, retryDelayMs } from '../utils/retryPolicy';
+import { env } from '../config/env';
+import { io } from '../server';
+
+// Gap between two emails of the same batch (matches the old in-process loop)
+const EMAIL_GAP_MS = 300;
+
+const RETRY_POLICY: RetryPolicy = {
+    maxRetries: env.SEND_MAX_RETRIES,
+    baseDelayMs: env.SEND_RETRY_BASE_MS,
+    maxDelayMs: env.SEND_RETRY_MAX_MS,
+};
+
+type LoadedJob = NonNullable<Awaited<ReturnType<typeof loadJob>>>;
+type CampaignWithAttachments = LoadedJob['campaign'];
+type SequenceStep = NonNullable<LoadedJob['sequenceStep']>;
+type SenderCredential = Awaited<ReturnType<typeof credentialService.getCredentialById>>;
+
+function loadJob(jobId: string) {
+    return prisma.sendJob.findUnique({
+        where: { id: jobId },
+        include: {
+            recipient: true,
+            campaign: { include: { attachments: true, senders: { select: { id: true } } } },
+            sequenceStep: true,
+        },
+    });
+}
+
+// Follow-ups are written in a plain textarea; keep their line breaks unless they are HTML already
+function textToHtml(body: string): string {
+    return /<[a-z][\s\S]*>/i.test(body) ? body : body.replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * When the recipient's sending window next opens, or null when the email
+ * may go out now (inside the window, or the campaign has none)
+ */
+function sendWindowOpensAt(
+    campaign: CampaignWithAttachments,
+    recipient: { timezone: string | null },
+    now: Date = new Date()
+): Date | null {
+    if (!campaign.sendDays || !campaign.sendWindowStart || !campaign.sendWindowEnd) return null;
+
+    const window: SendWindow = {
+        days: campaign.sendDays.split(',').map(Number),
+        start: campaign.sendWindowStart,
+        end: campaign.sendWindowEnd,
+    };
+    const timeZone = (campaign.recipientTimezones && recipient.timezone) || campaign.timezone || 'UTC';
+    return windowOpensAt(window, timeZone, now);
+}
+
+/**
+ * Returns why a follow-up should not go to this recipient, or null when its
+ * condition holds. Opens and clicks count across every email of the campaign.
+ */
+async function followUpSkipReason(
+    step: SequenceStep,
+    recipient: { id: string; repliedAt: Date | null }
+): Promise<string | null> {
+    switch (step.condition) {
+        case 'not_opened': {
+            const opened = await prisma.emailTracking.count({
+                where: { campaignId: step.campaignId, recipientId: recipient.id, openCount: { gt: 0 } },
+            });
+            return opened > 0 ? 'Recipient opened an earlier email' : null;
+        }
+        case 'not_clicked': {
+            const clicked = await prisma.linkClick.count({
+                where: {
+                    clickCount: { gt: 0 },
+                    emailTracking: { campaignId: step.campaignId, recipientId: recipient.id },
+                },
+            });
+            return clicked > 0 ? 'Recipient clicked a link' : null;
+        }
+        case 'not_replied':
+            return recipient.repliedAt ? 'Recipient replied' : null;
+        default:
+            return `Unknown follow-up condition "${step.condition}"`;
+    }
+}
+
+/**
+ * Turns nodemailer / EmailService errors into messages the user can act on
+ */
+function toFriendlyError(error: any, recipientEmail: string): string {
+    const message: string = error?.message || 'Unknown error';
+
+    if (message.includes('Invalid login') || message.includes('authentication failed')) {
+        return 'SMTP authentication failed. Please check your sender password in Step 1.';
+    } else if (message.includes('Recipient address rejected') || message.includes('550')) {
+        return `Recipient email "${recipientEmail}" does not exist or was rejected by the mail server.`;
+    } else if (message.includes('timeout') || message.includes('ETIMEDOUT')) {
+        return 'Connection timed out. The mail server may be temporarily unavailable.';
+    } else if (message.includes('ECONNREFUSED') || message.includes('ESOCKET')) {
+        return 'Could not connect to the mail server. Please check your internet connection.';
+    } else if (message.includes('Rate limit') || message.includes('too many')) {
+        return 'Sending rate limit reached. Please wait a few minutes and try again with fewer recipients.';
+    }
+    return message;
+}
+
+/**
+ * Every rotation sender is capped or rate-limited until retryAt
+ */
+class SendersExhaustedError extends Error {
+    constructor(readonly retryAt: Date) {
+        super('No sender is available right now');
+    }
+}
+
+export class SendQueueService {
+    private readonly POLL_INTERVAL = 2000; // 2 seconds
+    private readonly STALE_LOCK_MS = 5 * 60 * 1000; // 5 minutes
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private stopped = true;
+
+    /**
+     * Computes the earliest send time of the n-th job of a campaign so that
+     * batchDelay is honoured between batches and EMAIL_GAP_MS within a batch.
+     */
+    private runAtFor(index: number, batchSize: number, batchDelay: number, startAt: Date): Date {
+        const batchOffset = Math.floor(index / batchSize) * batchDelay * 1000;
+        const gapOffset = index * EMAIL_GAP_MS;
+        return new Date(startAt.getTime() + batchOffset + gapOffset);
+    }
+
+    /**
+     * Queues one job per recipient (in the given order) and flips the campaign to "sending"
+     */
+    async enqueueCampaign(campaignId: string, recipientIds: string[], startAt: Date = new Date()): Promise<number> {
+        const campaign = await prisma.campaign.findUnique({ where: { id: campaignId } });
+        if (!campaign) return 0;
+
+        await prisma.$transaction([
+            prisma.sendJob.createMany({
+                data: recipientIds.map((recipientId, index) => ({
+                    campaignId,
+                    recipientId,
+                    runAt: this.runAtFor(index, campaign.batchSize, campaign.batchDelay, startAt),
+                })),
+            }),
+            prisma.campaign.update({
+                where: { id: campaignId },
+                data: { status: 'sending' },
+            }),
+        ]);
+
+        logger.info(`Queued ${recipientIds.length} send jobs for campaign ${campaignId}`);
+
+        if (recipientIds.length === 0) {
+            await this.finishCampaignIfDone(campaignId);
+        } else {
+            this.poke();
+        }
+        return recipientIds.length;
+    }
+
+    /**
+     * Starts the worker loop. Jobs abandoned by a previous process are
+     * released and every unfinished campaign is re-paced from now.
+     */
+    async start(): Promise<void> {
+        if (!this.stopped) return;
+        this.stopped = false;
+
+        try {
+            await this.recover();
+        } catch (error: any) {
+            logger.error('Send queue recovery failed', { error: error.message });
+        }
+
+        this.schedule(0);
+        logger.info('Send queue worker started');
+    }
+
+    /**
+     * Stops polling. A job that is mid-send finishes; nothing new is claimed.
+     */
+    stop(): void {
+        this.stopped = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Returns jobs whose worker died mid-send to the queue. A single send
+     * takes seconds, so a lock older than STALE_LOCK_MS has no live owner.
+     */
+    private async releaseStaleJobs(): Promise<number> {
+        const released = await prisma.sendJob.updateMany({
+            where: {
+                status: 'processing',
+                lockedAt: { lt: new Date(Date.now() - this.STALE_LOCK_MS) },
+            },
+            data: { status: 'pending', lockedAt: null },
+        });
+
+        if (released.count > 0) {
+            logger.warn(`Send queue released ${released.count} interrupted jobs`);
+        }
+        return released.count;
+    }
+
+    private async recover(): Promise<void> {
+        await this.releaseStaleJobs();
+
+        const campaigns = await prisma.campaign.findMany({
+            where: { status: 'sending' },
+            select: { id: true, batchSize: true, batchDelay: true },
+        });
+
+        for (const campaign of campaigns) {
+            const pending = await this.respacePendingJobs(campaign);
+
+            if (pending > 0) {
+                logger.info(`Resuming campaign ${campaign.id} with ${pending} pending emails`);
+            } else {
+                await this.finishCampaignIfDone(campaign.id);
+            }
+        }
+    }
+
+    /**
+     * Restarts the batch pacing of a campaign's remaining jobs from startAt so
+     * a backlog (after a restart or a long pause) doesn't burst out at once.
+     */
+    private async respacePendingJobs(
+        campaign: { id: string; batchSize: number; batchDelay: number },
+        startAt: Date = new Date()
+    ): Promise<number> {
+        // Follow-ups keep their own delays; only the main emails are paced in batches
+        const pending = await prisma.sendJob.findMany({
+            where: { campaignId: campaign.id, status: 'pending', sequenceStepId: null },
+            orderBy: [{ runAt: 'asc' }, { createdAt: 'asc' }],
+            select: { id: true },
+        });
+
+        await prisma.$transaction(
+            pending.map((job, index) => prisma.sendJob.update({
+                where: { id: job.id },
+                data: { runAt: this.runAtFor(index, campaign.batchSize, campaign.batchDelay, startAt) },
+            }))
+        );
+
+        return pending.length;
+    }
+
+    /**
+     * Stops claiming new jobs for a running campaign. An email that is
+     * already being handed to SMTP still completes.
+     */
+    async pauseCampaign(userId: string, campaignId: string) {
+        const campaign = await this.findOwnedCampaign(userId, campaignId);
+        if (campaign.status !== 'sending') {
+            throw ApiError.conflict(`Only a sending campaign can be paused (current status: ${campaign.status}).`);
+        }
+
+        const updated = await prisma.campaign.update({
+            where: { id: campaignId },
+            data: { status: 'paused' },
+        });
+
+        campaignRunManager.setRunStatus(campaignId, 'paused');
+        io.to(`campaign:${campaignId}`).emit('campaign:paused', { runId: campaignId });
+        logger.info(`Campaign ${campaignId} paused`);
+        return updated;
+    }
+
+    /**
+     * Puts a paused campaign back on the queue, pacing the rest from now
+     */
+    async resumeCampaign(userId: string, campaignId: string) {
+        const campaign = await this.findOwnedCampaign(userId, campaignId);
+        if (campaign.status !== 'paused') {
+            throw ApiError.conflict(`Only a paused campaign can be resumed (current status: ${campaign.status}).`);
+        }
+
+        const updated = await prisma.campaign.update({
+            where: { id: campaignId },
+            data: { status: 'sending' },
+        });
+
+        const pending = await this.respacePendingJobs(campaign);
+        campaignRunManager.setRunStatus(campaignId, 'running');
+        io.to(`campaign:${campaignId}`).emit('campaign:resumed', { runId: campaignId, pendingCount: pending });
+        logger.info(`Campaign ${campaignId} resumed with ${pending} pending emails`);
+
+        if (pending === 0) {
+            await this.finishCampaignIfDone(campaignId);
+        } else {
+            this.poke();
+        }
+        return updated;
+    }
+
+    /**
+     * Drops every email that hasn't been sent yet. Works on sending, paused
+     * and scheduled campaigns; on a completed campaign it stops the
+     * follow-ups that are still waiting.
+     */
+    async cancelCampaign(userId: string, campaignId: string) {
+        const campaign = await this.findOwnedCampaign(userId, campaignId);
+        if (campaign.status === 'completed') {
+            return this.cancelFollowUps(campaignId);
+        }
+        if (!['sending', 'paused', 'scheduled'].includes(campaign.status)) {
+            throw ApiError.conflict(`This campaign can no longer be cancelled (current status: ${campaign.status}).`);
+        }
+
+        const cancelled = await prisma.recipient.findMany({
+            where: { campaignId, status: { in: ['queued', 'retrying'] } },
+            select: { email: true },
+        });
+
+        const reason = 'Cancelled before sending';
+        await prisma.$transaction([
+            prisma.campaign.update({ where: { id: campaignId }, data: { status: 'cancelled' } }),
+            prisma.sendJob.updateMany({
+                where: { campaignId, status: 'pending' },
+                data: { status: 'cancelled' },
+            }),
+            prisma.recipient.updateMany({
+                where: { campaignId, status: { in: ['queued', 'retrying'] } },
+                data: { status: 'cancelled', errorMessage: reason },
+            }),
+        ]);
+        await campaignService.updateCampaignCounts(campaignId);
+
+        for (const { email } of cancelled) {
+            campaignRunManager.updateRecipient(campaignId, email, 'cancelled', reason);
+        }
+        campaignRunManager.setRunStatus(campaignId, 'cancelled');
+        io.to(`campaign:${campaignId}`).emit('campaign:cancelled', {
+            runId: campaignId,
+            cancelledCount: cancelled.length,
+        });
+
+        logger.info(`Campaign ${campaignId} cancelled, ${cancelled.length} emails dropped`);
+        return prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } });
+    }
+
+    /**
+     * Sends the main email again to every recipient it failed for, once the
+     * campaign has completed. Hard bounces and addresses rejected before
+     * queueing stay as they are; suppressions are checked again on send.
+     */
+    async retryFailed(userId: string, campaignId: string) {
+        const campaign = await this.findOwnedCampaign(userId, campaignId);
+        if (campaign.status !== 'completed') {
+            throw ApiError.conflict(`Failed emails can only be retried once the campaign has completed (current status: ${campaign.status}).`);
+        }
+
+        const failed = await prisma.sendJob.findMany({
+            where: { campaignId, sequenceStepId: null, status: 'failed', recipient: { status: 'failed' } },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, recipientId: true },
+        });
+        if (failed.length === 0) {
+            throw ApiError.conflict('This campaign has no failed emails to retry.');
+        }
+
+        const startAt = new Date();
+        await prisma.$transaction([
+            prisma.campaign.update({ where: { id: campaignId }, data: { status: 'sending' } }),
+            ...failed.map((job, index) => prisma.sendJob.update({
+                where: { id: job.id },
+                data: {
+                    status: 'pending',
+                    attempts: 0,
+                    lastError: null,
+                    lockedAt: null,
+                    runAt: this.runAtFor(index, campaign.batchSize, campaign.batchDelay, startAt),
+                },
+            })),
+            prisma.recipient.updateMany({
+                where: { id: { in: failed.map(job => job.recipientId) } },
+                data: { status: 'queued', errorMessage: null },
+            }),
+        ]);
+        await campaignService.updateCampaignCounts(campaignId);
+
+        // A cached run only counts upwards; rebuild it from the database
+        campaignRunManager.deleteRun(campaignId);
+        await this.ensureRun(campaignId, userId);
+        io.to(`campaign:${campaignId}`).emit('campaign:retrying', { runId: campaignId, retryCount: failed.length });
+        logger.info(`Campaign ${campaignId}: retrying ${failed.length} failed emails`);
+
+        this.poke();
+        return { campaign: await prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } }), retryCount: failed.length };
+    }
+
+    private async cancelFollowUps(campaignId: string) {
+        const cancelled = await prisma.sendJob.updateMany({
+            where: { campaignId, status: 'pending', sequenceStepId: { not: null } },
+            data: { status: 'cancelled' },
+        });
+        if (cancelled.count === 0) {
+            throw ApiError.conflict('This campaign has no pending follow-ups to cancel.');
+        }
+
+        io.to(`campaign:${campaignId}`).emit('campaign:followups-cancelled', {
+            runId: campaignId,
+            cancelledCount: cancelled.count,
+        });
+        logger.info(`Campaign ${campaignId}: ${cancelled.count} pending follow-ups cancelled`);
+        return prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } });
+    }
+
+    private async findOwnedCampaign(userId: string, campaignId: string) {
+        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, userId } });
+        if (!campaign) {
+            throw ApiError.notFound('Campaign run');
+        }
+        return campaign;
+    }
+
+    /**
+     * Wakes the worker immediately (e.g. right after new jobs were queued)
+     */
+    private poke(): void {
+        if (this.stopped || this.running) return;
+        this.schedule(0);
+    }
+
+    private schedule(delay: number): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.tick();
+        }, delay);
+    }
+
+    private async tick(): Promise<void> {
+        if (this.running || this.stopped) return;
+        this.running = true;
+
+        try {
+            await this.releaseStaleJobs();
+
+            let job = await this.claimNextJob();
+            while (job && !this.stopped) {
+                await this.processJob(job.id);
+                job = await this.claimNextJob();
+            }
+        } catch (error: any) {
+            logger.error('Send queue tick failed', { error: error.message });
+        } finally {
+            this.running = false;
+            if (!this.stopped) this.schedule(this.POLL_INTERVAL);
+        }
+    }
+
+    /**
+     * Claims the oldest due job. The conditional update makes the claim safe
+     * when more than one backend instance shares the database.
+     */
+    private async claimNextJob(): Promise<{ id: string } | null> {
+        const candidate = await prisma.sendJob.findFirst({
+            where: {
+                status: 'pending',
+                runAt: { lte: new Date() },
+                // Skips paused and cancelled campaigns; follow-ups outlive the main send
+                OR: [
+                    { sequenceStepId: null, campaign: { status: 'sending' } },
+                    { sequenceStepId: { not: null }, campaign: { status: { in: ['sending', 'completed'] } } },
+                ],
+            },
+            orderBy: [{ runAt: 'asc' }, { createdAt: 'asc' }],
+            select: { id: true },
+        });
+        if (!candidate) return null;
+
+        const claimed = await prisma.sendJob.updateMany({
+            where: { id: candidate.id, status: 'pending' },
+            data: { status: 'processing', lockedAt: new Date(), attempts: { increment: 1 } },
+        });
+
+        return claimed.count === 1 ? candidate : this.claimNextJob();
+    }
+
+    private async processJob(jobId: string): Promise<void> {
+        const job = await loadJob(jobId);
+        if (!job) return;
+
+        const { campaign, recipient } = job;
+
+        // Paused between claim and send: hand the job back untouched
+        if (campaign.status === 'paused') {
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'pending', lockedAt: null, attempts: { decrement: 1 } },
+            });
+            return;
+        }
+
+        const runnable = job.sequenceStep ? ['sending', 'completed'] : ['sending'];
+        if (!runnable.includes(campaign.status)) {
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'cancelled', lockedAt: null },
+            });
+            return;
+        }
+
+        const suppression = await suppressionService.findSuppression(campaign.userId, recipient.email);
+        if (suppression) {
+            await this.skipSuppressed(job, suppression);
+            return;
+        }
+
+        const opensAt = sendWindowOpensAt(campaign, recipient);
+        if (opensAt) {
+            await this.holdForWindow(job, opensAt);
+            return;
+        }
+
+        if (job.sequenceStep) {
+            await this.processFollowUp(job, job.sequenceStep);
+            return;
+        }
+
+        // Wait (rather than fail) while the sender is over its daily limit, or with
+        // several senders, while all of them are capped or rate-limited
+        const rotating = campaign.senders.length > 0;
+        let sender: RotationSender | null = null;
+        if (rotating) {
+            const pick = await senderRotation.pickSender(campaign.id);
+            if (!pick.sender && pick.retryAt) {
+                await this.deferJob(job, pick.retryAt, 'No sender available (daily caps, limits or rate limits)');
+                return;
+            }
+            sender = pick.sender;
+        } else if (campaign.credentialId) {
+            const retryAt = await sendingQuota.availableAt(campaign.credentialId);
+            if (retryAt) {
+                await this.deferJob(job, retryAt, 'Daily sending limit reached');
+                return;
+            }
+        }
+
+        await this.ensureRun(campaign.id, campaign.userId);
+        await campaignService.updateRecipientStatus(recipient.id, 'sending');
+        this.emitStatus(campaign.id, recipient.email, 'sending');
+
+        try {
+            const senderEmail = rotating
+                ? await this.deliverWithRotation(campaign, recipient, sender)
+                : await this.deliver(campaign, recipient, null, await this.campaignCredential(campaign));
+
+            await campaignService.updateRecipientStatus(recipient.id, 'sent');
+            await prisma.recipient.update({ where: { id: recipient.id }, data: { senderEmail } });
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'completed', completedAt: new Date(), lockedAt: null, lastError: null, senderEmail },
+            });
+            this.emitStatus(campaign.id, recipient.email, 'sent', undefined, senderEmail);
+            await this.queueNextStep(campaign.id, recipient.id, 0, new Date());
+        } catch (error: any) {
+            if (error instanceof SendersExhaustedError) {
+                await campaignService.updateRecipientStatus(recipient.id, 'queued');
+                this.emitStatus(campaign.id, recipient.email, 'queued');
+                await this.deferJob(job, error.retryAt, 'No sender available (daily caps, limits or rate limits)');
+                return;
+            }
+
+            logger.error(`Failed to send to ${recipient.email}: ${error.message}`, { campaignId: campaign.id });
+            const friendlyError = toFriendlyError(error, recipient.email);
+
+            if (this.canRetry(job, error)) {
+                const message = await this.scheduleRetry(job, friendlyError);
+                await campaignService.updateRecipientStatus(recipient.id, 'retrying', message);
+                this.emitStatus(campaign.id, recipient.email, 'retrying', message);
+                return;
+            }
+
+            await campaignService.updateRecipientStatus(recipient.id, 'failed', friendlyError);
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'failed', lastError: friendlyError, lockedAt: null },
+            });
+            this.emitStatus(campaign.id, recipient.email, 'failed', friendlyError);
+        }
+
+        // Keep sentCount/failedCount current so the campaign list shows live progress
+        await campaignService.updateCampaignCounts(campaign.id);
+        await this.finishCampaignIfDone(campaign.id);
+    }
+
+    /**
+     * Drops a job whose address was suppressed after it was queued. A main
+     * email counts as cancelled; a follow-up ends the sequence.
+     */
+    private async skipSuppressed(job: LoadedJob, suppression: SuppressionMatch): Promise<void> {
+        const { campaign, recipient } = job;
+        const message = suppressedMessage(suppression);
+
+        await prisma.sendJob.update({
+            where: { id: job.id },
+            data: { status: 'skipped', lastError: message, completedAt: new Date(), lockedAt: null },
+        });
+        logger.info(`Skipped suppressed address ${recipient.email}`, { campaignId: campaign.id });
+        if (job.sequenceStep) return;
+
+        await this.ensureRun(campaign.id, campaign.userId);
+        await campaignService.updateRecipientStatus(recipient.id, 'cancelled', message);
+        this.emitStatus(campaign.id, recipient.email, 'cancelled', message);
+
+        await campaignService.updateCampaignCounts(campaign.id);
+        await this.finishCampaignIfDone(campaign.id);
+    }
+
+    /**
+     * Sends one follow-up, or skips it when its condition no longer holds.
+     * Either way the sequence moves on to the next step; a failed send ends it.
+     * Follow-ups don't touch the recipient's status or the campaign counts,
+     * which describe the main email.
+     */
+    private async processFollowUp(job: LoadedJob, step: SequenceStep): Promise<void> {
+        const { campaign, recipient } = job;
+
+        const skipReason = await followUpSkipReason(step, recipient);
+        if (skipReason) {
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'skipped', lastError: skipReason, completedAt: new Date(), lockedAt: null },
+            });
+            logger.info(`Follow-up ${step.stepOrder} to ${recipient.email} skipped: ${skipReason}`, { campaignId: campaign.id });
+            await this.queueNextStep(campaign.id, recipient.id, step.stepOrder, job.runAt);
+            return;
+        }
+
+        try {
+            // Same address as the first email, so the thread stays in one conversation
+            const credential = recipient.senderEmail
+                ? await credentialService.getCredentialByEmail(campaign.userId, recipient.senderEmail)
+                : await this.campaignCredential(campaign);
+
+            const retryAt = await sendingQuota.availableAt(credential.id);
+            if (retryAt) {
+                await this.deferJob(job, retryAt, `Daily sending limit reached for ${credential.email}`);
+                return;
+            }
+
+            const senderEmail = await this.deliver(campaign, recipient, step, credential);
+
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'completed', completedAt: new Date(), lockedAt: null, lastError: null, senderEmail },
+            });
+            io.to(`campaign:${campaign.id}`).emit('email:followup', {
+                email: recipient.email,
+                step: step.stepOrder,
+                status: 'sent',
+            });
+            await this.queueNextStep(campaign.id, recipient.id, step.stepOrder, new Date());
+        } catch (error: any) {
+            logger.error(`Failed to send follow-up ${step.stepOrder} to ${recipient.email}: ${error.message}`, { campaignId: campaign.id });
+            const friendlyError = toFriendlyError(error, recipient.email);
+
+            if (this.canRetry(job, error)) {
+                const message = await this.scheduleRetry(job, friendlyError);
+                io.to(`campaign:${campaign.id}`).emit('email:followup', {
+                    email: recipient.email,
+                    step: step.stepOrder,
+                    status: 'retrying',
+                    error: message,
+                });
+                return;
+            }
+
+            await prisma.sendJob.update({
+                where: { id: job.id },
+                data: { status: 'failed', lastError: friendlyError, lockedAt: null },
+            });
+            io.to(`campaign:${campaign.id}`).emit('email:followup', {
+                email: recipient.email,
+                step: step.stepOrder,
+                status: 'failed',
+                error: friendlyError,
+            });
+        }
+    }
+
+    /**
+     * Queues the step after `afterOrder` for one recipient, delayed from `from`
+     */
+    private async queueNextStep(campaignId: string, recipientId: string, afterOrder: number, from: Date): Promise<void> {
+        const next = await prisma.sequenceStep.findFirst({
+            where: { campaignId, stepOrder: { gt: afterOrder } },
+            orderBy: { stepOrder: 'asc' },
+        });
+        if (!next) return;
+
+        await prisma.sendJob.create({
+            data: {
+                campaignId,
+                recipientId,
+                sequenceStepId: next.id,
+                runAt: new Date(from.getTime() + next.delayHours * 60 * 60 * 1000),
+            },
+        });
+    }
+
+    private async campaignCredential(campaign: CampaignWithAttachments): Promise<SenderCredential> {
+        if (!campaign.credentialId) {
+            throw new Error('No sender credential is attached to this campaign.');
+        }
+        return credentialService.getCredentialById(campaign.userId, campaign.credentialId);
+    }
+
+    /**
+     * Sends a main email from the rotation's chosen sender, moving on to the
+     * next sender when one fails to log in or is rate-limited. Returns the
+     * address it went out from.
+     */
+    private async deliverWithRotation(
+        campaign: CampaignWithAttachments,
+        recipient: LoadedJob['recipient'],
+        first: RotationSender | null
+    ): Promise<string> {
+        let sender = first;
+        let lastError: any = new Error('Every sender of this campaign failed to log in.');
+
+        while (sender) {
+            try {
+                const credential = await credentialService.getCredentialById(campaign.userId, sender.credentialId);
+                await this.deliver(campaign, recipient, null, credential);
+                await senderRotation.recordSend(sender.id);
+                return sender.email;
+            } catch (error: any) {
+                const failure = classifySenderError(error);
+                if (!failure) throw error;
+
+                lastError = error;
+                await senderRotation.recordFailure(sender, failure, toFriendlyError(error, recipient.email));
+                io.to(`campaign:${campaign.id}`).emit('campaign:sender', {
+                    email: sender.email,
+                    status: failure === 'auth' ? 'disabled' : 'paused',
+                });
+
+                const next = await senderRotation.pickSender(campaign.id);
+                if (!next.sender && next.retryAt) {
+                    throw new SendersExhaustedError(next.retryAt);
+                }
+                sender = next.sender;
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Transient SMTP failures are retried until the policy's retries run out.
+     * `attempts` counts this try, so the n-th retry follows attempt n.
+     */
+    private canRetry(job: LoadedJob, error: any): boolean {
+        return isTransientSmtpError(error) && job.attempts <= RETRY_POLICY.maxRetries;
+    }
+
+    /**
+     * Puts a job back after a transient failure, with exponential backoff and
+     * jitter. Returns the message to show while it waits.
+     */
+    private async scheduleRetry(job: LoadedJob, friendlyError: string): Promise<string> {
+        const runAt = new Date(Date.now() + retryDelayMs(RETRY_POLICY, job.attempts));
+        const message = `${friendlyError} Retry ${job.attempts} of ${RETRY_POLICY.maxRetries} at ${runAt.toISOString()}.`;
+
+        await prisma.sendJob.update({
+            where: { id: job.id },
+            data: { status: 'pending', runAt, lockedAt: null, lastError: message },
+        });
+        logger.info(`Retrying ${job.recipient.email} at ${runAt.toISOString()} (attempt ${job.attempts + 1})`, { campaignId: job.campaignId });
+        return message;
+    }
+
+    /**
+     * Puts a claimed job back until a sender frees up. The campaign's other
+     * main emails move with it, keeping their batch pacing from retryAt
+     * instead of all coming due at once.
+     */
+    private async deferJob(job: LoadedJob, retryAt: Date, reason: string): Promise<void> {
+        await prisma.sendJob.update({
+            where: { id: job.id },
+            data: {
+                status: 'pending',
+                lockedAt: null,
+                attempts: { decrement: 1 },
+                lastError: `${reason}; waiting until ${retryAt.toISOString()}`,
+                ...(job.sequenceStep && { runAt: retryAt }),
+            },
+        });
+        if (!job.sequenceStep) {
+            await this.respacePendingJobs(job.campaign, retryAt);
+        }
+        logger.info(`${reason} for ${job.recipient.email}; retrying at ${retryAt.toISOString()}`, { campaignId: job.campaignId });
+    }
+
+    /**
+     * Puts a job back until its recipient's sending window opens. Main emails
+     * held for the same opening are paced in batches from there, queued behind
+     * the campaign's emails already due then.
+     */
+    private async holdForWindow(job: LoadedJob, opensAt: Date): Promise<void> {
+        let runAt = opensAt;
+        if (!job.sequenceStep) {
+            const ahead = await prisma.sendJob.count({
+                where: { campaignId: job.campaignId, sequenceStepId: null, status: 'pending', runAt: { gte: opensAt } },
+            });
+            runAt = this.runAtFor(ahead, job.campaign.batchSize, job.campaign.batchDelay, opensAt);
+        }
+
+        await prisma.sendJob.update({
+            where: { id: job.id },
+            data: { status: 'pending', runAt, lockedAt: null, attempts: { decrement: 1 } },
+        });
+        logger.debug(`Outside the sending window for ${job.recipient.email}; holding until ${runAt.toISOString()}`, { campaignId: job.campaignId });
+    }
+
+    /**
+     * Personalizes and sends one email. Returns the sender address.
+     */
+    private async deliver(
+        campaign: CampaignWithAttachments,
+        recipient: { id: string; email: string; fullName: string; companyName: string; jobTitle: string | null; mergeFields: string | null },
+        step: SequenceStep | null,
+        credential: SenderCredential
+    ): Promise<string> {
+        const mergeFields: Record<string, string> = recipient.mergeFields
+            ? JSON.parse(recipient.mergeFields)
+            : {
+                email: recipient.email,
+                fullName: recipient.fullName,
+                companyName: recipient.companyName,
+                jobTitle: recipient.jobTitle || '',
+            };
+        const unsubscribeUrl = unsubscribeService.unsubscribeUrl({
+            userId: campaign.userId,
+            email: recipient.email,
+            campaignId: campaign.id,
+        });
+        mergeFields.unsubscribe_link = unsubscribeUrl;
+
+        // Under an A/B test the first email uses the recipient's variant, and a
+        // follow-up without its own subject replies to that variant's subject
+        const variant = step ? null : await abTestService.variantFor(campaign, recipient.email);
+        const firstSubject = step && !step.subject ? await this.firstSubjectOf(campaign, recipient.id) : null;
+
+        // Follow-ups use their own template and leave attachments on the first email
+        const subject = step ? step.subject || `Re: ${firstSubject}` : variant?.subject ?? campaign.subject;
+        const body = step ? textToHtml(step.body) : variant?.body ?? campaign.body;
+        const attachments = step ? [] : campaign.attachments;
+
+        // Spintax picks stay the same for a recipient across retries and follow-ups
+        const seed = `${campaign.id}:${recipient.email.toLowerCase()}`;
+        const personalizedSubject = emailService.personalizeContent(subject, mergeFields, { html: false, seed });
+        const personalizedBody = emailService.personalizeContent(body, mergeFields, { seed });
+
+        // Our own Message-ID is stored with the tracking record so replies can be matched to it
+        const messageId = `<${crypto.randomUUID()}@${credential.email.split('@')[1]}>`;
+        const thread = step ? await this.threadOf(campaign.id, recipient.id) : [];
+
+        const { html: trackedBody, trackingToken } = await emailService.prepareTrackedEmail({
+            userId: campaign.userId,
+            recipientEmail: recipient.email,
+            subject: personalizedSubject,
+            html: personalizedBody,
+            campaignId: campaign.id,
+            recipientId: recipient.id,
+            messageId,
+            variant: variant?.label,
+        });
+
+        try {
+            await emailService.sendEmail(
+                { email: credential.email, appPassword: credential.appPassword, smtp: credential.smtp },
+                {
+                    from: credential.email,
+                    to: recipient.email,
+                    subject: personalizedSubject,
+                    html: trackedBody,
+                    attachments: attachments
+                        .filter(att => att.content)
+                        .map(att => ({
+                            filename: att.filename,
+                            content: Buffer.from(att.content!, 'base64'),
+                            contentType: att.mimeType || undefined,
+                        })),
+                    messageId,
+                    inReplyTo: thread[thread.length - 1],
+                    references: thread.length ? thread : undefined,
+                    unsubscribeUrl,
+                }
+            );
+        } catch (error) {
+            // Each attempt gets a new record; a failed one would count as sent and join the thread
+            await emailService.discardTrackedEmail(trackingToken);
+            throw error;
+        }
+        await sendingQuota.recordSend(credential.id);
+
+        return credential.email;
+    }
+
+    /**
+     * Subject template of the first email a recipient got: their A/B variant's
+     * when one was recorded, otherwise the campaign's
+     */
+    private async firstSubjectOf(campaign: CampaignWithAttachments, recipientId: string): Promise<string> {
+        const label = await abTestService.recordedVariant(campaign.id, recipientId);
+        const variants: CampaignVariant[] = abTestService.variantsOf(campaign);
+        return (label && variants.find(v => v.label === label)?.subject) || campaign.subject;
+    }
+
+    /**
+     * Message-IDs of the emails already sent to a recipient in this campaign,
+     * oldest first, so a follow-up lands in the same conversation
+     */
+    private async threadOf(campaignId: string, recipientId: string): Promise<string[]> {
+        const sent = await prisma.emailTracking.findMany({
+            where: { campaignId, recipientId, messageId: { not: null } },
+            orderBy: { createdAt: 'asc' },
+            select: { messageId: true },
+        });
+        return sent.map(t => t.messageId!);
+    }
+
+    /**
+     * Marks the campaign completed once no main email is waiting or in
+     * flight. Follow-ups may still be pending; they run on completed campaigns.
+     */
+    private async finishCampaignIfDone(campaignId: string): Promise<void> {
+        const remaining = await prisma.sendJob.count({
+            where: { campaignId, sequenceStepId: null, status: { in: ['pending', 'processing'] } },
+        });
+        if (remaining > 0) return;
+
+        const campaign = await prisma.campaign.findUnique({ where: { id: campaignId } });
+        if (!campaign || campaign.status !== 'sending') return;
+
+        await campaignService.updateCampaignCounts(campaignId);
+        const updated = await prisma.campaign.update({
+            where: { id: campaignId },
+            data: { status: 'completed' },
+        });
+
+        campaignRunManager.setRunStatus(campaignId, 'completed');
+        io.to(`campaign:${campaignId}`).emit('campaign:completed', {
+            runId: campaignId,
+            sentCount: updated.sentCount,
+            failedCount: updated.failedCount,
+            totalCount: updated.totalRecipients,
+        });
+
+        logger.info(`Campaign ${campaignId} completed: ${updated.sentCount} sent, ${updated.failedCount} failed`);
+    }
+
+    /**
+     * Rebuilds the live progress snapshot after a restart wiped memory
+     */
+    private async ensureRun(campaignId: string, userId: string): Promise<void> {
+        if (campaignRunManager.getRun(campaignId)) return;
+
+        const recipients = await prisma.recipient.findMany({
+            where: { campaignId },
+            select: { email: true, status: true, errorMessage: true, senderEmail: true },
+        });
+
+        campaignRunManager.createRun(userId, recipients.map(r => r.email), campaignId);
+        for (const r of recipients) {
+            const sender = r.senderEmail || undefined;
+            if (r.status === 'replied' || r.status === 'soft_bounced') {
+                campaignRunManager.updateRecipient(campaignId, r.email, 'sent', undefined, sender);
+            } else if (r.status === 'bounced') {
+                campaignRunManager.updateRecipient(campaignId, r.email, 'failed', r.errorMessage || undefined, sender);
+            } else if (['sent', 'failed', 'cancelled', 'retrying'].includes(r.status)) {
+                campaignRunManager.updateRecipient(campaignId, r.email, r.status as RecipientProgress['status'], r.errorMessage || undefined, sender);
+            }
+        }
+    }
+
+    private emitStatus(
+        campaignId: string,
+        email: string,
+        status: RecipientProgress['status'],
+        error?: string,
+        sender?: string
+    ): void {
+        campaignRunManager.updateRecipient(campaignId, email, status, error, sender);
+        io.to(`campaign:${campaignId}`).emit('email:status', { email, status, error, sender });
+    }
+}
+
+export default new SendQueueService();
@@ -0,0 +1,179 @@
+/**
+ * Sender Rotation Service
+ * Spreads a campaign's main emails over several sender credentials. Each
+ * email goes to the available sender with the fewest sends so far (relative
+ * to its weight under weighted rotation), so the split holds across restarts.
+ * A sender at its daily cap, or at its account-wide daily limit, waits for
+ * the window to roll over; one the
+ * provider rate-limits rests for a day; one that fails to log in is dropped
+ * from the campaign.
+ */
+import prisma from '../config/database';
+import logger from '../utils/logger';
+import sendingQuota from './sendingQuota.service';
+import { isTransientSmtpError } from './email.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SenderFailure = 'auth' | 'rate_limit';
+
+export interface RotationSender {
+    id: string;
+    credentialId: string;
+    email: string;
+}
+
+// No sender can take an email now; retryAt is when the first one frees up
+export type SenderPick =
+    | { sender: RotationSender; retryAt?: undefined }
+    | { sender: null; retryAt: Date | null }; // null = every sender was dropped
+
+/**
+ * Tells sender-level failures (worth moving to another sender) apart from
+ * problems with the recipient or the message
+ */
+export function classifySenderError(error: any): SenderFailure | null {
+    const message: string = error?.message || '';
+
+    // Gmail: "421 4.7.0 Try again later", "550 5.4.5 Daily user sending quota exceeded"
+    if (/rate limit|too many (messages|emails|connections|login)|sending (quota|limit)|quota exceeded|\b4\.7\.0\b|\b5\.4\.5\b/i.test(message)) {
+        return 'rate_limit';
+    }
+    // A dropped or timed-out connection says nothing about the sender
+    if (isTransientSmtpError(error)) {
+        return null;
+    }
+    // Only the server's verdict counts; our messages say "authentication failed" for other login problems too
+    if (error?.code === 'EAUTH' || error?.smtpCode === 'EAUTH' || [534, 535].includes(Number(error?.responseCode))) {
+        return 'auth';
+    }
+    return null;
+}
+
+export class SenderRotationService {
+    /**
+     * Picks the sender for the campaign's next main email
+     */
+    async pickSender(campaignId: string, now: Date = new Date()): Promise<SenderPick> {
+        const campaign = await prisma.campaign.findUnique({
+            where: { id: campaignId },
+            select: {
+                userId: true,
+                senderRotation: true,
+                senders: {
+                    orderBy: { position: 'asc' },
+                    include: { credential: { select: { email: true } } },
+                },
+            },
+        });
+        if (!campaign) return { sender: null, retryAt: null };
+
+        const available: typeof campaign.senders = [];
+        let retryAt: Date | null = null;
+        const later = (date: Date) => {
+            if (!retryAt || date < retryAt) retryAt = date;
+        };
+
+        for (const sender of campaign.senders) {
+            if (sender.disabledReason) continue;
+
+            if (sender.pausedUntil && sender.pausedUntil > now) {
+                later(sender.pausedUntil);
+                continue;
+            }
+
+            if (sender.dailyCap !== null) {
+                const freesAt = await this.capFreesAt(campaign.userId, sender.credential.email, sender.dailyCap, now);
+                if (freesAt) {
+                    later(freesAt);
+                    continue;
+                }
+            }
+
+            const quotaFreesAt = await sendingQuota.availableAt(sender.credentialId, now);
+            if (quotaFreesAt) {
+                later(quotaFreesAt);
+                continue;
+            }
+
+            available.push(sender);
+        }
+
+        if (available.length === 0) {
+            return { sender: null, retryAt };
+        }
+
+        const load = (sender: typeof available[number]) =>
+            campaign.senderRotation === 'weighted' ? sender.sentCount / sender.weight : sender.sentCount;
+        const next = available.reduce((best, sender) => (load(sender) < load(best) ? sender : best));
+
+        return { sender: { id: next.id, credentialId: next.credentialId, email: next.credential.email } };
+    }
+
+    /**
+     * When a sender at its cap may send again, or null while it's under the cap.
+     * Caps count every email from the address, across campaigns, in the last 24 hours.
+     */
+    private async capFreesAt(userId: string, senderEmail: string, dailyCap: number, now: Date): Promise<Date | null> {
+        const recent = await prisma.sendJob.findMany({
+            where: {
+                senderEmail,
+                status: 'completed',
+                completedAt: { gte: new Date(now.getTime() - DAY_MS) },
+                campaign: { userId },
+            },
+            orderBy: { completedAt: 'desc' },
+            select: { completedAt: true },
+            take: dailyCap,
+        });
+        if (recent.length < dailyCap) return null;
+
+        // The oldest send within the cap has to age out first
+        return new Date(recent[dailyCap - 1].completedAt!.getTime() + DAY_MS);
+    }
+
+    async recordSend(senderId: string): Promise<void> {
+        await prisma.campaignSender.update({
+            where: { id: senderId },
+            data: { sentCount: { increment: 1 } },
+        });
+    }
+
+    /**
+     * Takes a sender out of rotation after a sender-level failure
+     */
+    async recordFailure(sender: RotationSender, failure: SenderFailure, message: string, now: Date = new Date()): Promise<void> {
+        await prisma.campaignSender.update({
+            where: { id: sender.id },
+            data: failure === 'auth'
+                ? { disabledReason: message }
+                : { pausedUntil: new Date(now.getTime() + DAY_MS) },
+        });
+        logger.warn(`Sender ${sender.email} ${failure === 'auth' ? 'removed from rotation' : 'paused for 24 hours'}: ${message}`);
+    }
+
+    /**
+     * Per-sender state for the run status endpoint
+     */
+    async getSenders(campaignId: string, now: Date = new Date()) {
+        const senders = await prisma.campaignSender.findMany({
+            where: { campaignId },
+            orderBy: { position: 'asc' },
+            include: { credential: { select: { email: true } } },
+        });
+
+        return senders.map((sender) => ({
+            email: sender.credential.email,
+            weight: sender.weight,
+            dailyCap: sender.dailyCap,
+            sentCount: sender.sentCount,
+            status: sender.disabledReason
+                ? 'disabled'
+                : sender.pausedUntil && sender.pausedUntil > now ? 'paused' : 'active',
+            pausedUntil: sender.pausedUntil && sender.pausedUntil > now ? sender.pausedUntil : undefined,
+            error: sender.disabledReason || undefined,
+        }));
+    }
+}
+
+export default new SenderRotationService();
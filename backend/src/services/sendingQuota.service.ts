@@ -0,0 +1,163 @@
+/**
+ * Sending Quota Service
+ * Counts every email a sender credential sends per UTC day and holds it to
+ * its daily limit. With warm-up on, the limit starts at warmupStartLimit and
+ * climbs in a straight line to dailyLimit over warmupDays, so a new account
+ * builds its reputation gradually. Emails over the limit wait for the next
+ * day instead of failing.
+ */
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { CredentialQuotaDTO } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaSettings {
+    dailyLimit: number | null;
+    warmupStartedAt: Date | null;
+    warmupStartLimit: number;
+    warmupDays: number;
+}
+
+const quotaSelect = {
+    id: true,
+    email: true,
+    dailyLimit: true,
+    warmupStartedAt: true,
+    warmupStartLimit: true,
+    warmupDays: true,
+} as const;
+
+export function dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function nextDay(date: Date): Date {
+    return new Date(startOfDay(date) + DAY_MS);
+}
+
+/**
+ * Zero-based warm-up day, or null when warm-up is off
+ */
+function warmupDay(settings: QuotaSettings, now: Date): number | null {
+    if (!settings.warmupStartedAt) return null;
+    return Math.max(0, Math.floor((startOfDay(now) - startOfDay(settings.warmupStartedAt)) / DAY_MS));
+}
+
+/**
+ * The credential's limit for the day `now` falls in; null = no limit
+ */
+export function limitFor(settings: QuotaSettings, now: Date = new Date()): number | null {
+    if (settings.dailyLimit === null) return null;
+
+    const day = warmupDay(settings, now);
+    if (day === null || day >= settings.warmupDays) return settings.dailyLimit;
+
+    const start = Math.min(settings.warmupStartLimit, settings.dailyLimit);
+    return Math.round(start + (settings.dailyLimit - start) * (day / settings.warmupDays));
+}
+
+export class SendingQuotaService {
+    /**
+     * When the credential may send again, or null while it's under today's limit
+     */
+    async availableAt(credentialId: string, now: Date = new Date()): Promise<Date | null> {
+        const credential = await prisma.emailCredential.findUnique({
+            where: { id: credentialId },
+            select: quotaSelect,
+        });
+        if (!credential) return null;
+
+        const limit = limitFor(credential, now);
+        if (limit === null) return null;
+
+        const sent = await this.sentOn(credentialId, now);
+        return sent < limit ? null : nextDay(now);
+    }
+
+    async recordSend(credentialId: string, now: Date = new Date()): Promise<void> {
+        const day = dayKey(now);
+        await prisma.credentialDailyUsage.upsert({
+            where: { credentialId_day: { credentialId, day } },
+            create: { credentialId, day, sentCount: 1 },
+            update: { sentCount: { increment: 1 } },
+        });
+    }
+
+    private async sentOn(credentialId: string, now: Date): Promise<number> {
+        const usage = await prisma.credentialDailyUsage.findUnique({
+            where: { credentialId_day: { credentialId, day: dayKey(now) } },
+            select: { sentCount: true },
+        });
+        return usage?.sentCount ?? 0;
+    }
+
+    /**
+     * Today's usage and limit of each of the user's sender credentials
+     */
+    async getQuotas(userId: string, now: Date = new Date()) {
+        const credentials = await prisma.emailCredential.findMany({
+            where: { userId },
+            select: {
+                ...quotaSelect,
+                dailyUsage: { where: { day: dayKey(now) }, select: { sentCount: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return credentials.map(credential => this.toQuota(credential, credential.dailyUsage[0]?.sentCount ?? 0, now));
+    }
+
+    /**
+     * Sets the daily limit. Turning warm-up on starts the ramp today; saving
+     * again while it's on keeps the current progress.
+     */
+    async updateQuota(userId: string, credentialId: string, data: CredentialQuotaDTO, now: Date = new Date()) {
+        const existing = await prisma.emailCredential.findFirst({
+            where: { id: credentialId, userId },
+            select: { warmupStartedAt: true },
+        });
+
+        if (!existing) {
+            throw new AppError('Credential not found', 404);
+        }
+
+        const credential = await prisma.emailCredential.update({
+            where: { id: credentialId },
+            data: {
+                dailyLimit: data.dailyLimit,
+                warmupStartedAt: data.warmup ? existing.warmupStartedAt ?? now : null,
+                ...(data.warmupStartLimit !== undefined && { warmupStartLimit: data.warmupStartLimit }),
+                ...(data.warmupDays !== undefined && { warmupDays: data.warmupDays }),
+            },
+            select: quotaSelect,
+        });
+
+        return this.toQuota(credential, await this.sentOn(credentialId, now), now);
+    }
+
+    private toQuota(credential: QuotaSettings & { id: string; email: string }, sentToday: number, now: Date) {
+        const day = warmupDay(credential, now);
+
+        return {
+            credentialId: credential.id,
+            email: credential.email,
+            sentToday,
+            limit: limitFor(credential, now),
+            dailyLimit: credential.dailyLimit,
+            resetsAt: nextDay(now),
+            warmup: day === null ? null : {
+                day: Math.min(day + 1, credential.warmupDays),
+                days: credential.warmupDays,
+                startLimit: credential.warmupStartLimit,
+                complete: day >= credential.warmupDays,
+            },
+        };
+    }
+}
+
+export default new SendingQuotaService();
@@ -0,0 +1,265 @@
+/**
+ * Suppression Service
+ * Do-not-contact list. Entries are full addresses or whole domains
+ * (@example.com); each user has their own list, and GLOBAL_SUPPRESSIONS
+ * applies to everyone. The list is checked when a campaign is created and
+ * again right before every send.
+ */
+import prisma from '../config/database';
+import { env } from '../config/env';
+import { AppError, ApiError } from '../middleware/errorHandler';
+import { CreateSuppressionDTO, SuppressionQuery, UpdateSuppressionDTO } from '../types';
+import { isBlankRow, parseCsv, toCsv } from '../utils/csv';
+
+export const SUPPRESSION_REASONS = ['manual', 'import', 'hard_bounce', 'unsubscribed'];
+
+const REASON_LABELS: Record<string, string> = {
+    manual: 'added manually',
+    import: 'imported',
+    hard_bounce: 'hard bounce',
+    unsubscribed: 'unsubscribed',
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_REGEX = /^@[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+export interface SuppressionMatch {
+    entry: string;
+    reason: string;
+    global: boolean;
+}
+
+export interface SuppressionImportResult {
+    added: number;
+    skipped: number;
+    errors: Array<{ row: number; value: string; error: string }>;
+}
+
+/**
+ * Lower-cases an address or @domain entry. Returns null if it's neither.
+ */
+export function normalizeEntry(value: string): string | null {
+    const entry = value.trim().toLowerCase();
+    return EMAIL_REGEX.test(entry) || DOMAIN_REGEX.test(entry) ? entry : null;
+}
+
+/**
+ * The entries that would block an address: itself and its domain
+ */
+function entriesFor(email: string): string[] {
+    const address = email.trim().toLowerCase();
+    const domain = address.slice(address.lastIndexOf('@'));
+    return [address, domain];
+}
+
+/**
+ * Quotes cells a spreadsheet would run as a formula (=, +, - or @ first),
+ * such as @domain entries and bounce details copied from remote servers
+ */
+function spreadsheetSafe(value: string | null): string | null {
+    return value && /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Undoes spreadsheetSafe so an exported list can be imported again
+ */
+function unquoteCell(value: string): string {
+    return value.replace(/^'(?=[=+\-@])/, '');
+}
+
+/**
+ * The message stored on recipients skipped because of a suppression
+ */
+export function suppressedMessage(match: SuppressionMatch): string {
+    const subject = match.entry.startsWith('@') ? `domain ${match.entry}` : 'address';
+    if (match.global) {
+        return `Skipped: ${subject} is on the global suppression list`;
+    }
+    return `Skipped: ${subject} is on your suppression list (${REASON_LABELS[match.reason] || match.reason})`;
+}
+
+export class SuppressionService {
+    async getSuppressions(userId: string, query: SuppressionQuery) {
+        const page = query.page || 1;
+        const limit = query.limit || 50;
+        const skip = (page - 1) * limit;
+
+        const where = {
+            userId,
+            ...(query.search ? { email: { contains: query.search.toLowerCase() } } : {}),
+        };
+
+        const [suppressions, total] = await Promise.all([
+            prisma.suppression.findMany({ where, skip, take: limit, orderBy: { createdAt: 'desc' } }),
+            prisma.suppression.count({ where }),
+        ]);
+
+        return {
+            suppressions,
+            global: env.GLOBAL_SUPPRESSIONS,
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    async createSuppression(userId: string, data: CreateSuppressionDTO) {
+        const email = normalizeEntry(data.email);
+        if (!email) {
+            throw new AppError('Enter an email address or a domain such as @example.com', 400);
+        }
+
+        const existing = await prisma.suppression.findUnique({ where: { userId_email: { userId, email } } });
+        if (existing) {
+            throw ApiError.conflict(`${email} is already suppressed`);
+        }
+
+        return prisma.suppression.create({
+            data: { userId, email, reason: 'manual', detail: data.detail?.trim() || null },
+        });
+    }
+
+    async updateSuppression(userId: string, suppressionId: string, data: UpdateSuppressionDTO) {
+        await this.findOwned(userId, suppressionId);
+
+        return prisma.suppression.update({
+            where: { id: suppressionId },
+            data: { detail: data.detail?.trim() || null },
+        });
+    }
+
+    async deleteSuppression(userId: string, suppressionId: string) {
+        await this.findOwned(userId, suppressionId);
+        await prisma.suppression.delete({ where: { id: suppressionId } });
+
+        return { message: 'Suppression removed' };
+    }
+
+    /**
+     * Adds an address to the user's suppression list. An existing entry
+     * keeps its original reason.
+     */
+    async suppress(userId: string, email: string, reason: string, detail?: string, campaignId?: string | null) {
+        const address = email.trim().toLowerCase();
+
+        return prisma.suppression.upsert({
+            where: { userId_email: { userId, email: address } },
+            create: { userId, email: address, reason, detail, campaignId },
+            update: {},
+        });
+    }
+
+    /**
+     * Imports entries from CSV. Uses the "email" column when there is a
+     * header row (with optional "reason" and "detail" columns), otherwise the
+     * first column. Entries already on the list are skipped.
+     */
+    async importCsv(userId: string, csv: string): Promise<SuppressionImportResult> {
+        const rows = parseCsv(csv);
+        const header = (rows[0] || []).map((cell) => cell.trim().toLowerCase());
+        const hasHeader = header.includes('email');
+        const column = (name: string) => (hasHeader ? header.indexOf(name) : -1);
+        const emailColumn = hasHeader ? header.indexOf('email') : 0;
+
+        const result: SuppressionImportResult = { added: 0, skipped: 0, errors: [] };
+        const entries = new Map<string, { reason: string; detail: string | null }>();
+
+        rows.forEach((cells, index) => {
+            if ((hasHeader && index === 0) || isBlankRow(cells)) return;
+
+            const value = unquoteCell((cells[emailColumn] || '').trim());
+            const email = normalizeEntry(value);
+            if (!email) {
+                result.errors.push({ row: index + 1, value, error: 'Not an email address or @domain' });
+                return;
+            }
+            if (entries.has(email)) {
+                result.skipped++;
+                return;
+            }
+
+            const reason = (cells[column('reason')] || '').trim().toLowerCase();
+            entries.set(email, {
+                reason: SUPPRESSION_REASONS.includes(reason) ? reason : 'import',
+                detail: unquoteCell((cells[column('detail')] || '').trim()) || null,
+            });
+        });
+
+        const existing = await prisma.suppression.findMany({
+            where: { userId, email: { in: [...entries.keys()] } },
+            select: { email: true },
+        });
+        for (const { email } of existing) {
+            entries.delete(email);
+            result.skipped++;
+        }
+
+        if (entries.size > 0) {
+            const created = await prisma.suppression.createMany({
+                data: [...entries].map(([email, entry]) => ({ userId, email, ...entry })),
+            });
+            result.added = created.count;
+        }
+
+        return result;
+    }
+
+    async exportCsv(userId: string): Promise<string> {
+        const suppressions = await prisma.suppression.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return toCsv([
+            ['email', 'reason', 'detail', 'created_at'],
+            ...suppressions.map((s) => [spreadsheetSafe(s.email), s.reason, spreadsheetSafe(s.detail), s.createdAt]),
+        ]);
+    }
+
+    /**
+     * Returns the entry blocking this address, if any. Global entries win.
+     */
+    async findSuppression(userId: string, email: string): Promise<SuppressionMatch | null> {
+        const matches = await this.findSuppressions(userId, [email]);
+        return matches.get(email.trim().toLowerCase()) || null;
+    }
+
+    /**
+     * Checks many addresses at once. The map is keyed by lower-cased address
+     * and only holds the suppressed ones.
+     */
+    async findSuppressions(userId: string, emails: string[]): Promise<Map<string, SuppressionMatch>> {
+        const matches = new Map<string, SuppressionMatch>();
+        if (emails.length === 0) return matches;
+
+        const candidates = [...new Set(emails.flatMap(entriesFor))];
+        const rows = await prisma.suppression.findMany({
+            where: { userId, email: { in: candidates } },
+            select: { email: true, reason: true },
+        });
+        const userEntries = new Map(rows.map((row) => [row.email, row.reason]));
+
+        for (const email of emails) {
+            const address = email.trim().toLowerCase();
+            const globalEntry = entriesFor(address).find((e) => env.GLOBAL_SUPPRESSIONS.includes(e));
+            const userEntry = entriesFor(address).find((e) => userEntries.has(e));
+
+            if (globalEntry) {
+                matches.set(address, { entry: globalEntry, reason: 'global', global: true });
+            } else if (userEntry) {
+                matches.set(address, { entry: userEntry, reason: userEntries.get(userEntry)!, global: false });
+            }
+        }
+        return matches;
+    }
+
+    private async findOwned(userId: string, suppressionId: string) {
+        const suppression = await prisma.suppression.findFirst({ where: { id: suppressionId, userId } });
+        if (!suppression) {
+            throw new AppError('Suppression not found', 404);
+        }
+        return suppression;
+    }
+}
+
+export default new SuppressionService();
@@ -0,0 +1,166 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { CreateTemplateDTO, UpdateTemplateDTO } from '../types';
+import { templateFields } from '../utils/templateEngine';
+
+type TemplateRow = { tags: string };
+
+const withTags = <T extends TemplateRow>(row: T) => ({ ...row, tags: JSON.parse(row.tags) as string[] });
+
+export class TemplateService {
+    async getTemplates(userId: string, search?: string) {
+        const templates = await prisma.template.findMany({
+            where: {
+                userId,
+                ...(search ? { name: { contains: search } } : {}),
+            },
+            orderBy: { updatedAt: 'desc' },
+        });
+
+        return templates.map(withTags);
+    }
+
+    async getTemplateById(userId: string, templateId: string) {
+        const template = await prisma.template.findFirst({
+            where: { id: templateId, userId },
+            include: {
+                versions: {
+                    orderBy: { version: 'desc' },
+                    select: { version: true, name: true, subject: true, createdAt: true },
+                },
+            },
+        });
+
+        if (!template) {
+            throw new AppError('Template not found', 404);
+        }
+
+        return withTags(template);
+    }
+
+    async createTemplate(userId: string, data: CreateTemplateDTO) {
+        const tags = JSON.stringify(templateFields([data.subject, data.body]));
+
+        const template = await prisma.template.create({
+            data: {
+                userId,
+                name: data.name,
+                subject: data.subject,
+                body: data.body,
+                tags,
+                versions: {
+                    create: { version: 1, name: data.name, subject: data.subject, body: data.body, tags },
+                },
+            },
+        });
+
+        return withTags(template);
+    }
+
+    /**
+     * Updates a template. Content changes are saved as a new version;
+     * an update that changes nothing keeps the current version.
+     */
+    async updateTemplate(userId: string, templateId: string, data: UpdateTemplateDTO) {
+        const existing = await this.findOwned(userId, templateId);
+
+        const next = {
+            name: data.name ?? existing.name,
+            subject: data.subject ?? existing.subject,
+            body: data.body ?? existing.body,
+        };
+
+        if (next.name === existing.name && next.subject === existing.subject && next.body === existing.body) {
+            return withTags(existing);
+        }
+
+        return this.saveVersion(existing.id, existing.currentVersion, next);
+    }
+
+    async deleteTemplate(userId: string, templateId: string) {
+        await this.findOwned(userId, templateId);
+
+        await prisma.template.delete({
+            where: { id: templateId },
+        });
+
+        return { message: 'Template deleted successfully' };
+    }
+
+    /**
+     * Copies the template's current content into a new template (with fresh history)
+     */
+    async duplicateTemplate(userId: string, templateId: string, name?: string) {
+        const existing = await this.findOwned(userId, templateId);
+
+        return this.createTemplate(userId, {
+            name: name || `${existing.name} (copy)`,
+            subject: existing.subject,
+            body: existing.body,
+        });
+    }
+
+    async getVersion(userId: string, templateId: string, version: number) {
+        await this.findOwned(userId, templateId);
+
+        const snapshot = await prisma.templateVersion.findUnique({
+            where: { templateId_version: { templateId, version } },
+        });
+
+        if (!snapshot) {
+            throw new AppError(`Version ${version} not found`, 404);
+        }
+
+        return withTags(snapshot);
+    }
+
+    /**
+     * Restores an old version by saving its content as the newest version,
+     * so the history in between is kept
+     */
+    async restoreVersion(userId: string, templateId: string, version: number) {
+        const existing = await this.findOwned(userId, templateId);
+        const snapshot = await this.getVersion(userId, templateId, version);
+
+        return this.saveVersion(existing.id, existing.currentVersion, {
+            name: snapshot.name,
+            subject: snapshot.subject,
+            body: snapshot.body,
+        });
+    }
+
+    private async findOwned(userId: string, templateId: string) {
+        const template = await prisma.template.findFirst({
+            where: { id: templateId, userId },
+        });
+
+        if (!template) {
+            throw new AppError('Template not found', 404);
+        }
+
+        return template;
+    }
+
+    private async saveVersion(
+        templateId: string,
+        currentVersion: number,
+        content: { name: string; subject: string; body: string }
+    ) {
+        const version = currentVersion + 1;
+        const tags = JSON.stringify(templateFields([content.subject, content.body]));
+
+        const [template] = await prisma.$transaction([
+            prisma.template.update({
+                where: { id: templateId },
+                data: { ...content, tags, currentVersion: version },
+            }),
+            prisma.templateVersion.create({
+                data: { templateId, version, ...content, tags },
+            }),
+        ]);
+
+        return withTags(template);
+    }
+}
+
+export default new TemplateService();
@@ -1,24 +1,16 @@
 /**
  * Email Tracking Service
  * Handles open tracking (pixel) and click tracking (link rewriting)
+ * Records live in the email_tracking / link_clicks tables, keyed by token.
  */
 import crypto from 'crypto';
-import logger from '../utils/logger';
-
-// In-memory storage for development (file-based)
-// In production, this will be handled by database
 import fs from 'fs';
-import path from 'path';
-
-const TRACKING_DIR = path.join(process.cwd(), 'logs');
-const TRACKING_FILE = path.join(TRACKING_DIR, 'email_tracking.jsonl');
-
-// Ensure logs directory exists
-if (!fs.existsSync(TRACKING_DIR)) {
-    fs.mkdirSync(TRACKING_DIR, { recursive: true });
-}
+import readline from 'readline';
+import prisma from '../config/database';
+import logger from '../utils/logger';
 
-interface TrackingRecord {
+// Shape of a line in the legacy logs/email_tracking.jsonl file
+interface LegacyTrackingRecord {
     id: string;
     trackingToken: string;
     recipientEmail: string;
@@ -29,11 +21,11 @@ interface TrackingRecord {
     lastOpenedAt?: string;
     userAgent?: string;
     ipAddress?: string;
-    links: LinkRecord[];
+    links: LegacyLinkRecord[];
     createdAt: string;
 }
 
-interface LinkRecord {
+interface LegacyLinkRecord {
     clickToken: string;
     originalUrl: string;
     clickCount: number;
@@ -59,26 +51,28 @@ export function generateClickToken(): string {
  * Create a tracking record for an email
  */
 export async function createTrackingRecord(data: {
+    userId: string;
     recipientEmail: string;
     subject?: string;
     campaignId?: string;
+    recipientId?: string;
+    messageId?: string;
+    variant?: string;
 }): Promise<{ trackingToken: string; trackingPixelUrl: string }> {
     const trackingToken = generateTrackingToken();
 
-    const record: TrackingRecord = {
-        id: crypto.randomUUID(),
-        trackingToken,
-        recipientEmail: data.recipientEmail,
-        subject: data.subject,
-        campaignId: data.campaignId,
-        openCount: 0,
-        links: [],
-        createdAt: new Date().toISOString(),
-    };
-
-    // Append to JSONL file
-    const line = JSON.stringify(record) + '\n';
-    fs.appendFileSync(TRACKING_FILE, line);
+    await prisma.emailTracking.create({
+        data: {
+            trackingToken,
+            userId: data.userId,
+            recipientEmail: data.recipientEmail,
+            subject: data.subject,
+            campaignId: data.campaignId,
+            recipientId: data.recipientId,
+            messageId: data.messageId,
+            variant: data.variant,
+        },
+    });
 
     logger.debug('Created tracking record', { trackingToken, recipientEmail: data.recipientEmail });
 
@@ -98,32 +92,30 @@ export async function recordEmailOpen(
     ipAddress?: string
 ): Promise<boolean> {
     try {
-        const records = loadTrackingRecords();
-        const recordIndex = records.findIndex(r => r.trackingToken === trackingToken);
+        const now = new Date();
+        const opened = await prisma.emailTracking.updateMany({
+            where: { trackingToken },
+            data: {
+                openCount: { increment: 1 },
+                lastOpenedAt: now,
+                userAgent,
+                ipAddress,
+            },
+        });
 
-        if (recordIndex === -1) {
+        if (opened.count === 0) {
             logger.warn('Tracking token not found', { trackingToken });
             return false;
         }
 
-        const record = records[recordIndex];
-        record.openCount += 1;
-        record.lastOpenedAt = new Date().toISOString();
-        if (!record.firstOpenedAt) {
-            record.firstOpenedAt = record.lastOpenedAt;
-        }
-        record.userAgent = userAgent;
-        record.ipAddress = ipAddress;
-
-        // Save updated records
-        saveTrackingRecords(records);
-
-        logger.info('Email opened', {
-            trackingToken,
-            recipientEmail: record.recipientEmail,
-            openCount: record.openCount
+        // Only the first open sets firstOpenedAt, even when opens arrive concurrently
+        await prisma.emailTracking.updateMany({
+            where: { trackingToken, firstOpenedAt: null },
+            data: { firstOpenedAt: now },
         });
 
+        logger.info('Email opened', { trackingToken });
+
         return true;
     } catch (error: any) {
         logger.error('Error recording email open', { error: error.message });
@@ -131,14 +123,21 @@ export async function recordEmailOpen(
     }
 }
 
+/**
+ * Remove the tracking record (and its links) of an email that was never sent
+ */
+export async function deleteTrackingRecord(trackingToken: string): Promise<void> {
+    await prisma.emailTracking.deleteMany({ where: { trackingToken } });
+}
+
 /**
  * Rewrite links in email body to use tracking URLs
  */
-export function rewriteLinksForTracking(
+export async function rewriteLinksForTracking(
     emailBody: string,
     trackingToken: string,
     baseUrl: string = process.env.BACKEND_URL || 'http://localhost:5000'
-): { body: string; links: Array<{ clickToken: string; originalUrl: string }> } {
+): Promise<{ body: string; links: Array<{ clickToken: string; originalUrl: string }> }> {
     const links: Array<{ clickToken: string; originalUrl: string }> = [];
 
     // Match href attributes in anchor tags
@@ -150,8 +149,8 @@ export function rewriteLinksForTracking(
             return match;
         }
 
-        // Skip tracking pixel URLs
-        if (url.includes('/api/track/')) {
+        // Skip tracking pixel and unsubscribe URLs
+        if (url.includes('/api/track/') || url.includes('/api/unsubscribe/')) {
             return match;
         }
 
@@ -165,14 +164,14 @@ export function rewriteLinksForTracking(
 
     // Store link mappings
     if (links.length > 0) {
-        const records = loadTrackingRecords();
-        const recordIndex = records.findIndex(r => r.trackingToken === trackingToken);
-        if (recordIndex !== -1) {
-            records[recordIndex].links = links.map(l => ({
-                ...l,
-                clickCount: 0,
-            }));
-            saveTrackingRecords(records);
+        const record = await prisma.emailTracking.findUnique({
+            where: { trackingToken },
+            select: { id: true },
+        });
+        if (record) {
+            await prisma.linkClick.createMany({
+                data: links.map(l => ({ ...l, emailTrackingId: record.id })),
+            });
         }
     }
 
@@ -188,145 +187,121 @@ export async function recordLinkClick(
     ipAddress?: string
 ): Promise<string | null> {
     try {
-        const records = loadTrackingRecords();
-
-        for (const record of records) {
-            const linkIndex = record.links.findIndex(l => l.clickToken === clickToken);
-            if (linkIndex !== -1) {
-                const link = record.links[linkIndex];
-                link.clickCount += 1;
-                link.lastClickedAt = new Date().toISOString();
-                if (!link.firstClickedAt) {
-                    link.firstClickedAt = link.lastClickedAt;
-                }
-
-                saveTrackingRecords(records);
-
-                logger.info('Link clicked', {
-                    clickToken,
-                    recipientEmail: record.recipientEmail,
-                    originalUrl: link.originalUrl,
-                    clickCount: link.clickCount,
-                });
+        const now = new Date();
+        const clicked = await prisma.linkClick.updateMany({
+            where: { clickToken },
+            data: {
+                clickCount: { increment: 1 },
+                lastClickedAt: now,
+                userAgent,
+                ipAddress,
+            },
+        });
 
-                return link.originalUrl;
-            }
+        if (clicked.count === 0) {
+            logger.warn('Click token not found', { clickToken });
+            return null;
         }
 
-        logger.warn('Click token not found', { clickToken });
-        return null;
+        await prisma.linkClick.updateMany({
+            where: { clickToken, firstClickedAt: null },
+            data: { firstClickedAt: now },
+        });
+
+        const link = await prisma.linkClick.findUniqueOrThrow({
+            where: { clickToken },
+            select: { originalUrl: true, clickCount: true },
+        });
+
+        logger.info('Link clicked', {
+            clickToken,
+            originalUrl: link.originalUrl,
+            clickCount: link.clickCount,
+        });
+
+        return link.originalUrl;
     } catch (error: any) {
         logger.error('Error recording link click', { error: error.message });
         return null;
     }
 }
 
+// Every tracking query is limited to the records the user sent
+function trackingScope(userId: string, campaignId?: string) {
+    return campaignId ? { userId, campaignId } : { userId };
+}
+
 /**
- * Get tracking stats for a campaign or all emails
+ * Get tracking stats for one of the user's campaigns or all of their emails
  */
-export function getTrackingStats(campaignId?: string): {
+export async function getTrackingStats(userId: string, campaignId?: string): Promise<{
     totalSent: number;
     totalOpened: number;
     openRate: number;
     totalClicks: number;
     uniqueClicks: number;
-    records: TrackingRecord[];
-} {
-    let records = loadTrackingRecords();
-
-    if (campaignId) {
-        records = records.filter(r => r.campaignId === campaignId);
-    }
-
-    const totalSent = records.length;
-    const totalOpened = records.filter(r => r.openCount > 0).length;
-    const openRate = totalSent > 0 ? Math.round((totalOpened / totalSent) * 100) : 0;
-
-    let totalClicks = 0;
-    let uniqueClicks = 0;
-
-    for (const record of records) {
-        for (const link of record.links) {
-            totalClicks += link.clickCount;
-            if (link.clickCount > 0) {
-                uniqueClicks += 1;
-            }
-        }
-    }
+    totalReplied: number;
+    replyRate: number;
+}> {
+    const where = trackingScope(userId, campaignId);
+
+    const [totalSent, totalOpened, clicks, uniqueClicks, totalReplied] = await Promise.all([
+        prisma.emailTracking.count({ where }),
+        prisma.emailTracking.count({ where: { ...where, openCount: { gt: 0 } } }),
+        prisma.linkClick.aggregate({
+            where: { emailTracking: where },
+            _sum: { clickCount: true },
+        }),
+        prisma.linkClick.count({ where: { emailTracking: where, clickCount: { gt: 0 } } }),
+        prisma.emailTracking.count({ where: { ...where, repliedAt: { not: null } } }),
+    ]);
 
     return {
         totalSent,
         totalOpened,
-        openRate,
-        totalClicks,
+        openRate: totalSent > 0 ? Math.round((totalOpened / totalSent) * 100) : 0,
+        totalClicks: clicks._sum.clickCount || 0,
         uniqueClicks,
-        records,
+        totalReplied,
+        replyRate: totalSent > 0 ? Math.round((totalReplied / totalSent) * 100) : 0,
     };
 }
 
 /**
- * Get paginated tracking details for a campaign or all emails
+ * Get paginated tracking details for one of the user's campaigns or all of their emails
  */
-export function getTrackingDetailsPaginated(
+export async function getTrackingDetailsPaginated(
+    userId: string,
     page: number = 1,
     limit: number = 50,
     campaignId?: string
-): {
-    totalSent: number;
-    totalOpened: number;
-    openRate: number;
-    totalClicks: number;
-    uniqueClicks: number;
-    records: TrackingRecord[];
-    pagination: {
-        total: number;
-        page: number;
-        limit: number;
-        totalPages: number;
-    }
-} {
-    let records = loadTrackingRecords();
-
-    if (campaignId) {
-        records = records.filter(r => r.campaignId === campaignId);
-    }
-
-    // Sort by createdAt descending (newest first)
-    records.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-    const totalSent = records.length;
-    const totalOpened = records.filter(r => r.openCount > 0).length;
-    const openRate = totalSent > 0 ? Math.round((totalOpened / totalSent) * 100) : 0;
-
-    let totalClicks = 0;
-    let uniqueClicks = 0;
-
-    for (const record of records) {
-        for (const link of record.links) {
-            totalClicks += link.clickCount;
-            if (link.clickCount > 0) {
-                uniqueClicks += 1;
-            }
-        }
-    }
-
-    // Pagination
-    const startIndex = (page - 1) * limit;
-    const endIndex = page * limit;
-    const paginatedRecords = records.slice(startIndex, endIndex);
+) {
+    const where = trackingScope(userId, campaignId);
+
+    const [stats, records] = await Promise.all([
+        getTrackingStats(userId, campaignId),
+        prisma.emailTracking.findMany({
+            where,
+            // Newest first
+            orderBy: { createdAt: 'desc' },
+            skip: (page - 1) * limit,
+            take: limit,
+            include: {
+                linkClicks: {
+                    select: { originalUrl: true, clickCount: true, firstClickedAt: true },
+                },
+            },
+        }),
+    ]);
 
     return {
-        totalSent,
-        totalOpened,
-        openRate,
-        totalClicks,
-        uniqueClicks,
-        records: paginatedRecords,
+        ...stats,
+        records,
         pagination: {
-            total: totalSent,
+            total: stats.totalSent,
             page,
             limit,
-            totalPages: Math.ceil(totalSent / limit)
+            totalPages: Math.ceil(stats.totalSent / limit)
         }
     };
 }
@@ -341,33 +316,116 @@ export function generateTrackingPixelHtml(trackingToken: string): string {
     return `<img src="${pixelUrl}" alt="" width="1" height="1" style="display:none;width:1px;height:1px;border:0;" />`;
 }
 
-// Helper functions for file-based storage
-function loadTrackingRecords(): TrackingRecord[] {
-    try {
-        if (!fs.existsSync(TRACKING_FILE)) {
-            return [];
+/**
+ * Finds the user a legacy record belongs to: the owner of its campaign, or else
+ * the one user whose campaigns went to its recipient. Null when nobody or more
+ * than one user matches.
+ */
+async function legacyOwner(record: LegacyTrackingRecord): Promise<{ userId: string; campaignId?: string } | null> {
+    // Legacy run IDs were not campaign IDs, so only keep links to real campaigns
+    const campaign = record.campaignId
+        ? await prisma.campaign.findUnique({ where: { id: record.campaignId }, select: { id: true, userId: true } })
+        : null;
+    if (campaign) {
+        return { userId: campaign.userId, campaignId: campaign.id };
+    }
+
+    const senders = await prisma.campaign.findMany({
+        where: { recipients: { some: { email: record.recipientEmail } } },
+        select: { userId: true },
+        distinct: ['userId'],
+    });
+    const owners = new Set(senders.map(sender => sender.userId));
+    return owners.size === 1 ? { userId: [...owners][0] } : null;
+}
+
+/**
+ * One-shot import of the legacy logs/email_tracking.jsonl file.
+ * Records whose tracking token already exists are skipped, so re-running is safe.
+ * Records that can't be matched to exactly one owner are left out and counted
+ * as unmatched rather than handed to whoever runs the import.
+ */
+export async function importTrackingJsonl(
+    filePath: string
+): Promise<{ imported: number; skipped: number; unmatched: number; failed: number }> {
+    const result = { imported: 0, skipped: 0, unmatched: 0, failed: 0 };
+
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Tracking file not found: ${filePath}`);
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        try {
+            const record: LegacyTrackingRecord = JSON.parse(line);
+
+            const existing = await prisma.emailTracking.findUnique({
+                where: { trackingToken: record.trackingToken },
+                select: { id: true },
+            });
+            if (existing) {
+                result.skipped++;
+                continue;
+            }
+
+            const owner = await legacyOwner(record);
+            if (!owner) {
+                logger.warn('Skipped legacy tracking record with no matching owner', { trackingToken: record.trackingToken });
+                result.unmatched++;
+                continue;
+            }
+
+            await prisma.emailTracking.create({
+                data: {
+                    trackingToken: record.trackingToken,
+                    userId: owner.userId,
+                    recipientEmail: record.recipientEmail,
+                    subject: record.subject,
+                    campaignId: owner.campaignId,
+                    openCount: record.openCount || 0,
+                    firstOpenedAt: toDate(record.firstOpenedAt),
+                    lastOpenedAt: toDate(record.lastOpenedAt),
+                    userAgent: record.userAgent,
+                    ipAddress: record.ipAddress,
+                    createdAt: toDate(record.createdAt),
+                    linkClicks: {
+                        create: (record.links || []).map(link => ({
+                            clickToken: link.clickToken,
+                            originalUrl: link.originalUrl,
+                            clickCount: link.clickCount || 0,
+                            firstClickedAt: toDate(link.firstClickedAt),
+                            lastClickedAt: toDate(link.lastClickedAt),
+                        })),
+                    },
+                },
+            });
+            result.imported++;
+        } catch (error: any) {
+            logger.error('Failed to import tracking record', { error: error.message });
+            result.failed++;
         }
-        const content = fs.readFileSync(TRACKING_FILE, 'utf-8');
-        const lines = content.trim().split('\n').filter(Boolean);
-        return lines.map(line => JSON.parse(line));
-    } catch {
-        return [];
     }
+
+    return result;
 }
 
-function saveTrackingRecords(records: TrackingRecord[]): void {
-    const content = records.map(r => JSON.stringify(r)).join('\n') + '\n';
-    fs.writeFileSync(TRACKING_FILE, content);
+function toDate(value?: string): Date | undefined {
+    return value ? new Date(value) : undefined;
 }
 
 export default {
     generateTrackingToken,
     generateClickToken,
     createTrackingRecord,
+    deleteTrackingRecord,
     recordEmailOpen,
     recordLinkClick,
     rewriteLinksForTracking,
     getTrackingStats,
     getTrackingDetailsPaginated,
     generateTrackingPixelHtml,
+    importTrackingJsonl,
 };
@@ -0,0 +1,89 @@
+/**
+ * Unsubscribe Service
+ * Every campaign email carries a link (and List-Unsubscribe header) with a
+ * token signed for its recipient, so unsubscribing needs neither a login
+ * nor a lookup table. Using the link adds the address to the sender's
+ * suppression list.
+ */
+import crypto from 'crypto';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import suppressionService from './suppression.service';
+import { io } from '../server';
+
+export interface UnsubscribePayload {
+    userId: string;
+    email: string;
+    campaignId?: string;
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', env.UNSUBSCRIBE_SECRET).update(data).digest('base64url');
+}
+
+export class UnsubscribeService {
+    createToken(payload: UnsubscribePayload): string {
+        const data = Buffer.from(JSON.stringify({
+            u: payload.userId,
+            e: payload.email.trim().toLowerCase(),
+            c: payload.campaignId,
+        })).toString('base64url');
+
+        return `${data}.${sign(data)}`;
+    }
+
+    /**
+     * Returns the token's payload, or null if it was tampered with
+     */
+    verifyToken(token: string): UnsubscribePayload | null {
+        const [data, signature] = token.split('.');
+        if (!data || !signature) return null;
+
+        const expected = Buffer.from(sign(data));
+        const actual = Buffer.from(signature);
+        if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+            return null;
+        }
+
+        try {
+            const { u, e, c } = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+            if (typeof u !== 'string' || typeof e !== 'string') return null;
+            return { userId: u, email: e, campaignId: typeof c === 'string' ? c : undefined };
+        } catch {
+            return null;
+        }
+    }
+
+    unsubscribeUrl(payload: UnsubscribePayload): string {
+        const baseUrl = process.env.BACKEND_URL || 'http://localhost:5000';
+        return `${baseUrl}/api/unsubscribe/${this.createToken(payload)}`;
+    }
+
+    /**
+     * Suppresses the token's address for its sender. Using a link twice is harmless.
+     */
+    async unsubscribe(token: string): Promise<UnsubscribePayload> {
+        const payload = this.verifyToken(token);
+        if (!payload) {
+            throw new AppError('This unsubscribe link is invalid', 400);
+        }
+
+        await suppressionService.suppress(
+            payload.userId,
+            payload.email,
+            'unsubscribed',
+            'Unsubscribed via email link',
+            payload.campaignId
+        );
+
+        if (payload.campaignId) {
+            io.to(`campaign:${payload.campaignId}`).emit('email:unsubscribed', { email: payload.email });
+        }
+        logger.info(`${payload.email} unsubscribed`, { userId: payload.userId, campaignId: payload.campaignId });
+
+        return payload;
+    }
+}
+
+export default new UnsubscribeService();
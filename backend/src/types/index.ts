@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import { SmtpAuthType, SmtpProvider, SmtpSecurity } from '../config/smtpProviders';
 
 export interface AuthRequest extends Request {
     user?: {
@@ -24,9 +25,84 @@ export interface CreateCampaignDTO {
     subject: string;
     body: string;
     recipients: RecipientDTO[];
-    scheduledTime?: Date;
+    scheduledTime?: string | Date;
+    timezone?: string;
     batchSize?: number;
     batchDelay?: number;
+    credentialId?: string;
+    attachments?: AttachmentDTO[];
+    sequence?: SequenceStepDTO[];
+    senders?: CampaignSenderDTO[]; // Rotation; credentialId is then the first sender
+    senderRotation?: SenderRotation;
+    sendWindow?: SendWindowDTO | null;
+    abTest?: AbTestDTO | null;
+    acknowledgePersonalization?: boolean; // Blank personalization warnings were reviewed; lets a scheduled send start
+}
+
+/**
+ * Subject lines tested against the campaign's own, which is variant "A"
+ */
+export interface AbTestDTO {
+    variants: Array<{ subject: string; body?: string }>; // Labelled "B", "C", …; a blank body reuses the campaign's
+    sampleSize: number; // Sends per variant before the better open rate wins
+}
+
+/**
+ * Days and hours a campaign may send in, read in the campaign's time zone
+ * or, with recipientTimezones, in each recipient's
+ */
+export interface SendWindowDTO {
+    days: number[]; // 0 = Sunday … 6 = Saturday
+    start: string; // "09:00"
+    end: string; // "17:00", exclusive
+    recipientTimezones?: boolean;
+}
+
+export type SenderRotation = 'round_robin' | 'weighted';
+
+export interface CampaignSenderDTO {
+    credentialId: string;
+    position: number;
+    weight: number;
+    dailyCap: number | null;
+}
+
+export type FollowUpCondition = 'not_opened' | 'not_clicked' | 'not_replied';
+
+export interface SequenceStepDTO {
+    delayHours: number;
+    condition: FollowUpCondition;
+    subject?: string; // Blank = "Re: <campaign subject>"
+    body: string;
+}
+
+export interface AttachmentDTO {
+    filename: string;
+    content: string; // base64 encoded
+    contentType: string;
+}
+
+export interface TestSendDTO {
+    credentialEmail?: string;
+    subject: string;
+    body: string;
+    recipient: { email: string; [key: string]: unknown }; // Row whose merge fields are used
+    attachments?: AttachmentDTO[];
+    to?: string[]; // Defaults to the account email
+}
+
+export interface PreviewEmailDTO {
+    subject: string;
+    body: string;
+    recipient: Record<string, unknown>; // Row whose merge fields are used
+}
+
+export interface PersonalizationLintDTO {
+    subject: string;
+    body: string;
+    sequence?: Array<{ subject?: string; body: string }>;
+    variants?: Array<{ subject: string; body?: string }>; // A/B test alternatives
+    recipients: Array<{ email: string; [key: string]: unknown }>;
 }
 
 export interface RecipientDTO {
@@ -34,20 +110,73 @@ export interface RecipientDTO {
     email: string;
     companyName: string;
     jobTitle?: string;
+    timezone?: string; // From a "Timezone" / "Time Zone" column
+    timeZone?: string;
 }
 
 export interface EmailCredentialDTO {
     email: string;
     appPassword: string;
     isDefault?: boolean;
+    // SMTP settings; anything left out comes from the provider preset
+    provider?: SmtpProvider;
+    host?: string;
+    port?: number;
+    security?: SmtpSecurity;
+    authType?: SmtpAuthType;
+    username?: string;
+    imapHost?: string;
+    imapPort?: number;
+}
+
+export interface CredentialQuotaDTO {
+    dailyLimit: number | null; // null = no limit
+    warmup: boolean;
+    warmupStartLimit?: number;
+    warmupDays?: number;
 }
 
 export interface UpdateCampaignDTO {
     name?: string;
     status?: string;
-    scheduledTime?: Date;
+    scheduledTime?: string | Date;
+    timezone?: string;
     batchSize?: number;
     batchDelay?: number;
+    sendWindow?: SendWindowDTO | null;
+}
+
+export interface CreateTemplateDTO {
+    name: string;
+    subject: string;
+    body: string;
+}
+
+export interface UpdateTemplateDTO {
+    name?: string;
+    subject?: string;
+    body?: string;
+}
+
+export interface CreateSuppressionDTO {
+    email: string; // Address or @domain
+    detail?: string;
+}
+
+export interface UpdateSuppressionDTO {
+    detail?: string | null;
+}
+
+export interface SaveDraftDTO {
+    name?: string;
+    step?: number;
+    credentialEmail?: string | null;
+    subject?: string;
+    body?: string;
+    recipients?: Array<{ email: string; [key: string]: unknown }>;
+    attachments?: Array<{ name: string; size: number; type?: string }>;
+    settings?: Record<string, unknown> | null;
+    sequence?: SequenceStepDTO[];
 }
 
 export interface PaginationQuery {
@@ -59,6 +188,10 @@ export interface CampaignQuery extends PaginationQuery {
     status?: string;
 }
 
+export interface SuppressionQuery extends PaginationQuery {
+    search?: string;
+}
+
 export interface RecipientQuery extends PaginationQuery {
     status?: string;
 }
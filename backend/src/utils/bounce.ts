@@ -0,0 +1,151 @@
+/**
+ * RFC 3464 delivery status notification (DSN) parsing.
+ * A DSN is a multipart/report; report-type=delivery-status message with a
+ * message/delivery-status part (one field block per recipient) and usually
+ * the original message or its headers, which carry the Message-ID we sent.
+ */
+import { parseHeaders, parseMessageIds } from './imap';
+
+export type BounceType = 'hard' | 'soft';
+
+export interface BouncedRecipient {
+    email: string;
+    action: string; // failed or delayed
+    status: string; // Enhanced status code, e.g. 5.1.1
+    diagnostic?: string;
+    type: BounceType;
+}
+
+export interface DeliveryReport {
+    originalMessageId?: string;
+    recipients: BouncedRecipient[];
+}
+
+interface MimePart {
+    headers: Record<string, string>;
+    body: string;
+}
+
+// Permanent (5.x.x) by the RFC but usually temporary in practice: mailbox full, message too large
+const SOFT_PERMANENT_STATUSES = ['5.2.2', '5.3.4'];
+
+function splitPart(raw: string): MimePart {
+    const separator = raw.search(/\r?\n\r?\n/);
+    if (separator < 0) return { headers: parseHeaders(raw), body: '' };
+
+    const body = raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+    return { headers: parseHeaders(raw.slice(0, separator)), body };
+}
+
+function contentType(part: MimePart): string {
+    return (part.headers['content-type'] || 'text/plain').toLowerCase();
+}
+
+function parameter(header: string, name: string): string | undefined {
+    const match = header.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+    return match ? match[1] ?? match[2] : undefined;
+}
+
+function decodeBody(part: MimePart): string {
+    const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+    if (encoding === 'base64') {
+        return Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    }
+    if (encoding === 'quoted-printable') {
+        return part.body
+            .replace(/=\r?\n/g, '')
+            .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    }
+    return part.body;
+}
+
+/**
+ * Flattens a multipart tree into its leaf parts
+ */
+function leafParts(part: MimePart): MimePart[] {
+    const type = part.headers['content-type'] || '';
+    const boundary = /^multipart\//i.test(type) ? parameter(type, 'boundary') : undefined;
+    if (!boundary) return [part];
+
+    const delimiter = `--${boundary}`;
+    const sections = part.body.split(delimiter).slice(1);
+    const children: MimePart[] = [];
+    for (const section of sections) {
+        if (section.startsWith('--')) break; // Closing delimiter
+        children.push(...leafParts(splitPart(section.replace(/^[ \t]*\r?\n/, ''))));
+    }
+    return children;
+}
+
+/**
+ * Strips the "type;" prefix of DSN fields such as "rfc822; user@example.com"
+ */
+function fieldValue(value: string): string {
+    return value.replace(/^[^;]*;\s*/, '').trim();
+}
+
+export function isDeliveryReport(contentTypeHeader?: string | null): boolean {
+    return !!contentTypeHeader
+        && /multipart\/report/i.test(contentTypeHeader)
+        && parameter(contentTypeHeader, 'report-type')?.toLowerCase() === 'delivery-status';
+}
+
+/**
+ * Hard bounces are permanent failures; delays and transient (4.x.x)
+ * failures are soft. Returns null for actions that aren't bounces
+ * (delivered, relayed, expanded).
+ */
+export function classifyBounce(action: string, status: string): BounceType | null {
+    const normalizedAction = action.trim().toLowerCase();
+    if (normalizedAction === 'delayed') return 'soft';
+    if (normalizedAction !== 'failed') return null;
+
+    if (status.startsWith('5.')) {
+        return SOFT_PERMANENT_STATUSES.includes(status) ? 'soft' : 'hard';
+    }
+    return 'soft';
+}
+
+/**
+ * Parses a raw DSN message. Returns null if the message isn't a delivery report.
+ */
+export function parseDeliveryReport(raw: string): DeliveryReport | null {
+    const root = splitPart(raw);
+    if (!isDeliveryReport(root.headers['content-type'])) return null;
+
+    const parts = leafParts(root);
+    const statusPart = parts.find(part => contentType(part).startsWith('message/delivery-status'));
+    if (!statusPart) return null;
+
+    // Per-message fields come first, then one block per recipient, separated by blank lines
+    const blocks = decodeBody(statusPart)
+        .split(/\r?\n[ \t]*\r?\n/)
+        .map(block => parseHeaders(block));
+
+    const recipients: BouncedRecipient[] = [];
+    for (const block of blocks) {
+        const address = block['final-recipient'] || block['original-recipient'];
+        if (!address) continue;
+
+        const action = (block['action'] || '').toLowerCase();
+        const status = (block['status'] || '').match(/\d\.\d{1,3}\.\d{1,3}/)?.[0] || '';
+        const type = classifyBounce(action, status);
+        if (!type) continue;
+
+        recipients.push({
+            email: fieldValue(address).replace(/^<|>$/g, '').toLowerCase(),
+            action,
+            status,
+            diagnostic: block['diagnostic-code'] ? fieldValue(block['diagnostic-code']) : undefined,
+            type,
+        });
+    }
+
+    const originalPart = parts.find(part => /^(text\/rfc822-headers|message\/rfc822)/.test(contentType(part)));
+    const originalHeaders = originalPart ? splitPart(decodeBody(originalPart)).headers : {};
+
+    return {
+        originalMessageId: parseMessageIds(originalHeaders['message-id'])[0],
+        recipients,
+    };
+}
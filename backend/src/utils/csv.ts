@@ -0,0 +1,67 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes
+ * ("") and line breaks inside quotes.
+ */
+
+/**
+ * Parses CSV text into rows of cells. Blank lines are kept (as a single
+ * empty cell) so row numbers match the file; a trailing newline is not a row.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+function escapeCell(value: unknown): string {
+    const text = value === null || value === undefined
+        ? ''
+        : value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function isBlankRow(cells: string[]): boolean {
+    return cells.every((cell) => cell.trim() === '');
+}
+
+/**
+ * Serialises rows (header first) to CSV with CRLF line endings
+ */
+export function toCsv(rows: unknown[][]): string {
+    return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -1,50 +1,17 @@
 import XLSX from 'xlsx';
 import { RecipientDTO } from '../types';
+import { ColumnMapping, RecipientImport, tableToRecipients } from './recipientImport';
 
 /**
- * Parses an Excel file and extracts recipient data
+ * Parses the first sheet of an Excel file into recipients (see recipientImport)
  */
-export const parseExcelFile = (buffer: Buffer): RecipientDTO[] => {
+export const parseExcelFile = (buffer: Buffer, mapping?: ColumnMapping): RecipientImport => {
     const workbook = XLSX.read(buffer, { type: 'buffer' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const data = XLSX.utils.sheet_to_json(worksheet);
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    // Formatted cell text, with blank rows kept so row numbers match the sheet
+    const rows: string[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false, defval: '', blankrows: true });
 
-    const recipients: RecipientDTO[] = [];
-
-    for (const row of data as any[]) {
-        const fullName = findValue(row, ['Full name', 'Name', 'Last name']);
-        const email = findValue(row, ['Email address', 'Email']);
-        const companyName = findValue(row, ['Company/organization name', 'Company', 'Organization']);
-        const jobTitle = findValue(row, ['Job title/designation', 'Job Title', 'Title', 'Designation']);
-
-        if (fullName && email && companyName) {
-            recipients.push({
-                fullName,
-                email,
-                companyName,
-                jobTitle: jobTitle || undefined,
-            });
-        }
-    }
-
-    return recipients;
-};
-
-/**
- * Helper function to find a value in a row by multiple possible keys
- */
-const findValue = (row: any, potentialKeys: string[]): string => {
-    const rowKeys = Object.keys(row);
-    for (const pKey of potentialKeys) {
-        const foundKey = rowKeys.find(
-            (rKey) => rKey.trim().toLowerCase() === pKey.trim().toLowerCase()
-        );
-        if (foundKey && row[foundKey] != null) {
-            return String(row[foundKey]).trim();
-        }
-    }
-    return '';
+    return tableToRecipients(rows.map((cells) => cells.map(String)), 'excel', mapping);
 };
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * IMAP inbox access for reply and bounce detection.
+ * Everything is fetched with BODY.PEEK, so nothing is marked as read.
+ */
+import { ImapFlow } from 'imapflow';
+
+export interface InboxMessage {
+    uid: number;
+    messageId?: string;
+    from?: string;
+    date?: Date;
+    contentType?: string;
+    inReplyTo: string[];
+    references: string[];
+}
+
+export interface Mailbox {
+    fetchSince(since: Date): Promise<InboxMessage[]>;
+    fetchSource(uid: number): Promise<string>;
+    close(): Promise<void>;
+}
+
+export interface MailboxLogin {
+    email: string;
+    appPassword: string;
+    username?: string; // Defaults to the email address
+    server?: ImapServer; // Overrides the factory's default server
+}
+
+export interface ImapServer {
+    host: string;
+    port: number;
+    secure: boolean;
+    requireTLS?: boolean; // Upgrade with STARTTLS or fail, never log in over plain text
+    servername?: string; // Name to verify the certificate against when host is an address
+}
+
+export type MailboxFactory = (login: MailboxLogin) => Promise<Mailbox>;
+
+/**
+ * Extracts every <message-id> from an In-Reply-To or References header
+ */
+export function parseMessageIds(header?: string | null): string[] {
+    if (!header) return [];
+    return header.match(/<[^<>\s]+>/g) || [];
+}
+
+/**
+ * Parses a raw header block into lower-cased names, unfolding continuation lines
+ */
+export function parseHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const unfolded = raw.replace(/\r?\n[ \t]+/g, ' ');
+
+    for (const line of unfolded.split(/\r?\n/)) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+    return headers;
+}
+
+/**
+ * Returns a factory that opens a read-only INBOX on the given server.
+ * Tests and local development can point it at any plain IMAP stand-in.
+ */
+export function createImapMailboxFactory(server: ImapServer): MailboxFactory {
+    return async (login) => {
+        const target = login.server ?? server;
+        const client = new ImapFlow({
+            host: target.host,
+            port: target.port,
+            secure: target.secure,
+            doSTARTTLS: target.requireTLS,
+            servername: target.servername,
+            auth: { user: login.username || login.email, pass: login.appPassword },
+            logger: false,
+        });
+        await client.connect();
+
+        return {
+            async fetchSince(since: Date): Promise<InboxMessage[]> {
+                const lock = await client.getMailboxLock('INBOX', { readOnly: true });
+                try {
+                    const uids = await client.search({ since }, { uid: true });
+                    if (!uids || uids.length === 0) return [];
+
+                    const messages: InboxMessage[] = [];
+                    const query = { uid: true, envelope: true, headers: ['in-reply-to', 'references', 'content-type'] };
+                    for await (const message of client.fetch(uids, query, { uid: true })) {
+                        const headers = parseHeaders(message.headers?.toString('utf8') || '');
+                        const date = message.envelope?.date;
+                        messages.push({
+                            uid: message.uid,
+                            messageId: message.envelope?.messageId,
+                            from: message.envelope?.from?.[0]?.address,
+                            date: date ? new Date(date) : undefined,
+                            contentType: headers['content-type'],
+                            inReplyTo: parseMessageIds(headers['in-reply-to'] || message.envelope?.inReplyTo),
+                            references: parseMessageIds(headers['references']),
+                        });
+                    }
+                    return messages;
+                } finally {
+                    lock.release();
+                }
+            },
+
+            async fetchSource(uid: number): Promise<string> {
+                const lock = await client.getMailboxLock('INBOX', { readOnly: true });
+                try {
+                    const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+                    return message ? message.source?.toString('utf8') || '' : '';
+                } finally {
+                    lock.release();
+                }
+            },
+
+            async close(): Promise<void> {
+                await client.logout();
+            },
+        };
+    };
+}
@@ -7,15 +7,21 @@ interface TokenPayload {
     fullName: string;
 }
 
+interface RefreshTokenPayload extends TokenPayload {
+    jti: string;
+    exp: number;
+}
+
 export const generateAccessToken = (payload: TokenPayload) => {
     return jwt.sign(payload, env.JWT_SECRET, {
         expiresIn: env.JWT_EXPIRES_IN,
     });
 };
 
-export const generateRefreshToken = (payload: TokenPayload) => {
+export const generateRefreshToken = (payload: TokenPayload, tokenId: string) => {
     return jwt.sign(payload, env.REFRESH_TOKEN_SECRET, {
         expiresIn: env.REFRESH_TOKEN_EXPIRES_IN,
+        jwtid: tokenId,
     });
 };
 
@@ -29,7 +35,7 @@ export const verifyAccessToken = (token: string) => {
 
 export const verifyRefreshToken = (token: string) => {
     try {
-        return jwt.verify(token, env.REFRESH_TOKEN_SECRET) as TokenPayload;
+        return jwt.verify(token, env.REFRESH_TOKEN_SECRET) as RefreshTokenPayload;
     } catch (error) {
         throw new Error('Invalid or expired refresh token');
     }
@@ -0,0 +1,296 @@
+/**
+ * Recipient list importers for delimited text (CSV, TSV and the like, in
+ * any common encoding) and vCard files. Excel sheets go through the same row
+ * mapping (see excel.ts), so every format yields the same RecipientDTO shape
+ * and reports the rows it had to skip. Tables are mapped column by column:
+ * by header aliases unless the caller sends its own ColumnMapping.
+ */
+import { RecipientDTO } from '../types';
+import { isBlankRow, parseCsv } from './csv';
+
+export interface RecipientImportError {
+    row: number; // 1-based row (vCard: card) in the file
+    value: string; // The row's email, if any
+    error: string;
+}
+
+// Header -> merge field its values go to (one of CORE_FIELDS or any other name); null drops the column
+export type ColumnMapping = Record<string, string | null>;
+
+export interface RecipientImport {
+    recipients: RecipientDTO[];
+    errors: RecipientImportError[];
+    format: 'excel' | 'delimited' | 'vcard';
+    encoding?: string;
+    delimiter?: string;
+    // Tables only: the header row, the first data rows and the mapping that was applied
+    headers?: string[];
+    preview?: string[][];
+    mapping?: ColumnMapping;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// The fields every recipient has
+export const CORE_FIELDS = ['fullName', 'email', 'companyName', 'jobTitle'] as const;
+
+// Header aliases for the core fields, compared case-insensitively
+const COLUMN_ALIASES: Record<(typeof CORE_FIELDS)[number], string[]> = {
+    fullName: ['Full name', 'Name', 'Last name'],
+    email: ['Email address', 'Email', 'E-mail', 'Contact Email'],
+    companyName: ['Company/organization name', 'Company', 'Company name', 'Organization'],
+    jobTitle: ['Job title/designation', 'Job Title', 'Title', 'Designation'],
+};
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// How many lines delimiter detection looks at
+const SNIFF_LINES = 10;
+
+// Data rows returned with the headers so a mapping can be previewed
+const PREVIEW_ROWS = 3;
+
+const isCoreField = (field: string | null): boolean => (CORE_FIELDS as readonly (string | null)[]).includes(field);
+
+/**
+ * Header to merge field name, e.g. "First Name" -> "firstName"
+ */
+export function toFieldName(header: string): string {
+    const words = header.replace(/[^a-zA-Z0-9]/g, ' ').trim().split(/\s+/).filter(Boolean);
+    return words
+        .map((word, index) => index === 0
+            ? word.toLowerCase()
+            : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+}
+
+/**
+ * The mapping used when the caller has none: the first header matching one of
+ * a core field's aliases fills it, every other column keeps its own name
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    for (const header of headers) {
+        if (header) mapping[header] = toFieldName(header) || null;
+    }
+    for (const field of CORE_FIELDS) {
+        const header = COLUMN_ALIASES[field]
+            .map((alias) => headers.find((h) => h.toLowerCase() === alias.toLowerCase()))
+            .find((h) => h && !isCoreField(mapping[h]));
+        if (header) mapping[header] = field;
+    }
+    return mapping;
+}
+
+/**
+ * Decodes a text file: a BOM decides when present, then UTF-8 if the bytes
+ * are valid UTF-8, otherwise Windows-1252 (what Excel on Windows writes)
+ */
+export function decodeText(buffer: Buffer): { text: string; encoding: string } {
+    if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        return { text: new TextDecoder('utf-8').decode(buffer.subarray(3)), encoding: 'utf-8' };
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return { text: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+    }
+    if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+        return { text: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+    }
+
+    // UTF-16 without a BOM: ASCII text has a zero in every other byte
+    const sample = buffer.subarray(0, 200);
+    const zeros = (offset: number) => sample.filter((byte, i) => i % 2 === offset && byte === 0).length;
+    if (sample.length >= 4 && zeros(1) > sample.length / 4 && zeros(0) === 0) {
+        return { text: new TextDecoder('utf-16le').decode(buffer), encoding: 'utf-16le' };
+    }
+    if (sample.length >= 4 && zeros(0) > sample.length / 4 && zeros(1) === 0) {
+        return { text: new TextDecoder('utf-16be').decode(buffer), encoding: 'utf-16be' };
+    }
+
+    try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+    } catch {
+        return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'windows-1252' };
+    }
+}
+
+/**
+ * The delimiter that splits the first lines into the same number of cells
+ * (the most cells wins a tie); comma when nothing splits them
+ */
+export function detectDelimiter(text: string): string {
+    const lines = text.split(/\r\n|\n|\r/).filter((line) => line.trim() !== '').slice(0, SNIFF_LINES);
+    const countOutsideQuotes = (line: string, delimiter: string) => {
+        let count = 0;
+        let quoted = false;
+        for (const char of line) {
+            if (char === '"') quoted = !quoted;
+            else if (char === delimiter && !quoted) count++;
+        }
+        return count;
+    };
+
+    let best = { delimiter: ',', consistent: false, count: 0 };
+    for (const delimiter of DELIMITERS) {
+        const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+        const count = counts[0] || 0;
+        const consistent = count > 0 && counts.every((c) => c === count);
+        if ((consistent && !best.consistent) || (consistent === best.consistent && count > best.count)) {
+            best = { delimiter, consistent, count };
+        }
+    }
+    return best.delimiter;
+}
+
+/**
+ * The problems that keep a recipient out of a campaign (empty when it can be sent to)
+ */
+function recipientProblems(recipient: RecipientDTO): string[] {
+    const problems: string[] = [];
+    if (!recipient.email) problems.push('Missing email');
+    else if (!EMAIL_REGEX.test(recipient.email)) problems.push('Invalid email address');
+    if (!recipient.fullName) problems.push('Missing full name');
+    if (!recipient.companyName) problems.push('Missing company name');
+    return problems;
+}
+
+function collect(result: RecipientImport, recipient: RecipientDTO, row: number): void {
+    const problems = recipientProblems(recipient);
+    if (problems.length > 0) {
+        result.errors.push({ row, value: recipient.email, error: problems.join('; ') });
+    } else {
+        result.recipients.push(recipient);
+    }
+}
+
+/**
+ * Maps a table (header row first) to recipients. `mapping` decides where each
+ * header's column goes; headers it leaves out are mapped as suggestMapping
+ * would. A column mapped to a core field also stays available under its own
+ * name (so "Company" fills both companyName and company). Blank rows are
+ * skipped silently.
+ */
+export function tableToRecipients(
+    rows: string[][],
+    format: RecipientImport['format'],
+    mapping: ColumnMapping = {}
+): RecipientImport {
+    const result: RecipientImport = { recipients: [], errors: [], format };
+
+    const headerIndex = rows.findIndex((cells) => !isBlankRow(cells));
+    if (headerIndex === -1) return result;
+
+    const headers = rows[headerIndex].map((cell) => cell.trim());
+    const suggested = suggestMapping(headers);
+    const columnMapping: ColumnMapping = {};
+    for (const header of headers) {
+        if (header) columnMapping[header] = Object.hasOwn(mapping, header) ? mapping[header] : suggested[header];
+    }
+
+    const dataRows = rows.map((cells, index) => ({ cells, row: index + 1 }))
+        .filter(({ cells, row }) => row > headerIndex + 1 && !isBlankRow(cells));
+
+    result.headers = headers;
+    result.preview = dataRows.slice(0, PREVIEW_ROWS).map(({ cells }) => headers.map((_, column) => (cells[column] ?? '').trim()));
+    result.mapping = columnMapping;
+
+    if (!Object.values(columnMapping).includes('email')) {
+        result.errors.push({ row: headerIndex + 1, value: '', error: 'No email column (expected a header such as "Email")' });
+        return result;
+    }
+
+    for (const { cells, row } of dataRows) {
+        const fields: Record<string, string> = {};
+        headers.forEach((header, column) => {
+            const field = header ? columnMapping[header] : null;
+            if (!field) return;
+
+            const value = (cells[column] ?? '').trim();
+            const ownName = toFieldName(header);
+            if (isCoreField(field) && ownName && !isCoreField(ownName) && !(ownName in fields)) fields[ownName] = value;
+            // When several columns share a field, the first non-empty value wins
+            if (!fields[field]) fields[field] = value;
+        });
+
+        collect(result, {
+            ...fields,
+            fullName: fields.fullName || '',
+            email: fields.email || '',
+            companyName: fields.companyName || '',
+            jobTitle: fields.jobTitle || undefined,
+        }, row);
+    }
+
+    return result;
+}
+
+/**
+ * Parses CSV, TSV and other delimited text, detecting encoding and delimiter
+ */
+export function parseDelimitedFile(buffer: Buffer, mapping?: ColumnMapping): RecipientImport {
+    const { text, encoding } = decodeText(buffer);
+    const delimiter = detectDelimiter(text);
+    return { ...tableToRecipients(parseCsv(text, delimiter), 'delimited', mapping), encoding, delimiter };
+}
+
+// vCard text values escape "\", ",", ";" and newlines with a backslash
+function unescapeVCard(value: string): string {
+    return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// Splits a structured value (N, ORG) on unescaped ";"
+function vCardComponents(value: string): string[] {
+    return value.split(/(?<!\\);/).map((part) => unescapeVCard(part).trim());
+}
+
+/**
+ * Parses vCard 2.1–4.0 contacts (e.g. a LinkedIn export): FN (or N) is the
+ * name, the preferred or first EMAIL the address, ORG the company and TITLE
+ * the job title. The fields are fixed, so there is no column mapping.
+ */
+export function parseVCardFile(buffer: Buffer): RecipientImport {
+    const { text, encoding } = decodeText(buffer);
+    const result: RecipientImport = { recipients: [], errors: [], format: 'vcard', encoding };
+
+    // Long lines are folded onto continuation lines that start with a space or tab
+    const lines = text.split(/\r\n|\n|\r/).reduce<string[]>((unfolded, line) => {
+        if (/^[ \t]/.test(line) && unfolded.length > 0) unfolded[unfolded.length - 1] += line.slice(1);
+        else unfolded.push(line);
+        return unfolded;
+    }, []);
+
+    let card: Array<{ name: string; params: string[]; value: string }> | null = null;
+    let cardNumber = 0;
+
+    for (const line of lines) {
+        const colon = line.indexOf(':');
+        if (colon === -1) continue;
+
+        const [property, ...params] = line.slice(0, colon).split(';');
+        const name = property.replace(/^.*\./, '').toUpperCase(); // "item1.EMAIL" -> "EMAIL"
+        const value = line.slice(colon + 1);
+
+        if (name === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+            card = [];
+            cardNumber++;
+        } else if (name === 'END' && value.trim().toUpperCase() === 'VCARD' && card) {
+            const first = (key: string) => card!.find((p) => p.name === key);
+            const emails = card.filter((p) => p.name === 'EMAIL');
+            const email = emails.find((p) => p.params.some((param) => /pref/i.test(param))) || emails[0];
+            const [lastName = '', firstName = ''] = first('N') ? vCardComponents(first('N')!.value) : [];
+            const org = first('ORG');
+
+            collect(result, {
+                fullName: (first('FN') && unescapeVCard(first('FN')!.value).trim()) || [firstName, lastName].filter(Boolean).join(' '),
+                email: email ? unescapeVCard(email.value).trim() : '',
+                companyName: org ? vCardComponents(org.value)[0] : '',
+                jobTitle: (first('TITLE') && unescapeVCard(first('TITLE')!.value).trim()) || undefined,
+            }, cardNumber);
+            card = null;
+        } else if (card) {
+            card.push({ name, params, value });
+        }
+    }
+
+    return result;
+}
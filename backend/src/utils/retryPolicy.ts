@@ -0,0 +1,19 @@
+/**
+ * Exponential backoff with jitter for retrying transient failures
+ */
+
+export interface RetryPolicy {
+    maxRetries: number; // Retries after the first attempt; 0 = never retry
+    baseDelayMs: number; // Delay before the first retry
+    maxDelayMs: number; // Upper bound for any one delay
+}
+
+/**
+ * Delay before the n-th retry (1-based). The delay doubles with every retry
+ * up to maxDelayMs, and a random half of it is jittered away so emails that
+ * failed together don't all come back at the same moment.
+ */
+export function retryDelayMs(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+}
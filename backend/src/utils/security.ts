@@ -1,4 +1,6 @@
 import crypto from 'crypto';
+import net from 'net';
+import { lookup } from 'dns/promises';
 
 /**
  * Security utilities for input sanitization, token generation, and validation
@@ -162,3 +164,32 @@ export const sanitizeFileName = (fileName: string): string => {
         .replace(/[<>:"/\\|?*\x00-\x1f]/g, '')
         .trim();
 };
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges.
+// BlockList also matches IPv4-mapped IPv6 addresses against the IPv4 rules.
+const NON_PUBLIC_RANGES = new net.BlockList();
+([
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const).forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4'));
+([
+    // NAT64 addresses can reach any of the ranges above
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const).forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Resolves a user-supplied host to an address the server may connect to.
+ * Returns null when the host doesn't resolve or any of its addresses is internal;
+ * connect to the returned address rather than the name so it can't be re-resolved elsewhere
+ */
+export const resolvePublicAddress = async (host: string): Promise<string | null> => {
+    try {
+        const addresses = await lookup(host, { all: true });
+        const allPublic = addresses.every(({ address, family }) =>
+            !NON_PUBLIC_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+
+        return addresses.length > 0 && allPublic ? addresses[0].address : null;
+    } catch {
+        return null;
+    }
+};
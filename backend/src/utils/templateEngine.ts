@@ -0,0 +1,290 @@
+/**
+ * Merge-field templates for email subjects and bodies
+ *
+ *   {firstName}                  value of the recipient's field
+ *   {firstName|there}            fallback when the field is missing or empty
+ *   {fullName:first:capitalize}  filters, applied left to right
+ *   {#if jobTitle}...{else}...{/if}
+ *   {Hi|Hello|Hey}               spintax: one option per recipient
+ *
+ * A one-pipe tag starting with a single word is always a fallback, so a
+ * missing column never prints its own name; spintax needs three or more
+ * options ("{Hi|Hello|Hey}") or a first option that isn't a bare word
+ * ("{Hi there|Hello}"). Options may hold tags of their own. Field names and
+ * filters are case-insensitive. Braces that don't form a tag (CSS, JSON, prose,
+ * unknown filters) are left as they are.
+ */
+
+export class TemplateSyntaxError extends Error {
+    constructor(message: string, public readonly index: number) {
+        super(message);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+export const TEMPLATE_FILTERS: Record<string, (value: string) => string> = {
+    capitalize: (value) => value.charAt(0).toUpperCase() + value.slice(1),
+    upper: (value) => value.toUpperCase(),
+    lower: (value) => value.toLowerCase(),
+    first: (value) => value.split(/\s+/)[0],
+    last: (value) => value.split(/\s+/).pop() || '',
+};
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'field'; name: string; filters: string[]; fallback: string | null; index: number }
+    | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[]; index: number }
+    | { type: 'spin'; options: TemplateNode[][] };
+
+export interface RenderOptions {
+    html?: boolean; // Escape recipient values for an HTML body (default true)
+    seed?: string; // Picks the spintax options; the same seed always gets the same copy
+}
+
+const FIELD_TAG_REGEX = /^([A-Za-z_][\w.-]*)((?:\s*:\s*[A-Za-z]+)*)\s*(?:\|([\s\S]*))?$/;
+const IF_TAG_REGEX = /^#if\s+([A-Za-z_][\w.-]*)$/;
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+/**
+ * Stable index in [0, count) for a key (FNV-1a), so a recipient keeps the
+ * same spintax options and A/B variant across retries and restarts
+ */
+export function stableIndex(key: string, count: number): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % count;
+}
+
+// Index of the "}" closing the "{" at `open`, or -1
+function closingBrace(source: string, open: number, end: number): number {
+    let depth = 0;
+    for (let i = open; i < end; i++) {
+        if (source[i] === '{') depth++;
+        else if (source[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+// Start/end offsets of the "|"-separated parts of source[start, end) outside nested braces
+function splitOptions(source: string, start: number, end: number): Array<[number, number]> {
+    const parts: Array<[number, number]> = [];
+    let depth = 0;
+    let partStart = start;
+    for (let i = start; i < end; i++) {
+        if (source[i] === '{') depth++;
+        else if (source[i] === '}') depth--;
+        else if (source[i] === '|' && depth === 0) {
+            parts.push([partStart, i]);
+            partStart = i + 1;
+        }
+    }
+    parts.push([partStart, end]);
+    return parts;
+}
+
+function parseRange(source: string, start: number, end: number): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open {#if} blocks, innermost last; nodes are appended to the top one
+    const blocks: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+    const current = () => {
+        const block = blocks[blocks.length - 1];
+        if (!block) return root;
+        return block.inElse ? block.node.otherwise : block.node.then;
+    };
+
+    let textStart = start;
+    let i = start;
+    while (i < end) {
+        const index = source.indexOf('{', i);
+        if (index === -1 || index >= end) break;
+        const close = closingBrace(source, index, end);
+        if (close === -1) break;
+
+        const inner = source.slice(index + 1, close).trim();
+        const options = splitOptions(source, index + 1, close);
+        const isNested = inner.includes('{');
+        const field = isNested ? null : FIELD_TAG_REGEX.exec(inner);
+        const ifTag = isNested ? null : IF_TAG_REGEX.exec(inner);
+
+        let node: TemplateNode | null = null;
+
+        if (ifTag) {
+            node = { type: 'if', name: ifTag[1], then: [], otherwise: [], index };
+        } else if (inner === 'else' || inner === '/if') {
+            const block = blocks[blocks.length - 1];
+            if (!block) {
+                throw new TemplateSyntaxError(`{${inner}} has no matching {#if}`, index);
+            }
+            if (inner === 'else' && block.inElse) {
+                throw new TemplateSyntaxError(`{#if ${block.node.name}} has more than one {else}`, index);
+            }
+        } else if (!isNested && (inner.startsWith('#') || inner.startsWith('/'))) {
+            throw new TemplateSyntaxError(`Unknown tag {${inner}}`, index);
+        } else if (field && options.length <= 2) {
+            const filters = field[2].split(':').map((f) => f.trim().toLowerCase()).filter(Boolean);
+            // "{color:red}" in a <style> block is CSS, not a filter
+            if (filters.some((f) => !Object.hasOwn(TEMPLATE_FILTERS, f))) {
+                i = close + 1;
+                continue;
+            }
+            node = {
+                type: 'field',
+                name: field[1],
+                filters,
+                fallback: field[3] === undefined ? null : field[3].trim(),
+                index,
+            };
+        } else if (options.length > 1) {
+            node = { type: 'spin', options: options.map(([from, to]) => parseRange(source, from, to)) };
+        } else {
+            // Not a tag; keep the braces as text, but look for tags inside them
+            i = isNested ? index + 1 : close + 1;
+            continue;
+        }
+
+        if (index > textStart) {
+            current().push({ type: 'text', text: source.slice(textStart, index) });
+        }
+        textStart = i = close + 1;
+
+        if (inner === 'else' && !node) {
+            blocks[blocks.length - 1].inElse = true;
+        } else if (inner === '/if' && !node) {
+            blocks.pop();
+        } else if (node) {
+            current().push(node);
+            if (node.type === 'if') blocks.push({ node, inElse: false });
+        }
+    }
+
+    if (blocks.length > 0) {
+        const open = blocks[blocks.length - 1].node;
+        throw new TemplateSyntaxError(`{#if ${open.name}} is never closed with {/if}`, open.index);
+    }
+    if (textStart < end) {
+        root.push({ type: 'text', text: source.slice(textStart, end) });
+    }
+    return root;
+}
+
+/**
+ * Parses a template into nodes, throwing TemplateSyntaxError for unbalanced
+ * {#if} blocks and unknown {#...} tags
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+    return parseRange(source, 0, source.length);
+}
+
+/**
+ * Problems that would stop a template from rendering (empty when it is valid)
+ */
+export function templateErrors(source: string): string[] {
+    try {
+        parseTemplate(source);
+        return [];
+    } catch (error) {
+        if (error instanceof TemplateSyntaxError) return [error.message];
+        throw error;
+    }
+}
+
+// Parsed templates, skipping ones that don't parse
+function parseAll(sources: string[]): TemplateNode[][] {
+    return sources.filter((source) => templateErrors(source).length === 0).map((source) => parseTemplate(source));
+}
+
+/**
+ * Distinct field names used by the given templates, in order of appearance.
+ * Templates that don't parse contribute nothing.
+ */
+export function templateFields(sources: string[]): string[] {
+    const fields = new Map<string, string>();
+    const collect = (nodes: TemplateNode[]) => {
+        for (const node of nodes) {
+            if (node.type === 'text') continue;
+            if (node.type === 'spin') {
+                node.options.forEach(collect);
+                continue;
+            }
+            if (!fields.has(node.name.toLowerCase())) fields.set(node.name.toLowerCase(), node.name);
+            if (node.type === 'if') {
+                collect(node.then);
+                collect(node.otherwise);
+            }
+        }
+    };
+
+    parseAll(sources).forEach(collect);
+    return [...fields.values()];
+}
+
+/**
+ * Fields printed without a fallback outside an {#if} on the same field, so a
+ * blank value leaves a gap in the email ("I'd love to join ."). Templates
+ * that don't parse contribute nothing.
+ */
+export function unguardedFields(sources: string[]): string[] {
+    const fields = new Map<string, string>();
+    const collect = (nodes: TemplateNode[], guarded: Set<string>) => {
+        for (const node of nodes) {
+            if (node.type === 'field') {
+                const key = node.name.toLowerCase();
+                if (node.fallback === null && !guarded.has(key) && !fields.has(key)) fields.set(key, node.name);
+            } else if (node.type === 'if') {
+                collect(node.then, new Set([...guarded, node.name.toLowerCase()]));
+                collect(node.otherwise, guarded);
+            } else if (node.type === 'spin') {
+                node.options.forEach((option) => collect(option, guarded));
+            }
+        }
+    };
+
+    parseAll(sources).forEach((nodes) => collect(nodes, new Set()));
+    return [...fields.values()];
+}
+
+/**
+ * Renders a template for one recipient. Missing and blank fields count as
+ * empty: they take the tag's fallback (or nothing) and fail {#if} checks.
+ */
+export function renderTemplate(source: string, data: Record<string, unknown>, options: RenderOptions = {}): string {
+    const html = options.html ?? true;
+    const seed = options.seed ?? '';
+    const values = new Map<string, string>();
+    for (const [key, value] of Object.entries(data)) {
+        values.set(key.toLowerCase(), value === null || value === undefined ? '' : String(value).trim());
+    }
+    const valueOf = (name: string) => values.get(name.toLowerCase()) || '';
+
+    let spins = 0;
+    const render = (nodes: TemplateNode[]): string => nodes.map((node) => {
+        switch (node.type) {
+            case 'text':
+                return node.text;
+            case 'if':
+                return render(valueOf(node.name) ? node.then : node.otherwise);
+            case 'spin':
+                return render(node.options[stableIndex(`${seed}:${spins++}`, node.options.length)]);
+            case 'field': {
+                const value = valueOf(node.name);
+                if (!value) return node.fallback ?? '';
+                const filtered = node.filters.reduce((result, filter) => TEMPLATE_FILTERS[filter](result), value);
+                return html ? escapeHtml(filtered) : filtered;
+            }
+        }
+    }).join('');
+
+    return render(parseTemplate(source));
+}
@@ -0,0 +1,117 @@
+/**
+ * Time zone helpers built on Intl (no external tz database needed)
+ */
+
+// "2025-03-14T09:30" or "2025-03-14T09:30:00" - a wall-clock time without offset
+const LOCAL_DATE_TIME_REGEX = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Checks whether the given IANA time zone name (e.g. "Asia/Kolkata") is known to the runtime
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Returns the offset of a time zone from UTC (in ms) at the given instant
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(date);
+
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+    const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+    return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in the given time zone to the matching UTC instant
+ */
+export const zonedTimeToUtc = (localDateTime: string, timeZone: string): Date => {
+    const match = LOCAL_DATE_TIME_REGEX.exec(localDateTime);
+    if (!match) {
+        throw new Error(`Invalid local date/time: ${localDateTime}`);
+    }
+
+    const [, year, month, day, hour, minute, second = '0'] = match;
+    const asUtc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+    // Apply the offset twice so times next to a DST switch land on the right side
+    const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+    return new Date(asUtc - getTimeZoneOffset(new Date(firstGuess), timeZone));
+};
+
+/**
+ * Resolves a requested schedule time. Values with an explicit offset ("Z",
+ * "+05:30") are absolute; bare wall-clock values are read in the given time
+ * zone, falling back to UTC.
+ */
+export const resolveScheduledTime = (value: string | Date, timeZone?: string | null): Date => {
+    if (value instanceof Date) return value;
+
+    if (LOCAL_DATE_TIME_REGEX.test(value)) {
+        return zonedTimeToUtc(value, timeZone || 'UTC');
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date/time: ${value}`);
+    }
+    return date;
+};
+
+export const isLocalDateTime = (value: string): boolean => LOCAL_DATE_TIME_REGEX.test(value);
+
+/**
+ * Days and hours emails may go out, as wall-clock times in some time zone
+ */
+export interface SendWindow {
+    days: number[]; // 0 = Sunday … 6 = Saturday
+    start: string; // "09:00"
+    end: string; // "17:00", exclusive; "24:00" = midnight
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const minutesOf = (clock: string): number => {
+    const [hours, minutes] = clock.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Returns when the window next opens in the given time zone, or null when
+ * `now` already falls inside it
+ */
+export const windowOpensAt = (window: SendWindow, timeZone: string, now: Date = new Date()): Date | null => {
+    // Wall-clock time in the zone, carried in the UTC fields of a Date
+    const local = new Date(now.getTime() + getTimeZoneOffset(now, timeZone));
+    const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+    const start = minutesOf(window.start);
+    const end = minutesOf(window.end);
+
+    for (let offset = 0; offset <= 7; offset++) {
+        const day = new Date(local.getTime() + offset * DAY_MS);
+        if (!window.days.includes(day.getUTCDay())) continue;
+
+        if (offset === 0) {
+            if (minutes >= start && minutes < end) return null;
+            if (minutes >= end) continue; // Today's window has closed
+        }
+        return zonedTimeToUtc(`${day.toISOString().slice(0, 10)}T${window.start}`, timeZone);
+    }
+    return null;
+};
@@ -1,4 +1,55 @@
 import { z } from 'zod';
+import { isLocalDateTime, isValidTimeZone } from './timezone';
+import { templateErrors } from './templateEngine';
+import { IMAP_PORTS, SMTP_AUTH_TYPES, SMTP_PORTS, SMTP_PROVIDERS, SMTP_SECURITY_MODES } from '../config/smtpProviders';
+
+// ISO date-time with offset, or a wall-clock time to be read in `timezone`
+const scheduledTimeField = z.string().refine(
+    (value) => isLocalDateTime(value) || z.string().datetime({ offset: true }).safeParse(value).success,
+    'Scheduled time must be an ISO date-time (e.g. 2025-03-14T09:30 or 2025-03-14T04:00:00Z)'
+);
+
+// Subject or body whose merge tags must parse ({#if} blocks closed, etc.)
+const templateText = (schema: z.ZodString) => schema.superRefine((value, ctx) => {
+    for (const message of templateErrors(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+});
+
+const timezoneField = z.string().refine(isValidTimeZone, 'Unknown time zone');
+
+// Local wall-clock time, "09:00"; "24:00" ends a window at midnight
+const clockTimeField = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Times must be HH:MM (24-hour)');
+
+const sendWindowShape = z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one sending day').max(7),
+    start: clockTimeField,
+    end: clockTimeField,
+    recipientTimezones: z.boolean().default(false),
+});
+
+export const sendWindowSchema = sendWindowShape.refine((window) => window.start < window.end, {
+    message: 'The sending window must end after it starts',
+    path: ['end'],
+});
+
+// Extra subject lines (and optionally bodies) tested against the campaign's own
+export const abTestSchema = z.object({
+    variants: z.array(z.object({
+        subject: templateText(z.string().trim().min(1, 'Variant subject is required').max(500, 'Subject too long')),
+        body: templateText(z.string()).optional(),
+    })).min(1, 'Add at least one alternative subject line').max(4, 'Maximum 4 alternative subject lines'),
+    sampleSize: z.number().int().min(1, 'Sample size must be at least 1').max(10000),
+});
+
+// One credential of a campaign's sender rotation
+const campaignSenderSchema = z.object({
+    email: z.string().email('Invalid sender email'),
+    weight: z.number().int().min(1).max(100).default(1),
+    dailyCap: z.number().int().min(1).max(10000).optional(),
+});
+
+const senderRotationField = z.enum(['round_robin', 'weighted']);
 
 export const registerSchema = z.object({
     email: z.string().email('Invalid email address'),
@@ -18,17 +69,61 @@ export const loginSchema = z.object({
 
 export const emailCredentialSchema = z.object({
     email: z.string().email('Invalid email address'),
-    appPassword: z.string().min(16, 'App password must be at least 16 characters'),
+    appPassword: z.string().min(1, 'Password is required').max(256),
     isDefault: z.boolean().optional(),
+    provider: z.enum(SMTP_PROVIDERS).default('gmail'),
+    host: z.string().trim().max(255).regex(/^[a-z0-9.-]*$/i, 'Invalid SMTP host').optional(),
+    port: z.number().int().refine(port => (SMTP_PORTS as readonly number[]).includes(port), `SMTP port must be one of ${SMTP_PORTS.join(', ')}`).optional(),
+    security: z.enum(SMTP_SECURITY_MODES, { errorMap: () => ({ message: 'Security must be STARTTLS or SSL/TLS' }) }).optional(),
+    authType: z.enum(SMTP_AUTH_TYPES).optional(),
+    username: z.string().trim().max(320).optional(),
+    imapHost: z.string().trim().max(255).regex(/^[a-z0-9.-]*$/i, 'Invalid IMAP host').optional(),
+    imapPort: z.number().int().refine(port => (IMAP_PORTS as readonly number[]).includes(port), `IMAP port must be one of ${IMAP_PORTS.join(', ')}`).optional(),
+}).superRefine((data, ctx) => {
+    if (data.provider === 'gmail' && data.appPassword.length < 16) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['appPassword'], message: 'App password must be at least 16 characters' });
+    }
+    if (data.provider === 'custom' && !data.host) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['host'], message: 'SMTP host is required for a custom provider' });
+    }
+});
+
+export const credentialQuotaSchema = z.object({
+    dailyLimit: z.number().int().min(1, 'Daily limit must be at least 1').max(10000).nullable(),
+    warmup: z.boolean().default(false),
+    warmupStartLimit: z.number().int().min(1).max(10000).optional(),
+    warmupDays: z.number().int().min(1).max(180, 'Warm-up cannot exceed 180 days').optional(),
+}).refine(data => !data.warmup || data.dailyLimit !== null, {
+    message: 'Warm-up needs a daily limit to ramp up to',
+    path: ['dailyLimit'],
+});
+
+// One follow-up step; steps run in array order, each delayed from the previous email
+export const sequenceStepSchema = z.object({
+    delayHours: z.number().int().min(1, 'Delay must be at least 1 hour').max(24 * 90, 'Delay cannot exceed 90 days'),
+    condition: z.enum(['not_opened', 'not_clicked', 'not_replied']),
+    subject: templateText(z.string().max(500, 'Subject too long')).optional(),
+    body: templateText(z.string().min(1, 'Follow-up body is required')),
+});
+
+export const sequenceSchema = z.array(sequenceStepSchema).max(5, 'Maximum 5 follow-up steps');
+
+export const updateSequenceSchema = z.object({
+    steps: sequenceSchema,
 });
 
 export const createCampaignSchema = z.object({
     name: z.string().min(1, 'Campaign name is required'),
-    subject: z.string().min(1, 'Subject is required').max(500, 'Subject too long'),
-    body: z.string().min(1, 'Email body is required'),
-    scheduledTime: z.string().datetime().optional(),
+    subject: templateText(z.string().min(1, 'Subject is required').max(500, 'Subject too long')),
+    body: templateText(z.string().min(1, 'Email body is required')),
+    scheduledTime: scheduledTimeField.optional(),
+    timezone: timezoneField.optional(),
     batchSize: z.number().int().min(1).max(100).optional(),
     batchDelay: z.number().int().min(0).max(3600).optional(),
+    sequence: sequenceSchema.optional(),
+    sendWindow: sendWindowSchema.nullable().optional(),
+    abTest: abTestSchema.nullable().optional(),
+    acknowledgePersonalization: z.boolean().optional(),
 });
 
 export const recipientSchema = z.object({
@@ -38,12 +133,91 @@ export const recipientSchema = z.object({
     jobTitle: z.string().optional(),
 });
 
+// Header -> merge field for a recipient upload; null leaves the column out
+const columnMappingSchema = z.record(
+    z.string(),
+    z.string().max(64).regex(/^[A-Za-z_]\w*$/, 'Merge field names may only contain letters, digits and underscores').nullable()
+);
+
+// Multipart fields of a recipient upload; the mapping arrives as a JSON string
+export const uploadRecipientsSchema = z.object({
+    mapping: z.string().max(100_000).optional().transform((value, ctx) => {
+        if (value === undefined) return undefined;
+        try {
+            return JSON.parse(value) as unknown;
+        } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Column mapping must be JSON' });
+            return z.NEVER;
+        }
+    }).pipe(columnMappingSchema.optional()),
+});
+
 export const updateCampaignSchema = z.object({
     name: z.string().min(1).optional(),
-    status: z.enum(['draft', 'scheduled', 'sending', 'completed', 'paused', 'failed']).optional(),
-    scheduledTime: z.string().datetime().optional(),
+    status: z.enum(['draft', 'scheduled', 'sending', 'completed', 'paused', 'failed', 'cancelled']).optional(),
+    scheduledTime: scheduledTimeField.optional(),
+    timezone: timezoneField.optional(),
     batchSize: z.number().int().min(1).max(100).optional(),
     batchDelay: z.number().int().min(0).max(3600).optional(),
+    sendWindow: sendWindowSchema.nullable().optional(),
+});
+
+export const createTemplateSchema = z.object({
+    name: z.string().trim().min(1, 'Template name is required').max(200, 'Template name too long'),
+    subject: templateText(z.string().min(1, 'Subject is required').max(500, 'Subject too long')),
+    body: templateText(z.string().min(1, 'Email body is required')),
+});
+
+export const updateTemplateSchema = createTemplateSchema.partial().refine(
+    (data) => Object.keys(data).length > 0,
+    'Nothing to update'
+);
+
+export const duplicateTemplateSchema = z.object({
+    name: z.string().trim().min(1).max(200).optional(),
+});
+
+export const createSuppressionSchema = z.object({
+    email: z.string().trim().min(1, 'Email address or domain is required').max(320),
+    detail: z.string().max(500, 'Note too long').optional(),
+});
+
+export const updateSuppressionSchema = z.object({
+    detail: z.string().max(500, 'Note too long').nullable(),
+});
+
+export const importSuppressionsSchema = z.object({
+    csv: z.string().min(1, 'CSV content is required').max(5_000_000, 'CSV file too large'),
+});
+
+// Drafts are work in progress, so only shapes are checked (emails are validated on send)
+export const saveDraftSchema = z.object({
+    name: z.string().max(200).optional(),
+    step: z.number().int().min(1).max(4).optional(),
+    credentialEmail: z.string().email('Invalid sender email').nullable().optional(),
+    subject: z.string().max(500, 'Subject too long').optional(),
+    body: z.string().optional(),
+    recipients: z.array(z.object({ email: z.string() }).passthrough()).max(5000, 'Too many recipients').optional(),
+    attachments: z.array(z.object({
+        name: z.string(),
+        size: z.number().int().min(0),
+        type: z.string().optional(),
+    })).optional(),
+    settings: z.object({
+        selectedEmails: z.array(z.string()).optional(),
+        batchSize: z.number().int().min(1).max(50).optional(),
+        batchDelay: z.number().int().min(0).max(300).optional(),
+        scheduleDateTime: z.string().optional(),
+        senders: z.array(campaignSenderSchema).max(20).optional(),
+        rotation: senderRotationField.optional(),
+        sendWindow: sendWindowShape.nullable().optional(),
+        // Alternative subject lines may still be blank
+        abTest: abTestSchema.extend({
+            variants: z.array(z.object({ subject: z.string().max(500), body: z.string().optional() })).max(4),
+        }).nullable().optional(),
+    }).nullable().optional(),
+    // Drafts may hold follow-ups that are still being written
+    sequence: z.array(sequenceStepSchema.extend({ subject: z.string().max(500).optional(), body: z.string() })).max(5).optional(),
 });
 
 export const paginationSchema = z.object({
@@ -51,28 +225,97 @@ export const paginationSchema = z.object({
     limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
 });
 
+export const suppressionQuerySchema = paginationSchema.extend({
+    search: z.string().max(320).optional(),
+});
+
 // Schema for sending campaign emails via backend
+// Either a new recipient list or an existing draft/scheduled campaign (campaignId)
+const attachmentsSchema = z.array(z.object({
+    filename: z.string(),
+    content: z.string(), // base64 encoded
+    contentType: z.string(),
+}));
+
 export const sendCampaignSchema = z.object({
+    campaignId: z.string().uuid('Invalid campaign ID').optional(),
+    name: z.string().min(1).max(200).optional(),
     credentialEmail: z.string().email('Invalid sender email'),
-    subject: z.string().min(1, 'Subject is required').max(500, 'Subject too long'),
-    body: z.string().min(1, 'Email body is required'),
+    subject: templateText(z.string().min(1, 'Subject is required').max(500, 'Subject too long')).optional(),
+    body: templateText(z.string().min(1, 'Email body is required')).optional(),
     recipients: z.array(z.object({
         email: z.string().email('Invalid recipient email'),
         fullName: z.string().min(1, 'Full name is required'),
         companyName: z.string().min(1, 'Company name is required'),
         jobTitle: z.string().optional(),
-    })).min(1, 'At least one recipient is required').max(500, 'Maximum 500 recipients per batch'),
-    attachments: z.array(z.object({
-        filename: z.string(),
-        content: z.string(), // base64 encoded
-        contentType: z.string(),
-    })).optional(),
+    }).passthrough()).max(500, 'Maximum 500 recipients per batch').optional(),
+    attachments: attachmentsSchema.optional(),
     batchSize: z.number().int().min(1).max(50).default(10),
     batchDelay: z.number().int().min(0).max(300).default(60),
+    scheduledTime: scheduledTimeField.optional(),
+    timezone: timezoneField.optional(),
+    sequence: sequenceSchema.optional(),
+    // Rotate the campaign over several of the user's credentials
+    senders: z.array(campaignSenderSchema).min(1).max(20).optional(),
+    rotation: senderRotationField.default('round_robin'),
+    sendWindow: sendWindowSchema.nullable().optional(),
+    abTest: abTestSchema.nullable().optional(),
+    // The user saw the personalization warnings and chose to send anyway
+    acknowledgePersonalization: z.boolean().default(false),
+}).superRefine((data, ctx) => {
+    const senderEmails = data.senders?.map((s) => s.email.toLowerCase()) || [];
+    if (new Set(senderEmails).size !== senderEmails.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['senders'], message: 'Each sender can only be listed once' });
+    }
+
+    if (data.campaignId) return;
+
+    if (!data.recipients?.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['recipients'], message: 'At least one recipient is required' });
+    }
+    if (!data.subject) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['subject'], message: 'Subject is required' });
+    }
+    if (!data.body) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['body'], message: 'Email body is required' });
+    }
+});
+
+export const testSendSchema = z.object({
+    credentialEmail: z.string().email('Invalid sender email').optional(),
+    subject: templateText(z.string().min(1, 'Subject is required').max(500, 'Subject too long')),
+    body: templateText(z.string().min(1, 'Email body is required')),
+    recipient: z.object({
+        email: z.string().email('Invalid recipient email'),
+    }).passthrough(),
+    attachments: attachmentsSchema.optional(),
+    to: z.array(z.string().email('Invalid test address')).min(1).max(5).optional(),
+});
+
+// Renders a subject/body for one recipient without sending anything
+export const previewEmailSchema = z.object({
+    subject: templateText(z.string().max(500, 'Subject too long')),
+    body: templateText(z.string()),
+    recipient: z.object({}).passthrough(),
+});
+
+// Checks merge fields against the recipient list before sending
+export const lintPersonalizationSchema = z.object({
+    subject: templateText(z.string().max(500, 'Subject too long')),
+    body: templateText(z.string()),
+    sequence: z.array(z.object({
+        subject: templateText(z.string().max(500, 'Subject too long')).optional(),
+        body: templateText(z.string()),
+    })).max(5).optional(),
+    variants: z.array(z.object({
+        subject: templateText(z.string().max(500, 'Subject too long')),
+        body: templateText(z.string()).optional(),
+    })).max(4).optional(),
+    recipients: z.array(z.object({ email: z.string() }).passthrough()).max(5000, 'Too many recipients'),
 });
 
-// Schema for refresh token
+// Schema for refresh token (normally sent as the httpOnly cookie instead)
 export const refreshTokenSchema = z.object({
-    refreshToken: z.string().min(1, 'Refresh token is required'),
+    refreshToken: z.string().min(1, 'Refresh token is required').optional(),
 });
 
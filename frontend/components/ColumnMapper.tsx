@@ -0,0 +1,131 @@
+import React from 'react';
+import { ColumnMapping } from '../types';
+
+interface ColumnMapperProps {
+    headers: string[];
+    preview: string[][];
+    mapping: ColumnMapping;
+    onChange: (mapping: ColumnMapping) => void;
+    onApply: () => void;
+    dirty: boolean; // The mapping differs from the one the recipients were parsed with
+    loading: boolean;
+}
+
+const CORE_FIELDS: Array<{ value: string; label: string }> = [
+    { value: 'fullName', label: 'Full name' },
+    { value: 'email', label: 'Email' },
+    { value: 'companyName', label: 'Company' },
+    { value: 'jobTitle', label: 'Job title' },
+];
+
+const CUSTOM = '__custom';
+
+// Same rule as the backend; the name is used as a {tag} in templates
+const FIELD_NAME_REGEX = /^[A-Za-z_]\w*$/;
+
+/**
+ * Header to merge field name, e.g. "First Name" -> "firstName"
+ */
+const toFieldName = (header: string): string =>
+    header.replace(/[^a-zA-Z0-9]/g, ' ').trim().split(/\s+/).filter(Boolean)
+        .map((word, index) => index === 0
+            ? word.toLowerCase()
+            : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+
+const isCoreField = (field: string | null) => CORE_FIELDS.some(f => f.value === field);
+
+/**
+ * Why a mapping can't be applied, or null when it can
+ */
+const mappingProblem = (mapping: ColumnMapping): string | null => {
+    const fields = Object.values(mapping);
+    if (!fields.includes('email')) return 'Map one column to Email.';
+    const invalid = fields.find(field => field !== null && !isCoreField(field) && !FIELD_NAME_REGEX.test(field));
+    if (invalid !== undefined) return `"${invalid}" isn't a valid merge field name: use letters, digits and underscores.`;
+    return null;
+};
+
+/**
+ * ColumnMapper Component
+ * Lists an uploaded file's columns with sample values and lets the user
+ * choose which recipient field (or custom merge field) each one fills
+ */
+const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, preview, mapping, onChange, onApply, dirty, loading }) => {
+    const problem = mappingProblem(mapping);
+
+    const setField = (header: string, field: string | null) => {
+        onChange({ ...mapping, [header]: field });
+    };
+
+    const handleSelect = (header: string, value: string) => {
+        if (value === CUSTOM) {
+            const current = mapping[header];
+            setField(header, current && !isCoreField(current) ? current : toFieldName(header) || 'field');
+        } else {
+            setField(header, value || null);
+        }
+    };
+
+    return (
+        <div className="mt-4 p-4 rounded-xl" style={{ background: 'rgba(148, 163, 184, 0.03)', border: '1px solid rgba(148, 163, 184, 0.12)' }}>
+            <div className="flex items-center justify-between mb-3">
+                <div>
+                    <h3 className="text-sm font-semibold text-white">Column mapping</h3>
+                    <p className="text-xs" style={{ color: '#64748b' }}>
+                        Choose where each column goes. Mappings are remembered for files with the same headers.
+                    </p>
+                </div>
+                <button type="button" onClick={onApply} disabled={!dirty || !!problem || loading}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-white/10 disabled:opacity-40"
+                    style={{ border: '1px solid rgba(20, 184, 166, 0.4)', color: '#5eead4' }}>
+                    Apply mapping
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                {[...new Set(headers.filter(Boolean))].map(header => {
+                    const column = headers.indexOf(header);
+                    const field = mapping[header] ?? null;
+                    const samples = preview.map(row => row[column]).filter(Boolean);
+
+                    return (
+                        <div key={header} className="grid grid-cols-3 gap-3 items-center text-sm">
+                            <div className="min-w-0">
+                                <p className="truncate font-medium" style={{ color: '#f1f5f9' }}>{header}</p>
+                                <p className="truncate text-xs" style={{ color: '#64748b' }}>{samples.join(', ') || 'No values'}</p>
+                            </div>
+                            <select
+                                value={field === null ? '' : isCoreField(field) ? field : CUSTOM}
+                                onChange={(e) => handleSelect(header, e.target.value)}
+                            >
+                                {CORE_FIELDS.map(f => (
+                                    <option key={f.value} value={f.value}>{f.label}</option>
+                                ))}
+                                <option value={CUSTOM}>Custom merge field</option>
+                                <option value="">Don't import</option>
+                            </select>
+                            {field !== null && !isCoreField(field) ? (
+                                <input
+                                    type="text"
+                                    value={field}
+                                    onChange={(e) => setField(header, e.target.value.trim())}
+                                    placeholder="fieldName"
+                                    maxLength={64}
+                                />
+                            ) : <span />}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {problem ? (
+                <p className="mt-3 text-xs" style={{ color: '#fbbf24' }}>{problem}</p>
+            ) : dirty && (
+                <p className="mt-3 text-xs" style={{ color: '#94a3b8' }}>Apply the mapping to re-read the file before continuing.</p>
+            )}
+        </div>
+    );
+};
+
+export default ColumnMapper;
@@ -1,35 +1,120 @@
 
-import React, { useState } from 'react';
-import { Credentials } from '../types';
+import React, { useState, useEffect } from 'react';
+import apiClient from '../services/api';
+import { Credentials, SmtpProvider, SmtpProviderPreset, SmtpSecurity, SmtpAuthType, SmtpSettingsInput } from '../types';
 
 interface CredentialsFormProps {
     onSave: (credentials: Credentials) => void;
     initialCredentials?: Credentials | null;
 }
 
+// Same list as the backend accepts
+const SMTP_PORTS = [25, 465, 587, 2525];
+
 const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCredentials }) => {
     const [email, setEmail] = useState(initialCredentials?.email || '');
     const [appPassword, setAppPassword] = useState(initialCredentials?.appPassword || '');
     const [error, setError] = useState('');
     const [showPassword, setShowPassword] = useState(false);
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
+    const initialSmtp = initialCredentials?.smtp;
+    const [presets, setPresets] = useState<Record<SmtpProvider, SmtpProviderPreset> | null>(null);
+    const [provider, setProvider] = useState<SmtpProvider>(initialSmtp?.provider || 'gmail');
+    const [host, setHost] = useState(initialSmtp?.host || '');
+    const [port, setPort] = useState(initialSmtp?.port ? String(initialSmtp.port) : '');
+    const [security, setSecurity] = useState<SmtpSecurity | ''>(initialSmtp?.security || '');
+    const [authType, setAuthType] = useState<SmtpAuthType | ''>(initialSmtp?.authType || '');
+    const [username, setUsername] = useState(initialSmtp?.username || '');
+    const [showAdvanced, setShowAdvanced] = useState(provider === 'custom');
+    const [isTesting, setIsTesting] = useState(false);
+    const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+    useEffect(() => {
+        apiClient.getSmtpProviders()
+            .then(({ providers }) => setPresets(providers))
+            .catch(() => setPresets(null)); // Gmail still works with the backend's defaults
+    }, []);
+
+    const preset = presets?.[provider];
+    const isGmail = provider === 'gmail';
+
+    // Any change invalidates the last connection test
+    const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+        setter(value);
+        setTestResult(null);
+    };
 
+    const handleProviderChange = (next: SmtpProvider) => {
+        setProvider(next);
+        setHost('');
+        setPort('');
+        setSecurity('');
+        setAuthType('');
+        setUsername('');
+        setTestResult(null);
+        if (next === 'custom') setShowAdvanced(true);
+    };
+
+    // Gmail shows app passwords in groups of four
+    const cleanPassword = isGmail ? appPassword.replace(/\s/g, '') : appPassword;
+
+    const buildSettings = (): SmtpSettingsInput => ({
+        provider,
+        host: host.trim() || undefined,
+        port: port ? Number(port) : undefined,
+        security: security || undefined,
+        authType: authType || undefined,
+        username: username.trim() || undefined,
+    });
+
+    const validate = (): string => {
         const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
         if (!email.trim() || !emailRegex.test(email.trim())) {
-            setError('Please enter a valid email address.');
-            return;
+            return 'Please enter a valid email address.';
         }
+        if (isGmail && cleanPassword.length !== 16) {
+            return 'Google App Password must be exactly 16 characters (spaces are ignored).';
+        }
+        if (provider === 'custom' && !host.trim()) {
+            return 'Please enter your SMTP server host.';
+        }
+        return '';
+    };
 
-        const cleanPassword = appPassword.replace(/\s/g, '');
-        if (cleanPassword.length !== 16) {
-            setError('Google App Password must be exactly 16 characters (spaces are ignored).');
-            return;
+    const runTest = async (): Promise<boolean> => {
+        setIsTesting(true);
+        try {
+            const result = await apiClient.testCredential(email.trim(), cleanPassword, buildSettings());
+            setTestResult({ ok: true, message: result.message });
+            return true;
+        } catch (err: any) {
+            setTestResult({ ok: false, message: err?.message || 'Connection test failed' });
+            return false;
+        } finally {
+            setIsTesting(false);
         }
+    };
 
+    const handleTest = async () => {
+        const validationError = validate();
+        setError(validationError);
+        if (!validationError) await runTest();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const validationError = validate();
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
         setError('');
-        onSave({ email: email.trim(), appPassword: cleanPassword });
+
+        // Settings are only saved once they've been shown to work
+        if (!testResult?.ok && !(await runTest())) return;
+
+        onSave({ email: email.trim(), appPassword: cleanPassword, smtp: buildSettings() });
     };
 
     return (
@@ -42,8 +127,8 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
                     </svg>
                 </div>
-                <h2 className="text-2xl font-bold mb-2" style={{ color: '#f1f5f9' }}>Connect Your Gmail</h2>
-                <p style={{ color: '#94a3b8', fontSize: '0.9375rem' }}>Enter your sender email and Google App Password</p>
+                <h2 className="text-2xl font-bold mb-2" style={{ color: '#f1f5f9' }}>Connect Your Email</h2>
+                <p style={{ color: '#94a3b8', fontSize: '0.9375rem' }}>Choose your email provider and enter your sender credentials</p>
             </div>
 
             {/* Security Notice */}
@@ -55,10 +140,12 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                     <div>
                         <p className="text-sm" style={{ color: '#fde68a' }}>
                             <span className="font-semibold">Security:</span> Your credentials are encrypted and stored securely.
+                            {isGmail && (
                             <a href="https://support.google.com/accounts/answer/185833" target="_blank" rel="noopener noreferrer"
                                 className="ml-1 underline transition-colors" style={{ color: '#fbbf24' }}>
                                 Learn about App Passwords →
                             </a>
+                            )}
                         </p>
                     </div>
                 </div>
@@ -66,6 +153,24 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
 
             {/* Form */}
             <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Provider */}
+                <div>
+                    <label htmlFor="provider" className="block text-sm font-medium mb-2" style={{ color: '#94a3b8', letterSpacing: '0.03em' }}>
+                        Email Provider
+                    </label>
+                    <select
+                        id="provider"
+                        value={provider}
+                        onChange={(e) => handleProviderChange(e.target.value as SmtpProvider)}
+                    >
+                        {presets
+                            ? (Object.keys(presets) as SmtpProvider[]).map(id => (
+                                <option key={id} value={id}>{presets[id].label}</option>
+                            ))
+                            : <option value="gmail">Gmail / Google Workspace</option>}
+                    </select>
+                </div>
+
                 {/* Email Field */}
                 <div>
                     <label htmlFor="email" className="block text-sm font-medium mb-2" style={{ color: '#94a3b8', letterSpacing: '0.03em' }}>
@@ -81,8 +186,8 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                             id="email"
                             type="email"
                             value={email}
-                            onChange={(e) => setEmail(e.target.value)}
-                            placeholder="you@gmail.com"
+                            onChange={(e) => edit(setEmail)(e.target.value)}
+                            placeholder={isGmail ? 'you@gmail.com' : 'you@yourdomain.com'}
                             className="pl-12"
                             required
                         />
@@ -92,7 +197,7 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                 {/* Password Field */}
                 <div>
                     <label htmlFor="appPassword" className="block text-sm font-medium mb-2" style={{ color: '#94a3b8', letterSpacing: '0.03em' }}>
-                        Google App Password
+                        {isGmail ? 'Google App Password' : 'Password'}
                     </label>
                     <div className="relative">
                         <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -104,8 +209,8 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                             id="appPassword"
                             type={showPassword ? "text" : "password"}
                             value={appPassword}
-                            onChange={(e) => setAppPassword(e.target.value)}
-                            placeholder="•••• •••• •••• ••••"
+                            onChange={(e) => edit(setAppPassword)(e.target.value)}
+                            placeholder={isGmail ? '•••• •••• •••• ••••' : '••••••••'}
                             className="pl-12 pr-12"
                             required
                         />
@@ -127,9 +232,92 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                             )}
                         </button>
                     </div>
-                    <p className="mt-2 text-xs" style={{ color: '#64748b' }}>16 characters, spaces will be removed automatically</p>
+                    <p className="mt-2 text-xs" style={{ color: '#64748b' }}>
+                        {isGmail ? '16 characters, spaces will be removed automatically' : preset?.passwordHint}
+                    </p>
                 </div>
 
+                {/* Server Settings */}
+                <div>
+                    {provider !== 'custom' && (
+                        <button
+                            type="button"
+                            onClick={() => setShowAdvanced(!showAdvanced)}
+                            className="text-sm transition-colors"
+                            style={{ color: '#818cf8' }}
+                        >
+                            {showAdvanced ? 'Hide server settings' : 'Server settings'}
+                        </button>
+                    )}
+                    {showAdvanced && (
+                        <div className="mt-3 grid grid-cols-2 gap-4">
+                            <div className="col-span-2">
+                                <label htmlFor="smtpHost" className="block text-xs font-medium mb-1" style={{ color: '#94a3b8' }}>SMTP Host</label>
+                                <input
+                                    id="smtpHost"
+                                    type="text"
+                                    value={host}
+                                    onChange={(e) => edit(setHost)(e.target.value)}
+                                    placeholder={preset?.host || 'smtp.yourdomain.com'}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="smtpPort" className="block text-xs font-medium mb-1" style={{ color: '#94a3b8' }}>Port</label>
+                                <select
+                                    id="smtpPort"
+                                    value={port}
+                                    onChange={(e) => edit(setPort)(e.target.value)}
+                                >
+                                    <option value="">Default{preset ? ` (${preset.port})` : ''}</option>
+                                    {SMTP_PORTS.map(p => <option key={p} value={String(p)}>{p}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="smtpSecurity" className="block text-xs font-medium mb-1" style={{ color: '#94a3b8' }}>Security</label>
+                                <select
+                                    id="smtpSecurity"
+                                    value={security}
+                                    onChange={(e) => edit(setSecurity)(e.target.value as SmtpSecurity | '')}
+                                >
+                                    <option value="">Default{preset ? ` (${preset.security.toUpperCase()})` : ''}</option>
+                                    <option value="starttls">STARTTLS</option>
+                                    <option value="ssl">SSL/TLS</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="smtpUsername" className="block text-xs font-medium mb-1" style={{ color: '#94a3b8' }}>Username</label>
+                                <input
+                                    id="smtpUsername"
+                                    type="text"
+                                    value={username}
+                                    onChange={(e) => edit(setUsername)(e.target.value)}
+                                    placeholder="Same as email"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="smtpAuthType" className="block text-xs font-medium mb-1" style={{ color: '#94a3b8' }}>Authentication</label>
+                                <select
+                                    id="smtpAuthType"
+                                    value={authType}
+                                    onChange={(e) => edit(setAuthType)(e.target.value as SmtpAuthType | '')}
+                                >
+                                    <option value="">Default (LOGIN)</option>
+                                    <option value="login">LOGIN</option>
+                                    <option value="plain">PLAIN</option>
+                                    <option value="cram-md5">CRAM-MD5</option>
+                                </select>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Connection Test Result */}
+                {testResult && (
+                    <p className="text-sm" style={{ color: testResult.ok ? '#34d399' : '#fb7185' }}>
+                        {testResult.ok ? '✓ ' : ''}{testResult.message}
+                    </p>
+                )}
+
                 {/* Error Message */}
                 {error && (
                     <div className="p-4 rounded-xl" style={{ background: 'rgba(244, 63, 94, 0.1)', border: '1px solid rgba(244, 63, 94, 0.25)' }}>
@@ -143,10 +331,19 @@ const CredentialsForm: React.FC<CredentialsFormProps> = ({ onSave, initialCreden
                 )}
 
                 {/* Submit Button */}
-                <div className="flex justify-end pt-4">
+                <div className="flex justify-end gap-3 pt-4">
+                    <button
+                        type="button"
+                        onClick={handleTest}
+                        disabled={!email || !appPassword || isTesting}
+                        className="px-6 py-3 rounded-xl font-semibold text-sm transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                        style={{ color: '#c7d2fe', border: '1px solid rgba(99, 102, 241, 0.4)', background: 'transparent' }}
+                    >
+                        {isTesting ? 'Testing…' : 'Test Connection'}
+                    </button>
                     <button
                         type="submit"
-                        disabled={!email || !appPassword}
+                        disabled={!email || !appPassword || isTesting}
                         className="px-8 py-3 rounded-xl font-semibold text-white text-sm transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed hover:scale-[1.02] active:scale-[0.98]"
                         style={{
                             background: 'linear-gradient(135deg, #6366f1 0%, #a855f7 100%)',
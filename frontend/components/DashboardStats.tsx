@@ -1,21 +1,131 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { CredentialQuota, CredentialQuotaInput } from '../types';
 
 interface DashboardStatsProps {
     totalSent: number;
     successRate: number;
     todaySent: number;
     pendingCount: number;
+    quotas?: CredentialQuota[];
+    onQuotaChange?: (credentialId: string, input: CredentialQuotaInput) => Promise<void>;
 }
 
+/**
+ * One sender's usage today, with inline editing of its limit and warm-up
+ */
+const QuotaRow: React.FC<{
+    quota: CredentialQuota;
+    onSave?: (input: CredentialQuotaInput) => Promise<void>;
+}> = ({ quota, onSave }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [dailyLimit, setDailyLimit] = useState(quota.dailyLimit?.toString() ?? '');
+    const [warmup, setWarmup] = useState(quota.warmup !== null);
+    const [startLimit, setStartLimit] = useState((quota.warmup?.startLimit ?? 20).toString());
+    const [days, setDays] = useState((quota.warmup?.days ?? 28).toString());
+
+    const limit = parseInt(dailyLimit, 10) || null;
+    const usage = quota.limit ? Math.min(100, Math.round((quota.sentToday / quota.limit) * 100)) : 0;
+    const isFull = quota.limit !== null && quota.sentToday >= quota.limit;
+
+    const handleSave = async () => {
+        if (!onSave) return;
+        setIsSaving(true);
+        try {
+            await onSave({
+                dailyLimit: limit,
+                warmup: warmup && limit !== null,
+                warmupStartLimit: parseInt(startLimit, 10) || undefined,
+                warmupDays: parseInt(days, 10) || undefined,
+            });
+            setIsEditing(false);
+        } catch {
+            // The error was already reported; keep the form open
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="py-2">
+            <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate" style={{ color: '#f1f5f9' }}>{quota.email}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                    <span style={{ color: isFull ? '#fbbf24' : '#94a3b8' }}>
+                        {quota.limit === null ? `${quota.sentToday} today · no limit` : `${quota.sentToday} / ${quota.limit} today`}
+                    </span>
+                    {onSave && !isEditing && (
+                        <button type="button" onClick={() => setIsEditing(true)} className="text-xs" style={{ color: '#818cf8' }}>
+                            Edit
+                        </button>
+                    )}
+                </div>
+            </div>
+            {quota.limit !== null && (
+                <div className="h-1.5 mt-1.5 rounded-full overflow-hidden" style={{ background: 'rgba(148, 163, 184, 0.1)' }}>
+                    <div className="h-full rounded-full" style={{ width: `${usage}%`, background: isFull ? '#f59e0b' : 'linear-gradient(90deg, #6366f1, #a855f7)' }} />
+                </div>
+            )}
+            {quota.warmup && (
+                <p className="text-xs mt-1" style={{ color: '#64748b' }}>
+                    {quota.warmup.complete
+                        ? `Warm-up complete · ${quota.dailyLimit}/day`
+                        : `Warm-up day ${quota.warmup.day} of ${quota.warmup.days} · ramping to ${quota.dailyLimit}/day`}
+                </p>
+            )}
+            {isFull && (
+                <p className="text-xs mt-1" style={{ color: '#64748b' }}>
+                    Further emails wait until {new Date(quota.resetsAt).toLocaleString()}
+                </p>
+            )}
+            {isEditing && (
+                <div className="mt-2 p-3 rounded-lg space-y-2" style={{ background: 'rgba(0, 0, 0, 0.2)' }}>
+                    <label className="block text-xs" style={{ color: '#94a3b8' }}>
+                        Daily limit (empty = no limit)
+                        <input type="number" min="1" max="10000" value={dailyLimit} onChange={(e) => setDailyLimit(e.target.value)} placeholder="e.g. 500" className="mt-1" />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs" style={{ color: '#94a3b8' }}>
+                        <input type="checkbox" checked={warmup} onChange={(e) => setWarmup(e.target.checked)} disabled={limit === null} className="w-4 h-4 rounded" />
+                        Warm up a new account gradually
+                    </label>
+                    {warmup && limit !== null && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="block text-xs" style={{ color: '#94a3b8' }}>
+                                First-day limit
+                                <input type="number" min="1" value={startLimit} onChange={(e) => setStartLimit(e.target.value)} className="mt-1" />
+                            </label>
+                            <label className="block text-xs" style={{ color: '#94a3b8' }}>
+                                Days to full limit
+                                <input type="number" min="1" max="180" value={days} onChange={(e) => setDays(e.target.value)} className="mt-1" />
+                            </label>
+                        </div>
+                    )}
+                    <div className="flex justify-end gap-2 pt-1">
+                        <button type="button" onClick={() => setIsEditing(false)} disabled={isSaving} className="px-3 py-1 rounded-lg text-xs" style={{ color: '#94a3b8' }}>
+                            Cancel
+                        </button>
+                        <button type="button" onClick={handleSave} disabled={isSaving} className="px-3 py-1 rounded-lg text-xs font-medium text-white" style={{ background: 'linear-gradient(135deg, #6366f1, #a855f7)' }}>
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
 /**
  * Dashboard Stats Component
- * Shows email campaign statistics with color-coded cards
+ * Shows email campaign statistics with color-coded cards, and each
+ * sender's daily limit and usage below them
  */
 const DashboardStats: React.FC<DashboardStatsProps> = ({
     totalSent,
     successRate,
     todaySent,
     pendingCount,
+    quotas = [],
+    onQuotaChange,
 }) => {
     const stats = [
         {
@@ -69,31 +179,47 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
     ];
 
     return (
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
-            {stats.map((stat, index) => (
-                <div
-                    key={stat.label}
-                    className="p-4 rounded-xl hover:scale-[1.02] transition-all duration-300"
-                    style={{
-                        background: stat.bgColor,
-                        border: `1px solid ${stat.borderColor}`,
-                        animationDelay: `${index * 100}ms`,
-                    }}
-                >
-                    <div className="flex items-center gap-3">
-                        <div
-                            className="p-2 rounded-lg text-white"
-                            style={{ background: stat.gradient }}
-                        >
-                            {stat.icon}
-                        </div>
-                        <div>
-                            <p className="text-[10px] uppercase tracking-wider font-medium" style={{ color: '#64748b', letterSpacing: '0.08em' }}>{stat.label}</p>
-                            <p className="text-xl font-bold" style={{ color: '#f1f5f9' }}>{stat.value}</p>
+        <div className="mb-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {stats.map((stat, index) => (
+                    <div
+                        key={stat.label}
+                        className="p-4 rounded-xl hover:scale-[1.02] transition-all duration-300"
+                        style={{
+                            background: stat.bgColor,
+                            border: `1px solid ${stat.borderColor}`,
+                            animationDelay: `${index * 100}ms`,
+                        }}
+                    >
+                        <div className="flex items-center gap-3">
+                            <div
+                                className="p-2 rounded-lg text-white"
+                                style={{ background: stat.gradient }}
+                            >
+                                {stat.icon}
+                            </div>
+                            <div>
+                                <p className="text-[10px] uppercase tracking-wider font-medium" style={{ color: '#64748b', letterSpacing: '0.08em' }}>{stat.label}</p>
+                                <p className="text-xl font-bold" style={{ color: '#f1f5f9' }}>{stat.value}</p>
+                            </div>
                         </div>
                     </div>
+                ))}
+            </div>
+            {quotas.length > 0 && (
+                <div className="mt-3 p-4 rounded-xl" style={{ background: 'rgba(99, 102, 241, 0.05)', border: '1px solid rgba(99, 102, 241, 0.12)' }}>
+                    <p className="text-[10px] uppercase tracking-wider font-medium mb-1" style={{ color: '#64748b', letterSpacing: '0.08em' }}>Daily Sending Limits (UTC)</p>
+                    <div className="divide-y divide-white/5">
+                        {quotas.map(quota => (
+                            <QuotaRow
+                                key={quota.credentialId}
+                                quota={quota}
+                                onSave={onQuotaChange && ((input) => onQuotaChange(quota.credentialId, input))}
+                            />
+                        ))}
+                    </div>
                 </div>
-            ))}
+            )}
         </div>
     );
 };
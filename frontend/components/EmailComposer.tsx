@@ -1,10 +1,13 @@
 
 import React, { useState, useRef, useEffect, DragEvent } from 'react';
-import { EmailTemplate } from '../types';
+import { EmailTemplate, FollowUpStep } from '../types';
+import TemplateLibrary from './TemplateLibrary';
+import FollowUpSequenceEditor from './FollowUpSequenceEditor';
 
 interface EmailComposerProps {
     initialTemplate: EmailTemplate;
     onCompose: (template: EmailTemplate) => void;
+    onChange?: (template: EmailTemplate) => void;
     onBack: () => void;
     recipients?: any[];
     availableTags?: string[];
@@ -12,10 +15,11 @@ interface EmailComposerProps {
 const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
 const MAX_SUBJECT_LENGTH = 200;
 
-const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompose, onBack, availableTags = [] }) => {
+const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompose, onChange, onBack, availableTags = [] }) => {
     const [subject, setSubject] = useState(initialTemplate.subject);
     const [body, setBody] = useState(initialTemplate.body);
     const [attachments, setAttachments] = useState<File[]>(initialTemplate.attachments || []);
+    const [followUps, setFollowUps] = useState<FollowUpStep[]>(initialTemplate.followUps || []);
     const editorRef = useRef<HTMLDivElement>(null);
     const [showPlaceholder, setShowPlaceholder] = useState(false);
     const [isDraggingAttachment, setIsDraggingAttachment] = useState(false);
@@ -59,6 +63,11 @@ const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompos
         }
     }, [body]);
 
+    // Report edits as they happen (used for draft autosave)
+    useEffect(() => {
+        onChange?.({ subject, body, attachments, followUps });
+    }, [subject, body, attachments, followUps, onChange]);
+
     const processFiles = (files: FileList) => {
         setAttachmentError(null);
         if (files && files.length > 0) {
@@ -113,9 +122,11 @@ const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompos
         }
     };
 
+    const canContinue = !!subject.trim() && !!body.trim() && followUps.every(step => step.body.trim());
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (subject.trim() && body.trim()) onCompose({ subject, body, attachments });
+        if (canContinue) onCompose({ subject, body, attachments, followUps });
     };
 
     const handleAttachmentDragEnter = (e: DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsDraggingAttachment(true); };
@@ -153,6 +164,17 @@ const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompos
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Main Editor */}
                 <div className="lg:col-span-2 space-y-6">
+                    {/* Saved templates */}
+                    <TemplateLibrary
+                        subject={subject}
+                        body={body}
+                        availableTags={availableTags}
+                        onLoad={(template) => {
+                            setSubject(template.subject);
+                            setBody(template.body);
+                        }}
+                    />
+
                     <form onSubmit={handleSubmit} className="space-y-6">
                         {/* Subject */}
                         <div>
@@ -261,6 +283,9 @@ const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompos
                             </div>
                         )}
                     </div>
+
+                    {/* Follow-ups */}
+                    <FollowUpSequenceEditor steps={followUps} subject={subject} onChange={setFollowUps} />
                 </div>
 
                 {/* Sidebar */}
@@ -307,6 +332,13 @@ const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompos
                                 })}
                             </div>
                         )}
+
+                        <div className="mt-4 pt-4 space-y-1 text-xs" style={{ borderTop: '1px solid rgba(148, 163, 184, 0.1)', color: '#64748b' }}>
+                            <p><code style={{ color: '#fb7185' }}>{'{firstName|there}'}</code> fallback when empty</p>
+                            <p><code style={{ color: '#fb7185' }}>{'{fullName:first:capitalize}'}</code> filters: capitalize, upper, lower, first, last</p>
+                            <p><code style={{ color: '#fb7185' }}>{'{#if jobTitle}…{else}…{/if}'}</code> only when the field is filled</p>
+                            <p><code style={{ color: '#fb7185' }}>{'{Hi|Hello|Hey}'}</code> one option per recipient</p>
+                        </div>
                     </div>
                 </aside>
             </div>
@@ -324,11 +356,11 @@ const EmailComposer: React.FC<EmailComposerProps> = ({ initialTemplate, onCompos
                 <button
                     type="submit"
                     onClick={handleSubmit}
-                    disabled={!subject.trim() || !body.trim()}
+                    disabled={!canContinue}
                     className="px-8 py-3 rounded-xl font-semibold text-white text-sm transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed hover:scale-[1.02] active:scale-[0.98]"
                     style={{
                         background: 'linear-gradient(135deg, #f43f5e 0%, #f97316 100%)',
-                        boxShadow: (!subject.trim() || !body.trim()) ? 'none' : '0 4px 20px rgba(244, 63, 94, 0.35)'
+                        boxShadow: !canContinue ? 'none' : '0 4px 20px rgba(244, 63, 94, 0.35)'
                     }}
                 >
                     Continue →
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import apiClient from '../services/api';
 import { Recipient, EmailTemplate } from '../types';
 
 interface EmailPreviewProps {
@@ -9,6 +10,14 @@ interface EmailPreviewProps {
     senderEmail: string;
 }
 
+// Shown when there are no recipients yet
+const SAMPLE_RECIPIENT: Recipient = {
+    email: 'recipient@example.com',
+    fullName: 'John Doe',
+    companyName: 'Example Corp',
+    jobTitle: 'HR Manager',
+};
+
 /**
  * EmailPreview Component
  * Shows a preview of the email with placeholder values filled in
@@ -21,29 +30,59 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({
     senderEmail,
 }) => {
     const [selectedRecipientIndex, setSelectedRecipientIndex] = useState(0);
+    const [isSendingTest, setIsSendingTest] = useState(false);
+    const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+    const [rendered, setRendered] = useState<{ subject: string; html: string } | null>(null);
+    const [renderError, setRenderError] = useState('');
+
+    const selectedRecipient = recipients[selectedRecipientIndex] || SAMPLE_RECIPIENT;
+
+    // Rendered by the backend's template engine so the preview matches what is sent
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        apiClient.previewEmail({ subject: emailTemplate.subject, body: emailTemplate.body, recipient: selectedRecipient })
+            .then(result => {
+                if (cancelled) return;
+                setRendered(result);
+                setRenderError('');
+            })
+            .catch((err: any) => {
+                if (cancelled) return;
+                setRendered(null);
+                setRenderError(err?.message || 'Could not render the preview');
+            });
+        return () => { cancelled = true; };
+    }, [isOpen, selectedRecipient, emailTemplate.subject, emailTemplate.body]);
 
     if (!isOpen) return null;
 
-    const selectedRecipient = recipients[selectedRecipientIndex] || {
-        email: 'recipient@example.com',
-        fullName: 'John Doe',
-        companyName: 'Example Corp',
-        jobTitle: 'HR Manager',
+    const handleClose = () => {
+        setTestResult(null);
+        onClose();
     };
 
-    // Replace placeholders with actual values dynamically
-    const personalizeContent = (content: string): string => {
-        let personalized = content;
-        Object.entries(selectedRecipient).forEach(([key, value]) => {
-            const regex = new RegExp(`{${key}}`, 'gi');
-            personalized = personalized.replace(regex, String(value || ''));
-        });
-        return personalized;
+    // Sends this recipient's version to the logged-in user's own inbox
+    const handleSendTest = async () => {
+        setIsSendingTest(true);
+        setTestResult(null);
+        try {
+            const result = await apiClient.sendTestEmail({
+                credentialEmail: senderEmail,
+                subject: emailTemplate.subject,
+                body: emailTemplate.body,
+                recipient: selectedRecipient,
+                attachments: emailTemplate.attachments,
+            });
+            setTestResult({ ok: true, message: result.message });
+        } catch (err: any) {
+            setTestResult({ ok: false, message: err?.message || 'Failed to send test email' });
+        } finally {
+            setIsSendingTest(false);
+        }
     };
 
-    const personalizedSubject = personalizeContent(emailTemplate.subject);
-    const personalizedBody = personalizeContent(emailTemplate.body);
-
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ backgroundColor: 'rgba(0,0,0,0.75)' }}>
             <div className="glass-card w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
@@ -51,7 +90,7 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({
                 <div className="flex items-center justify-between p-4 border-b border-white/10">
                     <h2 className="text-xl font-bold text-white">Email Preview</h2>
                     <button
-                        onClick={onClose}
+                        onClick={handleClose}
                         className="p-2 rounded-lg hover:bg-white/10 transition-colors"
                     >
                         <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -68,7 +107,10 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({
                         </label>
                         <select
                             value={selectedRecipientIndex}
-                            onChange={(e) => setSelectedRecipientIndex(Number(e.target.value))}
+                            onChange={(e) => {
+                                setSelectedRecipientIndex(Number(e.target.value));
+                                setTestResult(null);
+                            }}
                             className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white"
                         >
                             {recipients.map((r, i) => {
@@ -97,17 +139,27 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({
                         </div>
                         <div className="flex">
                             <span className="w-20 text-gray-400 text-sm">Subject:</span>
-                            <span className="text-white font-medium">{personalizedSubject}</span>
+                            <span className="text-white font-medium">{rendered?.subject}</span>
                         </div>
                     </div>
 
                     {/* Email Body */}
-                    <div className="p-4 rounded-lg bg-white border border-gray-200">
-                        <div
-                            className="prose prose-sm max-w-none text-gray-800"
-                            dangerouslySetInnerHTML={{ __html: personalizedBody }}
-                        />
-                    </div>
+                    {renderError ? (
+                        <div className="p-4 rounded-lg text-sm" style={{ background: 'rgba(244, 63, 94, 0.1)', border: '1px solid rgba(244, 63, 94, 0.3)', color: '#fda4af' }}>
+                            {renderError}
+                        </div>
+                    ) : (
+                        <div className="p-4 rounded-lg bg-white border border-gray-200">
+                            {rendered ? (
+                                <div
+                                    className="prose prose-sm max-w-none text-gray-800"
+                                    dangerouslySetInnerHTML={{ __html: rendered.html }}
+                                />
+                            ) : (
+                                <p className="text-sm text-gray-500">Rendering preview...</p>
+                            )}
+                        </div>
+                    )}
 
                     {/* Attachments */}
                     {emailTemplate.attachments && emailTemplate.attachments.length > 0 && (
@@ -133,9 +185,22 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({
                 </div>
 
                 {/* Footer */}
-                <div className="p-4 border-t border-white/10 flex justify-end">
+                <div className="p-4 border-t border-white/10 flex items-center justify-end gap-3">
+                    {testResult && (
+                        <p className={`mr-auto text-sm ${testResult.ok ? 'text-green-400' : 'text-red-400'}`}>
+                            {testResult.message}
+                        </p>
+                    )}
+                    <button
+                        onClick={handleSendTest}
+                        disabled={isSendingTest || !emailTemplate.subject || !emailTemplate.body}
+                        className="px-6 py-2 rounded-lg border border-white/20 text-white font-medium hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Send this recipient's version to your own inbox"
+                    >
+                        {isSendingTest ? 'Sending…' : 'Send test'}
+                    </button>
                     <button
-                        onClick={onClose}
+                        onClick={handleClose}
                         className="px-6 py-2 rounded-lg bg-gradient-to-r from-purple-500 to-blue-500 text-white font-medium hover:opacity-90 transition-opacity"
                     >
                         Close Preview
@@ -0,0 +1,103 @@
+import React from 'react';
+import { FollowUpStep } from '../types';
+
+interface FollowUpSequenceEditorProps {
+    steps: FollowUpStep[];
+    subject: string;
+    onChange: (steps: FollowUpStep[]) => void;
+}
+
+const MAX_STEPS = 5;
+
+const CONDITIONS: Array<{ value: FollowUpStep['condition']; label: string }> = [
+    { value: 'not_replied', label: "hasn't replied" },
+    { value: 'not_opened', label: "hasn't opened" },
+    { value: 'not_clicked', label: "hasn't clicked a link" },
+];
+
+/**
+ * FollowUpSequenceEditor Component
+ * Ordered follow-up emails the backend sends after the campaign email
+ */
+const FollowUpSequenceEditor: React.FC<FollowUpSequenceEditorProps> = ({ steps, subject, onChange }) => {
+    const updateStep = (index: number, changes: Partial<FollowUpStep>) => {
+        onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+    };
+
+    const addStep = () => {
+        onChange([...steps, { delayHours: 3 * 24, condition: 'not_replied', subject: '', body: '' }]);
+    };
+
+    const removeStep = (index: number) => {
+        onChange(steps.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-300">Follow-up Sequence</label>
+                <button type="button" onClick={addStep} disabled={steps.length >= MAX_STEPS}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-white/10 disabled:opacity-40"
+                    style={{ border: '1px solid rgba(148, 163, 184, 0.15)', color: '#cbd5e1' }}>
+                    + Add follow-up
+                </button>
+            </div>
+
+            {steps.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                    No follow-ups. Add steps to automatically nudge recipients who don't respond.
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    {steps.map((step, index) => (
+                        <div key={index} className="rounded-xl p-4 space-y-3"
+                            style={{ background: 'rgba(255,255,255,0.02)', border: '1px solid rgba(255,255,255,0.1)' }}>
+                            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+                                <span className="font-medium text-white">Step {index + 1}:</span>
+                                <span>wait</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={90}
+                                    value={Math.max(1, Math.round(step.delayHours / 24))}
+                                    onChange={(e) => updateStep(index, { delayHours: Math.min(90, Math.max(1, Number(e.target.value) || 1)) * 24 })}
+                                    style={{ width: '5rem' }}
+                                />
+                                <span>days, then send if the recipient</span>
+                                <select
+                                    value={step.condition}
+                                    onChange={(e) => updateStep(index, { condition: e.target.value as FollowUpStep['condition'] })}
+                                    style={{ width: 'auto' }}
+                                >
+                                    {CONDITIONS.map(c => (
+                                        <option key={c.value} value={c.value}>{c.label}</option>
+                                    ))}
+                                </select>
+                                <button type="button" onClick={() => removeStep(index)}
+                                    className="ml-auto text-red-400 hover:text-red-300 text-xs">
+                                    Remove
+                                </button>
+                            </div>
+                            <input
+                                type="text"
+                                value={step.subject || ''}
+                                onChange={(e) => updateStep(index, { subject: e.target.value })}
+                                placeholder={`Re: ${subject || 'your subject'}`}
+                                maxLength={200}
+                            />
+                            <textarea
+                                value={step.body}
+                                onChange={(e) => updateStep(index, { body: e.target.value })}
+                                placeholder={'Hi {fullName}, just following up on my last email...'}
+                                rows={4}
+                                required
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FollowUpSequenceEditor;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { PersonalizationReport } from '../types';
+
+interface PersonalizationCheckProps {
+    report: PersonalizationReport | null;
+    error: string;
+    acknowledged: boolean;
+    onAcknowledge: (acknowledged: boolean) => void;
+    disabled?: boolean;
+}
+
+// Longer lists are summarized
+const MAX_LISTED = 5;
+
+/**
+ * Personalization Check Component
+ * Lists merge fields the recipient list can't fill before the campaign goes
+ * out, and asks the user to confirm sending anyway
+ */
+const PersonalizationCheck: React.FC<PersonalizationCheckProps> = ({ report, error, acknowledged, onAcknowledge, disabled }) => {
+    if (error) {
+        return (
+            <div className="p-3 mb-4 rounded-lg text-sm" style={{ background: 'rgba(244, 63, 94, 0.1)', border: '1px solid rgba(244, 63, 94, 0.3)', color: '#fda4af' }}>
+                <p className="font-medium mb-1">Fix the email template before sending</p>
+                <p className="text-xs">{error}</p>
+            </div>
+        );
+    }
+
+    if (!report || (report.unknownPlaceholders.length === 0 && report.blankRecipients.length === 0)) return null;
+
+    const listed = report.blankRecipients.slice(0, MAX_LISTED);
+    const moreCount = report.blankRecipients.length - listed.length;
+
+    return (
+        <div className="p-3 mb-4 rounded-lg text-sm space-y-2" style={{ background: 'rgba(245, 158, 11, 0.08)', border: '1px solid rgba(245, 158, 11, 0.3)' }}>
+            <p className="font-medium" style={{ color: '#fbbf24' }}>Some emails would go out with blank personalization</p>
+            {report.unknownPlaceholders.length > 0 && (
+                <p className="text-xs" style={{ color: '#94a3b8' }}>
+                    No column in your recipient list for{' '}
+                    {report.unknownPlaceholders.map((field, i) => (
+                        <React.Fragment key={field}>
+                            {i > 0 && ', '}
+                            <code style={{ color: '#fbbf24' }}>{`{${field}}`}</code>
+                        </React.Fragment>
+                    ))}
+                </p>
+            )}
+            {listed.length > 0 && (
+                <div className="text-xs" style={{ color: '#94a3b8' }}>
+                    <p className="mb-1">{report.blankRecipients.length} recipient{report.blankRecipients.length === 1 ? ' has' : 's have'} blank values:</p>
+                    <ul className="space-y-0.5">
+                        {listed.map(recipient => (
+                            <li key={recipient.email} className="truncate">
+                                {recipient.email} — {recipient.fields.map(field => `{${field}}`).join(', ')}
+                            </li>
+                        ))}
+                        {moreCount > 0 && <li>and {moreCount} more</li>}
+                    </ul>
+                </div>
+            )}
+            <p className="text-xs" style={{ color: '#64748b' }}>
+                Add the missing values, or give the tag a fallback such as <code>{'{companyName|your team}'}</code>.
+            </p>
+            <label className="flex items-center gap-2 text-xs pt-1" style={{ color: '#f1f5f9' }}>
+                <input type="checkbox" checked={acknowledged} onChange={(e) => onAcknowledge(e.target.checked)} disabled={disabled} className="w-4 h-4 rounded" />
+                I've reviewed these and want to send anyway
+            </label>
+        </div>
+    );
+};
+
+export default PersonalizationCheck;
@@ -1,48 +1,107 @@
 import React, { useState, useCallback, DragEvent } from 'react';
-import { Recipient } from '../types';
+import apiClient from '../services/api';
+import { ColumnMapping, Recipient, RecipientImportResult } from '../types';
+import ColumnMapper from './ColumnMapper';
 
 interface RecipientUploaderProps {
   onUpload: (recipients: Recipient[]) => void;
   onBack: () => void;
 }
 
-declare global {
-  interface Window {
-    XLSX: any;
-  }
-}
+const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv', '.txt', '.vcf'];
 
-const findValue = (row: any, potentialKeys: string[]): string => {
-  const rowKeys = Object.keys(row);
-  for (const pKey of potentialKeys) {
-    const foundKey = rowKeys.find(rKey => rKey.trim().toLowerCase() === pKey.trim().toLowerCase());
-    if (foundKey && row[foundKey] != null) {
-      return String(row[foundKey]).trim();
-    }
+// Skipped rows listed under the upload; the rest are summarised
+const MAX_LISTED_ERRORS = 5;
+
+// Column mappings the user applied, by header signature, so the same export maps itself next time
+const SAVED_MAPPINGS_KEY = 'recipientColumnMappings';
+
+const headerSignature = (headers: string[]) => headers.map(h => h.toLowerCase()).sort().join('\n');
+
+const readSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_MAPPINGS_KEY) || '{}');
+  } catch {
+    return {};
   }
-  return '';
 };
 
-// Helper to sanitize header strings to camelCase (e.g. "First Name" -> "firstName")
-const sanitizeKey = (key: string): string => {
-  const cleaned = key.replace(/[^a-zA-Z0-9]/g, ' ').trim();
-  return cleaned.split(/\s+/).map((word, index) => {
-    if (index === 0) return word.toLowerCase();
-    return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
-  }).join('');
+/**
+ * The mapping last applied to a file with these headers (matched ignoring case), if any
+ */
+const savedMappingFor = (headers: string[]): ColumnMapping | null => {
+  const saved = readSavedMappings()[headerSignature(headers)];
+  if (!saved) return null;
+  return Object.fromEntries(headers
+    .filter(header => header && Object.hasOwn(saved, header.toLowerCase()))
+    .map(header => [header, saved[header.toLowerCase()]]));
 };
 
+const saveMapping = (headers: string[], mapping: ColumnMapping) => {
+  const byLowerCase = Object.fromEntries(Object.entries(mapping).map(([header, field]) => [header.toLowerCase(), field]));
+  localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify({ ...readSavedMappings(), [headerSignature(headers)]: byLowerCase }));
+};
+
+const sameMapping = (a: ColumnMapping, b: ColumnMapping) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([header, field]) => b[header] === field);
+
 const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack }) => {
   const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [skippedRows, setSkippedRows] = useState<RecipientImportResult['errors']>([]);
+  const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  // Spreadsheets and delimited files: their columns and how they were mapped
+  const [table, setTable] = useState<Required<Pick<RecipientImportResult, 'headers' | 'preview' | 'mapping'>> | null>(null);
+  const [draftMapping, setDraftMapping] = useState<ColumnMapping>({});
 
   const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
-  const processFile = useCallback((file: File) => {
+  const mappingDirty = !!table && !sameMapping(draftMapping, table.mapping);
+
+  const showResult = (result: RecipientImportResult) => {
+    setWarning(null);
+    setSkippedRows(result.errors);
+    setRecipients([]);
+
+    if (result.headers && result.preview && result.mapping) {
+      setTable({ headers: result.headers, preview: result.preview, mapping: result.mapping });
+      setDraftMapping(result.mapping);
+    } else {
+      setTable(null);
+    }
+
+    if (result.recipients.length === 0) {
+      setError(result.headers
+        ? 'No valid recipients found. Check the column mapping below.'
+        : 'No valid recipients found. Ensure your file has Name, Email, and Company columns.');
+    } else {
+      setError(null);
+      const emailSet = new Set<string>();
+      const duplicates: string[] = [];
+      result.recipients.forEach(r => {
+        const email = r.email.toLowerCase();
+        if (emailSet.has(email)) {
+          duplicates.push(email);
+        } else {
+          emailSet.add(email);
+        }
+      });
+
+      if (duplicates.length > 0) {
+        setWarning(`Found ${duplicates.length} duplicate email(s). Only the first occurrence will be used.`);
+      }
+
+      const uniqueRecipients = result.recipients.filter((r, index, self) =>
+        index === self.findIndex(t => t.email.toLowerCase() === r.email.toLowerCase())
+      );
+      setRecipients(uniqueRecipients);
+    }
+  };
+
+  const processFile = useCallback(async (file: File) => {
     if (file.size > MAX_FILE_SIZE) {
       setError(`File size exceeds 5MB limit. Please use a smaller file.`);
       setLoading(false);
@@ -50,75 +109,46 @@ const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack
     }
 
     setLoading(true);
-    setFileName(file.name);
+    setFile(file);
     setError(null);
     setWarning(null);
+    setSkippedRows([]);
     setRecipients([]);
+    setTable(null);
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = window.XLSX.read(data, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const json = window.XLSX.utils.sheet_to_json(worksheet);
-
-        const parsedRecipients: Recipient[] = json.map((row: any): Recipient => {
-          // Find the email using common patterns before sanitization
-          const email = findValue(row, ['Email address', 'Email', 'E-mail', 'Contact Email']);
-          
-          const sanitizedRow: Record<string, any> = {};
-          Object.keys(row).forEach(key => {
-            const camelKey = sanitizeKey(key);
-            if (camelKey) {
-              sanitizedRow[camelKey] = String(row[key]).trim();
-            }
-          });
-
-          return {
-            ...sanitizedRow,
-            email: email || sanitizedRow.email || '' // explicitly map the email property
-          };
-        }).filter((r: Recipient) => r.email); // Only require email to be valid
-
-        if (parsedRecipients.length === 0) {
-          setError('No valid recipients found. Ensure your file has Name, Email, and Company columns.');
-        } else {
-          const emailSet = new Set<string>();
-          const duplicates: string[] = [];
-          parsedRecipients.forEach(r => {
-            const email = r.email.toLowerCase();
-            if (emailSet.has(email)) {
-              duplicates.push(email);
-            } else {
-              emailSet.add(email);
-            }
-          });
-
-          if (duplicates.length > 0) {
-            setWarning(`Found ${duplicates.length} duplicate email(s). Only the first occurrence will be used.`);
-          }
-
-          const uniqueRecipients = parsedRecipients.filter((r, index, self) =>
-            index === self.findIndex(t => t.email.toLowerCase() === r.email.toLowerCase())
-          );
-          setRecipients(uniqueRecipients);
-        }
-      } catch (err) {
-        setError('Failed to parse the Excel file. Please ensure it is a valid .xlsx or .xls file.');
-        console.error(err);
-      } finally {
-        setLoading(false);
+    try {
+      // Parsed on the server, which detects the delimiter and encoding of text files
+      let result = await apiClient.uploadRecipients(file);
+
+      // Re-read with the mapping the user chose last time for these headers
+      const saved = result.headers && result.mapping ? savedMappingFor(result.headers) : null;
+      if (saved && !sameMapping({ ...result.mapping, ...saved }, result.mapping!)) {
+        result = await apiClient.uploadRecipients(file, saved);
       }
-    };
-    reader.onerror = () => {
-      setError('Failed to read the file.');
+
+      showResult(result);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to read the file.');
+    } finally {
       setLoading(false);
-    };
-    reader.readAsBinaryString(file);
+    }
   }, [MAX_FILE_SIZE]);
 
+  const applyMapping = async () => {
+    if (!file || !table) return;
+
+    setLoading(true);
+    try {
+      const result = await apiClient.uploadRecipients(file, draftMapping);
+      saveMapping(table.headers, draftMapping);
+      showResult(result);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to read the file.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) processFile(file);
@@ -132,15 +162,15 @@ const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack
     e.stopPropagation();
     setIsDragging(false);
     const file = e.dataTransfer.files?.[0];
-    if (file && (file.name.endsWith('.xlsx') || file.name.endsWith('.xls') || file.name.endsWith('.csv'))) {
+    if (file && ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
       processFile(file);
     } else {
-      setError('Please drop a valid file (.xlsx, .xls, .csv).');
+      setError(`Please drop a valid file (${ACCEPTED_EXTENSIONS.join(', ')}).`);
     }
   };
 
   const handleSubmit = () => {
-    if (recipients.length > 0) onUpload(recipients);
+    if (recipients.length > 0 && !mappingDirty) onUpload(recipients);
   };
 
   return (
@@ -154,7 +184,7 @@ const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack
           </svg>
         </div>
         <h2 className="text-2xl font-bold mb-2" style={{ color: '#f1f5f9' }}>Upload Recipients</h2>
-        <p style={{ color: '#94a3b8', fontSize: '0.9375rem' }}>Drag and drop or select an Excel file with your contacts</p>
+        <p style={{ color: '#94a3b8', fontSize: '0.9375rem' }}>Drag and drop or select a spreadsheet, CSV or vCard file with your contacts</p>
       </div>
 
       {/* Drop Zone */}
@@ -184,12 +214,12 @@ const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack
 
           <div>
             <p className="font-medium mb-1" style={{ color: '#f1f5f9' }}>
-              {fileName ? `📄 ${fileName}` : 'Drop your CSV or Excel file here'}
+              {file ? `📄 ${file.name}` : 'Drop your CSV, Excel or vCard file here'}
             </p>
-            <p className="text-sm" style={{ color: '#64748b' }}>or click to browse • CSV, XLSX, XLS up to 5MB</p>
+            <p className="text-sm" style={{ color: '#64748b' }}>or click to browse • CSV, TSV, XLSX, XLS, VCF up to 5MB</p>
           </div>
 
-          <input id="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept=".xlsx,.xls,.csv" />
+          <input id="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept={ACCEPTED_EXTENSIONS.join(',')} />
         </div>
       </div>
 
@@ -216,6 +246,32 @@ const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack
         </div>
       )}
 
+      {skippedRows.length > 0 && (
+        <div className="mt-4 p-4 rounded-xl" style={{ background: 'rgba(245, 158, 11, 0.1)', border: '1px solid rgba(245, 158, 11, 0.3)' }}>
+          <p className="text-sm font-medium mb-2" style={{ color: '#fbbf24' }}>
+            Skipped {skippedRows.length} row{skippedRows.length === 1 ? '' : 's'}
+          </p>
+          <ul className="text-xs space-y-1" style={{ color: '#fcd34d' }}>
+            {skippedRows.slice(0, MAX_LISTED_ERRORS).map(row => (
+              <li key={row.row}>Row {row.row}{row.value ? ` (${row.value})` : ''}: {row.error}</li>
+            ))}
+            {skippedRows.length > MAX_LISTED_ERRORS && <li>…and {skippedRows.length - MAX_LISTED_ERRORS} more</li>}
+          </ul>
+        </div>
+      )}
+
+      {table && (
+        <ColumnMapper
+          headers={table.headers}
+          preview={table.preview}
+          mapping={draftMapping}
+          onChange={setDraftMapping}
+          onApply={applyMapping}
+          dirty={mappingDirty}
+          loading={loading}
+        />
+      )}
+
       {/* Recipients Table */}
       {recipients.length > 0 && (
         <div className="mt-6">
@@ -271,11 +327,11 @@ const RecipientUploader: React.FC<RecipientUploaderProps> = ({ onUpload, onBack
         <button
           type="button"
           onClick={handleSubmit}
-          disabled={recipients.length === 0}
+          disabled={recipients.length === 0 || mappingDirty}
           className="px-8 py-3 rounded-xl font-semibold text-white text-sm transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed hover:scale-[1.02] active:scale-[0.98]"
           style={{
             background: 'linear-gradient(135deg, #10b981 0%, #14b8a6 100%)',
-            boxShadow: recipients.length === 0 ? 'none' : '0 4px 20px rgba(20, 184, 166, 0.35)'
+            boxShadow: recipients.length === 0 || mappingDirty ? 'none' : '0 4px 20px rgba(20, 184, 166, 0.35)'
           }}
         >
           Continue →
@@ -1,5 +1,36 @@
-import React, { useState, useEffect } from 'react';
-import { Credentials, Recipient, EmailTemplate, EmailStatus, SendProgressState } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import apiClient from '../services/api';
+import PersonalizationCheck from './PersonalizationCheck';
+import { Credentials, Recipient, EmailTemplate, EmailStatus, SendProgressState, ReviewSettings, CampaignSenderSetting, SenderRotation, SendWindowSetting, AbTestSetting, PersonalizationReport } from '../types';
+
+type SendConfig = {
+    time: Date | null;
+    batchSize: number;
+    batchDelay: number;
+    recipientsToSend: Recipient[];
+    senders: CampaignSenderSetting[];
+    rotation: SenderRotation;
+    sendWindow: SendWindowSetting | null;
+    abTest: AbTestSetting | null;
+    personalizationAcknowledged: boolean;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Variant "A" is the composed subject; these label the alternatives
+const VARIANT_LABELS = ['B', 'C', 'D', 'E'];
+
+// Summary text, e.g. "Mon–Fri 09:00–17:00"
+const describeWindow = (window: SendWindowSetting): string => {
+    const days = [...window.days].sort((a, b) => a - b);
+    const isRange = days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+    const dayText = days.length === 7
+        ? 'Every day'
+        : isRange && days.length > 2
+            ? `${WEEKDAYS[days[0]]}–${WEEKDAYS[days[days.length - 1]]}`
+            : days.map(d => WEEKDAYS[d]).join(', ');
+    return `${dayText} ${window.start}–${window.end}`;
+};
 
 interface ReviewAndSendProps {
     credentials: Credentials | null;
@@ -8,11 +39,18 @@ interface ReviewAndSendProps {
     sendProgress: Record<string, SendProgressState>;
     isSending: boolean;
     isCampaignFinished: boolean;
+    isPaused: boolean;
     scheduledTime: Date | null;
-    onScheduleOrSend: (config: { time: Date | null, batchSize: number, batchDelay: number, recipientsToSend: Recipient[] }) => void;
+    onScheduleOrSend: (config: SendConfig) => void;
     onCancelSchedule: () => void;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+    onRetryFailed?: () => void;
     onBack: () => void;
     onReset: () => void;
+    initialSettings?: ReviewSettings | null;
+    onSettingsChange?: (settings: ReviewSettings) => void;
 }
 
 const StatusIndicator: React.FC<{ progress: SendProgressState }> = ({ progress }) => {
@@ -24,40 +62,148 @@ const StatusIndicator: React.FC<{ progress: SendProgressState }> = ({ progress }
             return <span className="flex items-center text-xs font-medium" style={{ color: '#64748b' }}><span className="w-2 h-2 rounded-full mr-2" style={{ background: '#64748b' }} />Queued</span>;
         case EmailStatus.Sending:
             return <span className="flex items-center text-xs font-medium" style={{ color: '#06b6d4' }}><span className="w-2 h-2 rounded-full mr-2 animate-pulse" style={{ background: '#06b6d4' }} />Sending...</span>;
+        case EmailStatus.Retrying:
+            return <span title={error || 'Temporary failure'} className="flex items-center text-xs font-medium cursor-help" style={{ color: '#fbbf24' }}><span className="w-2 h-2 rounded-full mr-2" style={{ background: '#f59e0b' }} />Retrying</span>;
         case EmailStatus.Sent:
             return <span className="flex items-center text-xs font-medium" style={{ color: '#14b8a6' }}><svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>Sent</span>;
         case EmailStatus.Failed:
             return <span title={error || 'Error'} className="flex items-center text-xs font-medium cursor-help" style={{ color: '#fb7185' }}><svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" /></svg>Failed</span>;
+        case EmailStatus.Cancelled:
+            return <span title={error || 'Cancelled'} className="flex items-center text-xs font-medium" style={{ color: '#94a3b8' }}><span className="w-2 h-2 rounded-full mr-2" style={{ background: 'transparent', border: '1px solid #94a3b8' }} />Cancelled</span>;
         default:
             return null;
     }
 };
 
 const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
-    credentials, recipients, emailTemplate, sendProgress, isSending, isCampaignFinished,
-    scheduledTime, onScheduleOrSend, onCancelSchedule, onBack, onReset
+    credentials, recipients, emailTemplate, sendProgress, isSending, isCampaignFinished, isPaused,
+    scheduledTime, onScheduleOrSend, onCancelSchedule, onPause, onResume, onCancel, onRetryFailed, onBack, onReset,
+    initialSettings, onSettingsChange
 }) => {
-    const [selectedEmails, setSelectedEmails] = useState<string[]>(() => recipients.map(r => r.email));
+    const [selectedEmails, setSelectedEmails] = useState<string[]>(() => initialSettings?.selectedEmails ?? recipients.map(r => r.email));
     const [campaignRecipients, setCampaignRecipients] = useState<Recipient[] | null>(null);
-    const [isScheduling, setIsScheduling] = useState(false);
-    const [scheduleDateTime, setScheduleDateTime] = useState('');
+    const [isScheduling, setIsScheduling] = useState(!!initialSettings?.scheduleDateTime);
+    const [scheduleDateTime, setScheduleDateTime] = useState(initialSettings?.scheduleDateTime || '');
     const [scheduleError, setScheduleError] = useState('');
-    const [batchSize, setBatchSize] = useState(10);
-    const [batchDelay, setBatchDelay] = useState(60);
+    const [batchSize, setBatchSize] = useState(initialSettings?.batchSize ?? 10);
+    const [batchDelay, setBatchDelay] = useState(initialSettings?.batchDelay ?? 60);
+    const [connectedSenders, setConnectedSenders] = useState<string[]>([]);
+    const [senders, setSenders] = useState<CampaignSenderSetting[]>(initialSettings?.senders ?? []);
+    const [rotation, setRotation] = useState<SenderRotation>(initialSettings?.rotation ?? 'round_robin');
+    const [sendWindow, setSendWindow] = useState<SendWindowSetting | null>(initialSettings?.sendWindow ?? null);
+    const [abTest, setAbTest] = useState<AbTestSetting | null>(initialSettings?.abTest ?? null);
+    const [lintReport, setLintReport] = useState<PersonalizationReport | null>(null);
+    const [lintError, setLintError] = useState('');
+    const [personalizationAcknowledged, setPersonalizationAcknowledged] = useState(false);
+
+    // A "Timezone" / "Time Zone" column in the sheet becomes one of these tags
+    const hasTimezoneColumn = recipients.some(r => r.timezone || r.timeZone);
 
+    // Other connected accounts can share the campaign
     useEffect(() => {
+        apiClient.getCredentials()
+            .then(({ credentials: saved }) => setConnectedSenders(saved.map(c => c.email)))
+            .catch(() => setConnectedSenders([]));
+    }, []);
+
+    // Reset the selection only when a different recipient list comes in (not on mount)
+    const recipientsRef = useRef(recipients);
+    useEffect(() => {
+        if (recipientsRef.current === recipients) return;
+        recipientsRef.current = recipients;
         setSelectedEmails(recipients.map(r => r.email));
         setCampaignRecipients(null);
     }, [recipients]);
 
+    // Report settings so they are kept in the autosaved draft
+    useEffect(() => {
+        onSettingsChange?.({
+            selectedEmails,
+            batchSize,
+            batchDelay,
+            scheduleDateTime: isScheduling ? scheduleDateTime : undefined,
+            senders,
+            rotation,
+            sendWindow,
+            abTest,
+        });
+    }, [selectedEmails, batchSize, batchDelay, isScheduling, scheduleDateTime, senders, rotation, sendWindow, abTest, onSettingsChange]);
+
+    // No explicit choice = the Step 1 sender alone
+    const activeSenders: CampaignSenderSetting[] = senders.length > 0
+        ? senders
+        : credentials ? [{ email: credentials.email, weight: 1 }] : [];
+    const isRotating = activeSenders.length > 1;
+
+    const toggleSender = (email: string) => {
+        setSenders(activeSenders.some(s => s.email === email)
+            ? activeSenders.filter(s => s.email !== email)
+            : [...activeSenders, { email, weight: 1 }]);
+    };
+    const isWindowValid = !sendWindow || sendWindow.start < sendWindow.end;
+
+    const toggleWindowDay = (day: number) => {
+        if (!sendWindow) return;
+        const days = sendWindow.days.includes(day)
+            ? sendWindow.days.filter(d => d !== day)
+            : [...sendWindow.days, day];
+        if (days.length > 0) setSendWindow({ ...sendWindow, days });
+    };
+
+    const isAbTestValid = !abTest || abTest.variants.every(v => v.subject.trim());
+
+    const updateVariant = (index: number, subject: string) => {
+        if (!abTest) return;
+        setAbTest({ ...abTest, variants: abTest.variants.map((v, i) => i === index ? { subject } : v) });
+    };
+
+    const removeVariant = (index: number) => {
+        if (!abTest) return;
+        const variants = abTest.variants.filter((_, i) => i !== index);
+        setAbTest(variants.length > 0 ? { ...abTest, variants } : null);
+    };
+
+    const updateSender = (email: string, patch: Partial<CampaignSenderSetting>) => {
+        setSenders(activeSenders.map(s => s.email === email ? { ...s, ...patch } : s));
+    };
+
     const recipientsForCampaign = recipients.filter(r => selectedEmails.includes(r.email));
+
+    // Re-check merge fields whenever the selection or the email changes; new findings need a new confirmation
+    useEffect(() => {
+        if (isSending || isCampaignFinished || !emailTemplate.subject || !emailTemplate.body) return;
+        const timer = setTimeout(() => {
+            apiClient.lintPersonalization({
+                subject: emailTemplate.subject,
+                body: emailTemplate.body,
+                sequence: emailTemplate.followUps,
+                variants: abTest?.variants.filter(v => v.subject.trim()),
+                recipients: recipientsForCampaign,
+            })
+                .then(report => {
+                    setLintReport(report);
+                    setLintError('');
+                    setPersonalizationAcknowledged(false);
+                })
+                .catch((err: any) => {
+                    setLintReport(null);
+                    setLintError(err?.message || 'Could not check personalization');
+                });
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [recipients, selectedEmails, emailTemplate.subject, emailTemplate.body, emailTemplate.followUps, abTest, isSending, isCampaignFinished]);
+
+    const hasLintIssues = !!lintReport && (lintReport.unknownPlaceholders.length > 0 || lintReport.blankRecipients.length > 0);
+    const isPersonalizationOk = !lintError && (!hasLintIssues || personalizationAcknowledged);
     const displayList = campaignRecipients || recipients;
     const isReady = credentials && recipients.length > 0 && emailTemplate.subject && emailTemplate.body;
 
     const sentCount = Object.values(sendProgress).filter((s: SendProgressState) => s.status === EmailStatus.Sent).length;
     const failedCount = Object.values(sendProgress).filter((s: SendProgressState) => s.status === EmailStatus.Failed).length;
+    const cancelledCount = Object.values(sendProgress).filter((s: SendProgressState) => s.status === EmailStatus.Cancelled).length;
     const campaignSize = campaignRecipients?.length ?? recipientsForCampaign.length;
-    const progressPercentage = campaignSize > 0 ? ((sentCount + failedCount) / campaignSize) * 100 : 0;
+    const progressPercentage = campaignSize > 0 ? ((sentCount + failedCount + cancelledCount) / campaignSize) * 100 : 0;
+    const [confirmCancel, setConfirmCancel] = useState(false);
 
     const getMinDateTime = () => {
         const now = new Date();
@@ -66,7 +212,7 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
     };
 
     const handleActionClick = () => {
-        const config = { time: null as Date | null, batchSize: Math.max(1, batchSize), batchDelay: Math.max(0, batchDelay), recipientsToSend: recipientsForCampaign };
+        const config: SendConfig = { time: null, batchSize: Math.max(1, batchSize), batchDelay: Math.max(0, batchDelay), recipientsToSend: recipientsForCampaign, senders: activeSenders, rotation, sendWindow, abTest, personalizationAcknowledged };
         if (isScheduling) {
             if (!scheduleDateTime) { setScheduleError('Please select a date and time.'); return; }
             const scheduleDate = new Date(scheduleDateTime);
@@ -84,6 +230,12 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
     const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => setSelectedEmails(e.target.checked ? recipients.map(r => r.email) : []);
     const getButtonText = () => isSending ? 'Sending...' : isScheduling ? 'Schedule Campaign' : `Send ${recipientsForCampaign.length} Emails`;
 
+    const handleCancelClick = () => {
+        if (!confirmCancel) { setConfirmCancel(true); return; }
+        setConfirmCancel(false);
+        onCancel();
+    };
+
     return (
         <div className="max-w-4xl mx-auto fade-in">
             {/* Header */}
@@ -96,7 +248,7 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                 </div>
                 <h2 className="text-2xl font-bold mb-2" style={{ color: '#f1f5f9' }}>Review & Send</h2>
                 <p style={{ color: '#94a3b8', fontSize: '0.9375rem' }}>
-                    {isCampaignFinished ? 'Campaign complete!' : scheduledTime ? 'Campaign scheduled.' : 'Final review before sending'}
+                    {isCampaignFinished ? 'Campaign complete!' : isPaused ? 'Campaign paused.' : scheduledTime ? 'Campaign scheduled.' : 'Final review before sending'}
                 </p>
             </div>
 
@@ -112,12 +264,21 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                                 Campaign Summary
                             </h3>
                             <div className="space-y-3">
-                                <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Sender</span><span style={{ color: '#f1f5f9' }}>{credentials?.email}</span></div>
+                                <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Sender</span><span style={{ color: '#f1f5f9' }}>{isRotating ? `${activeSenders.length} senders (${rotation === 'weighted' ? 'weighted' : 'round-robin'})` : credentials?.email}</span></div>
                                 <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Recipients</span><span style={{ color: '#f1f5f9' }}>{recipientsForCampaign.length} selected</span></div>
                                 <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Subject</span><span className="truncate max-w-[200px]" style={{ color: '#f1f5f9' }}>{emailTemplate.subject}</span></div>
                                 {emailTemplate.attachments && emailTemplate.attachments.length > 0 && (
                                     <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Attachments</span><span style={{ color: '#f1f5f9' }}>{emailTemplate.attachments.length} files</span></div>
                                 )}
+                                {abTest && (
+                                    <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Subject test</span><span style={{ color: '#f1f5f9' }}>{abTest.variants.length + 1} variants, {abTest.sampleSize} sends each</span></div>
+                                )}
+                                {sendWindow && (
+                                    <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Sending window</span><span style={{ color: '#f1f5f9' }}>{describeWindow(sendWindow)}{sendWindow.recipientTimezones ? ' (their time)' : ''}</span></div>
+                                )}
+                                {emailTemplate.followUps && emailTemplate.followUps.length > 0 && (
+                                    <div className="flex justify-between"><span style={{ color: '#94a3b8' }}>Follow-ups</span><span style={{ color: '#f1f5f9' }}>{emailTemplate.followUps.length} steps</span></div>
+                                )}
                             </div>
                             <div className="mt-4 pt-4" style={{ borderTop: '1px solid rgba(148, 163, 184, 0.1)' }}>
                                 <p className="text-sm mb-2" style={{ color: '#64748b' }}>Preview</p>
@@ -128,7 +289,7 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                         {isCampaignFinished ? (
                             <div className="rounded-xl p-5" style={{ background: 'rgba(20, 184, 166, 0.08)', border: '1px solid rgba(20, 184, 166, 0.2)' }}>
                                 <h4 className="font-semibold mb-4" style={{ color: '#f1f5f9' }}>Campaign Results</h4>
-                                <div className="grid grid-cols-2 gap-4">
+                                <div className={`grid ${cancelledCount > 0 ? 'grid-cols-3' : 'grid-cols-2'} gap-4`}>
                                     <div className="text-center p-4 rounded-lg" style={{ background: 'rgba(20, 184, 166, 0.15)' }}>
                                         <p className="text-3xl font-bold" style={{ color: '#14b8a6' }}>{sentCount}</p>
                                         <p className="text-sm" style={{ color: '#5eead4' }}>Sent</p>
@@ -137,7 +298,18 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                                         <p className="text-3xl font-bold" style={{ color: '#fb7185' }}>{failedCount}</p>
                                         <p className="text-sm" style={{ color: '#fda4af' }}>Failed</p>
                                     </div>
+                                    {cancelledCount > 0 && (
+                                        <div className="text-center p-4 rounded-lg" style={{ background: 'rgba(148, 163, 184, 0.1)' }}>
+                                            <p className="text-3xl font-bold" style={{ color: '#94a3b8' }}>{cancelledCount}</p>
+                                            <p className="text-sm" style={{ color: '#cbd5e1' }}>Cancelled</p>
+                                        </div>
+                                    )}
                                 </div>
+                                {onRetryFailed && failedCount > 0 && cancelledCount === 0 && (
+                                    <button onClick={onRetryFailed} className="w-full mt-4 px-6 py-3 rounded-xl font-semibold text-sm transition-all" style={{ background: 'rgba(244, 63, 94, 0.1)', border: '1px solid rgba(244, 63, 94, 0.3)', color: '#fda4af' }}>
+                                        Retry failed ({failedCount})
+                                    </button>
+                                )}
                                 <button onClick={onReset} className="w-full mt-4 px-6 py-3 rounded-xl font-semibold text-white text-sm transition-all hover:scale-[1.02] active:scale-[0.98]" style={{ background: 'linear-gradient(135deg, #06b6d4, #3b82f6)', boxShadow: '0 4px 15px rgba(6, 182, 212, 0.35)' }}>
                                     Start New Campaign
                                 </button>
@@ -145,8 +317,9 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                         ) : scheduledTime && !isSending ? (
                             <div className="rounded-xl p-5" style={{ background: 'rgba(6, 182, 212, 0.08)', border: '1px solid rgba(6, 182, 212, 0.2)' }}>
                                 <p className="text-center mb-4" style={{ color: '#67e8f9' }}>Scheduled for:<br /><strong style={{ color: '#f1f5f9' }}>{scheduledTime.toLocaleString()}</strong></p>
+                                {/* Personalization warnings were confirmed when it was scheduled */}
                                 <div className="flex gap-3">
-                                    <button onClick={() => onScheduleOrSend({ time: null, batchSize, batchDelay, recipientsToSend: recipientsForCampaign })} className="flex-1 py-2 rounded-lg font-medium text-white text-sm" style={{ background: 'linear-gradient(135deg, #06b6d4, #3b82f6)' }}>Send Now</button>
+                                    <button onClick={() => onScheduleOrSend({ time: null, batchSize, batchDelay, recipientsToSend: recipientsForCampaign, senders: activeSenders, rotation, sendWindow, abTest, personalizationAcknowledged: true })} className="flex-1 py-2 rounded-lg font-medium text-white text-sm" style={{ background: 'linear-gradient(135deg, #06b6d4, #3b82f6)' }}>Send Now</button>
                                     <button onClick={onCancelSchedule} className="flex-1 py-2 rounded-lg font-medium text-sm" style={{ background: 'rgba(148, 163, 184, 0.06)', border: '1px solid rgba(148, 163, 184, 0.15)', color: '#94a3b8' }}>Cancel</button>
                                 </div>
                             </div>
@@ -163,6 +336,140 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                                         <input type="number" value={batchDelay} onChange={(e) => setBatchDelay(parseInt(e.target.value, 10) || 0)} min="0" disabled={isSending} />
                                     </div>
                                 </div>
+                                {connectedSenders.length > 1 && (
+                                    <div className="mb-4">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <label className="block text-sm" style={{ color: '#94a3b8', letterSpacing: '0.03em' }}>Senders</label>
+                                            {isRotating && (
+                                                <select value={rotation} onChange={(e) => setRotation(e.target.value as SenderRotation)} disabled={isSending} style={{ width: 'auto' }}>
+                                                    <option value="round_robin">Round-robin</option>
+                                                    <option value="weighted">Weighted</option>
+                                                </select>
+                                            )}
+                                        </div>
+                                        <div className="space-y-2">
+                                            {connectedSenders.map(email => {
+                                                const setting = activeSenders.find(s => s.email === email);
+                                                return (
+                                                    <div key={email} className="flex items-center gap-2">
+                                                        <input type="checkbox" checked={!!setting} onChange={() => toggleSender(email)} disabled={isSending} className="w-4 h-4 rounded" />
+                                                        <span className="flex-1 text-sm truncate" style={{ color: '#f1f5f9' }}>{email}</span>
+                                                        {setting && isRotating && rotation === 'weighted' && (
+                                                            <input type="number" min="1" max="100" value={setting.weight} title="Weight" onChange={(e) => updateSender(email, { weight: Math.max(1, parseInt(e.target.value, 10) || 1) })} disabled={isSending} style={{ width: '4.5rem' }} />
+                                                        )}
+                                                        {setting && isRotating && (
+                                                            <input type="number" min="1" placeholder="No cap" value={setting.dailyCap ?? ''} title="Daily cap" onChange={(e) => updateSender(email, { dailyCap: parseInt(e.target.value, 10) || undefined })} disabled={isSending} style={{ width: '6rem' }} />
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                        {isRotating && (
+                                            <p className="text-xs mt-2" style={{ color: '#64748b' }}>
+                                                Daily caps count every email from the address in the last 24 hours. A sender that fails to log in or is rate-limited is skipped automatically.
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-3 mb-4">
+                                    <input
+                                        id="window-toggle"
+                                        type="checkbox"
+                                        checked={!!sendWindow}
+                                        onChange={(e) => setSendWindow(e.target.checked
+                                            ? { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00', recipientTimezones: hasTimezoneColumn }
+                                            : null)}
+                                        disabled={isSending}
+                                        className="w-4 h-4 rounded"
+                                    />
+                                    <label htmlFor="window-toggle" className="text-sm" style={{ color: '#94a3b8' }}>Only send during business hours</label>
+                                </div>
+                                {sendWindow && (
+                                    <div className="mb-4 space-y-3">
+                                        <div className="flex gap-1">
+                                            {WEEKDAYS.map((label, day) => {
+                                                const isOn = sendWindow.days.includes(day);
+                                                return (
+                                                    <button
+                                                        key={label}
+                                                        type="button"
+                                                        onClick={() => toggleWindowDay(day)}
+                                                        disabled={isSending}
+                                                        className="flex-1 py-1.5 rounded-lg text-xs font-medium transition-all"
+                                                        style={isOn
+                                                            ? { background: 'rgba(6, 182, 212, 0.15)', border: '1px solid rgba(6, 182, 212, 0.4)', color: '#67e8f9' }
+                                                            : { border: '1px solid rgba(148, 163, 184, 0.15)', color: '#64748b' }}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <input type="time" value={sendWindow.start} onChange={(e) => e.target.value && setSendWindow({ ...sendWindow, start: e.target.value })} disabled={isSending} />
+                                            <span className="text-sm" style={{ color: '#64748b' }}>to</span>
+                                            <input type="time" value={sendWindow.end} onChange={(e) => e.target.value && setSendWindow({ ...sendWindow, end: e.target.value })} disabled={isSending} />
+                                        </div>
+                                        {!isWindowValid && (
+                                            <p className="text-xs" style={{ color: '#fb7185' }}>The window must end after it starts.</p>
+                                        )}
+                                        <label className="flex items-center gap-2 text-sm" style={{ color: hasTimezoneColumn ? '#94a3b8' : '#64748b' }}>
+                                            <input
+                                                type="checkbox"
+                                                checked={sendWindow.recipientTimezones}
+                                                onChange={(e) => setSendWindow({ ...sendWindow, recipientTimezones: e.target.checked })}
+                                                disabled={isSending || !hasTimezoneColumn}
+                                                className="w-4 h-4 rounded"
+                                            />
+                                            In each recipient's time zone
+                                        </label>
+                                        <p className="text-xs" style={{ color: '#64748b' }}>
+                                            {hasTimezoneColumn
+                                                ? 'Uses the Timezone column (e.g. Europe/Berlin); recipients without a valid one follow your time zone.'
+                                                : `Hours are in your time zone (${Intl.DateTimeFormat().resolvedOptions().timeZone}). Add a Timezone column to your sheet to use each recipient's.`}
+                                            {' '}Emails outside the window wait until it opens.
+                                        </p>
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-3 mb-4">
+                                    <input
+                                        id="ab-toggle"
+                                        type="checkbox"
+                                        checked={!!abTest}
+                                        onChange={(e) => setAbTest(e.target.checked ? { variants: [{ subject: '' }], sampleSize: 50 } : null)}
+                                        disabled={isSending}
+                                        className="w-4 h-4 rounded"
+                                    />
+                                    <label htmlFor="ab-toggle" className="text-sm" style={{ color: '#94a3b8' }}>A/B test subject lines</label>
+                                </div>
+                                {abTest && (
+                                    <div className="mb-4 space-y-2">
+                                        <div className="flex items-center gap-2">
+                                            <span className="w-5 text-xs font-semibold" style={{ color: '#67e8f9' }}>A</span>
+                                            <span className="flex-1 text-sm truncate" style={{ color: '#f1f5f9' }}>{emailTemplate.subject}</span>
+                                        </div>
+                                        {abTest.variants.map((variant, index) => (
+                                            <div key={VARIANT_LABELS[index]} className="flex items-center gap-2">
+                                                <span className="w-5 text-xs font-semibold" style={{ color: '#67e8f9' }}>{VARIANT_LABELS[index]}</span>
+                                                <input type="text" value={variant.subject} placeholder="Alternative subject line" onChange={(e) => updateVariant(index, e.target.value)} disabled={isSending} className="flex-1" />
+                                                <button type="button" onClick={() => removeVariant(index)} disabled={isSending} className="text-xs px-2" style={{ color: '#64748b' }} title="Remove">✕</button>
+                                            </div>
+                                        ))}
+                                        {abTest.variants.length < VARIANT_LABELS.length && (
+                                            <button type="button" onClick={() => setAbTest({ ...abTest, variants: [...abTest.variants, { subject: '' }] })} disabled={isSending} className="text-xs" style={{ color: '#22d3ee' }}>
+                                                + Add subject line
+                                            </button>
+                                        )}
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm" style={{ color: '#94a3b8' }}>Pick a winner after</span>
+                                            <input type="number" min="1" value={abTest.sampleSize} onChange={(e) => setAbTest({ ...abTest, sampleSize: Math.max(1, parseInt(e.target.value, 10) || 1) })} disabled={isSending} style={{ width: '5.5rem' }} />
+                                            <span className="text-sm" style={{ color: '#94a3b8' }}>sends each</span>
+                                        </div>
+                                        <p className="text-xs" style={{ color: '#64748b' }}>
+                                            Recipients are split evenly between the subject lines. Once each has reached the sample and its opens have had a few hours to come in, the one with the best open rate goes to everyone else.
+                                        </p>
+                                    </div>
+                                )}
                                 <div className="flex items-center gap-3 mb-4">
                                     <input id="schedule-toggle" type="checkbox" checked={isScheduling} onChange={(e) => setIsScheduling(e.target.checked)} disabled={isSending} className="w-4 h-4 rounded" />
                                     <label htmlFor="schedule-toggle" className="text-sm" style={{ color: '#94a3b8' }}>Schedule for later</label>
@@ -171,12 +478,37 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                                     <input type="datetime-local" value={scheduleDateTime} onChange={(e) => setScheduleDateTime(e.target.value)} min={getMinDateTime()} disabled={isSending} className="w-full mb-4" />
                                 )}
                                 {scheduleError && <p className="text-sm mb-4" style={{ color: '#fb7185' }}>{scheduleError}</p>}
+                                {!isSending && (
+                                    <PersonalizationCheck
+                                        report={lintReport}
+                                        error={lintError}
+                                        acknowledged={personalizationAcknowledged}
+                                        onAcknowledge={setPersonalizationAcknowledged}
+                                    />
+                                )}
+                                {isSending ? (
+                                    <div className="flex gap-3">
+                                        {isPaused ? (
+                                            <button onClick={onResume} className="flex-1 py-3 rounded-xl font-semibold text-white text-sm transition-all hover:scale-[1.02] active:scale-[0.98]" style={{ background: 'linear-gradient(135deg, #06b6d4, #3b82f6)', boxShadow: '0 4px 20px rgba(6, 182, 212, 0.35)' }}>
+                                                Resume
+                                            </button>
+                                        ) : (
+                                            <button onClick={onPause} className="flex-1 py-3 rounded-xl font-semibold text-sm transition-all" style={{ background: 'rgba(148, 163, 184, 0.06)', border: '1px solid rgba(148, 163, 184, 0.15)', color: '#f1f5f9' }}>
+                                                Pause
+                                            </button>
+                                        )}
+                                        <button onClick={handleCancelClick} onBlur={() => setConfirmCancel(false)} className="flex-1 py-3 rounded-xl font-semibold text-sm transition-all" style={{ background: 'rgba(244, 63, 94, 0.1)', border: '1px solid rgba(244, 63, 94, 0.3)', color: '#fb7185' }}>
+                                            {confirmCancel ? 'Confirm Cancel' : 'Cancel Campaign'}
+                                        </button>
+                                    </div>
+                                ) : (
                                 <div className="flex gap-3">
                                     <button onClick={onBack} disabled={isSending} className="px-6 py-3 rounded-xl font-medium text-sm transition-all" style={{ border: '1px solid rgba(148, 163, 184, 0.15)', color: '#94a3b8' }}>← Back</button>
-                                    <button onClick={handleActionClick} disabled={isSending || (isScheduling && !scheduleDateTime) || recipientsForCampaign.length === 0} className="flex-1 py-3 rounded-xl font-semibold text-white text-sm transition-all disabled:opacity-40 hover:scale-[1.02] active:scale-[0.98]" style={{ background: 'linear-gradient(135deg, #06b6d4, #3b82f6)', boxShadow: '0 4px 20px rgba(6, 182, 212, 0.35)' }}>
+                                    <button onClick={handleActionClick} disabled={isSending || (isScheduling && !scheduleDateTime) || !isWindowValid || !isAbTestValid || !isPersonalizationOk || recipientsForCampaign.length === 0} className="flex-1 py-3 rounded-xl font-semibold text-white text-sm transition-all disabled:opacity-40 hover:scale-[1.02] active:scale-[0.98]" style={{ background: 'linear-gradient(135deg, #06b6d4, #3b82f6)', boxShadow: '0 4px 20px rgba(6, 182, 212, 0.35)' }}>
                                         {getButtonText()}
                                     </button>
                                 </div>
+                                )}
                             </div>
                         )}
                     </div>
@@ -186,7 +518,7 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                         <div className="flex items-center justify-between">
                             <h3 className="text-lg font-semibold" style={{ color: '#f1f5f9' }}>Recipients</h3>
                             {(isSending || isCampaignFinished) && (
-                                <span className="text-sm" style={{ color: '#94a3b8' }}>{sentCount + failedCount} / {campaignSize}</span>
+                                <span className="text-sm" style={{ color: '#94a3b8' }}>{sentCount + failedCount + cancelledCount} / {campaignSize}</span>
                             )}
                         </div>
 
@@ -216,6 +548,9 @@ const ReviewAndSend: React.FC<ReviewAndSendProps> = ({
                                             <div>
                                                 <p className="text-sm font-medium" style={{ color: '#f1f5f9' }}>{recipient.fullName}</p>
                                                 <p className="text-xs" style={{ color: '#64748b' }}>{recipient.email}</p>
+                                                {isRotating && sendProgress[recipient.email]?.sender && (
+                                                    <p className="text-xs" style={{ color: '#475569' }}>via {sendProgress[recipient.email].sender}</p>
+                                                )}
                                             </div>
                                         </div>
                                         {(isSending || isCampaignFinished) && <StatusIndicator progress={sendProgress[recipient.email] || { status: EmailStatus.Queued }} />}
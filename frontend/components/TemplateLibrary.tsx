@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import apiClient from '../services/api';
+import { SavedTemplate, TemplateVersionSummary } from '../types';
+import { useToast } from './Toast';
+
+interface TemplateLibraryProps {
+    subject: string;
+    body: string;
+    availableTags?: string[];
+    onLoad: (template: { subject: string; body: string }) => void;
+}
+
+/**
+ * TemplateLibrary Component
+ * Load, save and version reusable subject/body templates from the composer
+ */
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ subject, body, availableTags = [], onLoad }) => {
+    const toast = useToast();
+    const [templates, setTemplates] = useState<SavedTemplate[]>([]);
+    const [selectedId, setSelectedId] = useState<string>('');
+    const [versions, setVersions] = useState<TemplateVersionSummary[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const selected = templates.find(t => t.id === selectedId);
+    const hasChanges = !!selected && (selected.subject !== subject || selected.body !== body);
+    const missingTags = selected && availableTags.length > 0
+        ? selected.tags.filter(tag => !availableTags.includes(tag))
+        : [];
+
+    useEffect(() => {
+        apiClient.getTemplates()
+            .then(({ templates }) => setTemplates(templates))
+            .catch((error) => console.error('Could not load templates:', error));
+    }, []);
+
+    const loadVersions = async (id: string) => {
+        const { template } = await apiClient.getTemplate(id);
+        setVersions(template.versions);
+    };
+
+    const replaceTemplate = (template: SavedTemplate) => {
+        setTemplates(prev => [template, ...prev.filter(t => t.id !== template.id)]);
+        setSelectedId(template.id);
+    };
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (error: any) {
+            toast.error('Template action failed', error.message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        setShowHistory(false);
+        const template = templates.find(t => t.id === id);
+        if (template) {
+            onLoad({ subject: template.subject, body: template.body });
+            toast.info('Template loaded', template.name);
+        }
+    };
+
+    const handleSaveNew = () => run(async () => {
+        const name = prompt('Template name:', selected ? `${selected.name} (new)` : subject.slice(0, 60));
+        if (!name?.trim()) return;
+        const { template } = await apiClient.createTemplate({ name: name.trim(), subject, body });
+        replaceTemplate(template);
+        toast.success('Template saved', template.name);
+    });
+
+    const handleSaveChanges = () => run(async () => {
+        if (!selected) return;
+        const { template } = await apiClient.updateTemplate(selected.id, { subject, body });
+        replaceTemplate(template);
+        if (showHistory) await loadVersions(template.id);
+        toast.success('Template updated', `${template.name} · version ${template.currentVersion}`);
+    });
+
+    const handleDuplicate = () => run(async () => {
+        if (!selected) return;
+        const { template } = await apiClient.duplicateTemplate(selected.id);
+        replaceTemplate(template);
+        toast.success('Template duplicated', template.name);
+    });
+
+    const handleDelete = () => run(async () => {
+        if (!selected || !confirm(`Delete template "${selected.name}" and its history?`)) return;
+        await apiClient.deleteTemplate(selected.id);
+        setTemplates(prev => prev.filter(t => t.id !== selected.id));
+        setSelectedId('');
+        setShowHistory(false);
+        toast.success('Template deleted', selected.name);
+    });
+
+    const handleToggleHistory = () => run(async () => {
+        if (!selected) return;
+        if (!showHistory) await loadVersions(selected.id);
+        setShowHistory(!showHistory);
+    });
+
+    const handleRestore = (version: number) => run(async () => {
+        if (!selected) return;
+        const { template } = await apiClient.restoreTemplateVersion(selected.id, version);
+        replaceTemplate(template);
+        onLoad({ subject: template.subject, body: template.body });
+        await loadVersions(template.id);
+        toast.success('Version restored', `Version ${version} saved as version ${template.currentVersion}`);
+    });
+
+    const buttonStyle = { border: '1px solid rgba(148, 163, 184, 0.15)', color: '#cbd5e1' };
+
+    return (
+        <div className="rounded-xl p-4" style={{ background: 'rgba(255,255,255,0.02)', border: '1px solid rgba(255,255,255,0.1)' }}>
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-sm font-medium text-gray-300 mr-1">Template</label>
+                <select
+                    value={selectedId}
+                    onChange={(e) => handleSelect(e.target.value)}
+                    disabled={isBusy}
+                    className="flex-1 min-w-[180px]"
+                >
+                    <option value="">{templates.length ? 'Choose a saved template…' : 'No saved templates yet'}</option>
+                    {templates.map(t => (
+                        <option key={t.id} value={t.id}>{t.name} (v{t.currentVersion})</option>
+                    ))}
+                </select>
+
+                <button type="button" onClick={handleSaveNew} disabled={isBusy || !subject.trim() || !body.trim()}
+                    className="px-3 py-2 rounded-lg text-xs font-medium transition-colors hover:bg-white/10 disabled:opacity-40" style={buttonStyle}>
+                    Save as new
+                </button>
+                {selected && (
+                    <>
+                        <button type="button" onClick={handleSaveChanges} disabled={isBusy || !hasChanges}
+                            className="px-3 py-2 rounded-lg text-xs font-medium transition-colors hover:bg-white/10 disabled:opacity-40" style={buttonStyle}>
+                            Save changes
+                        </button>
+                        <button type="button" onClick={handleDuplicate} disabled={isBusy}
+                            className="px-3 py-2 rounded-lg text-xs font-medium transition-colors hover:bg-white/10 disabled:opacity-40" style={buttonStyle}>
+                            Duplicate
+                        </button>
+                        <button type="button" onClick={handleToggleHistory} disabled={isBusy}
+                            className="px-3 py-2 rounded-lg text-xs font-medium transition-colors hover:bg-white/10 disabled:opacity-40" style={buttonStyle}>
+                            {showHistory ? 'Hide history' : 'History'}
+                        </button>
+                        <button type="button" onClick={handleDelete} disabled={isBusy}
+                            className="px-3 py-2 rounded-lg text-xs font-medium text-red-400 hover:text-red-300 disabled:opacity-40">
+                            Delete
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {selected && selected.tags.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-1.5">
+                    {selected.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 rounded text-xs"
+                            style={{
+                                background: missingTags.includes(tag) ? 'rgba(245, 158, 11, 0.1)' : 'rgba(148, 163, 184, 0.06)',
+                                color: missingTags.includes(tag) ? '#fbbf24' : '#fb7185',
+                            }}>
+                            {`{${tag}}`}
+                        </span>
+                    ))}
+                </div>
+            )}
+            {missingTags.length > 0 && (
+                <p className="mt-2 text-xs" style={{ color: '#fbbf24' }}>
+                    Not in your recipient columns: {missingTags.map(t => `{${t}}`).join(', ')}
+                </p>
+            )}
+
+            {showHistory && (
+                <div className="mt-3 space-y-1.5 max-h-[200px] overflow-y-auto pr-2 custom-scrollbar">
+                    {versions.map(v => (
+                        <div key={v.version} className="flex items-center justify-between px-3 py-2 rounded-lg text-sm"
+                            style={{ background: 'rgba(148, 163, 184, 0.06)' }}>
+                            <div className="truncate">
+                                <span className="text-white font-medium">v{v.version}</span>
+                                <span className="text-gray-400 ml-2">{v.subject}</span>
+                                <span className="text-gray-500 ml-2 text-xs">{new Date(v.createdAt).toLocaleString()}</span>
+                            </div>
+                            {v.version === selected?.currentVersion ? (
+                                <span className="text-xs text-gray-500 ml-3">current</span>
+                            ) : (
+                                <button type="button" onClick={() => handleRestore(v.version)} disabled={isBusy}
+                                    className="text-xs ml-3 text-purple-400 hover:text-purple-300 disabled:opacity-40">
+                                    Restore
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TemplateLibrary;
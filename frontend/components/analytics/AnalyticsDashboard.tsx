@@ -2,6 +2,7 @@ import React from 'react';
 import useAnalytics from '../../hooks/useAnalytics';
 import StatCard from './StatCard';
 import TrackingTable from './TrackingTable';
+import VariantResults from './VariantResults';
 import EmptyState from '../EmptyState';
 
 const AnalyticsDashboard: React.FC = () => {
@@ -36,7 +37,7 @@ const AnalyticsDashboard: React.FC = () => {
                     </div>
                     <div>
                         <h2 className="text-lg font-semibold text-white">Campaign Analytics</h2>
-                        <p className="text-xs text-gray-400">Live tracking for opens and clicks</p>
+                        <p className="text-xs text-gray-400">Live tracking for opens, clicks and replies</p>
                     </div>
                 </div>
 
@@ -83,7 +84,7 @@ const AnalyticsDashboard: React.FC = () => {
 
             {/* Stats Overview */}
             {stats && (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                     <StatCard 
                         title="Total Sent"
                         value={stats.totalSent}
@@ -110,9 +111,19 @@ const AnalyticsDashboard: React.FC = () => {
                         icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122"></path></svg>}
                         gradient="linear-gradient(135deg, #06b6d4 0%, #3b82f6 100%)"
                     />
+                    <StatCard 
+                        title="Reply Rate"
+                        value={`${stats.replyRate}%`}
+                        subtitle={`${stats.totalReplied} replied`}
+                        icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"></path></svg>}
+                        gradient="linear-gradient(135deg, #f59e0b 0%, #f97316 100%)"
+                    />
                 </div>
             )}
 
+            {/* A/B subject results for the selected campaign */}
+            {selectedCampaign && <VariantResults campaignId={selectedCampaign} refreshKey={stats} />}
+
             {/* Tracking Details Table */}
             <TrackingTable 
                 details={details} 
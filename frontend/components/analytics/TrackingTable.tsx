@@ -54,7 +54,11 @@ const TrackingTable: React.FC<TrackingTableProps> = ({ details, pagination, isLo
                                     </div>
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap">
-                                    {row.opened ? (
+                                    {row.replied ? (
+                                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium" style={{ background: 'rgba(245, 158, 11, 0.1)', color: '#fbbf24' }} title={row.repliedAt ? `Replied ${formatDate(row.repliedAt)}` : undefined}>
+                                            Replied
+                                        </span>
+                                    ) : row.opened ? (
                                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium" style={{ background: 'rgba(16, 185, 129, 0.1)', color: '#34d399' }}>
                                             Opened
                                         </span>
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import apiClient from '../../services/api';
+import { VariantResults as VariantResultsData } from '../../types';
+
+interface VariantResultsProps {
+    campaignId: string;
+    refreshKey?: unknown; // Refetch whenever this changes (e.g. the dashboard's stats)
+}
+
+/**
+ * Open rates of a campaign's A/B subject variants; renders nothing for
+ * campaigns that aren't testing subject lines
+ */
+const VariantResults: React.FC<VariantResultsProps> = ({ campaignId, refreshKey }) => {
+    const [results, setResults] = useState<VariantResultsData | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        apiClient.getCampaignVariants(campaignId)
+            .then(data => { if (!cancelled) setResults(data); })
+            .catch(() => { if (!cancelled) setResults(null); });
+        return () => { cancelled = true; };
+    }, [campaignId, refreshKey]);
+
+    if (!results || results.variants.length < 2) return null;
+
+    const bestRate = Math.max(...results.variants.map(v => v.openRate));
+
+    return (
+        <div className="glass-card p-5">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold text-white">Subject line test</h3>
+                <span className="text-xs" style={{ color: results.winner ? '#5eead4' : '#94a3b8' }}>
+                    {results.winner
+                        ? `Variant ${results.winner} won; everyone else gets it`
+                        : `Winner picked once ${results.sampleSize ?? '–'} sends each have had time to be opened`}
+                </span>
+            </div>
+            <div className="space-y-3">
+                {results.variants.map(variant => (
+                    <div key={variant.label}>
+                        <div className="flex items-center justify-between gap-3 text-sm mb-1">
+                            <span className="truncate" style={{ color: '#f1f5f9' }}>
+                                <span className="font-semibold mr-2" style={{ color: '#67e8f9' }}>{variant.label}</span>
+                                {variant.subject}
+                                {variant.isWinner && <span className="ml-2 text-xs" style={{ color: '#5eead4' }}>Winner</span>}
+                            </span>
+                            <span className="shrink-0 text-xs" style={{ color: '#94a3b8' }}>
+                                {variant.openRate}% · {variant.opened}/{variant.sent} opened
+                            </span>
+                        </div>
+                        <div className="h-1.5 rounded-full overflow-hidden" style={{ background: 'rgba(148, 163, 184, 0.1)' }}>
+                            <div
+                                className="h-full rounded-full transition-all duration-500"
+                                style={{
+                                    width: `${variant.openRate}%`,
+                                    background: variant.isWinner || (!results.winner && variant.openRate === bestRate && bestRate > 0)
+                                        ? 'linear-gradient(90deg, #14b8a6, #2dd4bf)'
+                                        : 'linear-gradient(90deg, #06b6d4, #3b82f6)',
+                                }}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default VariantResults;
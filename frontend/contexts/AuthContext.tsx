@@ -34,6 +34,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     const [user, setUser] = useState<User | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
+    useEffect(() => {
+        // Refresh failed (expired or revoked session) - back to the login screen
+        apiClient.onSessionExpired(() => setUser(null));
+        return () => apiClient.onSessionExpired(null);
+    }, []);
+
     useEffect(() => {
         // Check if user is logged in on mount
         const checkAuth = async () => {
@@ -1,9 +1,10 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { Credentials, Recipient, EmailTemplate, EmailStatus, SendProgressState } from '../types';
+import { Credentials, Recipient, EmailTemplate, EmailStatus, SendProgressState, ReviewSettings, CampaignSenderSetting, SenderRotation, SendWindowSetting, AbTestSetting } from '../types';
 import apiClient from '../services/api';
 import { io, Socket } from 'socket.io-client';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+const AUTOSAVE_DELAY_MS = 1500;
 /**
  * Hook for managing campaign workflow state
  * Extracts complex state logic from App component
@@ -13,8 +14,13 @@ const mapStatusToEnum = (status: string): EmailStatus => {
     switch (status.toLowerCase()) {
         case 'queued': return EmailStatus.Queued;
         case 'sending': return EmailStatus.Sending;
+        case 'retrying': return EmailStatus.Retrying;
         case 'sent': return EmailStatus.Sent;
+        case 'replied': return EmailStatus.Sent; // Reply detected after the email was sent
+        case 'soft_bounced': return EmailStatus.Sent; // Delivery delayed, may still arrive
         case 'failed': return EmailStatus.Failed;
+        case 'bounced': return EmailStatus.Failed;
+        case 'cancelled': return EmailStatus.Cancelled;
         default: return EmailStatus.Queued;
     }
 };
@@ -24,9 +30,10 @@ export function useCampaign() {
     const [credentials, setCredentials] = useState<Credentials | null>(null);
     const [recipients, setRecipients] = useState<Recipient[]>([]);
     
-    // Compute available tags from the first recipient, excluding 'email'
+    // Compute available tags from the first recipient, excluding 'email';
+    // unsubscribe_link is filled in per recipient by the backend
     const availableTags = recipients.length > 0 
-        ? Object.keys(recipients[0]).filter(key => key !== 'email')
+        ? [...Object.keys(recipients[0]).filter(key => key !== 'email'), 'unsubscribe_link']
         : [];
     const [emailTemplate, setEmailTemplate] = useState<EmailTemplate>({
         subject: '',
@@ -39,11 +46,24 @@ export function useCampaign() {
     const [isSending, setIsSending] = useState(false);
     const [isCampaignFinished, setIsCampaignFinished] = useState(false);
     const [scheduledTime, setScheduledTime] = useState<Date | null>(null);
+    const [scheduledCampaignId, setScheduledCampaignId] = useState<string | null>(null);
+    const [activeRunId, setActiveRunId] = useState<string | null>(null);
+    const [isPaused, setIsPaused] = useState(false);
+
+    // Draft autosave state
+    const [reviewSettings, setReviewSettings] = useState<ReviewSettings | null>(null);
+    const [draftId, setDraftId] = useState<string | null>(null);
+    const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
     // WebSocket & Polling refs
     const socketRef = useRef<Socket | null>(null);
     const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+    // Autosave refs: saves run one at a time so the first save's draft ID is reused
+    const draftIdRef = useRef<string | null>(null);
+    const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+    const autosaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+
     const totalSteps = 4;
 
     // Cleanup on unmount
@@ -55,13 +75,160 @@ export function useCampaign() {
             if (pollIntervalRef.current) {
                 clearInterval(pollIntervalRef.current);
             }
+            if (autosaveTimerRef.current) {
+                clearTimeout(autosaveTimerRef.current);
+            }
         };
     }, []);
 
+    // Debounced autosave of the whole wizard (all four steps) to /api/drafts
+    useEffect(() => {
+        const hasContent = !!credentials || recipients.length > 0 || !!emailTemplate.subject || !!emailTemplate.body;
+        // Nothing worth saving yet, or the campaign has already been handed to the server
+        if (!hasContent || isSending || isCampaignFinished || scheduledTime) return;
+
+        if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+        autosaveTimerRef.current = setTimeout(() => {
+            const data = {
+                name: emailTemplate.subject || undefined,
+                step,
+                credentialEmail: credentials?.email ?? null,
+                subject: emailTemplate.subject,
+                body: emailTemplate.body,
+                recipients,
+                // Files can't be stored in a draft; keep their names so they can be re-added
+                attachments: (emailTemplate.attachments || []).map(f => ({ name: f.name, size: f.size, type: f.type })),
+                settings: reviewSettings,
+                sequence: emailTemplate.followUps || [],
+            };
+
+            saveChainRef.current = saveChainRef.current.then(async () => {
+                setDraftStatus('saving');
+                try {
+                    if (draftIdRef.current) {
+                        await apiClient.updateDraft(draftIdRef.current, data);
+                    } else {
+                        const { draft } = await apiClient.createDraft(data);
+                        draftIdRef.current = draft.id;
+                        setDraftId(draft.id);
+                    }
+                    setDraftStatus('saved');
+                } catch (error) {
+                    console.error('Draft autosave failed:', error);
+                    setDraftStatus('error');
+                }
+            });
+        }, AUTOSAVE_DELAY_MS);
+    }, [step, credentials, recipients, emailTemplate, reviewSettings, isSending, isCampaignFinished, scheduledTime]);
+
+    // The campaign now lives on the server - the draft is no longer needed
+    const discardCurrentDraft = useCallback(() => {
+        if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+        saveChainRef.current = saveChainRef.current.then(async () => {
+            const id = draftIdRef.current;
+            draftIdRef.current = null;
+            setDraftId(null);
+            setDraftStatus('idle');
+            if (id) await apiClient.deleteDraft(id).catch(() => undefined);
+        });
+    }, []);
+
+    // Stop live updates once a run has finished or been cancelled
+    const finishCampaign = useCallback(() => {
+        if (socketRef.current) socketRef.current.disconnect();
+        if (pollIntervalRef.current) {
+            clearInterval(pollIntervalRef.current);
+            pollIntervalRef.current = null;
+        }
+        setIsSending(false);
+        setIsPaused(false);
+        setIsCampaignFinished(true);
+    }, []);
+
+    // Follow a run's progress over WebSocket, falling back to polling
+    const watchRun = useCallback((runId: string) => {
+        socketRef.current = io(API_BASE_URL, { transports: ['websocket', 'polling'] });
+        
+        socketRef.current.on('connect', () => {
+            console.log('WebSocket connected, joining campaign run:', runId);
+            socketRef.current?.emit('join:campaign', runId);
+            
+            // Clear any polling since WS is active
+            if (pollIntervalRef.current) {
+                clearInterval(pollIntervalRef.current);
+                pollIntervalRef.current = null;
+            }
+        });
+
+        socketRef.current.on('email:status', (data: { email: string; status: string; error?: string; sender?: string }) => {
+            setSendProgress(prev => ({
+                ...prev,
+                [data.email]: {
+                    status: mapStatusToEnum(data.status),
+                    error: data.error,
+                    sender: data.sender ?? prev[data.email]?.sender,
+                }
+            }));
+        });
+
+        socketRef.current.on('campaign:completed', () => {
+            console.log('Campaign completed via WebSocket');
+            finishCampaign();
+        });
+
+        socketRef.current.on('campaign:paused', () => setIsPaused(true));
+        socketRef.current.on('campaign:resumed', () => setIsPaused(false));
+        socketRef.current.on('campaign:cancelled', () => finishCampaign());
+
+        // 3. Fallback Polling Setup
+        // If WebSocket disconnects or fails, polling takes over
+        socketRef.current.on('disconnect', () => {
+            console.log('WebSocket disconnected, falling back to polling...');
+            startPolling(runId);
+        });
+
+        // Always start polling initially just in case WS fails to connect at all
+        startPolling(runId);
+
+        // Setup polling function
+        function startPolling(campaignRunId: string) {
+            if (pollIntervalRef.current) return; // Already polling
+            
+            pollIntervalRef.current = setInterval(async () => {
+                try {
+                    const status = await apiClient.getCampaignRunStatus(campaignRunId);
+                    
+                    // Update progress from polling data
+                    setSendProgress(prev => {
+                        const newProgress = { ...prev };
+                        Object.entries(status.recipients).forEach(([email, data]) => {
+                            newProgress[email] = {
+                                status: mapStatusToEnum(data.status),
+                                error: data.error,
+                                sender: data.sender,
+                            };
+                        });
+                        return newProgress;
+                    });
+
+                    setIsPaused(status.status === 'paused');
+
+                    if (status.status === 'completed' || status.status === 'cancelled') {
+                        console.log(`Campaign ${status.status} via Polling`);
+                        finishCampaign();
+                    }
+                } catch (err) {
+                    console.error('Polling error:', err);
+                    // If 404, it might have expired or completed a while ago
+                }
+            }, 2000); // Poll every 2 seconds
+        }
+    }, [finishCampaign]);
+
     // Handle saving credentials
     const handleCredentialsSave = useCallback(async (creds: Credentials) => {
         try {
-            await apiClient.saveCredential(creds.email, creds.appPassword, true);
+            await apiClient.saveCredential(creds.email, creds.appPassword, true, creds.smtp);
             setCredentials(creds);
             setStep(2);
             return { success: true };
@@ -99,6 +266,55 @@ export function useCampaign() {
         setStep(4);
     }, []);
 
+    // Keep unsubmitted composer/review edits in state so they are autosaved
+    const handleEmailDraftChange = useCallback((template: EmailTemplate) => {
+        setEmailTemplate(template);
+    }, []);
+
+    const handleReviewSettingsChange = useCallback((settings: ReviewSettings) => {
+        setReviewSettings(settings);
+    }, []);
+
+    // Restore the wizard from a saved draft
+    const resumeDraft = useCallback(async (id: string) => {
+        try {
+            const { draft } = await apiClient.getDraft(id);
+
+            // The app password is never stored; the saved credential is used by email
+            const restoredCredentials = draft.credentialEmail
+                ? { email: draft.credentialEmail, appPassword: '' }
+                : null;
+
+            draftIdRef.current = draft.id;
+            setDraftId(draft.id);
+            setDraftStatus('saved');
+            setCredentials(restoredCredentials);
+            setRecipients(draft.recipients);
+            setEmailTemplate({ subject: draft.subject || '', body: draft.body || '', attachments: [], followUps: draft.sequence || [] });
+            setReviewSettings(draft.settings);
+
+            // Never resume past a step whose inputs are missing
+            let resumeStep = draft.step;
+            if (!restoredCredentials) resumeStep = 1;
+            else if (draft.recipients.length === 0) resumeStep = Math.min(resumeStep, 2);
+            else if (!draft.subject || !draft.body) resumeStep = Math.min(resumeStep, 3);
+            setStep(resumeStep);
+
+            return { success: true, missingAttachments: draft.attachments.map(a => a.name) };
+        } catch (error: any) {
+            return { success: false, error: error?.message || 'Failed to load draft', missingAttachments: [] as string[] };
+        }
+    }, []);
+
+    const deleteDraft = useCallback(async (id: string) => {
+        await apiClient.deleteDraft(id);
+        if (draftIdRef.current === id) {
+            draftIdRef.current = null;
+            setDraftId(null);
+            setDraftStatus('idle');
+        }
+    }, []);
+
     // Handle navigation
     const handleBack = useCallback(() => {
         if (step > 1) setStep(step - 1);
@@ -110,12 +326,55 @@ export function useCampaign() {
         recipientsToSend: Recipient[];
         batchSize: number;
         batchDelay: number;
+        senders?: CampaignSenderSetting[];
+        rotation?: SenderRotation;
+        sendWindow?: SendWindowSetting | null;
+        abTest?: AbTestSetting | null;
+        personalizationAcknowledged?: boolean;
     }) => {
         if (!credentials) return;
 
+        // Rotation only applies with more than one sender
+        const rotation = config.senders && config.senders.length > 1
+            ? { senders: config.senders, rotation: config.rotation }
+            : {};
+        // The window's hours are read in this browser's time zone unless recipients carry their own
+        const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const sendWindow = config.sendWindow ? { sendWindow: config.sendWindow, timezone } : {};
+
         if (config.time) {
-            setScheduledTime(config.time);
-            return;
+            try {
+                // The backend scheduler starts the campaign at this time, even if the tab is closed
+                const result = await apiClient.sendCampaign({
+                    credentialEmail: credentials.email,
+                    subject: emailTemplate.subject,
+                    body: emailTemplate.body,
+                    recipients: config.recipientsToSend,
+                    attachments: emailTemplate.attachments,
+                    batchSize: config.batchSize,
+                    batchDelay: config.batchDelay,
+                    sequence: emailTemplate.followUps,
+                    ...rotation,
+                    ...sendWindow,
+                    abTest: config.abTest,
+                    acknowledgePersonalization: config.personalizationAcknowledged,
+                    scheduledTime: config.time.toISOString(),
+                    timezone,
+                });
+                setScheduledCampaignId(result.campaignRunId);
+                setScheduledTime(config.time);
+                discardCurrentDraft();
+                return { success: true };
+            } catch (error: any) {
+                return { success: false, error: error?.message || 'Failed to schedule campaign', errorType: 'network' };
+            }
+        }
+
+        // "Send Now" on a scheduled campaign replaces the pending schedule
+        if (scheduledCampaignId) {
+            await apiClient.updateCampaign(scheduledCampaignId, { status: 'cancelled' }).catch(() => undefined);
+            setScheduledCampaignId(null);
+            setScheduledTime(null);
         }
 
         setIsSending(true);
@@ -136,6 +395,11 @@ export function useCampaign() {
                 attachments: emailTemplate.attachments,
                 batchSize: config.batchSize,
                 batchDelay: config.batchDelay,
+                sequence: emailTemplate.followUps,
+                ...rotation,
+                ...sendWindow,
+                abTest: config.abTest,
+                acknowledgePersonalization: config.personalizationAcknowledged,
             });
 
             if (!result.campaignRunId) {
@@ -151,84 +415,11 @@ export function useCampaign() {
             }
 
             const runId = result.campaignRunId;
+            setActiveRunId(runId);
+            discardCurrentDraft();
 
-            // 2. Setup WebSocket
-            socketRef.current = io(API_BASE_URL, { transports: ['websocket', 'polling'] });
-            
-            socketRef.current.on('connect', () => {
-                console.log('WebSocket connected, joining campaign run:', runId);
-                socketRef.current?.emit('join:campaign', runId);
-                
-                // Clear any polling since WS is active
-                if (pollIntervalRef.current) {
-                    clearInterval(pollIntervalRef.current);
-                    pollIntervalRef.current = null;
-                }
-            });
-
-            socketRef.current.on('email:status', (data: { email: string; status: string; error?: string }) => {
-                setSendProgress(prev => ({
-                    ...prev,
-                    [data.email]: {
-                        status: mapStatusToEnum(data.status),
-                        error: data.error,
-                    }
-                }));
-            });
-
-            socketRef.current.on('campaign:completed', () => {
-                console.log('Campaign completed via WebSocket');
-                finishCampaign();
-            });
-
-            // 3. Fallback Polling Setup
-            // If WebSocket disconnects or fails, polling takes over
-            socketRef.current.on('disconnect', () => {
-                console.log('WebSocket disconnected, falling back to polling...');
-                startPolling(runId);
-            });
-
-            // Always start polling initially just in case WS fails to connect at all
-            startPolling(runId);
-
-            // Finish logic
-            const finishCampaign = () => {
-                if (socketRef.current) socketRef.current.disconnect();
-                if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
-                setIsSending(false);
-                setIsCampaignFinished(true);
-            };
-
-            // Setup polling function
-            function startPolling(campaignRunId: string) {
-                if (pollIntervalRef.current) return; // Already polling
-                
-                pollIntervalRef.current = setInterval(async () => {
-                    try {
-                        const status = await apiClient.getCampaignRunStatus(campaignRunId);
-                        
-                        // Update progress from polling data
-                        setSendProgress(prev => {
-                            const newProgress = { ...prev };
-                            Object.entries(status.recipients).forEach(([email, data]) => {
-                                newProgress[email] = {
-                                    status: mapStatusToEnum(data.status),
-                                    error: data.error,
-                                };
-                            });
-                            return newProgress;
-                        });
-
-                        if (status.status === 'completed') {
-                            console.log('Campaign completed via Polling');
-                            finishCampaign();
-                        }
-                    } catch (err) {
-                        console.error('Polling error:', err);
-                        // If 404, it might have expired or completed a while ago
-                    }
-                }, 2000); // Poll every 2 seconds
-            }
+            // 2. Live progress over WebSocket, with polling as the fallback
+            watchRun(runId);
 
             return { success: true };
 
@@ -246,12 +437,86 @@ export function useCampaign() {
 
             return { success: false, error: errorMessage, errorType: 'network' };
         }
-    }, [credentials, emailTemplate]);
+    }, [credentials, emailTemplate, scheduledCampaignId, watchRun, discardCurrentDraft]);
+
+    // Pause / resume / cancel the active run
+    const handlePauseCampaign = useCallback(async () => {
+        if (!activeRunId) return { success: false, error: 'No campaign is running' };
+        try {
+            await apiClient.pauseCampaignRun(activeRunId);
+            setIsPaused(true);
+            return { success: true };
+        } catch (error: any) {
+            return { success: false, error: error?.message || 'Failed to pause campaign' };
+        }
+    }, [activeRunId]);
+
+    const handleResumeCampaign = useCallback(async () => {
+        if (!activeRunId) return { success: false, error: 'No campaign is running' };
+        try {
+            await apiClient.resumeCampaignRun(activeRunId);
+            setIsPaused(false);
+            return { success: true };
+        } catch (error: any) {
+            return { success: false, error: error?.message || 'Failed to resume campaign' };
+        }
+    }, [activeRunId]);
+
+    const handleCancelCampaign = useCallback(async () => {
+        if (!activeRunId) return { success: false, error: 'No campaign is running' };
+        try {
+            await apiClient.cancelCampaignRun(activeRunId);
+            setSendProgress(prev => {
+                const next = { ...prev };
+                Object.entries(next).forEach(([email, progress]) => {
+                    if (progress.status === EmailStatus.Queued) {
+                        next[email] = { status: EmailStatus.Cancelled, error: 'Cancelled before sending' };
+                    }
+                });
+                return next;
+            });
+            finishCampaign();
+            return { success: true };
+        } catch (error: any) {
+            return { success: false, error: error?.message || 'Failed to cancel campaign' };
+        }
+    }, [activeRunId, finishCampaign]);
+
+    // Send the failed recipients of a finished run again
+    const handleRetryFailed = useCallback(async () => {
+        if (!activeRunId) return { success: false, error: 'No campaign to retry' };
+        try {
+            const { retryCount } = await apiClient.retryFailedCampaignRun(activeRunId);
+            setSendProgress(prev => {
+                const next = { ...prev };
+                Object.entries(next).forEach(([email, progress]) => {
+                    if (progress.status === EmailStatus.Failed) {
+                        next[email] = { status: EmailStatus.Queued, sender: progress.sender };
+                    }
+                });
+                return next;
+            });
+            setIsCampaignFinished(false);
+            setIsSending(true);
+            watchRun(activeRunId);
+            return { success: true, retryCount };
+        } catch (error: any) {
+            return { success: false, error: error?.message || 'Failed to retry failed emails' };
+        }
+    }, [activeRunId, watchRun]);
 
     // Handle cancel schedule
-    const handleCancelSchedule = useCallback(() => {
+    const handleCancelSchedule = useCallback(async () => {
+        if (scheduledCampaignId) {
+            try {
+                await apiClient.updateCampaign(scheduledCampaignId, { status: 'cancelled' });
+            } catch (error) {
+                console.error('Failed to cancel scheduled campaign:', error);
+            }
+        }
+        setScheduledCampaignId(null);
         setScheduledTime(null);
-    }, []);
+    }, [scheduledCampaignId]);
 
     // Reset campaign
     const handleReset = useCallback(() => {
@@ -263,6 +528,14 @@ export function useCampaign() {
         setIsSending(false);
         setIsCampaignFinished(false);
         setScheduledTime(null);
+        setScheduledCampaignId(null);
+        setActiveRunId(null);
+        setIsPaused(false);
+        setReviewSettings(null);
+        if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+        draftIdRef.current = null;
+        setDraftId(null);
+        setDraftStatus('idle');
     }, []);
 
     return {
@@ -275,8 +548,12 @@ export function useCampaign() {
         sendProgress,
         isSending,
         isCampaignFinished,
+        isPaused,
         scheduledTime,
         totalSteps,
+        reviewSettings,
+        draftId,
+        draftStatus,
 
         // Actions
         handleCredentialsSave,
@@ -285,7 +562,15 @@ export function useCampaign() {
         handleBack,
         handleSendCampaign,
         handleCancelSchedule,
+        handlePauseCampaign,
+        handleResumeCampaign,
+        handleCancelCampaign,
+        handleRetryFailed,
         handleReset,
+        handleEmailDraftChange,
+        handleReviewSettingsChange,
+        resumeDraft,
+        deleteDraft,
     };
 }
 
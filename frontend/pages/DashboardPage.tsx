@@ -11,6 +11,8 @@ import Confetti from '../components/Confetti';
 import EmailPreview from '../components/EmailPreview';
 import AnalyticsDashboard from '../components/analytics/AnalyticsDashboard';
 import { useToast } from '../components/Toast';
+import apiClient from '../services/api';
+import { Credentials, CredentialQuota, CredentialQuotaInput, DraftSummary } from '../types';
 
 /**
  * DashboardPage Component - Main Campaign Workflow
@@ -40,6 +42,58 @@ const DashboardPage: React.FC = () => {
         window.history.replaceState({}, '', url.toString());
     }, [activeTab]);
 
+    // Saved drafts for the "resume draft" picker
+    const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+
+    useEffect(() => {
+        apiClient.getDrafts()
+            .then(({ drafts }) => setDrafts(drafts))
+            .catch((error) => console.error('Failed to load drafts:', error));
+    }, []);
+
+    const handleResumeDraft = async (id: string) => {
+        const result = await campaign.resumeDraft(id);
+        if (!result.success) {
+            toast.error('Could not resume draft', result.error);
+            return;
+        }
+        setDrafts(prev => prev.filter(d => d.id !== id));
+        if (result.missingAttachments.length > 0) {
+            toast.warning('Re-attach files', `Attachments aren't kept in drafts: ${result.missingAttachments.join(', ')}`);
+        } else {
+            toast.info('Draft resumed', 'Picking up where you left off.');
+        }
+    };
+
+    const handleDeleteDraft = async (id: string) => {
+        try {
+            await campaign.deleteDraft(id);
+            setDrafts(prev => prev.filter(d => d.id !== id));
+        } catch (error: any) {
+            toast.error('Could not delete draft', error?.message);
+        }
+    };
+
+    // Per-sender daily limits; refreshed when a campaign finishes or the sender changes
+    const [quotas, setQuotas] = useState<CredentialQuota[]>([]);
+
+    useEffect(() => {
+        apiClient.getSendingQuotas()
+            .then(({ quotas }) => setQuotas(quotas))
+            .catch((error) => console.error('Failed to load sending limits:', error));
+    }, [campaign.credentials?.email, campaign.isCampaignFinished]);
+
+    const handleQuotaChange = async (credentialId: string, input: CredentialQuotaInput) => {
+        try {
+            const { quota } = await apiClient.updateSendingQuota(credentialId, input);
+            setQuotas(prev => prev.map(q => q.credentialId === credentialId ? quota : q));
+            toast.success('Sending limit saved', quota.limit === null ? `${quota.email} has no daily limit.` : `${quota.email}: ${quota.limit} emails today.`);
+        } catch (error: any) {
+            toast.error('Could not save sending limit', error?.message);
+            throw error;
+        }
+    };
+
     // UI state
     const [showConfetti, setShowConfetti] = useState(false);
     const [showPreview, setShowPreview] = useState(false);
@@ -80,7 +134,7 @@ const DashboardPage: React.FC = () => {
         ? Math.round((totalSent / (totalSent + totalFailed)) * 100)
         : 100;
 
-    const handleCredentialsSave = async (creds: { email: string; appPassword: string }) => {
+    const handleCredentialsSave = async (creds: Credentials) => {
         const result = await campaign.handleCredentialsSave(creds);
         if (!result.success && result.error) {
             if (result.error.toLowerCase().includes('network') || result.error.toLowerCase().includes('fetch')) {
@@ -142,12 +196,14 @@ const DashboardPage: React.FC = () => {
                 </div>
 
                 {/* Dashboard Stats - Show when there's activity */}
-                {activeTab === 'campaign' && (totalSent > 0 || campaign.recipients.length > 0) && (
+                {activeTab === 'campaign' && (totalSent > 0 || campaign.recipients.length > 0 || quotas.length > 0) && (
                     <DashboardStats
                         totalSent={totalSent}
                         successRate={successRate}
                         todaySent={totalSent}
                         pendingCount={campaign.recipients.length - totalSent - totalFailed}
+                        quotas={quotas}
+                        onQuotaChange={handleQuotaChange}
                     />
                 )}
 
@@ -174,9 +230,52 @@ const DashboardPage: React.FC = () => {
                     <AnalyticsDashboard />
                 ) : (
                     <>
+                        {/* Resume Draft Picker */}
+                        {campaign.step === 1 && !campaign.draftId && drafts.length > 0 && (
+                            <div className="glass-card p-4 sm:p-5 mb-6">
+                                <h3 className="text-sm font-semibold mb-3" style={{ color: '#f1f5f9' }}>Resume a draft</h3>
+                                <div className="space-y-2 max-h-[220px] overflow-y-auto pr-2 custom-scrollbar">
+                                    {drafts.map(draft => (
+                                        <div key={draft.id} className="flex items-center justify-between gap-3 px-4 py-3 rounded-lg"
+                                            style={{ background: 'rgba(148, 163, 184, 0.06)', border: '1px solid rgba(148, 163, 184, 0.12)' }}>
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-medium truncate" style={{ color: '#f1f5f9' }}>
+                                                    {draft.name || draft.subject || 'Untitled draft'}
+                                                </p>
+                                                <p className="text-xs" style={{ color: '#64748b' }}>
+                                                    Step {draft.step} of {campaign.totalSteps} · {draft.recipientCount} recipients · saved {new Date(draft.updatedAt).toLocaleString()}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-3 shrink-0">
+                                                <button
+                                                    onClick={() => handleResumeDraft(draft.id)}
+                                                    className="px-3 py-1.5 rounded-lg text-xs font-semibold text-white"
+                                                    style={{ background: 'linear-gradient(135deg, #6366f1, #a855f7)' }}
+                                                >
+                                                    Resume
+                                                </button>
+                                                <button onClick={() => handleDeleteDraft(draft.id)} className="text-xs text-red-400 hover:text-red-300">
+                                                    Discard
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Step Indicator */}
                         <StepIndicator currentStep={campaign.step} totalSteps={campaign.totalSteps} />
 
+                        {/* Draft autosave status */}
+                        {campaign.draftStatus !== 'idle' && (
+                            <p className="text-right text-xs mt-2" style={{ color: campaign.draftStatus === 'error' ? '#f87171' : '#64748b' }}>
+                                {campaign.draftStatus === 'saving' && 'Saving draft…'}
+                                {campaign.draftStatus === 'saved' && 'Draft saved'}
+                                {campaign.draftStatus === 'error' && 'Draft not saved - check your connection'}
+                            </p>
+                        )}
+
                         {/* Main Content with Step Transition */}
                         <div className="glass-card p-4 sm:p-8 mt-6">
                             <div className="step-enter">
@@ -197,6 +296,7 @@ const DashboardPage: React.FC = () => {
                         {campaign.step === 3 && (
                             <EmailComposer
                                 onCompose={campaign.handleEmailCompose}
+                                onChange={campaign.handleEmailDraftChange}
                                 onBack={campaign.handleBack}
                                 recipients={campaign.recipients}
                                 availableTags={campaign.availableTags}
@@ -227,7 +327,10 @@ const DashboardPage: React.FC = () => {
                                     sendProgress={campaign.sendProgress}
                                     isSending={campaign.isSending}
                                     isCampaignFinished={campaign.isCampaignFinished}
+                                    isPaused={campaign.isPaused}
                                     scheduledTime={campaign.scheduledTime}
+                                    initialSettings={campaign.reviewSettings}
+                                    onSettingsChange={campaign.handleReviewSettingsChange}
                                     onScheduleOrSend={async (config) => {
                                         const result = await campaign.handleSendCampaign(config);
                                         if (!result) return;
@@ -246,6 +349,8 @@ const DashboardPage: React.FC = () => {
                                             } else {
                                                 toast.error('Send Failed', errorMsg);
                                             }
+                                        } else if (config.time) {
+                                            toast.info('Campaign Scheduled', `Sending starts ${config.time.toLocaleString()}, even if you close this tab.`);
                                         } else if (result.success) {
                                             const r = result as any;
                                             if (r.failed > 0 && r.sent > 0) {
@@ -263,6 +368,26 @@ const DashboardPage: React.FC = () => {
                                         }
                                     }}
                                     onCancelSchedule={campaign.handleCancelSchedule}
+                                    onPause={async () => {
+                                        const result = await campaign.handlePauseCampaign();
+                                        if (result.success) toast.info('Campaign Paused', 'No further emails will be sent until you resume.');
+                                        else toast.error('Pause Failed', result.error);
+                                    }}
+                                    onResume={async () => {
+                                        const result = await campaign.handleResumeCampaign();
+                                        if (result.success) toast.info('Campaign Resumed', 'Sending picks up where it left off.');
+                                        else toast.error('Resume Failed', result.error);
+                                    }}
+                                    onCancel={async () => {
+                                        const result = await campaign.handleCancelCampaign();
+                                        if (result.success) toast.warning('Campaign Cancelled', 'Remaining recipients were not emailed.');
+                                        else toast.error('Cancel Failed', result.error);
+                                    }}
+                                    onRetryFailed={async () => {
+                                        const result = await campaign.handleRetryFailed();
+                                        if (result.success) toast.info('Retrying Failed Emails', `${result.retryCount} recipient(s) queued again.`);
+                                        else toast.error('Retry Failed', result.error);
+                                    }}
                                     onBack={campaign.handleBack}
                                     onReset={campaign.handleReset}
                                 />
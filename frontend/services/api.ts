@@ -4,7 +4,7 @@
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
-import { TrackingStats, TrackingDetail, PaginationMeta } from '../types';
+import { TrackingStats, TrackingDetail, PaginationMeta, SavedTemplate, TemplateVersionSummary, DraftSummary, CampaignDraft, FollowUpStep, CampaignSenderSetting, SenderRotation, SendWindowSetting, SmtpProvider, SmtpProviderPreset, SmtpSettingsInput, CredentialQuota, CredentialQuotaInput, PersonalizationReport, AbTestSetting, VariantResults, RecipientImportResult, ColumnMapping } from '../types';
 
 // Configuration
 const CONFIG = {
@@ -19,6 +19,7 @@ interface RequestConfig extends RequestInit {
     timeout?: number;
     retries?: number;
     skipRetry?: boolean;
+    skipAuthRefresh?: boolean; // Don't try a token refresh on 401 (auth calls, replays)
 }
 
 interface ApiError extends Error {
@@ -48,10 +49,21 @@ function delay(ms: number): Promise<void> {
 class ApiClient {
     private baseURL: string;
     private token: string | null = null;
+    private refreshPromise: Promise<boolean> | null = null;
+    private sessionExpiredHandler: (() => void) | null = null;
 
     constructor(baseURL: string) {
         this.baseURL = baseURL;
         this.token = localStorage.getItem('accessToken');
+        // Refresh tokens now live in an httpOnly cookie
+        localStorage.removeItem('refreshToken');
+    }
+
+    /**
+     * Called when the session can no longer be refreshed (user must log in again)
+     */
+    onSessionExpired(handler: (() => void) | null) {
+        this.sessionExpiredHandler = handler;
     }
 
     setToken(token: string | null) {
@@ -74,6 +86,7 @@ class ApiClient {
             timeout = CONFIG.timeout,
             retries = CONFIG.maxRetries,
             skipRetry = false,
+            skipAuthRefresh = false,
             ...fetchOptions
         } = options;
 
@@ -95,6 +108,7 @@ class ApiClient {
                 const response = await fetch(`${this.baseURL}${endpoint}`, {
                     ...fetchOptions,
                     headers,
+                    credentials: 'include', // Send the refresh token cookie
                     signal: controller.signal,
                 });
 
@@ -110,11 +124,20 @@ class ApiClient {
                     } catch {
                         data = { error: 'Invalid JSON response from server' };
                     }
+                } else if (response.ok && contentType?.includes('text/csv')) {
+                    data = await response.text();
                 } else {
                     const text = await response.text();
                     data = { error: text || 'Unexpected server response' };
                 }
 
+                // Access token expired - refresh once and replay the request
+                if (response.status === 401 && !skipAuthRefresh && this.token) {
+                    if (await this.refreshSession()) {
+                        return this.request<T>(endpoint, { ...options, skipAuthRefresh: true });
+                    }
+                }
+
                 if (!response.ok) {
                     const error: ApiError = new Error(
                         this.extractErrorMessage(data, response)
@@ -170,6 +193,9 @@ class ApiClient {
      * Extract error message from various response formats
      */
     private extractErrorMessage(data: any, response: Response): string {
+        // Field-level validation messages say more than "Validation failed"
+        const fieldErrors: Array<{ message: string }> | undefined = data?.error?.details?.errors;
+        if (fieldErrors?.length) return fieldErrors.map(e => e.message).join('; ');
         if (data?.error?.message) return data.error.message;
         if (typeof data?.error === 'string') return data.error;
         if (data?.message) return data.message;
@@ -182,14 +208,13 @@ class ApiClient {
         const data = await this.request<{
             user: any;
             accessToken: string;
-            refreshToken: string;
         }>('/auth/register', {
             method: 'POST',
             body: JSON.stringify({ email, password, fullName }),
             skipRetry: true, // Don't retry auth requests
+            skipAuthRefresh: true,
         });
         this.setToken(data.accessToken);
-        localStorage.setItem('refreshToken', data.refreshToken);
         return data;
     }
 
@@ -197,14 +222,13 @@ class ApiClient {
         const data = await this.request<{
             user: any;
             accessToken: string;
-            refreshToken: string;
         }>('/auth/login', {
             method: 'POST',
             body: JSON.stringify({ email, password }),
             skipRetry: true,
+            skipAuthRefresh: true,
         });
         this.setToken(data.accessToken);
-        localStorage.setItem('refreshToken', data.refreshToken);
         return data;
     }
 
@@ -212,39 +236,92 @@ class ApiClient {
         return this.request<{ user: any }>('/auth/me');
     }
 
+    /**
+     * Get a new access token using the httpOnly refresh cookie
+     */
     async refreshToken() {
-        const refreshToken = localStorage.getItem('refreshToken');
-        if (!refreshToken) {
-            throw new Error('No refresh token available');
-        }
-
         const data = await this.request<{ accessToken: string }>('/auth/refresh', {
             method: 'POST',
-            body: JSON.stringify({ refreshToken }),
             skipRetry: true,
+            skipAuthRefresh: true,
         });
 
         this.setToken(data.accessToken);
         return data;
     }
 
+    /**
+     * Refreshes the session, sharing one in-flight refresh between concurrent
+     * 401s (the server rejects a refresh token that is used twice).
+     * Only a rejected refresh token ends the session; a rate limited refresh
+     * leaves it in place for the next request to try again.
+     */
+    private refreshSession(): Promise<boolean> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.refreshWithBackoff()
+                .then(() => true)
+                .catch((error: ApiError) => {
+                    if (error.status !== 429) {
+                        this.setToken(null);
+                        this.sessionExpiredHandler?.();
+                    }
+                    return false;
+                })
+                .finally(() => {
+                    this.refreshPromise = null;
+                });
+        }
+        return this.refreshPromise;
+    }
+
+    /**
+     * Retries a rate limited refresh with exponential backoff. The limiter
+     * answers before the token is checked, so retrying can't reuse it.
+     */
+    private async refreshWithBackoff(): Promise<void> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await this.refreshToken();
+                return;
+            } catch (error: any) {
+                if (error.status !== 429 || attempt >= CONFIG.maxRetries) {
+                    throw error;
+                }
+                await delay(CONFIG.retryDelay * Math.pow(2, attempt));
+            }
+        }
+    }
+
     async logout() {
         try {
-            await this.request('/auth/logout', { method: 'POST', skipRetry: true });
+            await this.request('/auth/logout', { method: 'POST', skipRetry: true, skipAuthRefresh: true });
         } catch {
             // Ignore errors - still clear local token
         } finally {
             this.setToken(null);
-            localStorage.removeItem('refreshToken');
         }
     }
 
     // ============= Credential Endpoints =============
 
-    async saveCredential(email: string, appPassword: string, isDefault?: boolean) {
+    async saveCredential(email: string, appPassword: string, isDefault?: boolean, smtp?: SmtpSettingsInput) {
         return this.request<{ credential: any }>('/credentials', {
             method: 'POST',
-            body: JSON.stringify({ email, appPassword, isDefault }),
+            body: JSON.stringify({ email, appPassword, isDefault, ...smtp }),
+        });
+    }
+
+    async getSmtpProviders() {
+        return this.request<{ providers: Record<SmtpProvider, SmtpProviderPreset> }>('/credentials/providers');
+    }
+
+    /**
+     * Logs in to the SMTP server with unsaved settings
+     */
+    async testCredential(email: string, appPassword: string, smtp?: SmtpSettingsInput) {
+        return this.request<{ success: boolean; message: string }>('/credentials/test', {
+            method: 'POST',
+            body: JSON.stringify({ email, appPassword, ...smtp }),
         });
     }
 
@@ -252,6 +329,20 @@ class ApiClient {
         return this.request<{ credentials: any[] }>('/credentials');
     }
 
+    async getSendingQuotas() {
+        return this.request<{ quotas: CredentialQuota[] }>('/credentials/quotas');
+    }
+
+    /**
+     * Sets a sender's daily limit; turning warm-up on starts the ramp today
+     */
+    async updateSendingQuota(id: string, data: CredentialQuotaInput) {
+        return this.request<{ quota: CredentialQuota }>(`/credentials/${id}/quota`, {
+            method: 'PUT',
+            body: JSON.stringify(data),
+        });
+    }
+
     async deleteCredential(id: string) {
         return this.request<{ message: string }>(`/credentials/${id}`, {
             method: 'DELETE',
@@ -296,15 +387,26 @@ class ApiClient {
         });
     }
 
+    async getCampaignVariants(id: string) {
+        return this.request<VariantResults>(`/campaigns/${id}/variants`);
+    }
+
     async deleteCampaign(id: string) {
         return this.request<{ message: string }>(`/campaigns/${id}`, {
             method: 'DELETE',
         });
     }
 
-    async uploadRecipients(file: File) {
+    /**
+     * Parse an Excel, CSV/TSV or vCard recipient file on the server, optionally
+     * with a column mapping that overrides the header aliases
+     */
+    async uploadRecipients(file: File, mapping?: ColumnMapping): Promise<RecipientImportResult> {
         const formData = new FormData();
         formData.append('file', file);
+        if (mapping) {
+            formData.append('mapping', JSON.stringify(mapping));
+        }
 
         const { controller, timeoutId } = createTimeoutController(60000); // 60s for uploads
 
@@ -320,7 +422,7 @@ class ApiClient {
             const data = await response.json();
 
             if (!response.ok) {
-                throw new Error(data.error || 'Upload failed');
+                throw new Error(this.extractErrorMessage(data, response));
             }
 
             return data;
@@ -337,41 +439,33 @@ class ApiClient {
      * Send campaign emails via backend (secure - no credentials exposed)
      */
     async sendCampaign(data: {
+        campaignId?: string;
         credentialEmail: string;
         subject: string;
         body: string;
         recipients: Array<{
             email: string;
-            fullName: string;
-            companyName: string;
-            jobTitle?: string;
+            [key: string]: any;
         }>;
         attachments?: File[];
         batchSize?: number;
         batchDelay?: number;
+        scheduledTime?: string;
+        timezone?: string;
+        sequence?: FollowUpStep[];
+        senders?: CampaignSenderSetting[];
+        rotation?: SenderRotation;
+        sendWindow?: SendWindowSetting | null;
+        abTest?: AbTestSetting | null;
+        acknowledgePersonalization?: boolean;
     }) {
-        // Convert File objects to base64 for JSON transport
-        let attachmentsData: Array<{ filename: string; content: string; contentType: string }> | undefined;
-
-        if (data.attachments && data.attachments.length > 0) {
-            attachmentsData = await Promise.all(
-                data.attachments.map(async (file) => {
-                    const buffer = await file.arrayBuffer();
-                    const base64 = btoa(
-                        new Uint8Array(buffer).reduce((d, byte) => d + String.fromCharCode(byte), '')
-                    );
-                    return {
-                        filename: file.name,
-                        content: base64,
-                        contentType: file.type || 'application/octet-stream',
-                    };
-                })
-            );
-        }
+        const attachmentsData = await this.encodeAttachments(data.attachments);
 
         return this.request<{
             message: string;
             campaignRunId: string | null;
+            scheduledTime?: string;
+            timezone?: string;
             summary: { total: number; validCount: number; invalidCount: number };
         }>('/campaigns/send', {
             method: 'POST',
@@ -384,21 +478,108 @@ class ApiClient {
         });
     }
 
+    /**
+     * Check merge fields against the recipient list before sending
+     */
+    async lintPersonalization(data: {
+        subject: string;
+        body: string;
+        sequence?: FollowUpStep[];
+        variants?: Array<{ subject: string }>;
+        recipients: Array<{ email: string; [key: string]: any }>;
+    }) {
+        return this.request<PersonalizationReport>('/campaigns/lint', {
+            method: 'POST',
+            body: JSON.stringify(data),
+            skipRetry: true,
+        });
+    }
+
+    /**
+     * Render the subject and body for one recipient, exactly as sending would
+     */
+    async previewEmail(data: { subject: string; body: string; recipient: Record<string, any> }) {
+        return this.request<{ subject: string; html: string }>('/campaigns/preview', {
+            method: 'POST',
+            body: JSON.stringify(data),
+            skipRetry: true,
+        });
+    }
+
+    /**
+     * Send one personalized copy to the user's own inbox (no tracking)
+     */
+    async sendTestEmail(data: {
+        credentialEmail: string;
+        subject: string;
+        body: string;
+        recipient: { email: string; [key: string]: any };
+        attachments?: File[];
+        to?: string[];
+    }) {
+        return this.request<{
+            message: string;
+            messageId: string;
+            sentTo: string[];
+            previewedRecipient: string;
+        }>('/campaigns/test-send', {
+            method: 'POST',
+            body: JSON.stringify({
+                ...data,
+                attachments: await this.encodeAttachments(data.attachments),
+            }),
+            timeout: 30000,
+            skipRetry: true, // Don't send the test twice
+        });
+    }
+
+    /**
+     * Converts File objects to base64 for JSON transport
+     */
+    private async encodeAttachments(files?: File[]) {
+        if (!files || files.length === 0) return undefined;
+
+        return Promise.all(
+            files.map(async (file) => {
+                const buffer = await file.arrayBuffer();
+                const base64 = btoa(
+                    new Uint8Array(buffer).reduce((d, byte) => d + String.fromCharCode(byte), '')
+                );
+                return {
+                    filename: file.name,
+                    content: base64,
+                    contentType: file.type || 'application/octet-stream',
+                };
+            })
+        );
+    }
+
     /**
      * Poll campaign run status
      */
     async getCampaignRunStatus(runId: string) {
         return this.request<{
             id: string;
-            status: 'running' | 'completed';
+            status: 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
             totalCount: number;
             sentCount: number;
             failedCount: number;
+            cancelledCount: number;
             recipients: Record<string, {
                 email: string;
-                status: 'queued' | 'sending' | 'sent' | 'failed';
+                status: 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
                 error?: string;
                 sentAt?: string;
+                sender?: string;
+            }>;
+            senders: Array<{
+                email: string;
+                weight: number;
+                dailyCap: number | null;
+                sentCount: number;
+                status: 'active' | 'paused' | 'disabled';
+                pausedUntil?: string;
+                error?: string;
             }>;
             startedAt: string;
             completedAt?: string;
@@ -408,6 +589,51 @@ class ApiClient {
         });
     }
 
+    /**
+     * Pause a running campaign (emails already handed to SMTP still go out)
+     */
+    async pauseCampaignRun(runId: string) {
+        return this.request<{ message: string; runId: string; status: string }>(`/campaigns/run/${runId}/pause`, {
+            method: 'POST',
+            skipRetry: true,
+        });
+    }
+
+    /**
+     * Resume a paused campaign
+     */
+    async resumeCampaignRun(runId: string) {
+        return this.request<{ message: string; runId: string; status: string }>(`/campaigns/run/${runId}/resume`, {
+            method: 'POST',
+            skipRetry: true,
+        });
+    }
+
+    /**
+     * Cancel a campaign - every recipient not yet sent is dropped
+     */
+    async cancelCampaignRun(runId: string) {
+        return this.request<{
+            message: string;
+            runId: string;
+            status: string;
+            summary: { sent: number; failed: number; total: number };
+        }>(`/campaigns/run/${runId}/cancel`, {
+            method: 'POST',
+            skipRetry: true,
+        });
+    }
+
+    /**
+     * Send the failed recipients of a completed campaign again
+     */
+    async retryFailedCampaignRun(runId: string) {
+        return this.request<{ message: string; runId: string; status: string; retryCount: number }>(`/campaigns/run/${runId}/retry-failed`, {
+            method: 'POST',
+            skipRetry: true,
+        });
+    }
+
     /**
      * Get tracking statistics (summary)
      */
@@ -443,6 +669,88 @@ class ApiClient {
         });
     }
 
+    // ============= Template Endpoints =============
+
+    async getTemplates(search?: string) {
+        const query = search ? `?search=${encodeURIComponent(search)}` : '';
+        return this.request<{ templates: SavedTemplate[] }>(`/templates${query}`);
+    }
+
+    async getTemplate(id: string) {
+        return this.request<{
+            template: SavedTemplate & { versions: TemplateVersionSummary[] };
+        }>(`/templates/${id}`);
+    }
+
+    async createTemplate(data: { name: string; subject: string; body: string }) {
+        return this.request<{ template: SavedTemplate }>('/templates', {
+            method: 'POST',
+            body: JSON.stringify(data),
+            skipRetry: true,
+        });
+    }
+
+    async updateTemplate(id: string, data: { name?: string; subject?: string; body?: string }) {
+        return this.request<{ template: SavedTemplate }>(`/templates/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify(data),
+            skipRetry: true,
+        });
+    }
+
+    async deleteTemplate(id: string) {
+        return this.request<{ message: string }>(`/templates/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    async duplicateTemplate(id: string, name?: string) {
+        return this.request<{ template: SavedTemplate }>(`/templates/${id}/duplicate`, {
+            method: 'POST',
+            body: JSON.stringify({ name }),
+            skipRetry: true,
+        });
+    }
+
+    async restoreTemplateVersion(id: string, version: number) {
+        return this.request<{ template: SavedTemplate }>(`/templates/${id}/versions/${version}/restore`, {
+            method: 'POST',
+            skipRetry: true,
+        });
+    }
+
+    // ============= Draft Endpoints =============
+
+    async getDrafts() {
+        return this.request<{ drafts: DraftSummary[] }>('/drafts');
+    }
+
+    async getDraft(id: string) {
+        return this.request<{ draft: CampaignDraft }>(`/drafts/${id}`);
+    }
+
+    async createDraft(data: Partial<Omit<CampaignDraft, 'id' | 'updatedAt'>>) {
+        return this.request<{ draft: CampaignDraft }>('/drafts', {
+            method: 'POST',
+            body: JSON.stringify(data),
+            skipRetry: true,
+        });
+    }
+
+    async updateDraft(id: string, data: Partial<Omit<CampaignDraft, 'id' | 'updatedAt'>>) {
+        return this.request<{ draft: CampaignDraft }>(`/drafts/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify(data),
+            skipRetry: true, // The next autosave supersedes a failed one
+        });
+    }
+
+    async deleteDraft(id: string) {
+        return this.request<{ message: string }>(`/drafts/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
     // ============= Generic HTTP Methods =============
 
     async get<T>(endpoint: string): Promise<T> {
@@ -1,9 +1,62 @@
 /**
- * User credentials for Gmail SMTP authentication
+ * User credentials for SMTP authentication
  */
 export interface Credentials {
   email: string;
   appPassword: string;
+  smtp?: SmtpSettingsInput; // Omitted = Gmail
+}
+
+export type SmtpProvider = 'gmail' | 'outlook' | 'zoho' | 'yahoo' | 'custom';
+export type SmtpSecurity = 'starttls' | 'ssl';
+export type SmtpAuthType = 'login' | 'plain' | 'cram-md5';
+
+/**
+ * Sender server settings; anything left out comes from the provider preset
+ */
+export interface SmtpSettingsInput {
+  provider: SmtpProvider;
+  host?: string;
+  port?: number;
+  security?: SmtpSecurity;
+  authType?: SmtpAuthType;
+  username?: string;
+}
+
+export interface SmtpProviderPreset {
+  label: string;
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  authType: SmtpAuthType;
+  imapHost: string | null;
+  imapPort: number | null;
+  passwordHint: string;
+}
+
+/**
+ * A sender's daily limit and today's usage (UTC days)
+ */
+export interface CredentialQuota {
+  credentialId: string;
+  email: string;
+  sentToday: number;
+  limit: number | null; // Today's limit, lower than dailyLimit during warm-up; null = no limit
+  dailyLimit: number | null;
+  resetsAt: string;
+  warmup: {
+    day: number;
+    days: number;
+    startLimit: number;
+    complete: boolean;
+  } | null;
+}
+
+export interface CredentialQuotaInput {
+  dailyLimit: number | null;
+  warmup: boolean;
+  warmupStartLimit?: number;
+  warmupDays?: number;
 }
 
 /**
@@ -14,6 +67,29 @@ export interface Recipient {
   [key: string]: any;
 }
 
+/**
+ * Recipients parsed from an uploaded Excel, CSV/TSV or vCard file, with the
+ * rows that were skipped and why
+ */
+export interface RecipientImportResult {
+  recipients: Recipient[];
+  count: number;
+  errors: Array<{ row: number; value: string; error: string }>;
+  format: 'excel' | 'delimited' | 'vcard';
+  encoding?: string;
+  delimiter?: string;
+  // Spreadsheets and delimited files only
+  headers?: string[];
+  preview?: string[][];
+  mapping?: ColumnMapping;
+}
+
+/**
+ * Where each column of an uploaded list goes: header -> fullName, email,
+ * companyName, jobTitle or a custom merge field; null leaves it out
+ */
+export type ColumnMapping = Record<string, string | null>;
+
 /**
  * Email template with personalization placeholders
  */
@@ -21,6 +97,17 @@ export interface EmailTemplate {
   subject: string;
   body: string;
   attachments?: File[];
+  followUps?: FollowUpStep[];
+}
+
+/**
+ * Follow-up email sent after the campaign email when its condition holds
+ */
+export interface FollowUpStep {
+  delayHours: number; // Wait after the previous email of the sequence
+  condition: 'not_opened' | 'not_clicked' | 'not_replied';
+  subject?: string; // Blank = "Re: <campaign subject>"
+  body: string;
 }
 
 /**
@@ -29,8 +116,10 @@ export interface EmailTemplate {
 export enum EmailStatus {
   Queued = 'Queued',
   Sending = 'Sending',
+  Retrying = 'Retrying',
   Sent = 'Sent',
   Failed = 'Failed',
+  Cancelled = 'Cancelled',
 }
 
 /**
@@ -39,6 +128,54 @@ export enum EmailStatus {
 export interface SendProgressState {
   status: EmailStatus;
   error?: string;
+  sender?: string; // Address the email went out from
+}
+
+export type SenderRotation = 'round_robin' | 'weighted';
+
+/**
+ * A connected account in a campaign's sender rotation
+ */
+export interface CampaignSenderSetting {
+  email: string;
+  weight: number;
+  dailyCap?: number;
+}
+
+/**
+ * Days and hours a campaign may send in, in the browser's time zone or,
+ * with recipientTimezones, in each recipient's own (a "Timezone" column)
+ */
+export interface SendWindowSetting {
+  days: number[]; // 0 = Sunday … 6 = Saturday
+  start: string; // "09:00"
+  end: string; // "17:00"
+  recipientTimezones: boolean;
+}
+
+/**
+ * Subject lines tested against the campaign's own, which is variant "A".
+ * Once each has gone to sampleSize recipients, the best open rate wins.
+ */
+export interface AbTestSetting {
+  variants: Array<{ subject: string }>; // Labelled "B", "C", …
+  sampleSize: number;
+}
+
+/**
+ * How each A/B subject variant of a campaign is doing
+ */
+export interface VariantResults {
+  sampleSize: number | null;
+  winner: string | null; // Label, once promoted
+  variants: Array<{
+    label: string;
+    subject: string;
+    sent: number;
+    opened: number;
+    openRate: number; // Percent
+    isWinner: boolean;
+  }>;
 }
 
 /**
@@ -50,6 +187,8 @@ export interface TrackingStats {
   openRate: number;
   totalClicks: number;
   uniqueClicks: number;
+  totalReplied: number;
+  replyRate: number;
 }
 
 /**
@@ -63,6 +202,8 @@ export interface TrackingDetail {
   openCount: number;
   firstOpenedAt?: string;
   lastOpenedAt?: string;
+  replied: boolean;
+  repliedAt?: string;
   clicks: number;
   links: Array<{
     url: string;
@@ -80,3 +221,81 @@ export interface PaginationMeta {
   limit: number;
   totalPages: number;
 }
+
+/**
+ * Saved email template (server-side library)
+ */
+export interface SavedTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  tags: string[];
+  currentVersion: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Entry in a template's version history
+ */
+export interface TemplateVersionSummary {
+  version: number;
+  name: string;
+  subject: string;
+  createdAt: string;
+}
+
+/**
+ * Review step settings (step 4) kept in drafts
+ */
+export interface ReviewSettings {
+  selectedEmails: string[];
+  batchSize: number;
+  batchDelay: number;
+  scheduleDateTime?: string;
+  senders?: CampaignSenderSetting[]; // Empty or missing = the Step 1 sender only
+  rotation?: SenderRotation;
+  sendWindow?: SendWindowSetting | null; // null = send any time
+  abTest?: AbTestSetting | null; // null = no subject test
+}
+
+/**
+ * Draft as listed in the resume picker
+ */
+export interface DraftSummary {
+  id: string;
+  name?: string | null;
+  step: number;
+  credentialEmail?: string | null;
+  subject?: string | null;
+  recipientCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Full autosaved wizard state
+ */
+export interface CampaignDraft {
+  id: string;
+  name?: string | null;
+  step: number;
+  credentialEmail?: string | null;
+  subject?: string | null;
+  body?: string | null;
+  recipients: Recipient[];
+  attachments: Array<{ name: string; size: number; type?: string }>;
+  settings: ReviewSettings | null;
+  sequence: FollowUpStep[];
+  updatedAt: string;
+}
+
+/**
+ * Merge fields the recipient list can't fill, checked before sending
+ */
+export interface PersonalizationReport {
+  placeholders: string[];
+  unknownPlaceholders: string[]; // No recipient has the column
+  blankRecipients: Array<{ email: string; fields: string[] }>; // Blank values for printed fields
+}